@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { addMonths, format, parseISO } from "date-fns";
+import pageStyles from "../page.module.css";
+import styles from "./page.module.css";
+import BarChart from "../components/BarChart";
+import SignInForm from "../components/SignInForm";
+import { typeStyleOf } from "../components/typeStyles";
+import {
+  dailyBalances,
+  efficiencyBands,
+  efficiencyDistribution,
+  monthlyTrends,
+  monthsBetween,
+  scoredMonthEvents
+} from "../../utils/analytics";
+import type { Credentials, User } from "../../utils/auth";
+import { defaultCarbonProfile } from "../../utils/carbon";
+import type { CarbonProfile } from "../../utils/carbon";
+import {
+  fetchCarbonProfile,
+  fetchEvents,
+  fetchPreferences,
+  fetchSession,
+  fetchSiteRegistry,
+  fetchTariff,
+  fetchTaxonomy,
+  signInRequest
+} from "../../utils/eventsClient";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import { defaultPreferences, formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import { defaultSiteRegistry, eventsForSite } from "../../utils/sites";
+import type { SiteRegistry } from "../../utils/sites";
+import { defaultTariff } from "../../utils/tariff";
+import type { Tariff } from "../../utils/tariff";
+import { defaultTaxonomy } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { EnergyEvent } from "../../utils/types";
+
+const netColor = "rgb(18, 18, 18)";
+
+export default function AnalyticsPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [events, setEvents] = useState<EnergyEvent[]>([]);
+  const [tariff, setTariff] = useState<Tariff>(defaultTariff);
+  const [carbonProfile, setCarbonProfile] = useState<CarbonProfile>(defaultCarbonProfile);
+  const [registry, setRegistry] = useState<SiteRegistry>(defaultSiteRegistry);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(defaultTaxonomy);
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+  const [loadState, setLoadState] = useState<"loading" | "ready" | "error">("loading");
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [activeSiteId, setActiveSiteId] = useState<string | null>(null);
+  /** When the page was opened; the default range and the daily chart end at its month. */
+  const [now] = useState(() => new Date());
+  const [fromMonth, setFromMonth] = useState(() => format(addMonths(now, -5), "yyyy-MM"));
+  const [toMonth, setToMonth] = useState(() => format(now, "yyyy-MM"));
+
+  useEffect(() => {
+    fetchSession()
+      .then(setUser)
+      .catch((error: Error) => setSignInError(error.message))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all([
+      fetchEvents(),
+      fetchTariff(),
+      fetchCarbonProfile(),
+      fetchSiteRegistry(),
+      fetchTaxonomy(),
+      fetchPreferences()
+    ])
+      .then(([loadedEvents, loadedTariff, loadedCarbonProfile, loadedRegistry, loadedTaxonomy, loadedPreferences]) => {
+        if (!cancelled) {
+          setEvents(loadedEvents);
+          setTariff(loadedTariff);
+          setCarbonProfile(loadedCarbonProfile);
+          setRegistry(loadedRegistry);
+          setTaxonomy(loadedTaxonomy);
+          setPreferences(loadedPreferences);
+          setLoadState("ready");
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setRequestError(error.message);
+          setLoadState("error");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const { t, tn } = translatorFor(preferences.locale);
+  const dateLocale = dateLocales[preferences.locale];
+  const monthLabel = (month: string) => format(parseISO(`${month}-01`), "MMM yy", { locale: dateLocale });
+  const energy = (kwh: number) => formatEnergy(kwh, preferences);
+
+  const siteEvents = useMemo(() => eventsForSite(events, registry, activeSiteId), [events, registry, activeSiteId]);
+
+  const months = useMemo(
+    () => (fromMonth <= toMonth ? monthsBetween(fromMonth, toMonth) : monthsBetween(toMonth, fromMonth)),
+    [fromMonth, toMonth]
+  );
+
+  const trends = useMemo(
+    () => monthlyTrends(siteEvents, months, tariff, carbonProfile, taxonomy, registry),
+    [siteEvents, months, tariff, carbonProfile, taxonomy, registry]
+  );
+
+  const currentMonth = format(now, "yyyy-MM");
+
+  const daily = useMemo(
+    () =>
+      dailyBalances(
+        scoredMonthEvents(siteEvents, currentMonth, tariff, carbonProfile, taxonomy, registry),
+        currentMonth,
+        taxonomy
+      ),
+    [siteEvents, currentMonth, tariff, carbonProfile, taxonomy, registry]
+  );
+
+  const distribution = useMemo(
+    () =>
+      efficiencyDistribution(
+        months.flatMap((month) => scoredMonthEvents(siteEvents, month, tariff, carbonProfile, taxonomy, registry)),
+        taxonomy
+      ),
+    [siteEvents, months, tariff, carbonProfile, taxonomy, registry]
+  );
+
+  const first = trends[0];
+  const last = trends[trends.length - 1];
+  const reconciled = trends.reduce(
+    (acc, trend) => ({
+      planned: acc.planned + trend.plannedKwh,
+      actual: acc.actual + trend.actualKwh,
+      count: acc.count + trend.reconciledCount
+    }),
+    { planned: 0, actual: 0, count: 0 }
+  );
+
+  const handleSignIn = async (credentials: Credentials) => {
+    setIsSigningIn(true);
+    setSignInError(null);
+    try {
+      setUser(await signInRequest(credentials));
+    } catch (error) {
+      setSignInError((error as Error).message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <main className={pageStyles.container}>
+        {isCheckingSession ? null : (
+          <SignInForm preferences={preferences} isSaving={isSigningIn} error={signInError} onSignIn={handleSignIn} />
+        )}
+      </main>
+    );
+  }
+
+  return (
+    <main className={pageStyles.container}>
+      <div className={pageStyles.wrapper}>
+        <header className={pageStyles.pageHeader}>
+          <div className={pageStyles.titleRow}>
+            <h1 className={pageStyles.title}>{t("analyticsTitle")}</h1>
+            <Link href="/" className={pageStyles.filterButton}>
+              {t("backToCalendar")}
+            </Link>
+          </div>
+          <p className={pageStyles.subtitle}>{t("analyticsSubtitle")}</p>
+          <div className={pageStyles.filterRow}>
+            <select
+              className={pageStyles.select}
+              aria-label={t("site")}
+              value={activeSiteId ?? ""}
+              onChange={(event) => setActiveSiteId(event.target.value || null)}
+            >
+              <option value="">{t("allSites")}</option>
+              {registry.sites.map((site) => (
+                <option key={site.id} value={site.id}>
+                  {site.name}
+                </option>
+              ))}
+            </select>
+            <label className={pageStyles.label}>
+              {t("from")}{" "}
+              <input
+                type="month"
+                className={pageStyles.input}
+                value={fromMonth}
+                onChange={(event) => event.target.value && setFromMonth(event.target.value)}
+              />
+            </label>
+            <label className={pageStyles.label}>
+              {t("to")}{" "}
+              <input
+                type="month"
+                className={pageStyles.input}
+                value={toMonth}
+                onChange={(event) => event.target.value && setToMonth(event.target.value)}
+              />
+            </label>
+            {loadState === "loading" ? <span className={pageStyles.summaryDelta}>{t("loadingSchedule")}</span> : null}
+          </div>
+          {requestError ? (
+            <p className={pageStyles.tag} role="alert">
+              {requestError}
+            </p>
+          ) : null}
+        </header>
+
+        {first && last ? (
+          <section className={pageStyles.summaryCard}>
+            <div className={pageStyles.summaryGrid}>
+              <div className={pageStyles.summaryItem}>
+                <span className={pageStyles.summaryLabel}>{t("netBalanceTrend")}</span>
+                <span className={pageStyles.summaryValue}>
+                  {formatEnergy(last.summary.netBalance - first.summary.netBalance, preferences, { signed: true })}
+                </span>
+                <span className={pageStyles.summaryDelta}>
+                  {monthLabel(first.month)} → {monthLabel(last.month)}
+                </span>
+              </div>
+              <div className={pageStyles.summaryItem}>
+                <span className={pageStyles.summaryLabel}>{t("efficiencyTrend")}</span>
+                <span className={pageStyles.summaryValue}>
+                  {t("points", {
+                    points: `${last.summary.averageEfficiency - first.summary.averageEfficiency >= 0 ? "+" : "-"}${Math.abs(
+                      last.summary.averageEfficiency - first.summary.averageEfficiency
+                    )}`
+                  })}
+                </span>
+                <span className={pageStyles.summaryDelta}>
+                  {first.summary.averageEfficiency}% → {last.summary.averageEfficiency}%
+                </span>
+              </div>
+              <div className={pageStyles.summaryItem}>
+                <span className={pageStyles.summaryLabel}>{t("plannedVsActual")}</span>
+                <span className={pageStyles.summaryValue}>
+                  {reconciled.planned > 0
+                    ? `${(((reconciled.actual - reconciled.planned) / reconciled.planned) * 100).toFixed(1)}%`
+                    : "—"}
+                </span>
+                <span className={pageStyles.summaryDelta}>{tn("meteredEventsInRange", reconciled.count)}</span>
+              </div>
+            </div>
+          </section>
+        ) : null}
+
+        <section className={styles.chartGrid}>
+          <div className={`${pageStyles.calendarCard} ${styles.wide}`}>
+            <h2 className={styles.chartTitle}>{t("monthlyEnergy")}</h2>
+            <BarChart
+              categories={trends.map((trend) => monthLabel(trend.month))}
+              series={[
+                {
+                  label: t("consumption"),
+                  color: typeStyleOf(taxonomy, "Demand").color,
+                  values: trends.map((trend) => -trend.summary.totalConsumption)
+                },
+                {
+                  label: t("production"),
+                  color: typeStyleOf(taxonomy, "Production").color,
+                  values: trends.map((trend) => trend.summary.totalProduction)
+                },
+                {
+                  label: t("storageNet"),
+                  color: typeStyleOf(taxonomy, "Storage").color,
+                  values: trends.map((trend) => trend.summary.storageBuffer)
+                }
+              ]}
+              line={{
+                label: t("netBalanceColumn"),
+                color: netColor,
+                values: trends.map((trend) => trend.summary.netBalance)
+              }}
+              unit={preferences.energyUnit}
+              formatValue={energy}
+              ariaLabel={t("monthlyEnergyChart")}
+            />
+          </div>
+          <div className={`${pageStyles.calendarCard} ${styles.wide}`}>
+            <h2 className={styles.chartTitle}>
+              {t("dailyBalance", { month: format(now, "LLLL yyyy", { locale: dateLocale }) })}
+            </h2>
+            <BarChart
+              categories={daily.map((day) => format(parseISO(day.date), "d"))}
+              series={[
+                {
+                  label: t("netBalanceColumn"),
+                  color: typeStyleOf(taxonomy, "Provision").color,
+                  values: daily.map((day) => day.net)
+                }
+              ]}
+              unit={preferences.energyUnit}
+              formatValue={energy}
+              ariaLabel={t("dailyBalanceChart")}
+              labelEvery={3}
+            />
+          </div>
+          <div className={pageStyles.calendarCard}>
+            <h2 className={styles.chartTitle}>{t("efficiencyDistribution")}</h2>
+            <BarChart
+              categories={efficiencyBands}
+              series={distribution.map((entry) => ({
+                label: t("distributionEntry", { type: entry.type, count: entry.count, average: entry.average }),
+                color: typeStyleOf(taxonomy, entry.type).color,
+                values: entry.buckets
+              }))}
+              unit={t("eventsUnit")}
+              ariaLabel={t("efficiencyDistributionChart")}
+            />
+          </div>
+          <div className={pageStyles.calendarCard}>
+            <h2 className={styles.chartTitle}>{t("factorPlan")}</h2>
+            <BarChart
+              categories={trends.map((trend) => monthLabel(trend.month))}
+              series={[
+                {
+                  label: t("planned"),
+                  color: "rgba(18, 18, 18, 0.35)",
+                  values: trends.map((trend) => trend.plannedKwh)
+                },
+                {
+                  label: t("metered"),
+                  color: typeStyleOf(taxonomy, "Provision").color,
+                  values: trends.map((trend) => trend.actualKwh)
+                }
+              ]}
+              unit={preferences.energyUnit}
+              formatValue={energy}
+              ariaLabel={t("plannedVsMeteredChart")}
+            />
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../utils/server/auth";
+import { getAuditLog } from "../../../utils/server/auditStore";
+
+export const dynamic = "force-dynamic";
+
+/** Schedule changes, newest first; `eventId` and `actor` (a username) narrow the list. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const params = new URL(request.url).searchParams;
+  return NextResponse.json({
+    entries: await getAuditLog({ eventId: params.get("eventId") ?? undefined, actor: params.get("actor") ?? undefined })
+  });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../utils/server/auth";
+import { getAutomationLog } from "../../../../utils/server/automationStore";
+
+export const dynamic = "force-dynamic";
+
+/** The automation run log, newest first; `since` (ISO timestamp) returns only later runs. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({
+    runs: await getAutomationLog(new URL(request.url).searchParams.get("since") ?? undefined)
+  });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { parseAutomationRules } from "../../../../utils/automation";
+import { authorize } from "../../../../utils/server/auth";
+import { getAutomationRules, saveAutomationRules } from "../../../../utils/server/automationStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ rules: await getAutomationRules() });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const rules = parseAutomationRules(await request.json().catch(() => null), await getTaxonomy());
+  if (!rules.ok) {
+    return NextResponse.json({ error: rules.error }, { status: 400 });
+  }
+  return NextResponse.json({ rules: await saveAutomationRules(rules.value) });
+}
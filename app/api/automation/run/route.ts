@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { parseAutomationRule } from "../../../../utils/automation";
+import type { AutomationRule } from "../../../../utils/automation";
+import { authorize, requirePermission } from "../../../../utils/server/auth";
+import { getAutomationRules } from "../../../../utils/server/automationStore";
+import { runAutomations } from "../../../../utils/server/eventStore";
+import { getPreferences } from "../../../../utils/server/preferenceStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+
+const monthPattern = /^\d{4}-\d{2}$/;
+
+/**
+ * Runs automations now. With `dryRun: true` nothing is written and the runs report what would
+ * happen. `rule` evaluates an unsaved rule, `ruleId` a single saved one (even when disabled);
+ * otherwise every enabled rule runs. `month` (yyyy-MM) defaults to the current month. Anyone
+ * signed in may dry run; real runs change events and take `events:edit`. Runs are described in
+ * the caller's locale and units.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = await request.json().catch(() => null);
+  const run = body?.dryRun === true ? auth : requirePermission(auth.user, "events:edit");
+  if (!run.ok) {
+    return NextResponse.json({ error: run.error }, { status: run.status });
+  }
+  if (body?.month !== undefined && (typeof body.month !== "string" || !monthPattern.test(body.month))) {
+    return NextResponse.json({ error: "month must use the yyyy-MM format." }, { status: 400 });
+  }
+  let rules: AutomationRule[] | undefined;
+  if (body?.rule !== undefined) {
+    const rule = parseAutomationRule(body.rule, "rule", await getTaxonomy());
+    if (!rule.ok) {
+      return NextResponse.json({ error: rule.error }, { status: 400 });
+    }
+    rules = [rule.value];
+  } else if (typeof body?.ruleId === "string") {
+    const rule = (await getAutomationRules()).find(({ id }) => id === body.ruleId);
+    if (!rule) {
+      return NextResponse.json({ error: `Automation rule ${body.ruleId} not found.` }, { status: 404 });
+    }
+    rules = [rule];
+  }
+  return NextResponse.json({
+    runs: await runAutomations({
+      month: body?.month,
+      rules,
+      dryRun: body?.dryRun === true,
+      preferences: await getPreferences(auth.user.id)
+    })
+  });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { parseCarbonProfile } from "../../../utils/carbon";
+import { authorize } from "../../../utils/server/auth";
+import { getCarbonProfile, saveCarbonProfile } from "../../../utils/server/carbonStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ profile: await getCarbonProfile() });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const profile = parseCarbonProfile(await request.json().catch(() => null));
+  if (!profile.ok) {
+    return NextResponse.json({ error: profile.error }, { status: 400 });
+  }
+  return NextResponse.json({ profile: await saveCarbonProfile(profile.value) });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { parseDemandResponseWindows } from "../../../utils/demandResponse";
+import { authorize } from "../../../utils/server/auth";
+import { getDemandResponseWindows, saveDemandResponseWindows } from "../../../utils/server/demandResponseStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ windows: await getDemandResponseWindows() });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const windows = parseDemandResponseWindows(await request.json().catch(() => null));
+  if (!windows.ok) {
+    return NextResponse.json({ error: windows.error }, { status: 400 });
+  }
+  return NextResponse.json({ windows: await saveDemandResponseWindows(windows.value) });
+}
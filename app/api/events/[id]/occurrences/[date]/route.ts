@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { settlesEvent } from "../../../../../../utils/auth";
+import { parseEventInput } from "../../../../../../utils/events";
+import { actorOf, authorize, requirePermission } from "../../../../../../utils/server/auth";
+import { detachOccurrence, skipOccurrence } from "../../../../../../utils/server/eventStore";
+import { getTaxonomy } from "../../../../../../utils/server/taxonomyStore";
+
+type RouteContext = { params: { id: string; date: string } };
+
+/** Edits one occurrence, detaching it from the series. Responds with the updated series and the new event. */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const taxonomy = await getTaxonomy();
+  const changes = parseEventInput(await request.json().catch(() => null), true, taxonomy);
+  if (!changes.ok) {
+    return NextResponse.json({ error: changes.error }, { status: 400 });
+  }
+  const settle = settlesEvent(changes.value, taxonomy) ? requirePermission(auth.user, "events:complete") : auth;
+  if (!settle.ok) {
+    return NextResponse.json({ error: settle.error }, { status: settle.status });
+  }
+  const result = await detachOccurrence(params.id, params.date, changes.value, actorOf(auth.user));
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json(result.value);
+}
+
+/** Skips one occurrence by adding its date to the series exceptions. */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const series = await skipOccurrence(params.id, params.date, actorOf(auth.user));
+  if (!series.ok) {
+    return NextResponse.json({ error: series.error }, { status: series.status });
+  }
+  return NextResponse.json({ series: series.value });
+}
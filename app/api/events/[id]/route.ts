@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { settlesEvent } from "../../../../utils/auth";
+import { parseEventInput } from "../../../../utils/events";
+import { actorOf, authorize, requirePermission } from "../../../../utils/server/auth";
+import { deleteEvent, getEvent, updateEvent } from "../../../../utils/server/eventStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const event = await getEvent(params.id);
+  return event
+    ? NextResponse.json({ event })
+    : NextResponse.json({ error: `Event ${params.id} not found.` }, { status: 404 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const taxonomy = await getTaxonomy();
+  const changes = parseEventInput(await request.json().catch(() => null), true, taxonomy);
+  if (!changes.ok) {
+    return NextResponse.json({ error: changes.error }, { status: 400 });
+  }
+  const settle = settlesEvent(changes.value, taxonomy) ? requirePermission(auth.user, "events:complete") : auth;
+  if (!settle.ok) {
+    return NextResponse.json({ error: settle.error }, { status: settle.status });
+  }
+  const event = await updateEvent(params.id, changes.value, actorOf(auth.user));
+  if (!event.ok) {
+    return NextResponse.json({ error: event.error }, { status: event.status });
+  }
+  return NextResponse.json({ event: event.value });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const event = await deleteEvent(params.id, actorOf(auth.user));
+  if (!event.ok) {
+    return NextResponse.json({ error: event.error }, { status: event.status });
+  }
+  return NextResponse.json({ event: event.value });
+}
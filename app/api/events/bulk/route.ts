@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { settlesEvent } from "../../../../utils/auth";
+import { parseEventInput } from "../../../../utils/events";
+import { actorOf, authorize, requirePermission } from "../../../../utils/server/auth";
+import { createEvents } from "../../../../utils/server/eventStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+import type { EnergyEventInput } from "../../../../utils/types";
+
+/** Creates several events at once; nothing is written unless every entry is valid and fits the schedule. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.events) || body.events.length === 0) {
+    return NextResponse.json({ error: "events must be a non-empty array." }, { status: 400 });
+  }
+  const taxonomy = await getTaxonomy();
+  const inputs: EnergyEventInput[] = [];
+  for (const [index, payload] of (body.events as unknown[]).entries()) {
+    const input = parseEventInput(payload, false, taxonomy);
+    if (!input.ok) {
+      return NextResponse.json({ error: `events[${index}]: ${input.error}` }, { status: 400 });
+    }
+    inputs.push(input.value);
+  }
+  const settle = inputs.some((input) => settlesEvent(input, taxonomy))
+    ? requirePermission(auth.user, "events:complete")
+    : auth;
+  if (!settle.ok) {
+    return NextResponse.json({ error: settle.error }, { status: settle.status });
+  }
+  const events = await createEvents(inputs, actorOf(auth.user));
+  if (!events.ok) {
+    return NextResponse.json({ error: events.error }, { status: events.status });
+  }
+  return NextResponse.json({ events: events.value }, { status: 201 });
+}
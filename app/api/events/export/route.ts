@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { parseEventQuery } from "../../../../utils/events";
+import { eventsToICalendar } from "../../../../utils/ical";
+import { siteTimeZoneOf } from "../../../../utils/sites";
+import { authorize } from "../../../../utils/server/auth";
+import { listEvents } from "../../../../utils/server/eventStore";
+import { getSiteRegistry } from "../../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+
+/** Downloads the events matching `month` and the calendar filter as an .ics file, keeping recurring events as RRULEs. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const [taxonomy, registry] = await Promise.all([getTaxonomy(), getSiteRegistry()]);
+  const query = parseEventQuery(new URL(request.url).searchParams, taxonomy);
+  if (!query.ok) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+  const { month, filter } = query.value;
+  const events = await listEvents({ month, filter });
+  const type = filter?.types.length === 1 ? filter.types[0] : undefined;
+  const name = ["Energy schedule", month, type].filter(Boolean).join(" · ");
+  const fileName = ["energy-schedule", month, type?.toLowerCase().replace(/\s+/g, "-")].filter(Boolean).join("-");
+  return new NextResponse(
+    eventsToICalendar(events, name, taxonomy, (event) => siteTimeZoneOf(event, registry)),
+    {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}.ics"`
+      }
+    }
+  );
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { settlesEvent } from "../../../utils/auth";
+import { parseEventInput, parseEventQuery } from "../../../utils/events";
+import { actorOf, authorize, requirePermission } from "../../../utils/server/auth";
+import { createEvent, listEvents } from "../../../utils/server/eventStore";
+import { getTaxonomy } from "../../../utils/server/taxonomyStore";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const query = parseEventQuery(new URL(request.url).searchParams, await getTaxonomy());
+  if (!query.ok) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+  return NextResponse.json({ events: await listEvents(query.value) });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = await request.json().catch(() => null);
+  const taxonomy = await getTaxonomy();
+  const input = parseEventInput(body, false, taxonomy);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const settle = settlesEvent(input.value, taxonomy) ? requirePermission(auth.user, "events:complete") : auth;
+  if (!settle.ok) {
+    return NextResponse.json({ error: settle.error }, { status: settle.status });
+  }
+  const id = typeof body?.id === "string" && body.id.trim() ? body.id.trim() : undefined;
+  const event = await createEvent(input.value, actorOf(auth.user), id);
+  if (!event.ok) {
+    return NextResponse.json({ error: event.error }, { status: event.status });
+  }
+  return NextResponse.json({ event: event.value }, { status: 201 });
+}
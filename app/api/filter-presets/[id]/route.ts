@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { parseFilterPreset } from "../../../../utils/filters";
+import { authorize } from "../../../../utils/server/auth";
+import { deleteFilterPreset, saveFilterPreset } from "../../../../utils/server/filterPresetStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+
+type RouteContext = { params: { id: string } };
+
+/** Creates or replaces one shared preset; responds with all presets. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = await request.json().catch(() => null);
+  const preset = parseFilterPreset({ ...body, id: params.id }, "preset", await getTaxonomy());
+  if (!preset.ok) {
+    return NextResponse.json({ error: preset.error }, { status: 400 });
+  }
+  return NextResponse.json({ presets: await saveFilterPreset(preset.value) });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const presets = await deleteFilterPreset(params.id);
+  if (!presets) {
+    return NextResponse.json({ error: `Filter preset ${params.id} not found.` }, { status: 404 });
+  }
+  return NextResponse.json({ presets });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../utils/server/auth";
+import { getFilterPresets } from "../../../utils/server/filterPresetStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ presets: await getFilterPresets() });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { forecastProduction, parseForecastRequest } from "../../../utils/forecast";
+import { actorOf, authorize } from "../../../utils/server/auth";
+import { listEvents, replaceForecasts } from "../../../utils/server/eventStore";
+import { getPreferences } from "../../../utils/server/preferenceStore";
+import { getSiteRegistry } from "../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../utils/server/taxonomyStore";
+
+/**
+ * Regenerates the production forecast for a month from `from` (default: tomorrow) onwards,
+ * optionally adjusted by daily weather factors. Returns the new forecast events and the ids of
+ * the ones they replaced.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const forecastRequest = parseForecastRequest(await request.json().catch(() => null), new Date());
+  if (!forecastRequest.ok) {
+    return NextResponse.json({ error: forecastRequest.error }, { status: 400 });
+  }
+  const { month, from } = forecastRequest.value;
+  const [events, registry, taxonomy, { locale }] = await Promise.all([
+    listEvents(),
+    getSiteRegistry(),
+    getTaxonomy(),
+    getPreferences(auth.user.id)
+  ]);
+  const forecasts = forecastProduction(events, registry, forecastRequest.value, taxonomy, locale);
+  const result = await replaceForecasts(month, from, forecasts, actorOf(auth.user, "Production forecast"));
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json(result.value);
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import type { MeterInterval } from "../../../../utils/meterData";
+import { actorOf, authorize, requirePermission } from "../../../../utils/server/auth";
+import { applyMeterReconciliation, previewMeterReconciliation } from "../../../../utils/server/eventStore";
+import { getPreferences } from "../../../../utils/server/preferenceStore";
+import { getSiteRegistry } from "../../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+import { isEnergyType } from "../../../../utils/taxonomy";
+
+const intervalPattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const isInterval = (value: unknown): value is MeterInterval => {
+  const interval = value as MeterInterval;
+  return (
+    Boolean(interval) &&
+    typeof interval.start === "string" &&
+    intervalPattern.test(interval.start) &&
+    Number.isFinite(interval.minutes) &&
+    interval.minutes > 0 &&
+    Number.isFinite(interval.kwh)
+  );
+};
+
+/**
+ * Reconciles metered intervals against the schedule. With `apply: false` the plan is only
+ * previewed; with `apply: true` it is written and the full updated event list is returned.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.intervals) || body.intervals.length === 0) {
+    return NextResponse.json({ error: "intervals must be a non-empty array." }, { status: 400 });
+  }
+  const invalidIndex = (body.intervals as unknown[]).findIndex((interval) => !isInterval(interval));
+  if (invalidIndex !== -1) {
+    return NextResponse.json(
+      { error: `intervals[${invalidIndex}] needs start (yyyy-MM-ddTHH:mm), minutes and kwh.` },
+      { status: 400 }
+    );
+  }
+  if (!isEnergyType(await getTaxonomy(), body.type)) {
+    return NextResponse.json({ error: "type must be an energy type." }, { status: 400 });
+  }
+  const registry = await getSiteRegistry();
+  const asset = registry.assets.find(({ id }) => id === body.assetId);
+  if (body.assetId !== undefined && body.assetId !== null && !asset) {
+    return NextResponse.json({ error: "assetId must name one of the assets." }, { status: 400 });
+  }
+  if (body.siteId !== undefined && body.siteId !== null && !registry.sites.some(({ id }) => id === body.siteId)) {
+    return NextResponse.json({ error: "siteId must name one of the sites." }, { status: 400 });
+  }
+  const options = {
+    type: body.type,
+    newEventTitle:
+      typeof body.newEventTitle === "string" && body.newEventTitle.trim()
+        ? body.newEventTitle.trim()
+        : "Metered activity",
+    ...(asset ? { siteId: asset.siteId, assetId: asset.id } : body.siteId ? { siteId: body.siteId as string } : {})
+  };
+  // New events from unmatched readings get their note in the caller's language.
+  const { locale } = await getPreferences(auth.user.id);
+  if (body.apply === true) {
+    // Applying writes metered actuals and completes the matched events.
+    const settle = requirePermission(auth.user, "events:complete");
+    if (!settle.ok) {
+      return NextResponse.json({ error: settle.error }, { status: settle.status });
+    }
+    const result = await applyMeterReconciliation(body.intervals, options, actorOf(auth.user, "Meter import"), locale);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.value);
+  }
+  return NextResponse.json({ plan: await previewMeterReconciliation(body.intervals, options, locale) });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { parsePreferences } from "../../../utils/preferences";
+import { authorize } from "../../../utils/server/auth";
+import { getPreferences, savePreferences } from "../../../utils/server/preferenceStore";
+
+export const dynamic = "force-dynamic";
+
+/** The signed-in user's own display preferences. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ preferences: await getPreferences(auth.user.id) });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const preferences = parsePreferences(await request.json().catch(() => null));
+  if (!preferences.ok) {
+    return NextResponse.json({ error: preferences.error }, { status: 400 });
+  }
+  return NextResponse.json({ preferences: await savePreferences(auth.user.id, preferences.value) });
+}
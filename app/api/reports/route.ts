@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import {
+  buildMonthlyReport,
+  parseReportRequest,
+  reportFileName,
+  reportToCsv,
+  reportToPdf
+} from "../../../utils/report";
+import { authorize } from "../../../utils/server/auth";
+import { getCarbonProfile } from "../../../utils/server/carbonStore";
+import { listEvents } from "../../../utils/server/eventStore";
+import { getPreferences } from "../../../utils/server/preferenceStore";
+import { getSiteRegistry } from "../../../utils/server/siteStore";
+import { getTariff } from "../../../utils/server/tariffStore";
+import { getTaxonomy } from "../../../utils/server/taxonomyStore";
+
+/**
+ * Generates the monthly report for `month` (and optionally one `site`) as a PDF or, with
+ * `format=csv`, a CSV. Everything is computed from the stored schedule, so a scheduler can fetch
+ * the same URL without the calendar open. Labels, dates and units follow the caller's preferences.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reportRequest = parseReportRequest(new URL(request.url).searchParams);
+  if (!reportRequest.ok) {
+    return NextResponse.json({ error: reportRequest.error }, { status: 400 });
+  }
+  const { month, siteId } = reportRequest.value;
+  const [events, tariff, carbon, registry, taxonomy, preferences] = await Promise.all([
+    listEvents({ month }),
+    getTariff(),
+    getCarbonProfile(),
+    getSiteRegistry(),
+    getTaxonomy(),
+    getPreferences(auth.user.id)
+  ]);
+  if (siteId !== null && !registry.sites.some((site) => site.id === siteId)) {
+    return NextResponse.json({ error: `Site ${siteId} not found.` }, { status: 404 });
+  }
+  const report = buildMonthlyReport(
+    events,
+    { month, siteId },
+    { tariff, carbon, registry, taxonomy },
+    new Date(),
+    preferences
+  );
+  const fileName = reportFileName(report, reportRequest.value.format);
+  if (reportRequest.value.format === "csv") {
+    return new NextResponse(reportToCsv(report, registry, preferences), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`
+      }
+    });
+  }
+  return new NextResponse(reportToPdf(report, registry, preferences), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${fileName}"`
+    }
+  });
+}
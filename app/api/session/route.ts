@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { minPasswordLength, parseCredentials } from "../../../utils/auth";
+import { authorize, sessionCookieName, sessionCookieOptions, sessionTokenOf } from "../../../utils/server/auth";
+import {
+  createSession,
+  endSession,
+  hasUsers,
+  sessionMaxAgeSeconds,
+  verifyCredentials
+} from "../../../utils/server/userStore";
+
+export const dynamic = "force-dynamic";
+
+/** The signed-in user, or 401 when there is none. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ user: auth.user });
+}
+
+/** Signs in with `{ username, password }` and sets the session cookie. */
+export async function POST(request: Request) {
+  const credentials = parseCredentials(await request.json().catch(() => null));
+  if (!credentials.ok) {
+    return NextResponse.json({ error: credentials.error }, { status: 400 });
+  }
+  if (!(await hasUsers())) {
+    return NextResponse.json(
+      {
+        error: `No accounts exist yet. Start the server with ENERGY_ADMIN_PASSWORD (at least ${minPasswordLength} characters) to create the admin.`
+      },
+      { status: 503 }
+    );
+  }
+  const user = await verifyCredentials(credentials.value.username, credentials.value.password);
+  if (!user) {
+    return NextResponse.json({ error: "Wrong username or password." }, { status: 401 });
+  }
+  const response = NextResponse.json({ user });
+  response.cookies.set(sessionCookieName, await createSession(user.id), {
+    ...sessionCookieOptions,
+    maxAge: sessionMaxAgeSeconds
+  });
+  return response;
+}
+
+/** Signs out: the session ends on the server and the cookie is cleared. */
+export async function DELETE(request: Request) {
+  const token = sessionTokenOf(request);
+  if (token) {
+    await endSession(token);
+  }
+  const response = NextResponse.json({ user: null });
+  response.cookies.set(sessionCookieName, "", { ...sessionCookieOptions, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { parseSiteRegistry } from "../../../utils/sites";
+import { authorize } from "../../../utils/server/auth";
+import { getSiteRegistry, saveSiteRegistry } from "../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../utils/server/taxonomyStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ registry: await getSiteRegistry() });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const registry = parseSiteRegistry(await request.json().catch(() => null), await getTaxonomy());
+  if (!registry.ok) {
+    return NextResponse.json({ error: registry.error }, { status: 400 });
+  }
+  return NextResponse.json({ registry: await saveSiteRegistry(registry.value) });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { parseTariff } from "../../../utils/tariff";
+import { authorize } from "../../../utils/server/auth";
+import { getTariff, saveTariff } from "../../../utils/server/tariffStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ tariff: await getTariff() });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const tariff = parseTariff(await request.json().catch(() => null));
+  if (!tariff.ok) {
+    return NextResponse.json({ error: tariff.error }, { status: 400 });
+  }
+  return NextResponse.json({ tariff: await saveTariff(tariff.value) });
+}
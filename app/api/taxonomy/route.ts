@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { taxonomyNamesOf } from "../../../utils/automation";
+import { parseEventFilter } from "../../../utils/filters";
+import { parseTaxonomy, removedFromTaxonomy } from "../../../utils/taxonomy";
+import { authorize } from "../../../utils/server/auth";
+import { getAutomationRules } from "../../../utils/server/automationStore";
+import { listEvents } from "../../../utils/server/eventStore";
+import { getFilterPresets } from "../../../utils/server/filterPresetStore";
+import { getSiteRegistry } from "../../../utils/server/siteStore";
+import { getTaxonomy, saveTaxonomy } from "../../../utils/server/taxonomyStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ taxonomy: await getTaxonomy() });
+}
+
+/**
+ * Categories and statuses still used by events or assets cannot be removed, so no event is left without one.
+ * Saved filters and automation rules that name them block removal too, rather than silently changing meaning.
+ */
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "settings:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const taxonomy = parseTaxonomy(await request.json().catch(() => null));
+  if (!taxonomy.ok) {
+    return NextResponse.json({ error: taxonomy.error }, { status: 400 });
+  }
+  const [current, events, registry, presets, rules] = await Promise.all([
+    getTaxonomy(),
+    listEvents(),
+    getSiteRegistry(),
+    getFilterPresets(),
+    getAutomationRules()
+  ]);
+  const removed = removedFromTaxonomy(current, taxonomy.value);
+  const presetFilters = presets.flatMap((preset) => {
+    const filter = parseEventFilter(new URLSearchParams(preset.query), current);
+    return filter.ok ? [{ name: preset.name, ...filter.value }] : [];
+  });
+  for (const name of [...removed.categories, ...removed.statuses]) {
+    const preset = presetFilters.find((filter) => filter.types.includes(name) || filter.statuses.includes(name));
+    if (preset) {
+      return NextResponse.json(
+        { error: `${name} is used by the saved filter "${preset.name}"; delete or change it first.` },
+        { status: 409 }
+      );
+    }
+    const rule = rules.find((candidate) => taxonomyNamesOf(candidate).includes(name));
+    if (rule) {
+      return NextResponse.json(
+        { error: `${name} is used by the automation rule "${rule.name}"; delete or change it first.` },
+        { status: 409 }
+      );
+    }
+  }
+  for (const name of removed.categories) {
+    const users = events.filter((event) => event.type === name).length;
+    const assets = registry.assets.filter((asset) => asset.type === name).length;
+    if (users + assets > 0) {
+      return NextResponse.json(
+        { error: `${name} is still used by ${users} event(s) and ${assets} asset(s); reassign them first.` },
+        { status: 409 }
+      );
+    }
+  }
+  for (const name of removed.statuses) {
+    const users = events.filter((event) => event.status === name).length;
+    if (users > 0) {
+      return NextResponse.json(
+        { error: `${name} is still used by ${users} event(s); change their status first.` },
+        { status: 409 }
+      );
+    }
+  }
+  return NextResponse.json({ taxonomy: await saveTaxonomy(taxonomy.value) });
+}
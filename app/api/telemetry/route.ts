@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { authorize, requirePermission } from "../../../utils/server/auth";
+import { getSiteRegistry } from "../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../utils/server/taxonomyStore";
+import { isTelemetryDevice, recentReadings, recordReadings } from "../../../utils/server/telemetryStore";
+import { parseTelemetryReadings } from "../../../utils/telemetry";
+
+export const dynamic = "force-dynamic";
+
+/** Buffered readings from the last day, oldest first; `since` (ISO timestamp) returns only later ones. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({
+    readings: recentReadings(new URL(request.url).searchParams.get("since") ?? undefined)
+  });
+}
+
+/**
+ * Accepts power readings pushed by meters, inverters or a gateway, either one reading
+ * (`{ assetId, kw, at? }`) or `{ readings: [...] }`, and relays them to open live streams.
+ * Besides devices, signed-in users who may edit events can push readings, e.g. from a script.
+ */
+export async function POST(request: Request) {
+  if (!isTelemetryDevice(request)) {
+    const auth = await authorize(request);
+    const push = auth.ok ? requirePermission(auth.user, "events:edit") : auth;
+    if (!push.ok) {
+      return NextResponse.json({ error: push.error }, { status: push.status });
+    }
+  }
+  const body = await request.json().catch(() => null);
+  const [registry, taxonomy] = await Promise.all([getSiteRegistry(), getTaxonomy()]);
+  const readings = parseTelemetryReadings(body?.readings ?? body, registry, new Date(), taxonomy);
+  if (!readings.ok) {
+    return NextResponse.json({ error: readings.error }, { status: 400 });
+  }
+  return NextResponse.json({ readings: recordReadings(readings.value) }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { addDays, format } from "date-fns";
+import { NextResponse } from "next/server";
+import { expandRecurrences } from "../../../../utils/recurrence";
+import { authorize } from "../../../../utils/server/auth";
+import { listEvents } from "../../../../utils/server/eventStore";
+import { getSiteRegistry } from "../../../../utils/server/siteStore";
+import { getTaxonomy } from "../../../../utils/server/taxonomyStore";
+import { recordReadings } from "../../../../utils/server/telemetryStore";
+import { simulateReadings } from "../../../../utils/telemetry";
+
+/**
+ * Records one simulated reading per registered asset, following the events in flight right now.
+ * Call it every few seconds to exercise the live view without field devices.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "events:edit");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const now = new Date();
+  const [events, registry, taxonomy] = await Promise.all([listEvents(), getSiteRegistry(), getTaxonomy()]);
+  // Yesterday's occurrences are included for events that run past midnight.
+  const occurrences = expandRecurrences(events, format(addDays(now, -1), "yyyy-MM-dd"), format(now, "yyyy-MM-dd"));
+  return NextResponse.json(
+    { readings: recordReadings(simulateReadings(occurrences, registry, now, taxonomy), now) },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../utils/server/auth";
+import { recentReadings, subscribeToReadings } from "../../../../utils/server/telemetryStore";
+import type { TelemetryReading } from "../../../../utils/telemetry";
+
+export const dynamic = "force-dynamic";
+
+/** Proxies and load balancers close connections that stay silent for too long. */
+const heartbeatMs = 15_000;
+
+/**
+ * A server-sent event stream of telemetry. A `snapshot` event carries the buffered readings when
+ * the client connects (and again after every reconnect); each `readings` event carries a new batch.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const send = (event: string, readings: TelemetryReading[]) =>
+        write(`event: ${event}\ndata: ${JSON.stringify({ readings })}\n\n`);
+
+      send("snapshot", recentReadings());
+      const unsubscribe = subscribeToReadings((readings) => send("readings", readings));
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), heartbeatMs);
+      stop = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      };
+      request.signal.addEventListener("abort", () => stop());
+    },
+    cancel() {
+      stop();
+    }
+  });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
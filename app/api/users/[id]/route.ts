@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { parseUserInput } from "../../../../utils/auth";
+import { authorize, sessionCookieName, sessionCookieOptions } from "../../../../utils/server/auth";
+import { createSession, deleteUser, sessionMaxAgeSeconds, updateUser } from "../../../../utils/server/userStore";
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * Updates a user's name, username and role; a non-empty `password` resets their password and ends
+ * their sessions. Admins changing their own password get a fresh session so they stay signed in.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = parseUserInput(await request.json().catch(() => null), false);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const result = await updateUser(params.id, input.value);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const response = NextResponse.json({ user: result.user });
+  if (input.value.password && params.id === auth.user.id) {
+    response.cookies.set(sessionCookieName, await createSession(auth.user.id), {
+      ...sessionCookieOptions,
+      maxAge: sessionMaxAgeSeconds
+    });
+  }
+  return response;
+}
+
+/** Removes a user and ends their sessions; their name stays on the events and audit entries they left. */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const result = await deleteUser(params.id);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ user: result.user });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { parseUserInput } from "../../../utils/auth";
+import { authorize } from "../../../utils/server/auth";
+import { createUser, listUsers } from "../../../utils/server/userStore";
+
+export const dynamic = "force-dynamic";
+
+/** Everyone signed in can list users, so names can be shown next to audit entries. */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ users: await listUsers() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = parseUserInput(await request.json().catch(() => null), true);
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const user = await createUser(input.value);
+  if (!user) {
+    return NextResponse.json({ error: `Username ${input.value.username} is taken.` }, { status: 409 });
+  }
+  return NextResponse.json({ user }, { status: 201 });
+}
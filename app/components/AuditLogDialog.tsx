@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import styles from "./ImportDialog.module.css";
+import { automationActor, formatAuditValue, matchesAuditQuery } from "../../utils/audit";
+import type { AuditEntry } from "../../utils/audit";
+import type { User } from "../../utils/auth";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type AuditLogDialogProps = {
+  /** The whole log, newest first; filtering happens here. */
+  entries: AuditEntry[];
+  users: User[];
+  /** Opens the log already narrowed to one event, e.g. from its detail panel. */
+  initialEventId: string | null;
+  preferences: Preferences;
+  onClose: () => void;
+};
+
+const actionLabels: Record<AuditEntry["action"], MessageKey> = {
+  created: "auditCreated",
+  updated: "auditChanged",
+  deleted: "auditDeleted"
+};
+
+export default function AuditLogDialog({ entries, users, initialEventId, preferences, onClose }: AuditLogDialogProps) {
+  const [eventId, setEventId] = useState(initialEventId ?? "");
+  const [actor, setActor] = useState("");
+  const { t } = translatorFor(preferences.locale);
+
+  const nameOf = (username: string) =>
+    username === automationActor
+      ? t("automation")
+      : (users.find((user) => user.username === username)?.name ?? username);
+
+  // Entries are newest first, so the first title seen per event is its latest one.
+  const eventOptions = Array.from(
+    entries.reduce(
+      (titles, entry) => (titles.has(entry.eventId) ? titles : titles.set(entry.eventId, entry.eventTitle)),
+      new Map<string, string>()
+    )
+  );
+  const actors = Array.from(new Set(entries.map((entry) => entry.actor)));
+  const shown = entries.filter((entry) =>
+    matchesAuditQuery(entry, { eventId: eventId || undefined, actor: actor || undefined })
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="audit-heading">
+        <h2 id="audit-heading">{t("auditLog")}</h2>
+        <p className={styles.hint}>{t("auditLogHint")}</p>
+        <div className={styles.actions} style={{ justifyContent: "flex-start" }}>
+          <select aria-label={t("event")} value={eventId} onChange={(event) => setEventId(event.target.value)}>
+            <option value="">{t("allEvents")}</option>
+            {eventOptions.map(([id, title]) => (
+              <option key={id} value={id}>
+                {title} · {id}
+              </option>
+            ))}
+          </select>
+          <select aria-label={t("user")} value={actor} onChange={(event) => setActor(event.target.value)}>
+            <option value="">{t("everyone")}</option>
+            {actors.map((username) => (
+              <option key={username} value={username}>
+                {nameOf(username)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {shown.length === 0 ? (
+          <p className={styles.hint}>{eventId || actor ? t("noChangesForFilter") : t("noChangesYet")}</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>{t("when")}</th>
+                <th>{t("who")}</th>
+                <th>{t("what")}</th>
+                <th>{t("event")}</th>
+                <th>{t("changes")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{format(parseISO(entry.at), "PP HH:mm:ss", { locale: dateLocales[preferences.locale] })}</td>
+                  <td>
+                    {nameOf(entry.actor)}
+                    {entry.via ? <span className={styles.hint}> · {entry.via}</span> : null}
+                  </td>
+                  <td>{t(actionLabels[entry.action])}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className={styles.secondaryButton}
+                      title={t("showOnlyThisEvent")}
+                      onClick={() => setEventId(entry.eventId)}
+                    >
+                      {entry.eventTitle}
+                    </button>
+                  </td>
+                  <td>
+                    {entry.changes.map((change) => (
+                      <div key={change.field}>
+                        {change.field}: {formatAuditValue(change.from)} → {formatAuditValue(change.to)}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            {t("close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
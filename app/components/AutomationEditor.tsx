@@ -0,0 +1,310 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { createRuleId, describeAction, describeCondition } from "../../utils/automation";
+import type { AutomationAction, AutomationCondition, AutomationRule, AutomationRun } from "../../utils/automation";
+import { translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import { statusWithLifecycle } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+
+type AutomationEditorProps = {
+  rules: AutomationRule[];
+  taxonomy: Taxonomy;
+  /** The month dry runs are evaluated against, as yyyy-MM. */
+  month: string;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (rules: AutomationRule[]) => void;
+  onDryRun: (rule: AutomationRule) => Promise<AutomationRun | null>;
+  onCancel: () => void;
+};
+
+const conditionLabels: Record<AutomationCondition["kind"], MessageKey> = {
+  dailySurplus: "dailySurplusAbove",
+  overdue: "datePassesWhileStatus",
+  noteKeyword: "notesMention"
+};
+
+const defaultCondition = (kind: AutomationCondition["kind"], taxonomy: Taxonomy): AutomationCondition => {
+  switch (kind) {
+    case "dailySurplus":
+      return { kind, thresholdKwh: 250 };
+    case "overdue":
+      return { kind, status: statusWithLifecycle(taxonomy, "tentative") ?? taxonomy.statuses[0].name };
+    case "noteKeyword":
+      return { kind, keyword: "#tag" };
+  }
+};
+
+/** Surplus days can only create events, and event conditions can only change a status. */
+const defaultAction = (condition: AutomationCondition, taxonomy: Taxonomy, title: string): AutomationAction =>
+  condition.kind === "dailySurplus"
+    ? {
+        kind: "createEvent",
+        title,
+        type: "Provision",
+        status: statusWithLifecycle(taxonomy, "planned") ?? taxonomy.statuses[0].name,
+        startTime: "12:00",
+        endTime: "15:00"
+      }
+    : { kind: "setStatus", status: statusWithLifecycle(taxonomy, "void") ?? taxonomy.statuses[0].name };
+
+export default function AutomationEditor({
+  rules,
+  taxonomy,
+  month,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onDryRun,
+  onCancel
+}: AutomationEditorProps) {
+  const [draft, setDraft] = useState<AutomationRule[]>(rules);
+  const [dryRun, setDryRun] = useState<AutomationRun | null>(null);
+  const { t } = translatorFor(preferences.locale);
+
+  const updateRule = (id: string, changes: Partial<AutomationRule>) =>
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const addRule = () => {
+    const condition = defaultCondition("overdue", taxonomy);
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: createRuleId(),
+        name: t("newRule"),
+        enabled: true,
+        condition,
+        action: defaultAction(condition, taxonomy, t("exportSurplusToGrid")),
+        notify: false
+      }
+    ]);
+  };
+
+  const statusSelect = (label: string, value: string, onChange: (status: string) => void) => (
+    <select aria-label={label} value={value} onChange={(event) => onChange(event.target.value)}>
+      {taxonomy.statuses.map((status) => (
+        <option key={status.name} value={status.name}>
+          {status.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="automation-heading">
+        <h2 id="automation-heading">{t("automationRules")}</h2>
+        <p className={styles.hint}>{t("automationHint", { month })}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("rule")}</th>
+              <th>{t("on")}</th>
+              <th>{t("when")}</th>
+              <th>{t("then")}</th>
+              <th>{t("notify")}</th>
+              <th aria-label={t("actions")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((rule) => {
+              const { condition, action } = rule;
+              return (
+                <tr key={rule.id}>
+                  <td>
+                    <input
+                      type="text"
+                      aria-label={t("ruleName")}
+                      value={rule.name}
+                      onChange={(event) => updateRule(rule.id, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={t("namedField", { name: rule.name, field: t("enabled") })}
+                      checked={rule.enabled}
+                      onChange={(event) => updateRule(rule.id, { enabled: event.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      aria-label={t("namedField", { name: rule.name, field: t("condition") })}
+                      value={condition.kind}
+                      onChange={(event) => {
+                        const next = defaultCondition(event.target.value as AutomationCondition["kind"], taxonomy);
+                        updateRule(rule.id, {
+                          condition: next,
+                          action: defaultAction(next, taxonomy, t("exportSurplusToGrid"))
+                        });
+                      }}
+                    >
+                      {(Object.keys(conditionLabels) as AutomationCondition["kind"][]).map((kind) => (
+                        <option key={kind} value={kind}>
+                          {t(conditionLabels[kind])}
+                        </option>
+                      ))}
+                    </select>
+                    {condition.kind === "dailySurplus" ? (
+                      <input
+                        type="number"
+                        min={0}
+                        step={10}
+                        aria-label={t("namedField", { name: rule.name, field: t("surplusThreshold") })}
+                        value={condition.thresholdKwh}
+                        onChange={(event) =>
+                          updateRule(rule.id, {
+                            condition: { ...condition, thresholdKwh: Number(event.target.value) || 0 }
+                          })
+                        }
+                      />
+                    ) : condition.kind === "overdue" ? (
+                      statusSelect(
+                        t("namedField", { name: rule.name, field: t("overdueStatus") }),
+                        condition.status,
+                        (status) => updateRule(rule.id, { condition: { ...condition, status } })
+                      )
+                    ) : (
+                      <input
+                        type="text"
+                        aria-label={t("namedField", { name: rule.name, field: t("keyword") })}
+                        value={condition.keyword}
+                        onChange={(event) =>
+                          updateRule(rule.id, { condition: { ...condition, keyword: event.target.value } })
+                        }
+                      />
+                    )}
+                  </td>
+                  <td>
+                    {action.kind === "createEvent" ? (
+                      <>
+                        <input
+                          type="text"
+                          aria-label={t("namedField", { name: rule.name, field: t("eventTitle") })}
+                          value={action.title}
+                          onChange={(event) =>
+                            updateRule(rule.id, { action: { ...action, title: event.target.value } })
+                          }
+                        />
+                        <select
+                          aria-label={t("namedField", { name: rule.name, field: t("eventType") })}
+                          value={action.type}
+                          onChange={(event) => updateRule(rule.id, { action: { ...action, type: event.target.value } })}
+                        >
+                          {taxonomy.categories.map((category) => (
+                            <option key={category.name} value={category.name}>
+                              {category.name}
+                            </option>
+                          ))}
+                        </select>
+                        {statusSelect(
+                          t("namedField", { name: rule.name, field: t("eventStatus") }),
+                          action.status,
+                          (status) => updateRule(rule.id, { action: { ...action, status } })
+                        )}
+                        {(["startTime", "endTime"] as const).map((key) => (
+                          <input
+                            key={key}
+                            type="time"
+                            aria-label={t("namedField", {
+                              name: rule.name,
+                              field: t(key === "startTime" ? "eventStart" : "eventEnd")
+                            })}
+                            value={action[key]}
+                            onChange={(event) =>
+                              updateRule(rule.id, { action: { ...action, [key]: event.target.value } })
+                            }
+                          />
+                        ))}
+                      </>
+                    ) : (
+                      statusSelect(
+                        t("namedField", { name: rule.name, field: t("newStatusField") }),
+                        action.status,
+                        (status) => updateRule(rule.id, { action: { ...action, status } })
+                      )
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={t("namedField", { name: rule.name, field: t("notifies") })}
+                      checked={rule.notify}
+                      onChange={(event) => updateRule(rule.id, { notify: event.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className={styles.secondaryButton}
+                      disabled={isSaving}
+                      onClick={async () => setDryRun(await onDryRun(rule))}
+                    >
+                      {t("dryRun")}
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.secondaryButton}
+                      onClick={() => setDraft((prev) => prev.filter(({ id }) => id !== rule.id))}
+                    >
+                      {t("remove")}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {dryRun ? (
+          <div className={styles.hint} role="status">
+            <strong>
+              {t("dryRun")} · {dryRun.ruleName} · {dryRun.month}
+            </strong>
+            {dryRun.error ? (
+              <p className={styles.error}>{dryRun.error}</p>
+            ) : dryRun.messages.length === 0 ? (
+              <p>{t("nothingToDo")}</p>
+            ) : (
+              <ul>
+                {dryRun.messages.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {draft
+              .filter((rule) => rule.id === dryRun.ruleId)
+              .map((rule) => (
+                <p key={rule.id}>
+                  {t("ruleSummary", {
+                    condition: describeCondition(rule.condition, preferences.locale),
+                    action: describeAction(rule.action, preferences.locale)
+                  })}
+                </p>
+              ))}
+          </div>
+        ) : null}
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={addRule}>
+            {t("addRule")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveRules")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
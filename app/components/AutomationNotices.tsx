@@ -0,0 +1,29 @@
+import pageStyles from "../page.module.css";
+import type { AutomationRun } from "../../utils/automation";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type AutomationNoticesProps = {
+  /** Runs of rules that asked to notify, newest first, until dismissed. */
+  runs: AutomationRun[];
+  preferences: Preferences;
+  onDismiss: (runId: string) => void;
+};
+
+/** What notifying rules just did to the schedule, or why they failed. */
+export default function AutomationNotices({ runs, preferences, onDismiss }: AutomationNoticesProps) {
+  const { t } = translatorFor(preferences.locale);
+
+  return (
+    <>
+      {runs.map((run) => (
+        <p key={run.id} className={pageStyles.tag} role="status">
+          ⚡ {run.ruleName}: {run.error ?? run.messages.join("; ")}{" "}
+          <button type="button" className={pageStyles.filterButton} onClick={() => onDismiss(run.id)}>
+            {t("dismiss")}
+          </button>
+        </p>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import { format, parseISO } from "date-fns";
+import pageStyles from "../page.module.css";
+import type { AutomationRule, AutomationRun } from "../../utils/automation";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type AutomationPanelProps = {
+  rules: AutomationRule[];
+  /** Newest first; only the latest few are listed. */
+  runs: AutomationRun[];
+  isSaving: boolean;
+  preferences: Preferences;
+  /** Null when the user may not run the rules. */
+  onRunNow: (() => void) | null;
+  /** Null when the user may not change the rules. */
+  onManage: (() => void) | null;
+};
+
+const shownRuns = 5;
+
+/** How many rules are active and what the latest runs changed. */
+export default function AutomationPanel({
+  rules,
+  runs,
+  isSaving,
+  preferences,
+  onRunNow,
+  onManage
+}: AutomationPanelProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+
+  return (
+    <>
+      <div className={pageStyles.recommendationItem}>
+        <span className={`${pageStyles.tag} ${pageStyles.tagAccent}`}>
+          {t("automationsActive", { count: rules.filter((rule) => rule.enabled).length })}
+        </span>
+        <span>{runs.length === 0 ? t("noRuleChangedAnything") : tn("loggedRuns", runs.length)}</span>
+        {onRunNow ? (
+          <button type="button" className={pageStyles.filterButton} disabled={isSaving} onClick={onRunNow}>
+            {t("runNow")}
+          </button>
+        ) : null}
+        {onManage ? (
+          <button type="button" className={pageStyles.filterButton} onClick={onManage}>
+            {t("manageRules")}
+          </button>
+        ) : null}
+      </div>
+      {runs.slice(0, shownRuns).map((run) => (
+        <div key={run.id} className={pageStyles.recommendationItem}>
+          <span className={pageStyles.tag}>
+            {format(parseISO(run.ranAt), "d MMM HH:mm", { locale: dateLocales[preferences.locale] })}
+          </span>
+          <span>
+            <strong>{run.ruleName}</strong> ·{" "}
+            {run.error ? t("runFailed", { error: run.error }) : run.messages.join("; ")}
+          </span>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,102 @@
+import styles from "./BarChart.module.css";
+
+export type BarSeries = {
+  label: string;
+  color: string;
+  values: number[];
+};
+
+type BarChartProps = {
+  categories: string[];
+  series: BarSeries[];
+  /** Drawn over the bars on the same scale, e.g. a net balance across the grouped totals. */
+  line?: BarSeries;
+  unit: string;
+  /** Formats a value with its unit; defaults to whole numbers followed by `unit`. */
+  formatValue?: (value: number) => string;
+  ariaLabel: string;
+  height?: number;
+  /** Show every nth category label so dense charts stay readable. */
+  labelEvery?: number;
+};
+
+const chartWidth = 600;
+const labelHeight = 16;
+
+/** Grouped bars around a zero line, so negative values (deficits, charging) hang below it. */
+export default function BarChart({
+  categories,
+  series,
+  line,
+  unit,
+  formatValue = (value) => `${value.toFixed(0)} ${unit}`,
+  ariaLabel,
+  height = 180,
+  labelEvery = 1
+}: BarChartProps) {
+  const plotHeight = height - labelHeight;
+  const values = [...series, ...(line ? [line] : [])].flatMap((entry) => entry.values);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const span = max - min || 1;
+  const y = (value: number) => 2 + ((max - value) / span) * (plotHeight - 4);
+  const groupWidth = chartWidth / Math.max(1, categories.length);
+  const barWidth = (groupWidth * 0.8) / Math.max(1, series.length);
+  const center = (index: number) => index * groupWidth + groupWidth / 2;
+  const linePath = line?.values
+    .map((value, index) => `${index === 0 ? "M" : "L"}${center(index)},${y(value)}`)
+    .join(" ");
+
+  return (
+    <figure className={styles.chart}>
+      <svg viewBox={`0 0 ${chartWidth} ${height}`} width="100%" role="img" aria-label={ariaLabel}>
+        <line x1={0} x2={chartWidth} y1={y(0)} y2={y(0)} stroke="rgba(18, 18, 18, 0.25)" strokeWidth={0.75} />
+        {categories.map((category, index) => (
+          <g key={category}>
+            {series.map((entry, seriesIndex) => {
+              const value = entry.values[index] ?? 0;
+              return (
+                <rect
+                  key={entry.label}
+                  x={index * groupWidth + groupWidth * 0.1 + seriesIndex * barWidth}
+                  y={Math.min(y(value), y(0))}
+                  width={Math.max(0.5, barWidth - 1)}
+                  height={Math.abs(y(value) - y(0))}
+                  fill={entry.color}
+                >
+                  <title>{`${category} · ${entry.label}: ${formatValue(value)}`}</title>
+                </rect>
+              );
+            })}
+            {index % labelEvery === 0 ? (
+              <text x={center(index)} y={height - 4} textAnchor="middle" className={styles.axisLabel}>
+                {category}
+              </text>
+            ) : null}
+          </g>
+        ))}
+        {line && linePath ? (
+          <>
+            <path d={linePath} fill="none" stroke={line.color} strokeWidth={2} />
+            {line.values.map((value, index) => (
+              <circle key={categories[index]} cx={center(index)} cy={y(value)} r={3} fill={line.color}>
+                <title>{`${categories[index]} · ${line.label}: ${formatValue(value)}`}</title>
+              </circle>
+            ))}
+          </>
+        ) : null}
+      </svg>
+      <figcaption className={styles.legend}>
+        {[...series, ...(line ? [line] : [])].map((entry) => (
+          <span key={entry.label} className={styles.legendItem}>
+            <span className={styles.swatch} style={{ background: entry.color }} />
+            {entry.label}
+          </span>
+        ))}
+        <span className={styles.unit}>
+          {formatValue(min)} to {formatValue(max)}
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,57 @@
+import pageStyles from "../page.module.css";
+import { translatorFor } from "../../utils/i18n";
+import { formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import { formatMoney } from "../../utils/tariff";
+import type { MonthlyBill } from "../../utils/tariff";
+
+type BillCardsProps = {
+  bill: MonthlyBill;
+  currency: string;
+  preferences: Preferences;
+  /** Null when the user may not change the tariff. */
+  onEditTariff: (() => void) | null;
+};
+
+/** The month's bill under the tariff: what imports cost, what exports earn and the balance of the two. */
+export default function BillCards({ bill, currency, preferences, onEditTariff }: BillCardsProps) {
+  const { t } = translatorFor(preferences.locale);
+  const money = (value: number) => formatMoney(value, currency, undefined, preferences.locale);
+
+  return (
+    <>
+      <div className={pageStyles.summaryItem}>
+        <span className={pageStyles.summaryLabel}>{t("energyCost")}</span>
+        <span className={pageStyles.summaryValue}>{money(bill.energyCost + bill.demandCharge)}</span>
+        <span className={pageStyles.summaryDelta}>
+          {t("energyCostBreakdown", {
+            energy: money(bill.energyCost),
+            demand: money(bill.demandCharge),
+            peak: formatPower(bill.peakDemandKw, preferences)
+          })}
+        </span>
+      </div>
+      <div className={pageStyles.summaryItem}>
+        <span className={pageStyles.summaryLabel}>{t("exportRevenue")}</span>
+        <span className={pageStyles.summaryValue}>{money(bill.exportRevenue)}</span>
+        <span className={pageStyles.summaryDelta}>{t("atExportRates")}</span>
+      </div>
+      <div className={pageStyles.summaryItem}>
+        <span className={pageStyles.summaryLabel}>{t("netBill")}</span>
+        <span className={pageStyles.summaryValue}>{money(bill.netBill)}</span>
+        <span className={pageStyles.summaryDelta}>
+          {bill.netBill <= 0 ? t("creditThisMonth") : t("payableThisMonth")}
+          {onEditTariff ? (
+            <>
+              {" "}
+              ·{" "}
+              <button type="button" className={pageStyles.filterButton} onClick={onEditTariff}>
+                {t("editTariff")}
+              </button>
+            </>
+          ) : null}
+        </span>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { defaultCarbonProfile, parseCarbonFile } from "../../utils/carbon";
+import type { CarbonProfile } from "../../utils/carbon";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type CarbonProfileEditorProps = {
+  profile: CarbonProfile;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (profile: CarbonProfile) => void;
+  onCancel: () => void;
+};
+
+const hourRows = [0, 6, 12, 18].map((first) => Array.from({ length: 6 }, (_value, offset) => first + offset));
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+export default function CarbonProfileEditor({
+  profile,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onCancel
+}: CarbonProfileEditorProps) {
+  const { t } = translatorFor(preferences.locale);
+  const [draft, setDraft] = useState<CarbonProfile>(profile);
+  const [fileMessage, setFileMessage] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const parsed = parseCarbonFile(await file.text(), file.name);
+    if (!parsed.ok) {
+      setFileMessage(null);
+      setFileError(`${file.name}: ${parsed.error}`);
+      return;
+    }
+    setFileError(null);
+    setFileMessage(t("loadedFileReview", { fileName: file.name }));
+    setDraft(parsed.value);
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="carbon-heading">
+        <h2 id="carbon-heading">{t("gridCarbonIntensity")}</h2>
+        <p className={styles.hint}>{t("carbonHint")}</p>
+        <table className={styles.table}>
+          <tbody>
+            {hourRows.map((hours) => (
+              <tr key={hours[0]}>
+                {hours.map((hour) => (
+                  <td key={hour}>
+                    <label className={pageStyles.label}>
+                      {hourLabel(hour)}
+                      <input
+                        type="number"
+                        min={0}
+                        step={5}
+                        className={pageStyles.input}
+                        value={draft[hour]}
+                        onChange={(event) =>
+                          setDraft((prev) =>
+                            prev.map((value, index) =>
+                              index === hour ? Math.max(0, Number(event.target.value) || 0) : value
+                            )
+                          )
+                        }
+                      />
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {fileMessage ? <p className={styles.hint}>{fileMessage}</p> : null}
+        {fileError || error ? (
+          <p className={styles.error} role="alert">
+            {fileError ?? error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <label className={styles.secondaryButton}>
+            {t("uploadProfile")}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              hidden
+              onChange={(changeEvent) => {
+                handleFile(changeEvent.target.files?.[0]);
+                changeEvent.target.value = "";
+              }}
+            />
+          </label>
+          <button type="button" className={styles.secondaryButton} onClick={() => setDraft(defaultCarbonProfile)}>
+            {t("resetToDefault")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveProfile")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
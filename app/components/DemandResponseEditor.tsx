@@ -0,0 +1,188 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { createWindowId, parseDemandResponseFile } from "../../utils/demandResponse";
+import type { DemandResponseWindow } from "../../utils/demandResponse";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteRegistry } from "../../utils/sites";
+
+type DemandResponseEditorProps = {
+  windows: DemandResponseWindow[];
+  registry: SiteRegistry;
+  /** Date new windows start on, usually the first day of the visible month. */
+  defaultDate: string;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (windows: DemandResponseWindow[]) => void;
+  onCancel: () => void;
+};
+
+export default function DemandResponseEditor({
+  windows,
+  registry,
+  defaultDate,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onCancel
+}: DemandResponseEditorProps) {
+  const [draft, setDraft] = useState<DemandResponseWindow[]>(windows);
+  const [fileMessage, setFileMessage] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const { t, tn } = translatorFor(preferences.locale);
+
+  const updateWindow = (id: string, changes: Partial<DemandResponseWindow>) =>
+    setDraft((prev) => prev.map((window) => (window.id === id ? { ...window, ...changes } : window)));
+
+  const addWindow = () =>
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: createWindowId(),
+        program: t("demandResponseEvent"),
+        date: defaultDate,
+        startTime: "17:00",
+        endTime: "20:00",
+        ratePerKwh: 0.5,
+        source: "manual"
+      }
+    ]);
+
+  /** Utility files add to the list rather than replacing it, so manual windows survive an import. */
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const parsed = parseDemandResponseFile(await file.text(), file.name);
+    if (!parsed.ok) {
+      setFileMessage(null);
+      setFileError(`${file.name}: ${parsed.error}`);
+      return;
+    }
+    setFileError(null);
+    setFileMessage(tn("addedWindows", parsed.value.length, { fileName: file.name }));
+    setDraft((prev) => [...prev, ...parsed.value]);
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="dr-heading">
+        <h2 id="dr-heading">{t("demandResponseWindows")}</h2>
+        <p className={styles.hint}>{t("demandResponseHint")}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("program")}</th>
+              <th>{t("date")}</th>
+              <th>{t("start")}</th>
+              <th>{t("end")}</th>
+              <th>{t("ratePerKwh")}</th>
+              <th>{t("site")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((window) => (
+              <tr key={window.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("program")}
+                    value={window.program}
+                    onChange={(event) => updateWindow(window.id, { program: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="date"
+                    aria-label={t("namedField", { name: window.program, field: t("date") })}
+                    value={window.date}
+                    onChange={(event) => updateWindow(window.id, { date: event.target.value })}
+                  />
+                </td>
+                {(["startTime", "endTime"] as const).map((key) => (
+                  <td key={key}>
+                    <input
+                      type="time"
+                      aria-label={t("namedField", {
+                        name: window.program,
+                        field: t(key === "startTime" ? "start" : "end")
+                      })}
+                      value={window[key]}
+                      onChange={(event) => updateWindow(window.id, { [key]: event.target.value })}
+                    />
+                  </td>
+                ))}
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    aria-label={t("namedField", { name: window.program, field: t("ratePerKwh") })}
+                    value={window.ratePerKwh}
+                    onChange={(event) => updateWindow(window.id, { ratePerKwh: Number(event.target.value) || 0 })}
+                  />
+                </td>
+                <td>
+                  <select
+                    aria-label={t("namedField", { name: window.program, field: t("site") })}
+                    value={window.siteId ?? ""}
+                    onChange={(event) => updateWindow(window.id, { siteId: event.target.value || undefined })}
+                  >
+                    <option value="">{t("allSitesOption")}</option>
+                    {registry.sites.map((site) => (
+                      <option key={site.id} value={site.id}>
+                        {site.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    onClick={() => setDraft((prev) => prev.filter(({ id }) => id !== window.id))}
+                  >
+                    {t("remove")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {fileMessage ? <p className={styles.hint}>{fileMessage}</p> : null}
+        {fileError || error ? (
+          <p className={styles.error} role="alert">
+            {fileError ?? error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <label className={styles.secondaryButton}>
+            {t("uploadUtilityFile")}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              hidden
+              onChange={(changeEvent) => {
+                handleFile(changeEvent.target.files?.[0]);
+                changeEvent.target.value = "";
+              }}
+            />
+          </label>
+          <button type="button" className={styles.secondaryButton} onClick={addWindow}>
+            {t("addWindow")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveWindows")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
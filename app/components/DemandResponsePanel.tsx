@@ -0,0 +1,64 @@
+import pageStyles from "../page.module.css";
+import DemandResponseSettlement from "./DemandResponseSettlement";
+import type { DemandResponseSettlement as Settlement } from "../../utils/demandResponse";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteRegistry } from "../../utils/sites";
+import { formatMoney } from "../../utils/tariff";
+
+type DemandResponsePanelProps = {
+  settlements: Settlement[];
+  registry: SiteRegistry;
+  currency: string;
+  preferences: Preferences;
+  /** Null when the user may not change the program windows. */
+  onManage: (() => void) | null;
+};
+
+/** The month's program windows with what they earned so far and what upcoming ones should pay. */
+export default function DemandResponsePanel({
+  settlements,
+  registry,
+  currency,
+  preferences,
+  onManage
+}: DemandResponsePanelProps) {
+  const { t } = translatorFor(preferences.locale);
+  const money = (value: number) => formatMoney(value, currency, 2, preferences.locale);
+  const earnings = settlements.reduce(
+    (acc, settlement) =>
+      settlement.settled
+        ? { ...acc, earned: acc.earned + settlement.earnings }
+        : { ...acc, projected: acc.projected + settlement.earnings },
+    { earned: 0, projected: 0 }
+  );
+
+  return (
+    <>
+      <div className={pageStyles.recommendationItem}>
+        <span className={`${pageStyles.tag} ${pageStyles.tagAccent}`}>
+          {t("demandResponseWindowsHeading")} · {settlements.length}
+        </span>
+        <span>
+          {settlements.length === 0
+            ? t("noProgramWindows")
+            : t("drEarnings", { earned: money(earnings.earned), projected: money(earnings.projected) })}
+        </span>
+        {onManage ? (
+          <button type="button" className={pageStyles.filterButton} onClick={onManage}>
+            {t("manageWindows")}
+          </button>
+        ) : null}
+      </div>
+      {settlements.map((settlement) => (
+        <DemandResponseSettlement
+          key={settlement.window.id}
+          settlement={settlement}
+          currency={currency}
+          siteName={registry.sites.find((site) => site.id === settlement.window.siteId)?.name ?? t("allSitesOption")}
+          preferences={preferences}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { format, parseISO } from "date-fns";
+import styles from "./DemandResponse.module.css";
+import type { DemandResponseSettlement as Settlement } from "../../utils/demandResponse";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import { formatEnergy, formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import { formatMoney } from "../../utils/tariff";
+
+type DemandResponseSettlementProps = {
+  settlement: Settlement;
+  currency: string;
+  siteName: string;
+  preferences: Preferences;
+};
+
+const chartWidth = 240;
+const barHeight = 10;
+
+/** Baseline against actual (or projected) load for one window, with the estimated payment. */
+export default function DemandResponseSettlement({
+  settlement,
+  currency,
+  siteName,
+  preferences
+}: DemandResponseSettlementProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+  const power = (kw: number) => formatPower(kw, preferences);
+  const money = (value: number) => formatMoney(value, currency, 2, preferences.locale);
+  const { window, baselineKw, loadKw, committedKw, reductionKw } = settlement;
+  const maxKw = Math.max(1, baselineKw, loadKw, committedKw);
+  const width = (kw: number) => (Math.max(0, kw) / maxKw) * chartWidth;
+  const baselineSource =
+    settlement.baselineMethod === "history" ? tn("dayAverage", settlement.baselineDays.length) : t("bookedSchedule");
+  const isShort = settlement.settled && committedKw > 0 && reductionKw < committedKw;
+  const bars = [
+    { label: t("baseline"), kw: baselineKw, color: "rgba(18, 18, 18, 0.35)" },
+    { label: settlement.settled ? t("actual") : t("projected"), kw: loadKw, color: "rgb(246, 173, 85)" }
+  ];
+
+  return (
+    <div className={styles.window}>
+      <div className={styles.header}>
+        <span className={styles.name}>{window.program}</span>
+        <span className={styles.meta}>
+          {format(parseISO(window.date), "EEE d MMM", { locale: dateLocales[preferences.locale] })} {window.startTime}–
+          {window.endTime} · {siteName}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${chartWidth} ${bars.length * (barHeight + 4)}`}
+        width="100%"
+        role="img"
+        aria-label={t("settlementChart", { program: window.program, baseline: power(baselineKw), load: power(loadKw) })}
+      >
+        {bars.map((bar, index) => (
+          <rect
+            key={bar.label}
+            x={0}
+            y={index * (barHeight + 4)}
+            width={width(bar.kw)}
+            height={barHeight}
+            rx={3}
+            fill={bar.color}
+          >
+            <title>{`${bar.label}: ${power(bar.kw)}`}</title>
+          </rect>
+        ))}
+      </svg>
+      <span>
+        {t(settlement.settled ? "baselineVsActual" : "baselineVsProjected", {
+          baseline: power(baselineKw),
+          source: baselineSource,
+          load: power(loadKw)
+        })}
+      </span>
+      <span className={isShort ? styles.shortfall : undefined}>
+        {settlement.enrolled.length === 0 ? t("noEventsEnrolled") : tn("enrolled", settlement.enrolled.length)} ·{" "}
+        {t("committedReduced", { committed: power(committedKw), reduced: power(reductionKw) })}
+      </span>
+      <span>
+        {t(settlement.settled ? "earnedFor" : "projectedFor", {
+          earnings: money(settlement.earnings),
+          energy: formatEnergy(settlement.deliveredKwh, preferences),
+          rate: money(window.ratePerKwh)
+        })}
+      </span>
+    </div>
+  );
+}
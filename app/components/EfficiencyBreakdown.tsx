@@ -0,0 +1,61 @@
+import styles from "./EfficiencyBreakdown.module.css";
+import type { EfficiencyBreakdown as Breakdown, EfficiencyFactor } from "../../utils/efficiency";
+import { translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type EfficiencyBreakdownProps = {
+  breakdown: Breakdown | null | undefined;
+  preferences: Preferences;
+  /** One line of factor scores for event cards instead of the full list. */
+  compact?: boolean;
+};
+
+const factorLabels: Record<EfficiencyFactor, MessageKey> = {
+  tariff: "factorTariff",
+  production: "factorProduction",
+  carbon: "factorCarbon",
+  plan: "factorPlan"
+};
+
+const shortLabels: Record<EfficiencyFactor, MessageKey> = {
+  tariff: "factorTariffShort",
+  production: "factorProductionShort",
+  carbon: "factorCarbonShort",
+  plan: "factorPlanShort"
+};
+
+export default function EfficiencyBreakdown({ breakdown, preferences, compact = false }: EfficiencyBreakdownProps) {
+  if (!breakdown || breakdown.components.length === 0) {
+    return null;
+  }
+  const { t } = translatorFor(preferences.locale);
+  if (compact) {
+    return (
+      <span
+        className={styles.compact}
+        title={breakdown.components
+          .map((component) => `${t(factorLabels[component.factor])}: ${component.detail}`)
+          .join("\n")}
+      >
+        {breakdown.components.map((component) => `${t(shortLabels[component.factor])} ${component.score}`).join(" · ")}
+      </span>
+    );
+  }
+  return (
+    <ul className={styles.list} aria-label={t("efficiencyBreakdown")}>
+      {breakdown.components.map((component) => (
+        <li key={component.factor} className={styles.row}>
+          <span>{t(factorLabels[component.factor])}</span>
+          <span>
+            {component.score} × {Math.round(component.weight * 100)}%
+          </span>
+          <span className={styles.bar} aria-hidden="true">
+            <span className={styles.fill} style={{ display: "block", width: `${component.score}%` }} />
+          </span>
+          <span className={styles.detail}>{component.detail}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,39 @@
+import pageStyles from "../page.module.css";
+import { formatTonnes } from "../../utils/carbon";
+import type { MonthlyEmissions } from "../../utils/carbon";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type EmissionsCardProps = {
+  emissions: MonthlyEmissions;
+  preferences: Preferences;
+  /** Null when the user may not change the carbon profile. */
+  onEditProfile: (() => void) | null;
+};
+
+/** The month's emissions from consumption, net of those its supply avoided. */
+export default function EmissionsCard({ emissions, preferences, onEditProfile }: EmissionsCardProps) {
+  const { t } = translatorFor(preferences.locale);
+
+  return (
+    <div className={pageStyles.summaryItem}>
+      <span className={pageStyles.summaryLabel}>{t("netEmissions")}</span>
+      <span className={pageStyles.summaryValue}>{formatTonnes(emissions.netTonnes)}</span>
+      <span className={pageStyles.summaryDelta}>
+        {t("emissionsBreakdown", {
+          gross: formatTonnes(emissions.grossTonnes),
+          avoided: formatTonnes(emissions.avoidedTonnes)
+        })}
+        {onEditProfile ? (
+          <>
+            {" "}
+            ·{" "}
+            <button type="button" className={pageStyles.filterButton} onClick={onEditProfile}>
+              {t("carbonProfile")}
+            </button>
+          </>
+        ) : null}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./EventDetailPanel.module.css";
+import EfficiencyBreakdown from "./EfficiencyBreakdown";
+import EventFormFields from "./EventFormFields";
+import { applyFormChange, formFromEvent, formToInput } from "../../utils/eventForm";
+import type { DemandResponseWindow } from "../../utils/demandResponse";
+import type { EfficiencyBreakdown as EfficiencyScore } from "../../utils/efficiency";
+import type { EventFormField } from "../../utils/eventForm";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import { describeRecurrence, isVirtualOccurrence } from "../../utils/recurrence";
+import type { SiteRegistry } from "../../utils/sites";
+import { lifecycleOf, statusWithLifecycle } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { EnergyEvent, EnergyEventChanges } from "../../utils/types";
+import { hasBlockingIssues, validateEvent } from "../../utils/validation";
+
+export type EditScope = "occurrence" | "series";
+
+type EventDetailPanelProps = {
+  event: EnergyEvent;
+  /** The stored series when `event` is an expanded occurrence of a recurring event. */
+  series: EnergyEvent | null;
+  registry: SiteRegistry;
+  taxonomy: Taxonomy;
+  /** Stored events, which the edited event is checked against for conflicts. */
+  events: EnergyEvent[];
+  windows: DemandResponseWindow[];
+  /** The name of the automation rule that created the event, if one did and still exists. */
+  automationRuleName: string | null;
+  /** Why the storage simulation cannot deliver this event in full, if it cannot. */
+  storageIssue: string | null;
+  /** Live score breakdown against the current schedule. */
+  efficiency: EfficiencyScore | null;
+  /** What the signed-in user's role allows; without `canEdit` the panel is read only. */
+  canEdit: boolean;
+  canComplete: boolean;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onShowHistory: () => void;
+  onSave: (changes: EnergyEventChanges, scope: EditScope) => void;
+  onDelete: (scope: EditScope) => void;
+  onClose: () => void;
+};
+
+export default function EventDetailPanel({
+  event,
+  series,
+  registry,
+  taxonomy,
+  events,
+  windows,
+  automationRuleName,
+  storageIssue,
+  efficiency,
+  canEdit,
+  canComplete,
+  isSaving,
+  error,
+  preferences,
+  onShowHistory,
+  onSave,
+  onDelete,
+  onClose
+}: EventDetailPanelProps) {
+  const isOccurrence = isVirtualOccurrence(event) && series !== null;
+  const [scope, setScope] = useState<EditScope>("occurrence");
+  const source = isOccurrence && scope === "series" && series ? series : event;
+  // The panel is keyed by event id, so the form only resets when the user switches scope; refetches
+  // that rebuild `event` or `series` leave edits in progress alone.
+  const [form, setForm] = useState(() => formFromEvent(source));
+
+  const changeScope = (next: EditScope) => {
+    setScope(next);
+    setForm(formFromEvent(next === "series" && series ? series : event));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const input = formToInput(form, taxonomy);
+  const editsOccurrence = isOccurrence && scope === "occurrence";
+  const issues = input
+    ? validateEvent({ ...source, ...input, id: source.id }, events, registry, taxonomy, preferences)
+    : [];
+  const completedStatus = statusWithLifecycle(taxonomy, "completed");
+  const { t } = translatorFor(preferences.locale);
+
+  const handleChange = (field: EventFormField, value: string) => {
+    setForm((prev) => applyFormChange(prev, field, value));
+  };
+
+  const handleSubmit = (submitEvent: React.FormEvent<HTMLFormElement>) => {
+    submitEvent.preventDefault();
+    if (!input || hasBlockingIssues(issues)) {
+      return;
+    }
+    // An empty string (rather than an omitted key) tells the API to clear a removed note or asset.
+    const changes: EnergyEventChanges = { ...input, notes: input.notes ?? "", assetId: input.assetId ?? "" };
+    if (editsOccurrence) {
+      delete changes.recurrence;
+    } else {
+      changes.recurrence = input.recurrence ?? null;
+    }
+    changes.flexibility = input.flexibility ?? null;
+    changes.demandResponse = input.demandResponse ?? null;
+    onSave(changes, scope);
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <aside
+        className={styles.panel}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-detail-heading"
+        onClick={(clickEvent) => clickEvent.stopPropagation()}
+      >
+        <div className={styles.panelHeader}>
+          <div>
+            <h2 id="event-detail-heading">{event.title}</h2>
+            <span className={styles.meta}>
+              {event.type} · {event.status} · {t("efficiencyScore", { score: event.efficiencyScore })}
+            </span>
+            {event.recurrence ? (
+              <span className={styles.meta}> · {describeRecurrence(event.recurrence, preferences.locale)}</span>
+            ) : null}
+            {event.seriesId && !isOccurrence ? <span className={styles.meta}> · {t("editedOccurrence")}</span> : null}
+            {automationRuleName ? (
+              <span className={styles.meta}> · {t("createdByRule", { rule: automationRuleName })}</span>
+            ) : null}
+            {source.createdBy ? (
+              <span className={styles.meta}>
+                {" "}
+                ·{" "}
+                {source.updatedBy && source.updatedBy !== source.createdBy
+                  ? t("createdAndChangedBy", { creator: source.createdBy, editor: source.updatedBy })
+                  : t("createdBy", { creator: source.createdBy })}
+              </span>
+            ) : null}
+          </div>
+          <button type="button" className={styles.closeButton} onClick={onClose} aria-label={t("closeEventDetails")}>
+            ✕
+          </button>
+        </div>
+        {isOccurrence ? (
+          <div className={styles.actions} role="radiogroup" aria-label={t("applyChangesTo")}>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={scope === "occurrence"}
+              className={`${pageStyles.filterButton} ${scope === "occurrence" ? pageStyles.filterButtonActive : ""}`}
+              onClick={() => changeScope("occurrence")}
+            >
+              {t("thisOccurrence")}
+            </button>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={scope === "series"}
+              className={`${pageStyles.filterButton} ${scope === "series" ? pageStyles.filterButtonActive : ""}`}
+              onClick={() => changeScope("series")}
+            >
+              {t("wholeSeries")}
+            </button>
+          </div>
+        ) : null}
+        <form className={pageStyles.form} onSubmit={handleSubmit}>
+          <EfficiencyBreakdown breakdown={efficiency} preferences={preferences} />
+          {storageIssue ? (
+            <p className={styles.error} role="status">
+              ⚠ {storageIssue}
+            </p>
+          ) : null}
+          <fieldset disabled={!canEdit} className={styles.fields}>
+            <EventFormFields
+              form={form}
+              onChange={handleChange}
+              taxonomy={taxonomy}
+              idPrefix="edit-"
+              preferences={preferences}
+              showRecurrence={!editsOccurrence}
+              registry={registry}
+              issues={issues}
+              windows={windows}
+            />
+          </fieldset>
+          {error ? (
+            <p className={styles.error} role="alert">
+              {error}
+            </p>
+          ) : null}
+          <div className={styles.actions}>
+            {canEdit ? (
+              <button
+                className={pageStyles.primaryButton}
+                type="submit"
+                disabled={isSaving || !input || hasBlockingIssues(issues)}
+              >
+                {isSaving ? t("saving") : t("saveChanges")}
+              </button>
+            ) : null}
+            {canComplete && completedStatus && lifecycleOf(taxonomy, source.status) !== "completed" ? (
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                disabled={isSaving}
+                onClick={() => onSave({ status: completedStatus }, scope)}
+              >
+                {t("markCompleted")}
+              </button>
+            ) : null}
+            <button type="button" className={styles.secondaryButton} onClick={onShowHistory}>
+              {t("history")}
+            </button>
+            {canEdit ? (
+              <button type="button" className={styles.dangerButton} disabled={isSaving} onClick={() => onDelete(scope)}>
+                {isOccurrence ? (scope === "series" ? t("deleteSeries") : t("skipOccurrence")) : t("delete")}
+              </button>
+            ) : null}
+          </div>
+        </form>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./EventFilterBar.module.css";
+import { emptyFilter, filterToSearchParams, isFilterActive } from "../../utils/filters";
+import type { EventFilter, FilterPreset } from "../../utils/filters";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteRegistry } from "../../utils/sites";
+import type { Taxonomy } from "../../utils/taxonomy";
+
+type EventFilterBarProps = {
+  filter: EventFilter;
+  taxonomy: Taxonomy;
+  registry: SiteRegistry;
+  presets: FilterPreset[];
+  /** Events shown after filtering, and before. */
+  matchCount: number;
+  totalCount: number;
+  summaryFollowsFilter: boolean;
+  isSaving: boolean;
+  /** Presets are shared, so saving and deleting them takes the edit permission. */
+  canManagePresets: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onChange: (filter: EventFilter) => void;
+  onSummaryFollowsFilterChange: (follows: boolean) => void;
+  onApplyPreset: (preset: FilterPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+};
+
+const rangeFields = [
+  { label: "efficiencyPercent", min: "minEfficiency", max: "maxEfficiency", step: 5 },
+  { label: "energyKwhRange", min: "minKwh", max: "maxKwh", step: 10 }
+] as const;
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+
+export default function EventFilterBar({
+  filter,
+  taxonomy,
+  registry,
+  presets,
+  matchCount,
+  totalCount,
+  summaryFollowsFilter,
+  isSaving,
+  canManagePresets,
+  error,
+  preferences,
+  onChange,
+  onSummaryFollowsFilterChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset
+}: EventFilterBarProps) {
+  const [presetName, setPresetName] = useState("");
+  const [linkCopied, setLinkCopied] = useState(false);
+  const { t, tn } = translatorFor(preferences.locale);
+
+  const query = filterToSearchParams(filter).toString();
+  const activePreset = presets.find((preset) => preset.query === query) ?? null;
+
+  const update = (changes: Partial<EventFilter>) => {
+    setLinkCopied(false);
+    onChange({ ...filter, ...changes });
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+  };
+
+  return (
+    <div className={styles.bar}>
+      <label className={styles.group}>
+        <span className={styles.groupLabel}>{t("search")}</span>
+        <input
+          type="search"
+          className={`${pageStyles.input} ${styles.search}`}
+          placeholder={t("titleOrNotes")}
+          value={filter.search}
+          onChange={(event) => update({ search: event.target.value })}
+        />
+      </label>
+      <div className={styles.group}>
+        <span className={styles.groupLabel}>{t("status")}</span>
+        <div className={styles.options}>
+          {taxonomy.statuses.map((status) => (
+            <button
+              key={status.name}
+              type="button"
+              className={`${pageStyles.filterButton} ${
+                filter.statuses.includes(status.name) ? pageStyles.filterButtonActive : ""
+              }`}
+              aria-pressed={filter.statuses.includes(status.name)}
+              onClick={() => update({ statuses: toggle(filter.statuses, status.name) })}
+            >
+              {status.name}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rangeFields.map((field) => (
+        <div key={field.label} className={styles.group}>
+          <span className={styles.groupLabel}>{t(field.label)}</span>
+          <div className={styles.range}>
+            {([field.min, field.max] as const).map((key, index) => (
+              <input
+                key={key}
+                type="number"
+                min={0}
+                step={field.step}
+                className={pageStyles.input}
+                aria-label={t(index === 0 ? "minimumOf" : "maximumOf", { field: t(field.label) })}
+                placeholder={index === 0 ? t("min") : t("max")}
+                value={filter[key] ?? ""}
+                onChange={(event) =>
+                  update({ [key]: event.target.value === "" ? undefined : Math.max(0, Number(event.target.value)) })
+                }
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <label className={styles.group}>
+        <span className={styles.groupLabel}>{t("assets")}</span>
+        <select
+          multiple
+          className={pageStyles.select}
+          size={Math.min(4, Math.max(2, registry.assets.length))}
+          value={filter.assetIds}
+          onChange={(event) => update({ assetIds: Array.from(event.target.selectedOptions, (option) => option.value) })}
+        >
+          {registry.assets.map((asset) => (
+            <option key={asset.id} value={asset.id}>
+              {asset.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className={styles.group}>
+        <span className={styles.groupLabel}>{t("presets")}</span>
+        <div className={styles.options}>
+          <select
+            className={pageStyles.select}
+            aria-label={t("applySavedFilter")}
+            value={activePreset?.id ?? ""}
+            onChange={(event) => {
+              const preset = presets.find(({ id }) => id === event.target.value);
+              if (preset) {
+                setLinkCopied(false);
+                onApplyPreset(preset);
+              }
+            }}
+          >
+            <option value="">{presets.length > 0 ? t("savedFilters") : t("noSavedFilters")}</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          {!canManagePresets ? null : activePreset ? (
+            <button
+              type="button"
+              className={pageStyles.filterButton}
+              disabled={isSaving}
+              onClick={() => onDeletePreset(activePreset.id)}
+            >
+              {t("deletePreset")}
+            </button>
+          ) : (
+            <>
+              <input
+                type="text"
+                className={pageStyles.input}
+                aria-label={t("presetName")}
+                placeholder={t("presetName")}
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+              />
+              <button
+                type="button"
+                className={pageStyles.filterButton}
+                disabled={isSaving || !presetName.trim() || !isFilterActive(filter)}
+                onClick={() => {
+                  onSavePreset(presetName.trim());
+                  setPresetName("");
+                }}
+              >
+                {t("saveFilter")}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <label className={styles.options}>
+        <input
+          type="checkbox"
+          checked={summaryFollowsFilter}
+          onChange={(event) => onSummaryFollowsFilterChange(event.target.checked)}
+        />
+        {t("summaryShowsFiltered")}
+      </label>
+      <span className={styles.count}>{tn("eventsMatching", totalCount, { matched: matchCount })}</span>
+      <button
+        type="button"
+        className={pageStyles.filterButton}
+        disabled={!isFilterActive(filter)}
+        onClick={() => update(emptyFilter)}
+      >
+        {t("clearFilters")}
+      </button>
+      <button type="button" className={pageStyles.filterButton} onClick={copyLink}>
+        {linkCopied ? t("linkCopied") : t("copyLink")}
+      </button>
+      {error ? (
+        <span className={styles.error} role="alert">
+          {error}
+        </span>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import styles from "../page.module.css";
+import fieldStyles from "./EventFormFields.module.css";
+import type { DemandResponseWindow } from "../../utils/demandResponse";
+import type { EventFormField, EventFormState } from "../../utils/eventForm";
+import { translatorFor, weekdayNames } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteRegistry } from "../../utils/sites";
+import { isFlexibleType } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { ScheduleIssue } from "../../utils/validation";
+
+type EventFormFieldsProps = {
+  form: EventFormState;
+  onChange: (field: EventFormField, value: string) => void;
+  /** Supplies the category and status options. */
+  taxonomy: Taxonomy;
+  idPrefix?: string;
+  showRecurrence?: boolean;
+  registry?: SiteRegistry;
+  /** Schedule validation results, shown under the field each one belongs to. */
+  issues?: ScheduleIssue[];
+  /** Demand response windows a flexible event can be enrolled in. */
+  windows?: DemandResponseWindow[];
+  preferences: Preferences;
+};
+
+const intervalLabels: Record<"daily" | "weekly" | "monthly", MessageKey> = {
+  daily: "everyDays",
+  weekly: "everyWeeks",
+  monthly: "everyMonths"
+};
+
+export default function EventFormFields({
+  form,
+  onChange,
+  taxonomy,
+  idPrefix = "",
+  showRecurrence = true,
+  registry,
+  issues = [],
+  windows = [],
+  preferences
+}: EventFormFieldsProps) {
+  const { t } = translatorFor(preferences.locale);
+  const fieldId = (name: string) => `${idPrefix}${name}`;
+  const siteId = registry?.assets.find((asset) => asset.id === form.assetId)?.siteId;
+  const siteTimeZone = registry?.sites.find((site) => site.id === siteId)?.timeZone;
+  /** Only windows in the event's month that measure the event's own site (or the whole portfolio). */
+  const monthWindows = windows.filter(
+    (window) => window.date.slice(0, 7) === form.date.slice(0, 7) && (!window.siteId || window.siteId === siteId)
+  );
+  const issuesFor = (field: ScheduleIssue["field"]) =>
+    issues
+      .filter((issue) => issue.field === field)
+      .map((issue) => (
+        <span
+          key={issue.message}
+          className={issue.severity === "error" ? fieldStyles.error : fieldStyles.warning}
+          role={issue.severity === "error" ? "alert" : "status"}
+        >
+          {issue.severity === "error" ? "✕" : "⚠"} {issue.message}
+        </span>
+      ));
+  return (
+    <>
+      <div className={styles.fieldGroup}>
+        <label className={styles.label} htmlFor={fieldId("title")}>
+          {t("activityTitle")}
+        </label>
+        <input
+          id={fieldId("title")}
+          className={styles.input}
+          placeholder={t("activityTitlePlaceholder")}
+          value={form.title}
+          onChange={(event) => onChange("title", event.target.value)}
+        />
+      </div>
+      <div className={styles.formRow}>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("type")}>
+            {t("category")}
+          </label>
+          <select
+            id={fieldId("type")}
+            className={styles.select}
+            value={form.type}
+            onChange={(event) => onChange("type", event.target.value)}
+          >
+            {taxonomy.categories.map((category) => (
+              <option key={category.name} value={category.name}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("status")}>
+            {t("status")}
+          </label>
+          <select
+            id={fieldId("status")}
+            className={styles.select}
+            value={form.status}
+            onChange={(event) => onChange("status", event.target.value)}
+          >
+            {taxonomy.statuses.map((status) => (
+              <option key={status.name} value={status.name}>
+                {status.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className={styles.formRow}>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("date")}>
+            {t("date")}
+          </label>
+          <input
+            id={fieldId("date")}
+            type="date"
+            className={styles.input}
+            value={form.date}
+            onChange={(event) => onChange("date", event.target.value)}
+          />
+        </div>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("energy")}>
+            {t("energyKwh")}
+          </label>
+          <input
+            id={fieldId("energy")}
+            className={styles.input}
+            placeholder="150"
+            value={form.energyKwh}
+            onChange={(event) => onChange("energyKwh", event.target.value)}
+          />
+          {issuesFor("energyKwh")}
+        </div>
+      </div>
+      <div className={styles.formRow}>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("startTime")}>
+            {t("startTime")}
+          </label>
+          <input
+            id={fieldId("startTime")}
+            type="time"
+            className={styles.input}
+            value={form.startTime}
+            onChange={(event) => onChange("startTime", event.target.value)}
+          />
+        </div>
+        <div className={styles.fieldGroup}>
+          <label className={styles.label} htmlFor={fieldId("endTime")}>
+            {t("endTime")}
+          </label>
+          <input
+            id={fieldId("endTime")}
+            type="time"
+            className={styles.input}
+            value={form.endTime}
+            onChange={(event) => onChange("endTime", event.target.value)}
+          />
+          {issuesFor("endTime")}
+        </div>
+      </div>
+      {siteTimeZone ? <p className={fieldStyles.hint}>{t("timesLocalToSite", { zone: siteTimeZone })}</p> : null}
+      <div className={styles.fieldGroup}>
+        <label className={styles.label} htmlFor={fieldId("notes")}>
+          {t("notes")}
+        </label>
+        <textarea
+          id={fieldId("notes")}
+          className={styles.input}
+          rows={3}
+          placeholder={t("notesPlaceholder")}
+          value={form.notes}
+          onChange={(event) => onChange("notes", event.target.value)}
+        />
+      </div>
+      <div className={styles.formRow}>
+        {registry ? (
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor={fieldId("assetId")}>
+              {t("asset")}
+            </label>
+            <select
+              id={fieldId("assetId")}
+              className={styles.select}
+              value={form.assetId}
+              onChange={(event) => onChange("assetId", event.target.value)}
+            >
+              <option value="">{t("noAsset")}</option>
+              {registry.sites.map((site) => (
+                <optgroup key={site.id} label={site.name}>
+                  {registry.assets
+                    .filter(
+                      (asset) => asset.siteId === site.id && (asset.type === form.type || asset.id === form.assetId)
+                    )
+                    .map((asset) => (
+                      <option key={asset.id} value={asset.id}>
+                        {asset.name}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            {issuesFor("assetId")}
+          </div>
+        ) : null}
+        {form.type === "Storage" ? (
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor={fieldId("storageDirection")}>
+              {t("direction")}
+            </label>
+            <select
+              id={fieldId("storageDirection")}
+              className={styles.select}
+              value={form.storageDirection}
+              onChange={(event) => onChange("storageDirection", event.target.value)}
+            >
+              <option value="charge">{t("charge")}</option>
+              <option value="discharge">{t("discharge")}</option>
+            </select>
+          </div>
+        ) : null}
+      </div>
+      {isFlexibleType(taxonomy, form.type) && !(form.type === "Storage" && form.storageDirection === "discharge") ? (
+        <>
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor={fieldId("flexible")}>
+              <input
+                id={fieldId("flexible")}
+                type="checkbox"
+                checked={form.flexible}
+                onChange={(event) => onChange("flexible", String(event.target.checked))}
+              />{" "}
+              {t("flexibleLoad")}
+            </label>
+          </div>
+          {form.flexible ? (
+            <div className={styles.formRow}>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label} htmlFor={fieldId("flexEarliest")}>
+                  {t("earliestStart")}
+                </label>
+                <input
+                  id={fieldId("flexEarliest")}
+                  type="time"
+                  className={styles.input}
+                  value={form.flexEarliest}
+                  onChange={(event) => onChange("flexEarliest", event.target.value)}
+                />
+              </div>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label} htmlFor={fieldId("flexLatest")}>
+                  {t("latestEnd")}
+                </label>
+                <input
+                  id={fieldId("flexLatest")}
+                  type="time"
+                  className={styles.input}
+                  value={form.flexLatest}
+                  onChange={(event) => onChange("flexLatest", event.target.value)}
+                />
+                {issuesFor("flexLatest")}
+              </div>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label} htmlFor={fieldId("flexDays")}>
+                  {t("plusMinusDays")}
+                </label>
+                <input
+                  id={fieldId("flexDays")}
+                  className={styles.input}
+                  inputMode="numeric"
+                  value={form.flexDays}
+                  onChange={(event) => onChange("flexDays", event.target.value)}
+                />
+              </div>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+      {isFlexibleType(taxonomy, form.type) && (monthWindows.length > 0 || form.drWindowId) ? (
+        <div className={styles.formRow}>
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor={fieldId("drWindowId")}>
+              {t("demandResponse")}
+            </label>
+            <select
+              id={fieldId("drWindowId")}
+              className={styles.select}
+              value={form.drWindowId}
+              onChange={(event) => onChange("drWindowId", event.target.value)}
+            >
+              <option value="">{t("notEnrolled")}</option>
+              {monthWindows.map((window) => (
+                <option key={window.id} value={window.id}>
+                  {window.program} · {window.date} {window.startTime}–{window.endTime}
+                </option>
+              ))}
+              {form.drWindowId && !monthWindows.some((window) => window.id === form.drWindowId) ? (
+                <option value={form.drWindowId}>
+                  {windows.find((window) => window.id === form.drWindowId)?.program ?? t("removedWindow")}
+                </option>
+              ) : null}
+            </select>
+          </div>
+          {form.drWindowId ? (
+            <div className={styles.fieldGroup}>
+              <label className={styles.label} htmlFor={fieldId("drCommittedKw")}>
+                {t("committedReductionKw")}
+              </label>
+              <input
+                id={fieldId("drCommittedKw")}
+                className={styles.input}
+                inputMode="decimal"
+                placeholder="50"
+                value={form.drCommittedKw}
+                onChange={(event) => onChange("drCommittedKw", event.target.value)}
+              />
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      {showRecurrence ? (
+        <>
+          <div className={styles.formRow}>
+            <div className={styles.fieldGroup}>
+              <label className={styles.label} htmlFor={fieldId("repeat")}>
+                {t("repeat")}
+              </label>
+              <select
+                id={fieldId("repeat")}
+                className={styles.select}
+                value={form.repeat}
+                onChange={(event) => onChange("repeat", event.target.value)}
+              >
+                <option value="none">{t("doesNotRepeat")}</option>
+                <option value="daily">{t("daily")}</option>
+                <option value="weekly">{t("weekly")}</option>
+                <option value="monthly">{t("monthly")}</option>
+              </select>
+            </div>
+            {form.repeat !== "none" ? (
+              <div className={styles.fieldGroup}>
+                <label className={styles.label} htmlFor={fieldId("repeatInterval")}>
+                  {t(intervalLabels[form.repeat])}
+                </label>
+                <input
+                  id={fieldId("repeatInterval")}
+                  className={styles.input}
+                  inputMode="numeric"
+                  value={form.repeatInterval}
+                  onChange={(event) => onChange("repeatInterval", event.target.value)}
+                />
+              </div>
+            ) : null}
+          </div>
+          {form.repeat === "daily" || form.repeat === "weekly" ? (
+            <div className={styles.fieldGroup}>
+              <span className={styles.label}>{t("onWeekdaysLabel")}</span>
+              <div className={styles.filterRow}>
+                {weekdayNames(preferences.locale).map((label, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    className={`${styles.filterButton} ${
+                      form.repeatWeekdays.includes(day) ? styles.filterButtonActive : ""
+                    }`}
+                    aria-pressed={form.repeatWeekdays.includes(day)}
+                    onClick={() => onChange("repeatWeekdays", String(day))}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+          {form.repeat !== "none" ? (
+            <div className={styles.formRow}>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label} htmlFor={fieldId("repeatEnd")}>
+                  {t("ends")}
+                </label>
+                <select
+                  id={fieldId("repeatEnd")}
+                  className={styles.select}
+                  value={form.repeatEnd}
+                  onChange={(event) => onChange("repeatEnd", event.target.value)}
+                >
+                  <option value="never">{t("never")}</option>
+                  <option value="until">{t("onDate")}</option>
+                  <option value="count">{t("afterOccurrences")}</option>
+                </select>
+              </div>
+              {form.repeatEnd === "until" ? (
+                <div className={styles.fieldGroup}>
+                  <label className={styles.label} htmlFor={fieldId("repeatUntil")}>
+                    {t("until")}
+                  </label>
+                  <input
+                    id={fieldId("repeatUntil")}
+                    type="date"
+                    className={styles.input}
+                    value={form.repeatUntil}
+                    onChange={(event) => onChange("repeatUntil", event.target.value)}
+                  />
+                </div>
+              ) : null}
+              {form.repeatEnd === "count" ? (
+                <div className={styles.fieldGroup}>
+                  <label className={styles.label} htmlFor={fieldId("repeatCount")}>
+                    {t("occurrences")}
+                  </label>
+                  <input
+                    id={fieldId("repeatCount")}
+                    className={styles.input}
+                    inputMode="numeric"
+                    value={form.repeatCount}
+                    onChange={(event) => onChange("repeatCount", event.target.value)}
+                  />
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </>
+  );
+}
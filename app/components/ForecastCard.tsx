@@ -0,0 +1,73 @@
+import pageStyles from "../page.module.css";
+import type { ForecastBalance } from "../../utils/forecast";
+import { translatorFor } from "../../utils/i18n";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+
+type ForecastCardProps = {
+  forecast: ForecastBalance;
+  /** The uploaded weather file the next forecast will use, if any. */
+  weatherFileName: string | null;
+  canEdit: boolean;
+  isSaving: boolean;
+  preferences: Preferences;
+  onRunForecast: () => void;
+  onWeatherFile: (file: File | undefined) => void;
+};
+
+/** The rest of the month's balance with forecast production, within its 80% confidence band. */
+export default function ForecastCard({
+  forecast,
+  weatherFileName,
+  canEdit,
+  isSaving,
+  preferences,
+  onRunForecast,
+  onWeatherFile
+}: ForecastCardProps) {
+  const { t } = translatorFor(preferences.locale);
+  const energy = (kwh: number, signed = false) => formatEnergy(kwh, preferences, { signed });
+
+  return (
+    <div className={pageStyles.summaryItem}>
+      <span className={pageStyles.summaryLabel}>{t("forecastBalance")}</span>
+      <span className={pageStyles.summaryValue}>{energy(forecast.balanceKwh, true)}</span>
+      <span className={pageStyles.summaryDelta}>
+        {forecast.forecastCount > 0
+          ? t("forecastRange", {
+              low: energy(forecast.balanceLowKwh),
+              high: energy(forecast.balanceHighKwh),
+              forecast: energy(forecast.forecastKwh),
+              supply: energy(forecast.scheduledSupplyKwh),
+              demand: energy(forecast.scheduledDemandKwh)
+            })
+          : t("noForecastYet", { demand: energy(forecast.scheduledDemandKwh) })}{" "}
+        · {t("restOfMonth")}
+        {canEdit ? (
+          <>
+            {" "}
+            ·{" "}
+            <button type="button" className={pageStyles.filterButton} disabled={isSaving} onClick={onRunForecast}>
+              {t("runForecast")}
+            </button>{" "}
+            <label
+              className={pageStyles.filterButton}
+              title={weatherFileName ? t("usingFile", { file: weatherFileName }) : undefined}
+            >
+              {weatherFileName ? t("weatherLoaded") : t("weatherFile")}
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                hidden
+                onChange={(changeEvent) => {
+                  onWeatherFile(changeEvent.target.files?.[0]);
+                  changeEvent.target.value = "";
+                }}
+              />
+            </label>
+          </>
+        ) : null}
+      </span>
+    </div>
+  );
+}
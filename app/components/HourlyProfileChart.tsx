@@ -0,0 +1,97 @@
+import { typeStyleOf } from "./typeStyles";
+import { translatorFor } from "../../utils/i18n";
+import { formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { HourlyLoad } from "../../utils/profile";
+import { typesWithBalance } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+
+type HourlyProfileChartProps = {
+  profile: HourlyLoad[];
+  maxKw: number;
+  taxonomy: Taxonomy;
+  preferences: Preferences;
+  height?: number;
+};
+
+const chartWidth = 240;
+
+/**
+ * Stacked hourly power: supply and storage categories grow upward from the centre line and
+ * consumption grows downward, so any hour where the stack below outgrows the one above is a deficit.
+ */
+export default function HourlyProfileChart({
+  profile,
+  maxKw,
+  taxonomy,
+  preferences,
+  height = 96
+}: HourlyProfileChartProps) {
+  const { t } = translatorFor(preferences.locale);
+  const power = (kw: number) => formatPower(kw, preferences);
+  const half = height / 2;
+  const barWidth = chartWidth / profile.length;
+  const scale = maxKw > 0 ? (half - 2) / maxKw : 0;
+  const supplyTypes = [...typesWithBalance(taxonomy, "supply"), ...typesWithBalance(taxonomy, "storage")];
+  const demandTypes = typesWithBalance(taxonomy, "consumption");
+
+  return (
+    <svg
+      viewBox={`0 0 ${chartWidth} ${height}`}
+      preserveAspectRatio="none"
+      width="100%"
+      height={height}
+      role="img"
+      aria-label={t("hourlyProfile")}
+    >
+      <line x1={0} x2={chartWidth} y1={half} y2={half} stroke="rgba(18, 18, 18, 0.2)" strokeWidth={0.5} />
+      {profile.map((load, hour) => {
+        const supply = supplyTypes.reduce((acc, type) => acc + (load[type] ?? 0), 0);
+        const demand = demandTypes.reduce((acc, type) => acc + (load[type] ?? 0), 0);
+        let offset = half;
+        let demandOffset = half;
+        return (
+          <g key={hour}>
+            <title>
+              {t("hourlyProfileHour", {
+                hour: `${String(hour).padStart(2, "0")}:00`,
+                supply: power(supply),
+                demand: power(demand),
+                net: power(supply - demand)
+              })}
+            </title>
+            <rect x={hour * barWidth} y={0} width={barWidth} height={height} fill="transparent" />
+            {supplyTypes.map((type) => {
+              const barHeight = (load[type] ?? 0) * scale;
+              offset -= barHeight;
+              return barHeight > 0 ? (
+                <rect
+                  key={type}
+                  x={hour * barWidth + 0.5}
+                  y={offset}
+                  width={barWidth - 1}
+                  height={barHeight}
+                  fill={typeStyleOf(taxonomy, type).color}
+                />
+              ) : null;
+            })}
+            {demandTypes.map((type) => {
+              const barHeight = (load[type] ?? 0) * scale;
+              demandOffset += barHeight;
+              return barHeight > 0 ? (
+                <rect
+                  key={type}
+                  x={hour * barWidth + 0.5}
+                  y={demandOffset - barHeight}
+                  width={barWidth - 1}
+                  height={barHeight}
+                  fill={typeStyleOf(taxonomy, type).color}
+                />
+              ) : null;
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,186 @@
+import { useMemo, useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { draftToInput, draftWallClock } from "../../utils/ical";
+import type { ICalDraft } from "../../utils/ical";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import { describeRecurrence } from "../../utils/recurrence";
+import { timeZoneOf } from "../../utils/sites";
+import type { SiteRegistry } from "../../utils/sites";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { EnergyEvent, EnergyEventInput } from "../../utils/types";
+
+type ICalImportDialogProps = {
+  fileName: string;
+  drafts: ICalDraft[];
+  existingEvents: EnergyEvent[];
+  taxonomy: Taxonomy;
+  /** Times written in UTC or with a TZID are shown and imported in the zone of each row's site. */
+  registry: SiteRegistry;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onConfirm: (inputs: EnergyEventInput[]) => void;
+  onCancel: () => void;
+};
+
+type ReviewRow = ICalDraft & { include: boolean; duplicate: boolean };
+
+export default function ICalImportDialog({
+  fileName,
+  drafts,
+  existingEvents,
+  taxonomy,
+  registry,
+  isSaving,
+  error,
+  preferences,
+  onConfirm,
+  onCancel
+}: ICalImportDialogProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+  const localTimesOf = (draft: ICalDraft) => draftWallClock(draft, timeZoneOf(draft, registry));
+  const [rows, setRows] = useState<ReviewRow[]>(() =>
+    drafts.map((draft) => {
+      const { date, startTime } = localTimesOf(draft);
+      const duplicate = existingEvents.some(
+        (event) => event.title === draft.title && event.date === date && event.startTime === startTime
+      );
+      return { ...draft, include: !duplicate, duplicate };
+    })
+  );
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) =>
+    setRows((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)));
+
+  const selected = useMemo(() => rows.filter((row) => row.include), [rows]);
+  const inputs = selected.map((row) => draftToInput(row, timeZoneOf(row, registry)));
+  const unresolved = inputs.filter((input) => input === null).length;
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="ical-import-heading">
+        <h2 id="ical-import-heading">{t("importFile", { fileName })}</h2>
+        <p className={styles.hint}>
+          {tn("eventsFound", drafts.length)} {t("icalImportHint")}
+        </p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th aria-label={t("include")} />
+              <th>{t("event")}</th>
+              <th>{t("category")}</th>
+              <th>{t("asset")}</th>
+              <th>{t("energyKwh")}</th>
+              <th>{t("status")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const { date, startTime, endTime } = localTimesOf(row);
+              return (
+                <tr
+                  key={`${row.uid}-${index}`}
+                  className={row.include && !draftToInput(row, timeZoneOf(row, registry)) ? styles.needsAttention : ""}
+                >
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={row.include}
+                      aria-label={t("importTitle", { title: row.title })}
+                      onChange={(event) => updateRow(index, { include: event.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <strong>{row.title}</strong>
+                    <span className={styles.hint}>
+                      {" "}
+                      {date} · {startTime} – {endTime}
+                      {row.recurrence ? ` · ${describeRecurrence(row.recurrence, preferences.locale)}` : ""}
+                    </span>
+                    {row.duplicate ? <span className={styles.issue}>{t("alreadyOnCalendar")}</span> : null}
+                    {row.issues.map((issue) => (
+                      <span key={issue} className={styles.issue}>
+                        {issue}
+                      </span>
+                    ))}
+                  </td>
+                  <td>
+                    <select
+                      value={row.type ?? ""}
+                      aria-label={t("categoryFor", { title: row.title })}
+                      onChange={(event) => updateRow(index, { type: event.target.value || null })}
+                    >
+                      <option value="">{row.rawType ? `“${row.rawType}” →` : t("choose")}</option>
+                      {taxonomy.categories.map((category) => (
+                        <option key={category.name} value={category.name}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <select
+                      value={row.assetId ?? ""}
+                      aria-label={t("assetFor", { title: row.title })}
+                      onChange={(event) => updateRow(index, { assetId: event.target.value || undefined })}
+                    >
+                      <option value="">{t("noAsset")}</option>
+                      {registry.sites.map((site) => (
+                        <optgroup key={site.id} label={site.name}>
+                          {registry.assets
+                            .filter((asset) => asset.siteId === site.id && (!row.type || asset.type === row.type))
+                            .map((asset) => (
+                              <option key={asset.id} value={asset.id}>
+                                {asset.name}
+                              </option>
+                            ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.energyKwh ?? ""}
+                      aria-label={t("energyFor", { title: row.title })}
+                      onChange={(event) => {
+                        const value = Number(event.target.value.replace(/[^0-9.]/g, ""));
+                        updateRow(index, { energyKwh: value > 0 ? value : null });
+                      }}
+                    />
+                  </td>
+                  <td>{row.status}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button
+            type="button"
+            className={pageStyles.primaryButton}
+            disabled={isSaving || selected.length === 0 || unresolved > 0}
+            onClick={() => onConfirm(inputs.filter((input): input is EnergyEventInput => input !== null))}
+          >
+            {isSaving
+              ? t("importing")
+              : unresolved > 0
+                ? tn("rowsNeedCategoryOrKwh", unresolved)
+                : tn("importEvents", selected.length)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { format, parseISO } from "date-fns";
+import pageStyles from "../page.module.css";
+import { translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import { formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { LiveBalance } from "../../utils/telemetry";
+
+export type TelemetryConnection = "connecting" | "live" | "offline";
+
+type LiveBalanceCardProps = {
+  balance: LiveBalance;
+  connection: TelemetryConnection;
+  isSimulating: boolean;
+  preferences: Preferences;
+  /** Null when the user may not feed simulated readings. */
+  onToggleSimulator: (() => void) | null;
+};
+
+const connectionLabels: Record<TelemetryConnection, MessageKey> = {
+  connecting: "connecting",
+  live: "live",
+  offline: "offline"
+};
+
+/** Net power across the assets that reported recently, and the state of the telemetry stream. */
+export default function LiveBalanceCard({
+  balance,
+  connection,
+  isSimulating,
+  preferences,
+  onToggleSimulator
+}: LiveBalanceCardProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+
+  return (
+    <div className={pageStyles.summaryItem}>
+      <span className={pageStyles.summaryLabel}>
+        {t("liveNet")} · {t(connectionLabels[connection])}
+      </span>
+      <span className={pageStyles.summaryValue}>
+        {balance.reportingAssets > 0 ? formatPower(balance.netKw, preferences, { signed: true }) : "—"}
+      </span>
+      <span className={pageStyles.summaryDelta}>
+        {balance.updatedAt
+          ? tn("assetsReporting", balance.reportingAssets, {
+              time: format(parseISO(balance.updatedAt), "HH:mm:ss")
+            })
+          : t("noAssetReported")}
+      </span>
+      {onToggleSimulator ? (
+        <button
+          type="button"
+          className={`${pageStyles.filterButton} ${isSimulating ? pageStyles.filterButtonActive : ""}`}
+          aria-pressed={isSimulating}
+          onClick={onToggleSimulator}
+        >
+          {isSimulating ? t("stopSimulator") : t("simulateTelemetry")}
+        </button>
+      ) : null}
+    </div>
+  );
+}
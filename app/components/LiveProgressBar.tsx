@@ -0,0 +1,58 @@
+import styles from "./LiveProgressBar.module.css";
+import { translatorFor } from "../../utils/i18n";
+import { formatEnergy, formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { LiveProgress } from "../../utils/telemetry";
+
+type LiveProgressBarProps = {
+  progress: LiveProgress | null | undefined;
+  preferences: Preferences;
+  /** Bar and delivered kWh only, for timeline segments. */
+  compact?: boolean;
+};
+
+const percentOf = (value: number, total: number) => (total > 0 ? Math.min(100, (value / total) * 100) : 0);
+
+export default function LiveProgressBar({ progress, preferences, compact = false }: LiveProgressBarProps) {
+  if (!progress) {
+    return null;
+  }
+  const { t } = translatorFor(preferences.locale);
+  const energy = (kwh: number) => formatEnergy(kwh, preferences);
+  const { deliveredKwh, plannedKwh, expectedKwh, currentKw } = progress;
+  const variance = expectedKwh > 0 ? Math.round(((deliveredKwh - expectedKwh) / expectedKwh) * 100) : 0;
+  const summary = t("liveSummary", {
+    delivered: energy(deliveredKwh),
+    planned: energy(plannedKwh),
+    expected: energy(expectedKwh)
+  });
+  return (
+    <span className={styles.live} title={summary}>
+      <span
+        className={styles.bar}
+        role="progressbar"
+        aria-label={t("deliveredEnergy")}
+        aria-valuemin={0}
+        aria-valuemax={plannedKwh}
+        aria-valuenow={deliveredKwh}
+      >
+        <span
+          className={`${styles.fill} ${deliveredKwh < expectedKwh ? styles.fillBehind : ""}`}
+          style={{ width: `${percentOf(deliveredKwh, plannedKwh)}%` }}
+        />
+        <span className={styles.expected} style={{ left: `${percentOf(expectedKwh, plannedKwh)}%` }} />
+      </span>
+      {compact ? (
+        <span className={styles.label}>{t("liveEnergy", { energy: energy(deliveredKwh) })}</span>
+      ) : (
+        <span className={styles.label}>
+          {t("liveEnergy", { energy: `${energy(deliveredKwh)} / ${energy(plannedKwh)}` })} ·{" "}
+          {expectedKwh > 0
+            ? t("percentVsPlan", { percent: `${variance >= 0 ? "+" : ""}${variance}` })
+            : t("justStarted")}{" "}
+          · {currentKw === null ? t("noRecentReading") : t("powerNow", { power: formatPower(currentKw, preferences) })}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,77 @@
+import { format, parseISO } from "date-fns";
+import styles from "./LoadShiftPreview.module.css";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { MonthSummary, Recommendation } from "../../utils/summary";
+import type { EnergyEvent } from "../../utils/types";
+
+type LoadShiftPreviewProps = {
+  event: EnergyEvent;
+  targetDate: string | null;
+  targetStartTime?: string;
+  current: { summary: MonthSummary; recommendations: Recommendation[] };
+  projected: { summary: MonthSummary; recommendations: Recommendation[] } | null;
+  preferences: Preferences;
+};
+
+export default function LoadShiftPreview({
+  event,
+  targetDate,
+  targetStartTime,
+  current,
+  projected,
+  preferences
+}: LoadShiftPreviewProps) {
+  const { t } = translatorFor(preferences.locale);
+  const formatBalance = (value: number) => formatEnergy(value, preferences, { signed: true });
+
+  if (!targetDate || !projected) {
+    return (
+      <div className={styles.preview} role="status">
+        <span className={styles.label}>{t("moving", { title: event.title })}</span>
+        <span>{t("dropToPreview")}</span>
+      </div>
+    );
+  }
+
+  const delta = projected.summary.netBalance - current.summary.netBalance;
+  const currentTitles = new Set(current.recommendations.map((rec) => rec.title));
+  const projectedTitles = new Set(projected.recommendations.map((rec) => rec.title));
+  const added = projected.recommendations.filter((rec) => !currentTitles.has(rec.title));
+  const cleared = current.recommendations.filter((rec) => !projectedTitles.has(rec.title));
+
+  return (
+    <div className={styles.preview} role="status">
+      <span className={styles.label}>
+        {event.title} → {format(parseISO(targetDate), "EEE d MMM", { locale: dateLocales[preferences.locale] })}
+        {targetStartTime ? ` ${targetStartTime}` : ""}
+      </span>
+      <span>
+        {t("netBalanceShift", {
+          from: formatBalance(current.summary.netBalance),
+          to: formatBalance(projected.summary.netBalance)
+        })}
+        {delta !== 0 ? (
+          <span className={delta > 0 ? styles.positive : styles.negative}> ({formatBalance(delta)})</span>
+        ) : null}
+      </span>
+      {added.length > 0 || cleared.length > 0 ? (
+        <span className={styles.changes}>
+          {cleared.map((rec) => (
+            <span key={`cleared-${rec.title}`} className={styles.tag}>
+              − {rec.title}
+            </span>
+          ))}
+          {added.map((rec) => (
+            <span key={`added-${rec.title}`} className={styles.tag}>
+              + {rec.title}
+            </span>
+          ))}
+        </span>
+      ) : (
+        <span>{t("recommendationsUnchanged")}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { format, parseISO } from "date-fns";
+import pageStyles from "../page.module.css";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import type { LoadShiftSuggestion, OptimizerObjective } from "../../utils/optimizer";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import { formatMoney } from "../../utils/tariff";
+
+type LoadShiftSuggestionsProps = {
+  suggestions: LoadShiftSuggestion[];
+  objective: OptimizerObjective;
+  currency: string;
+  preferences: Preferences;
+  /** Null when the user may not reschedule events. */
+  onAccept: ((suggestion: LoadShiftSuggestion) => void) | null;
+  onObjectiveChange: (objective: OptimizerObjective) => void;
+};
+
+const objectives: OptimizerObjective[] = ["cost", "selfConsumption"];
+
+/** The optimizer's proposed slots for flexible loads, under the chosen objective. */
+export default function LoadShiftSuggestions({
+  suggestions,
+  objective,
+  currency,
+  preferences,
+  onAccept,
+  onObjectiveChange
+}: LoadShiftSuggestionsProps) {
+  const { t } = translatorFor(preferences.locale);
+  const energy = (kwh: number) => formatEnergy(kwh, preferences);
+
+  return (
+    <>
+      <div className={pageStyles.recommendationItem}>
+        <span className={`${pageStyles.tag} ${pageStyles.tagAccent}`}>
+          {t("loadShiftSuggestions")} · {suggestions.length}
+        </span>
+        <div className={pageStyles.filterRow}>
+          {objectives.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`${pageStyles.filterButton} ${objective === option ? pageStyles.filterButtonActive : ""}`}
+              aria-pressed={objective === option}
+              onClick={() => onObjectiveChange(option)}
+            >
+              {option === "cost" ? t("minimizeCost") : t("maximizeSelfConsumption")}
+            </button>
+          ))}
+        </div>
+        {suggestions.length === 0 ? <span>{t("loadsInBestSlots")}</span> : null}
+      </div>
+      {suggestions.map((suggestion) => (
+        <div key={suggestion.event.id} className={pageStyles.recommendationItem}>
+          <span className={pageStyles.tag}>{suggestion.event.title}</span>
+          <span>
+            {t("moveTo", {
+              date: format(parseISO(suggestion.date), "EEE d MMM", { locale: dateLocales[preferences.locale] }),
+              start: suggestion.startTime,
+              end: suggestion.endTime
+            })}{" "}
+            {suggestion.reason}{" "}
+            {t(suggestion.savings >= 0 ? "shiftSaves" : "shiftCosts", {
+              amount: formatMoney(Math.abs(suggestion.savings), currency, 2, preferences.locale),
+              current: energy(suggestion.currentSelfConsumedKwh),
+              proposed: energy(suggestion.proposedSelfConsumedKwh)
+            })}
+          </span>
+          {onAccept ? (
+            <button type="button" className={pageStyles.filterButton} onClick={() => onAccept(suggestion)}>
+              {t("accept")}
+            </button>
+          ) : null}
+        </div>
+      ))}
+    </>
+  );
+}
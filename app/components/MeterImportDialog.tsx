@@ -0,0 +1,291 @@
+import { useMemo, useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { formatVariance } from "../../utils/events";
+import { translatorFor } from "../../utils/i18n";
+import { guessMapping, tableToIntervals } from "../../utils/meterData";
+import type {
+  MeterColumnMapping,
+  MeterInterval,
+  MeterTable,
+  ReconcileOptions,
+  ReconciliationPlan
+} from "../../utils/meterData";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteRegistry } from "../../utils/sites";
+import { statusWithLifecycle } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+
+type MeterImportDialogProps = {
+  fileName: string;
+  table: MeterTable;
+  taxonomy: Taxonomy;
+  registry: SiteRegistry;
+  /** The site in view, which the meter is assumed to measure until the user says otherwise. */
+  siteId: string | null;
+  preferences: Preferences;
+  isSaving: boolean;
+  error: string | null;
+  onPreview: (intervals: MeterInterval[], options: ReconcileOptions) => Promise<ReconciliationPlan | null>;
+  onApply: (intervals: MeterInterval[], options: ReconcileOptions) => void;
+  onCancel: () => void;
+};
+
+export default function MeterImportDialog({
+  fileName,
+  table,
+  taxonomy,
+  registry,
+  siteId,
+  preferences,
+  isSaving,
+  error,
+  onPreview,
+  onApply,
+  onCancel
+}: MeterImportDialogProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+  const [mapping, setMapping] = useState<MeterColumnMapping>(() => guessMapping(table));
+  const [options, setOptions] = useState<ReconcileOptions>(() => ({
+    type: "Production",
+    newEventTitle: t("meteredActivity"),
+    ...(siteId ? { siteId } : {})
+  }));
+  const [plan, setPlan] = useState<ReconciliationPlan | null>(null);
+
+  const { intervals, errors } = useMemo(
+    () => tableToIntervals(table, mapping, preferences.locale),
+    [table, mapping, preferences.locale]
+  );
+  const completedStatus = statusWithLifecycle(taxonomy, "completed") ?? "Completed";
+
+  const updateMapping = (changes: Partial<MeterColumnMapping>) => {
+    setPlan(null);
+    setMapping((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateOptions = (changes: Partial<ReconcileOptions>) => {
+    setPlan(null);
+    setOptions((prev) => ({ ...prev, ...changes }));
+  };
+
+  /** Sub-meters are picked by asset, which also fixes the site; "" means the whole portfolio. */
+  const meterValue = options.assetId ? `asset:${options.assetId}` : options.siteId ? `site:${options.siteId}` : "";
+  const selectMeter = (value: string) => {
+    const [kind, id] = value.split(":");
+    const asset = kind === "asset" ? registry.assets.find((candidate) => candidate.id === id) : undefined;
+    updateOptions({
+      siteId: asset ? asset.siteId : kind === "site" ? id : undefined,
+      assetId: asset?.id
+    });
+  };
+
+  const columnSelect = (label: string, value: string, onChange: (column: string) => void) => (
+    <div className={pageStyles.fieldGroup}>
+      <label className={pageStyles.label}>
+        {label}
+        <select className={pageStyles.select} value={value} onChange={(event) => onChange(event.target.value)}>
+          {table.columns.map((column) => (
+            <option key={column} value={column}>
+              {column}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="meter-import-heading">
+        <h2 id="meter-import-heading">{t("reconcileMeterData", { fileName })}</h2>
+        <p className={styles.hint}>
+          {tn("rowsRead", table.rows.length)} {t("meterImportHint")}
+        </p>
+        <div className={pageStyles.formRow}>
+          {columnSelect(t("timestampColumn"), mapping.timestampColumn, (column) =>
+            updateMapping({ timestampColumn: column })
+          )}
+          {columnSelect(t("kwhColumn"), mapping.kwhColumn, (column) => updateMapping({ kwhColumn: column }))}
+        </div>
+        <div className={pageStyles.formRow}>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("intervalLength")}
+              <select
+                className={pageStyles.select}
+                value={mapping.intervalMinutes}
+                onChange={(event) => updateMapping({ intervalMinutes: Number(event.target.value) })}
+              >
+                {[5, 15, 30, 60].map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 60 ? t("hourly") : t("minutesCount", { count: minutes })}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("timestampMarks")}
+              <select
+                className={pageStyles.select}
+                value={mapping.timestampMarks}
+                onChange={(event) => updateMapping({ timestampMarks: event.target.value as "start" | "end" })}
+              >
+                <option value="start">{t("intervalStart")}</option>
+                <option value="end">{t("intervalEnd")}</option>
+              </select>
+            </label>
+          </div>
+        </div>
+        <div className={pageStyles.formRow}>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("meterCategory")}
+              <select
+                className={pageStyles.select}
+                value={options.type}
+                onChange={(event) =>
+                  updateOptions({
+                    type: event.target.value,
+                    // A sub-meter on an asset of another category no longer measures anything.
+                    assetId: registry.assets.some(
+                      (asset) => asset.id === options.assetId && asset.type === event.target.value
+                    )
+                      ? options.assetId
+                      : undefined
+                  })
+                }
+              >
+                {taxonomy.categories.map((category) => (
+                  <option key={category.name} value={category.name}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("meterMeasures")}
+              <select
+                className={pageStyles.select}
+                value={meterValue}
+                onChange={(event) => selectMeter(event.target.value)}
+              >
+                <option value="">{t("allSites")}</option>
+                {registry.sites.map((site) => (
+                  <optgroup key={site.id} label={site.name}>
+                    <option value={`site:${site.id}`}>{t("wholeSiteMeter", { site: site.name })}</option>
+                    {registry.assets
+                      .filter((asset) => asset.siteId === site.id && asset.type === options.type)
+                      .map((asset) => (
+                        <option key={asset.id} value={`asset:${asset.id}`}>
+                          {asset.name}
+                        </option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+        <div className={pageStyles.formRow}>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("titleForUnmatched")}
+              <input
+                className={pageStyles.input}
+                value={options.newEventTitle}
+                onChange={(event) => updateOptions({ newEventTitle: event.target.value })}
+              />
+            </label>
+          </div>
+        </div>
+        {errors.length > 0 ? (
+          <p className={styles.hint}>
+            {tn("rowsSkipped", errors.length)} · {errors.slice(0, 3).join(" ")}
+          </p>
+        ) : null}
+
+        {plan ? (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>{t("event")}</th>
+                <th>{t("planned")}</th>
+                <th>{t("metered")}</th>
+                <th>{t("variance")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.matches.map(({ event, actualKwh, intervalCount }) => (
+                <tr key={event.id}>
+                  <td>
+                    <strong>{event.title}</strong>
+                    <span className={styles.hint}>
+                      {" "}
+                      {event.date} · {event.startTime} – {event.endTime} ·{" "}
+                      {tn("intervalsTo", intervalCount, { status: completedStatus })}
+                    </span>
+                  </td>
+                  <td>{formatEnergy(event.energyKwh, preferences)}</td>
+                  <td>{formatEnergy(actualKwh, preferences)}</td>
+                  <td>{formatVariance({ ...event, actualKwh }, preferences)}</td>
+                </tr>
+              ))}
+              {plan.newEvents.map((input) => (
+                <tr key={`${input.date}-${input.startTime}`} className={styles.needsAttention}>
+                  <td>
+                    <strong>{t("newTitle", { title: input.title })}</strong>
+                    <span className={styles.hint}>
+                      {" "}
+                      {input.date} · {input.startTime} – {input.endTime}
+                    </span>
+                  </td>
+                  <td>—</td>
+                  <td>{formatEnergy(input.energyKwh, preferences)}</td>
+                  <td>—</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+        {plan && plan.matches.length === 0 && plan.newEvents.length === 0 ? (
+          <p className={styles.hint}>{t("noReadingsOverlap", { type: options.type })}</p>
+        ) : null}
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          {plan ? (
+            <button
+              type="button"
+              className={pageStyles.primaryButton}
+              disabled={isSaving || (plan.matches.length === 0 && plan.newEvents.length === 0)}
+              onClick={() => onApply(intervals, options)}
+            >
+              {isSaving ? t("applying") : tn("completeEvents", plan.matches.length, { created: plan.newEvents.length })}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className={pageStyles.primaryButton}
+              disabled={isSaving || intervals.length === 0}
+              onClick={async () => setPlan(await onPreview(intervals, options))}
+            >
+              {isSaving ? t("matching") : tn("previewIntervals", intervals.length)}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
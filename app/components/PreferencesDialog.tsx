@@ -0,0 +1,122 @@
+import { format } from "date-fns";
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { dateLocales, localeLabels, locales, translatorFor, weekdayNames } from "../../utils/i18n";
+import type { Locale } from "../../utils/i18n";
+import { energyUnits, formatEnergy, formatPower, powerUnits, weekStarts } from "../../utils/preferences";
+import type { EnergyUnit, PowerUnit, Preferences, WeekStart } from "../../utils/preferences";
+import { runtimeTimeZone } from "../../utils/timeZones";
+
+type PreferencesDialogProps = {
+  preferences: Preferences;
+  isSaving: boolean;
+  error: string | null;
+  onSave: (preferences: Preferences) => void;
+  onCancel: () => void;
+};
+
+export default function PreferencesDialog({ preferences, isSaving, error, onSave, onCancel }: PreferencesDialogProps) {
+  const [draft, setDraft] = useState<Preferences>(preferences);
+  const sample = new Date();
+  // The dialog speaks the language it was opened in; the preview shows the one being picked.
+  const { t } = translatorFor(preferences.locale);
+  const weekdays = weekdayNames(preferences.locale, "long");
+
+  return (
+    <div className={styles.overlay}>
+      <div
+        className={styles.dialog}
+        style={{ width: "min(480px, 100%)" }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="preferences-heading"
+      >
+        <h2 id="preferences-heading">{t("preferences")}</h2>
+        <p className={styles.hint}>{t("preferencesHint", { zone: runtimeTimeZone })}</p>
+        <div className={pageStyles.fieldGroup}>
+          <label className={pageStyles.label}>
+            {t("languageAndFormats")}
+            <select
+              className={pageStyles.select}
+              value={draft.locale}
+              onChange={(event) => setDraft({ ...draft, locale: event.target.value as Locale })}
+            >
+              {locales.map((locale) => (
+                <option key={locale} value={locale}>
+                  {localeLabels[locale]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className={pageStyles.fieldGroup}>
+          <label className={pageStyles.label}>
+            {t("weekStartsOn")}
+            <select
+              className={pageStyles.select}
+              value={draft.weekStartsOn}
+              onChange={(event) => setDraft({ ...draft, weekStartsOn: Number(event.target.value) as WeekStart })}
+            >
+              {weekStarts.map((day) => (
+                <option key={day} value={day}>
+                  {weekdays[day]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className={pageStyles.formRow}>
+          <label className={pageStyles.label}>
+            {t("energy")}
+            <select
+              className={pageStyles.select}
+              value={draft.energyUnit}
+              onChange={(event) => setDraft({ ...draft, energyUnit: event.target.value as EnergyUnit })}
+            >
+              {energyUnits.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={pageStyles.label}>
+            {t("power")}
+            <select
+              className={pageStyles.select}
+              value={draft.powerUnit}
+              onChange={(event) => setDraft({ ...draft, powerUnit: event.target.value as PowerUnit })}
+            >
+              {powerUnits.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className={styles.hint}>
+          {t("preferencesPreview", {
+            date: format(sample, "PPPP", { locale: dateLocales[draft.locale] }),
+            energy: formatEnergy(1250, draft),
+            power: formatPower(480, draft)
+          })}
+        </p>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("savePreferences")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import type { Credentials } from "../../utils/auth";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type SignInFormProps = {
+  isSaving: boolean;
+  error: string | null;
+  /** The defaults until someone signs in, then the last user's. */
+  preferences: Preferences;
+  onSignIn: (credentials: Credentials) => void;
+};
+
+export default function SignInForm({ isSaving, error, preferences, onSignIn }: SignInFormProps) {
+  const [credentials, setCredentials] = useState<Credentials>({ username: "", password: "" });
+  const { t } = translatorFor(preferences.locale);
+
+  return (
+    <div className={styles.overlay}>
+      <form
+        className={styles.dialog}
+        style={{ width: "min(420px, 100%)" }}
+        aria-labelledby="sign-in-heading"
+        onSubmit={(submitEvent) => {
+          submitEvent.preventDefault();
+          onSignIn(credentials);
+        }}
+      >
+        <h2 id="sign-in-heading">{t("signInHeading")}</h2>
+        <p className={styles.hint}>{t("signInHint", { variable: "ENERGY_ADMIN_PASSWORD", username: "admin" })}</p>
+        <div className={pageStyles.fieldGroup}>
+          <label className={pageStyles.label}>
+            {t("username")}
+            <input
+              className={pageStyles.input}
+              autoComplete="username"
+              autoFocus
+              value={credentials.username}
+              onChange={(event) => setCredentials({ ...credentials, username: event.target.value })}
+            />
+          </label>
+        </div>
+        <div className={pageStyles.fieldGroup}>
+          <label className={pageStyles.label}>
+            {t("password")}
+            <input
+              type="password"
+              className={pageStyles.input}
+              autoComplete="current-password"
+              value={credentials.password}
+              onChange={(event) => setCredentials({ ...credentials, password: event.target.value })}
+            />
+          </label>
+        </div>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button
+            type="submit"
+            className={pageStyles.primaryButton}
+            disabled={isSaving || !credentials.username.trim() || !credentials.password}
+          >
+            {isSaving ? t("signingIn") : t("signIn")}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
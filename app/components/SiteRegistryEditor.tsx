@@ -0,0 +1,261 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { Asset, Site, SiteRegistry } from "../../utils/sites";
+import { defaultStorageSpec } from "../../utils/storage";
+import type { Taxonomy } from "../../utils/taxonomy";
+import { runtimeTimeZone } from "../../utils/timeZones";
+
+type SiteRegistryEditorProps = {
+  registry: SiteRegistry;
+  taxonomy: Taxonomy;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (registry: SiteRegistry) => void;
+  onCancel: () => void;
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}`;
+
+const timeZoneOptions = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+
+export default function SiteRegistryEditor({
+  registry,
+  taxonomy,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onCancel
+}: SiteRegistryEditorProps) {
+  const [draft, setDraft] = useState<SiteRegistry>(registry);
+  const { t } = translatorFor(preferences.locale);
+
+  const updateSite = (id: string, changes: Partial<Site>) =>
+    setDraft((prev) => ({
+      ...prev,
+      sites: prev.sites.map((site) => (site.id === id ? { ...site, ...changes } : site))
+    }));
+
+  /** Switching an asset to Storage gives it default battery parameters; switching away drops them. */
+  const updateAsset = (id: string, changes: Partial<Asset>) =>
+    setDraft((prev) => ({
+      ...prev,
+      assets: prev.assets.map((asset) => {
+        if (asset.id !== id) {
+          return asset;
+        }
+        const updated = { ...asset, ...changes };
+        if (updated.type === "Storage") {
+          updated.storage = updated.storage ?? defaultStorageSpec;
+        } else {
+          delete updated.storage;
+        }
+        return updated;
+      })
+    }));
+
+  const addSite = () =>
+    setDraft((prev) => ({ ...prev, sites: [...prev.sites, { id: newId("site"), name: t("newSite"), location: "" }] }));
+
+  const addAsset = () =>
+    setDraft((prev) => ({
+      ...prev,
+      assets: [
+        ...prev.assets,
+        { id: newId("asset"), siteId: prev.sites[0]?.id ?? "", name: t("newAsset"), type: "Demand", ratedKw: 100 }
+      ]
+    }));
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="sites-heading">
+        <h2 id="sites-heading">{t("sitesAndAssets")}</h2>
+        <p className={styles.hint}>{t("sitesHint")}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("site")}</th>
+              <th>{t("location")}</th>
+              <th>{t("timeZone")}</th>
+              <th>{t("importLimitKw")}</th>
+              <th>{t("exportLimitKw")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.sites.map((site) => (
+              <tr key={site.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("siteName")}
+                    value={site.name}
+                    onChange={(event) => updateSite(site.id, { name: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("namedField", { name: site.name, field: t("location") })}
+                    value={site.location}
+                    onChange={(event) => updateSite(site.id, { location: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("namedField", { name: site.name, field: t("timeZone") })}
+                    placeholder={runtimeTimeZone}
+                    list="site-time-zones"
+                    value={site.timeZone ?? ""}
+                    onChange={(event) => updateSite(site.id, { timeZone: event.target.value || undefined })}
+                  />
+                </td>
+                {(["importLimitKw", "exportLimitKw"] as const).map((key) => (
+                  <td key={key}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={10}
+                      aria-label={t("namedField", { name: site.name, field: t(key) })}
+                      placeholder={t("noLimit")}
+                      value={site[key] ?? ""}
+                      onChange={(event) => updateSite(site.id, { [key]: Number(event.target.value) || undefined })}
+                    />
+                  </td>
+                ))}
+                <td>
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    disabled={draft.assets.some((asset) => asset.siteId === site.id)}
+                    onClick={() =>
+                      setDraft((prev) => ({ ...prev, sites: prev.sites.filter(({ id }) => id !== site.id) }))
+                    }
+                  >
+                    {t("remove")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <datalist id="site-time-zones">
+          {timeZoneOptions.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("asset")}</th>
+              <th>{t("site")}</th>
+              <th>{t("type")}</th>
+              <th>{t("ratedKw")}</th>
+              <th>{t("location")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.assets.map((asset) => (
+              <tr key={asset.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("assetName")}
+                    value={asset.name}
+                    onChange={(event) => updateAsset(asset.id, { name: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <select
+                    aria-label={t("namedField", { name: asset.name, field: t("site") })}
+                    value={asset.siteId}
+                    onChange={(event) => updateAsset(asset.id, { siteId: event.target.value })}
+                  >
+                    {draft.sites.map((site) => (
+                      <option key={site.id} value={site.id}>
+                        {site.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <select
+                    aria-label={t("namedField", { name: asset.name, field: t("type") })}
+                    value={asset.type}
+                    onChange={(event) => updateAsset(asset.id, { type: event.target.value })}
+                  >
+                    {taxonomy.categories.map((category) => (
+                      <option key={category.name} value={category.name}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    step={5}
+                    aria-label={t("namedField", { name: asset.name, field: t("ratedKw") })}
+                    value={asset.ratedKw}
+                    onChange={(event) => updateAsset(asset.id, { ratedKw: Number(event.target.value) || 0 })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("namedField", { name: asset.name, field: t("location") })}
+                    placeholder={t("sameAsSite")}
+                    value={asset.location ?? ""}
+                    onChange={(event) => updateAsset(asset.id, { location: event.target.value || undefined })}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    onClick={() =>
+                      setDraft((prev) => ({ ...prev, assets: prev.assets.filter(({ id }) => id !== asset.id) }))
+                    }
+                  >
+                    {t("remove")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={addSite}>
+            {t("addSite")}
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            disabled={draft.sites.length === 0}
+            onClick={addAsset}
+          >
+            {t("addAsset")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveRegistry")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
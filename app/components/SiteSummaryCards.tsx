@@ -0,0 +1,61 @@
+import pageStyles from "../page.module.css";
+import { translatorFor } from "../../utils/i18n";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { SiteSummary } from "../../utils/sites";
+import type { MonthSummary } from "../../utils/summary";
+
+type SiteSummaryCardsProps = {
+  siteSummaries: SiteSummary[];
+  portfolioSummary: MonthSummary;
+  activeSiteId: string | null;
+  preferences: Preferences;
+  onViewSite: (siteId: string) => void;
+};
+
+/** One card per site, and one for events without an asset, followed by the whole portfolio. */
+export default function SiteSummaryCards({
+  siteSummaries,
+  portfolioSummary,
+  activeSiteId,
+  preferences,
+  onViewSite
+}: SiteSummaryCardsProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+  const energy = (kwh: number, signed = false) => formatEnergy(kwh, preferences, { signed });
+  const totals = (summary: MonthSummary) =>
+    tn("siteTotals", summary.totalEvents, {
+      produced: energy(summary.totalProduction),
+      consumed: energy(summary.totalConsumption)
+    });
+
+  return (
+    <section className={pageStyles.summaryCard}>
+      <div className={pageStyles.summaryGrid}>
+        {siteSummaries.map(({ site, summary }) => (
+          <div key={site?.id ?? "unassigned"} className={pageStyles.summaryItem}>
+            <span className={pageStyles.summaryLabel}>{site ? site.name : t("noAsset")}</span>
+            <span className={pageStyles.summaryValue}>{energy(summary.netBalance, true)}</span>
+            <span className={pageStyles.summaryDelta}>
+              {totals(summary)}
+              {site && site.id !== activeSiteId ? (
+                <>
+                  {" "}
+                  ·{" "}
+                  <button type="button" className={pageStyles.filterButton} onClick={() => onViewSite(site.id)}>
+                    {t("viewSite")}
+                  </button>
+                </>
+              ) : null}
+            </span>
+          </div>
+        ))}
+        <div className={pageStyles.summaryItem}>
+          <span className={pageStyles.summaryLabel}>{t("portfolio")}</span>
+          <span className={pageStyles.summaryValue}>{energy(portfolioSummary.netBalance, true)}</span>
+          <span className={pageStyles.summaryDelta}>{totals(portfolioSummary)}</span>
+        </div>
+      </div>
+    </section>
+  );
+}
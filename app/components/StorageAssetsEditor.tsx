@@ -0,0 +1,100 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { StorageAsset } from "../../utils/storage";
+
+type StorageAssetsEditorProps = {
+  assets: StorageAsset[];
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (assets: StorageAsset[]) => void;
+  onCancel: () => void;
+};
+
+type NumericField = Exclude<keyof StorageAsset, "id" | "name">;
+
+const columns: Array<{ field: NumericField; label: MessageKey; step: number }> = [
+  { field: "capacityKwh", label: "capacityKwh", step: 10 },
+  { field: "maxChargeKw", label: "maxChargeKw", step: 5 },
+  { field: "maxDischargeKw", label: "maxDischargeKw", step: 5 },
+  { field: "roundTripEfficiency", label: "roundTrip", step: 0.01 },
+  { field: "minSocPercent", label: "minSocPercent", step: 1 },
+  { field: "initialSocPercent", label: "startSocPercent", step: 1 }
+];
+
+export default function StorageAssetsEditor({
+  assets,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onCancel
+}: StorageAssetsEditorProps) {
+  const [draft, setDraft] = useState<StorageAsset[]>(assets);
+  const { t } = translatorFor(preferences.locale);
+
+  const updateAsset = (index: number, changes: Partial<StorageAsset>) =>
+    setDraft((prev) => prev.map((asset, assetIndex) => (assetIndex === index ? { ...asset, ...changes } : asset)));
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="storage-heading">
+        <h2 id="storage-heading">{t("storageAssets")}</h2>
+        <p className={styles.hint}>{t("storageAssetsHint")}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("asset")}</th>
+              {columns.map((column) => (
+                <th key={column.field}>{t(column.label)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((asset, index) => (
+              <tr key={asset.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("assetName")}
+                    value={asset.name}
+                    onChange={(event) => updateAsset(index, { name: event.target.value })}
+                  />
+                </td>
+                {columns.map((column) => (
+                  <td key={column.field}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={column.step}
+                      aria-label={t("namedField", { name: asset.name, field: t(column.label) })}
+                      value={asset[column.field]}
+                      onChange={(event) => updateAsset(index, { [column.field]: Number(event.target.value) || 0 })}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveAssets")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import pageStyles from "../page.module.css";
+import { translatorFor } from "../../utils/i18n";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+
+type StorageCardProps = {
+  /** Energy discharged minus energy charged over the month. */
+  storageNetKwh: number;
+  /** Storage events the simulation could not carry out within the assets' limits. */
+  infeasibleCount: number;
+  preferences: Preferences;
+  /** Null when the user may not change the storage assets. */
+  onEditStorage: (() => void) | null;
+};
+
+/** What storage added to the month's balance, flagging events its assets cannot deliver. */
+export default function StorageCard({ storageNetKwh, infeasibleCount, preferences, onEditStorage }: StorageCardProps) {
+  const { t, tn } = translatorFor(preferences.locale);
+
+  return (
+    <div className={pageStyles.summaryItem}>
+      <span className={pageStyles.summaryLabel}>{t("storageNet")}</span>
+      <span className={pageStyles.summaryValue}>{formatEnergy(storageNetKwh, preferences, { signed: true })}</span>
+      <span className={pageStyles.summaryDelta}>
+        {infeasibleCount > 0 ? tn("infeasibleStorage", infeasibleCount) : t("dischargedMinusCharged")}
+        {onEditStorage ? (
+          <>
+            {" "}
+            ·{" "}
+            <button type="button" className={pageStyles.filterButton} onClick={onEditStorage}>
+              {t("editStorage")}
+            </button>
+          </>
+        ) : null}
+      </span>
+    </div>
+  );
+}
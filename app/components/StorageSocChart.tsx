@@ -0,0 +1,67 @@
+import styles from "./StorageSocChart.module.css";
+import { translatorFor } from "../../utils/i18n";
+import { formatEnergy } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import type { StorageSimulation } from "../../utils/storage";
+
+type StorageSocChartProps = {
+  simulation: StorageSimulation;
+  /** The Storage category colour from the taxonomy. */
+  color: string;
+  preferences: Preferences;
+  height?: number;
+};
+
+const chartWidth = 240;
+
+/** State of charge across the month as a line, with the minimum-charge floor dashed. */
+export default function StorageSocChart({ simulation, color, preferences, height = 64 }: StorageSocChartProps) {
+  const { asset, points, results, monthMinutes } = simulation;
+  const x = (minute: number) => (minute / monthMinutes) * chartWidth;
+  const y = (socKwh: number) => height - 2 - (socKwh / asset.capacityKwh) * (height - 4);
+  const path = points
+    .map((point, index) => `${index === 0 ? "M" : "L"}${x(point.minute)},${y(point.socKwh)}`)
+    .join(" ");
+  const floor = y((asset.capacityKwh * asset.minSocPercent) / 100);
+  const endSoc = points[points.length - 1].socKwh;
+  const issues = results.filter((result) => result.issue);
+  const { t, tn } = translatorFor(preferences.locale);
+
+  return (
+    <div className={styles.asset}>
+      <div className={styles.header}>
+        <span className={styles.name}>{asset.name}</span>
+        <span>
+          {t("atMonthEnd", {
+            energy: `${formatEnergy(endSoc, preferences)} / ${formatEnergy(asset.capacityKwh, preferences)}`
+          })}{" "}
+          · {tn("eventCount", results.length)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${chartWidth} ${height}`}
+        preserveAspectRatio="none"
+        width="100%"
+        height={height}
+        role="img"
+        aria-label={t("stateOfChargeOverMonth", { name: asset.name })}
+      >
+        <line
+          x1={0}
+          x2={chartWidth}
+          y1={floor}
+          y2={floor}
+          stroke="rgba(220, 53, 69, 0.6)"
+          strokeWidth={0.75}
+          strokeDasharray="3 3"
+        />
+        <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+      </svg>
+      {issues.map((result) => (
+        <span key={result.event.id} className={styles.issue}>
+          ⚠ {result.event.title} ({result.event.date}): {result.issue}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import type { Tariff, TariffBand, TariffDays } from "../../utils/tariff";
+
+type TariffEditorProps = {
+  tariff: Tariff;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (tariff: Tariff) => void;
+  onCancel: () => void;
+};
+
+const parseMonths = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((month) => Number.isInteger(month) && month >= 1 && month <= 12);
+
+export default function TariffEditor({ tariff, isSaving, error, preferences, onSave, onCancel }: TariffEditorProps) {
+  const { t } = translatorFor(preferences.locale);
+  const [draft, setDraft] = useState<Tariff>(tariff);
+  const [monthText, setMonthText] = useState(() => draft.bands.map((band) => (band.months ?? []).join(", ")));
+
+  const updateBand = (index: number, changes: Partial<TariffBand>) =>
+    setDraft((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...changes } : band))
+    }));
+
+  const addBand = () => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: [
+        ...prev.bands,
+        {
+          id: `band-${Date.now().toString(36)}`,
+          name: t("newBand"),
+          startTime: "07:00",
+          endTime: "16:00",
+          days: "all",
+          importRate: prev.defaultImportRate,
+          exportRate: prev.defaultExportRate
+        }
+      ]
+    }));
+    setMonthText((prev) => [...prev, ""]);
+  };
+
+  const removeBand = (index: number) => {
+    setDraft((prev) => ({ ...prev, bands: prev.bands.filter((_band, bandIndex) => bandIndex !== index) }));
+    setMonthText((prev) => prev.filter((_text, textIndex) => textIndex !== index));
+  };
+
+  const rateInput = (label: string, value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step={0.01}
+      aria-label={label}
+      className={pageStyles.input}
+      value={value}
+      onChange={(event) => onChange(Math.max(0, Number(event.target.value) || 0))}
+    />
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="tariff-heading">
+        <h2 id="tariff-heading">{t("timeOfUseTariff")}</h2>
+        <p className={styles.hint}>{t("tariffHint")}</p>
+        <div className={pageStyles.formRow}>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("currency")}
+              <input
+                className={pageStyles.input}
+                maxLength={3}
+                value={draft.currency}
+                onChange={(event) => setDraft({ ...draft, currency: event.target.value.toUpperCase() })}
+              />
+            </label>
+          </div>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("defaultImportPerKwh")}
+              {rateInput(t("defaultImportRate"), draft.defaultImportRate, (value) =>
+                setDraft({ ...draft, defaultImportRate: value })
+              )}
+            </label>
+          </div>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("defaultExportPerKwh")}
+              {rateInput(t("defaultExportRate"), draft.defaultExportRate, (value) =>
+                setDraft({ ...draft, defaultExportRate: value })
+              )}
+            </label>
+          </div>
+          <div className={pageStyles.fieldGroup}>
+            <label className={pageStyles.label}>
+              {t("demandChargePerPeakKw")}
+              {rateInput(t("demandCharge"), draft.demandChargePerKw, (value) =>
+                setDraft({ ...draft, demandChargePerKw: value })
+              )}
+            </label>
+          </div>
+        </div>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("band")}</th>
+              <th>{t("from")}</th>
+              <th>{t("to")}</th>
+              <th>{t("days")}</th>
+              <th>{t("months")}</th>
+              <th>{t("import")}</th>
+              <th>{t("export")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.bands.map((band, index) => (
+              <tr key={band.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("bandName")}
+                    value={band.name}
+                    onChange={(event) => updateBand(index, { name: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="time"
+                    aria-label={t("namedField", { name: band.name, field: t("from") })}
+                    value={band.startTime}
+                    onChange={(event) => updateBand(index, { startTime: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="time"
+                    aria-label={t("namedField", { name: band.name, field: t("to") })}
+                    value={band.endTime}
+                    onChange={(event) => updateBand(index, { endTime: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <select
+                    aria-label={t("namedField", { name: band.name, field: t("days") })}
+                    value={band.days}
+                    onChange={(event) => updateBand(index, { days: event.target.value as TariffDays })}
+                  >
+                    <option value="all">{t("everyDayOne")}</option>
+                    <option value="weekday">{t("weekdays")}</option>
+                    <option value="weekend">{t("weekends")}</option>
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={t("namedField", { name: band.name, field: t("months") })}
+                    placeholder={t("allYear")}
+                    value={monthText[index] ?? ""}
+                    onChange={(event) => {
+                      const text = event.target.value;
+                      setMonthText((prev) => prev.map((value, textIndex) => (textIndex === index ? text : value)));
+                      updateBand(index, { months: parseMonths(text) });
+                    }}
+                  />
+                </td>
+                <td>
+                  {rateInput(t("namedField", { name: band.name, field: t("importRate") }), band.importRate, (value) =>
+                    updateBand(index, { importRate: value })
+                  )}
+                </td>
+                <td>
+                  {rateInput(t("namedField", { name: band.name, field: t("exportRate") }), band.exportRate, (value) =>
+                    updateBand(index, { exportRate: value })
+                  )}
+                </td>
+                <td>
+                  <button type="button" className={styles.secondaryButton} onClick={() => removeBand(index)}>
+                    {t("remove")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={addBand}>
+            {t("addBand")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveTariff")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
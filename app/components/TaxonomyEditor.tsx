@@ -0,0 +1,228 @@
+import { useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { translatorFor } from "../../utils/i18n";
+import type { MessageKey } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+import { isBuiltInCategory, isBuiltInStatus, statusLifecycles } from "../../utils/taxonomy";
+import type { BalanceRole, EnergyCategory, StatusDefinition, StatusLifecycle, Taxonomy } from "../../utils/taxonomy";
+
+type TaxonomyEditorProps = {
+  taxonomy: Taxonomy;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  onSave: (taxonomy: Taxonomy) => void;
+  onCancel: () => void;
+};
+
+const balanceLabels: Record<BalanceRole, MessageKey> = {
+  supply: "addsToBalance",
+  consumption: "drawsFromBalance",
+  storage: "byDirection"
+};
+
+const lifecycleLabels: Record<StatusLifecycle, MessageKey> = {
+  tentative: "lifecycleTentative",
+  planned: "lifecyclePlanned",
+  active: "lifecycleActive",
+  completed: "lifecycleCompleted",
+  void: "lifecycleVoid"
+};
+
+export default function TaxonomyEditor({
+  taxonomy,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onCancel
+}: TaxonomyEditorProps) {
+  const [draft, setDraft] = useState<Taxonomy>(taxonomy);
+  const { t } = translatorFor(preferences.locale);
+
+  const updateCategory = (index: number, changes: Partial<EnergyCategory>) =>
+    setDraft((prev) => ({
+      ...prev,
+      categories: prev.categories.map((category, position) =>
+        position === index ? { ...category, ...changes } : category
+      )
+    }));
+
+  const updateStatus = (index: number, changes: Partial<StatusDefinition>) =>
+    setDraft((prev) => ({
+      ...prev,
+      statuses: prev.statuses.map((status, position) => (position === index ? { ...status, ...changes } : status))
+    }));
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="taxonomy-heading">
+        <h2 id="taxonomy-heading">{t("categoriesAndStatusesHeading")}</h2>
+        <p className={styles.hint}>{t("taxonomyHint")}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("category")}</th>
+              <th>{t("colour")}</th>
+              <th>{t("netBalanceColumn")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.categories.map((category, index) => {
+              const builtIn = isBuiltInCategory(category.name);
+              return (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      aria-label={t("categoryName")}
+                      value={category.name}
+                      disabled={builtIn}
+                      onChange={(event) => updateCategory(index, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="color"
+                      aria-label={t("namedField", { name: category.name, field: t("colour") })}
+                      value={category.color}
+                      onChange={(event) => updateCategory(index, { color: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      aria-label={t("namedField", { name: category.name, field: t("netBalanceColumn") })}
+                      value={category.balance}
+                      disabled={builtIn}
+                      onChange={(event) => updateCategory(index, { balance: event.target.value as BalanceRole })}
+                    >
+                      {(Object.keys(balanceLabels) as BalanceRole[])
+                        .filter((balance) => balance !== "storage" || category.balance === "storage")
+                        .map((balance) => (
+                          <option key={balance} value={balance}>
+                            {t(balanceLabels[balance])}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td>
+                    {builtIn ? null : (
+                      <button
+                        type="button"
+                        className={styles.secondaryButton}
+                        onClick={() =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            categories: prev.categories.filter((_category, position) => position !== index)
+                          }))
+                        }
+                      >
+                        {t("remove")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("status")}</th>
+              <th>{t("lifecycle")}</th>
+              <th aria-label={t("remove")} />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.statuses.map((status, index) => {
+              const builtIn = isBuiltInStatus(status.name);
+              return (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      aria-label={t("statusName")}
+                      value={status.name}
+                      disabled={builtIn}
+                      onChange={(event) => updateStatus(index, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      aria-label={t("namedField", { name: status.name, field: t("lifecycle") })}
+                      value={status.lifecycle}
+                      disabled={builtIn}
+                      onChange={(event) => updateStatus(index, { lifecycle: event.target.value as StatusLifecycle })}
+                    >
+                      {statusLifecycles.map((lifecycle) => (
+                        <option key={lifecycle} value={lifecycle}>
+                          {t(lifecycleLabels[lifecycle])}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    {builtIn ? null : (
+                      <button
+                        type="button"
+                        className={styles.secondaryButton}
+                        onClick={() =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            statuses: prev.statuses.filter((_status, position) => position !== index)
+                          }))
+                        }
+                      >
+                        {t("remove")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() =>
+              setDraft((prev) => ({
+                ...prev,
+                categories: [...prev.categories, { name: t("newCategory"), color: "#7c5cff", balance: "consumption" }]
+              }))
+            }
+          >
+            {t("addCategory")}
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() =>
+              setDraft((prev) => ({
+                ...prev,
+                statuses: [...prev.statuses, { name: t("newStatus"), lifecycle: "planned" }]
+              }))
+            }
+          >
+            {t("addStatus")}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+            {t("cancel")}
+          </button>
+          <button type="button" className={pageStyles.primaryButton} disabled={isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? t("saving") : t("saveTaxonomy")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { format, isSameDay } from "date-fns";
+import styles from "./TimelineView.module.css";
+import HourlyProfileChart from "./HourlyProfileChart";
+import LiveProgressBar from "./LiveProgressBar";
+import { typeStyleOf } from "./typeStyles";
+import { windowsOn } from "../../utils/demandResponse";
+import type { DemandResponseWindow } from "../../utils/demandResponse";
+import { dateLocales, translatorFor } from "../../utils/i18n";
+import { formatEnergy, formatPower } from "../../utils/preferences";
+import type { Preferences } from "../../utils/preferences";
+import { hourlyProfile, layoutSegments, segmentsForDate, totalKw } from "../../utils/profile";
+import { fromMinutes, minutesPerDay, toMinutes } from "../../utils/schedule";
+import { countsTowardTotals, typesWithBalance } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { LiveProgress } from "../../utils/telemetry";
+import type { EnergyEvent } from "../../utils/types";
+
+type DropTarget = { date: string; startTime?: string } | null;
+
+type TimelineViewProps = {
+  days: Date[];
+  events: EnergyEvent[];
+  /** Demand response windows, drawn as shaded bands behind the events. */
+  windows: DemandResponseWindow[];
+  taxonomy: Taxonomy;
+  preferences: Preferences;
+  /** Telemetry progress of in-flight events, keyed by event id. */
+  liveProgress: Map<string, LiveProgress>;
+  today: Date;
+  dropTarget: DropTarget;
+  isDragging: boolean;
+  /** Viewers see the timeline read-only, without drag and drop. */
+  canReschedule: boolean;
+  onOpenEvent: (id: string) => void;
+  onDragStartEvent: (id: string) => void;
+  onDragEndEvent: () => void;
+  onDragTarget: (date: string, startTime: string) => void;
+  onDropEvent: (id: string, date: string, startTime: string) => void;
+};
+
+const hourHeight = 48;
+const snapMinutes = 30;
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+const pointerToTime = (dragEvent: React.DragEvent<HTMLDivElement>) => {
+  const bounds = dragEvent.currentTarget.getBoundingClientRect();
+  const minutes = ((dragEvent.clientY - bounds.top) / hourHeight) * 60;
+  const snapped = Math.round(minutes / snapMinutes) * snapMinutes;
+  return fromMinutes(Math.min(minutesPerDay - snapMinutes, Math.max(0, snapped)));
+};
+
+export default function TimelineView({
+  days,
+  events,
+  windows,
+  taxonomy,
+  preferences,
+  liveProgress,
+  today,
+  dropTarget,
+  isDragging,
+  canReschedule,
+  onOpenEvent,
+  onDragStartEvent,
+  onDragEndEvent,
+  onDragTarget,
+  onDropEvent
+}: TimelineViewProps) {
+  const dayKeys = days.map((day) => format(day, "yyyy-MM-dd"));
+  const counted = events.filter((event) => countsTowardTotals(taxonomy, event));
+  const profiles = dayKeys.map((dayKey) => hourlyProfile(counted, dayKey));
+  const supplyTypes = [...typesWithBalance(taxonomy, "supply"), ...typesWithBalance(taxonomy, "storage")];
+  const demandTypes = typesWithBalance(taxonomy, "consumption");
+  const maxKw = Math.max(
+    1,
+    ...profiles.flatMap((profile) =>
+      profile.flatMap((load) => [totalKw(load, supplyTypes), totalKw(load, demandTypes)])
+    )
+  );
+  const { t } = translatorFor(preferences.locale);
+  const gridStyle = { "--day-count": days.length, "--hour-height": `${hourHeight}px` } as React.CSSProperties;
+
+  return (
+    <div className={styles.timeline} style={gridStyle}>
+      <div className={styles.profiles}>
+        <span className={styles.profileLabel}>{t("peakPower", { power: formatPower(maxKw, preferences) })}</span>
+        {days.map((day, index) => (
+          <div key={dayKeys[index]}>
+            <div className={`${styles.dayHeader} ${isSameDay(day, today) ? styles.dayHeaderToday : ""}`}>
+              {format(day, days.length === 1 ? "EEEE d MMMM" : "EEE d", { locale: dateLocales[preferences.locale] })}
+            </div>
+            <HourlyProfileChart
+              profile={profiles[index]}
+              maxKw={maxKw}
+              taxonomy={taxonomy}
+              preferences={preferences}
+              height={days.length === 1 ? 140 : 80}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.scroller}>
+        <div className={styles.columns}>
+          <div className={styles.hours}>
+            {hours.map((hour) => (
+              <div key={hour} className={styles.hourLabel}>
+                {`${String(hour).padStart(2, "0")}:00`}
+              </div>
+            ))}
+          </div>
+          {dayKeys.map((dayKey) => {
+            const { placed, laneCount } = layoutSegments(segmentsForDate(events, dayKey));
+            const indicatorTime = dropTarget?.date === dayKey ? dropTarget.startTime : undefined;
+            return (
+              <div
+                key={dayKey}
+                className={styles.dayColumn}
+                onDragOver={(dragEvent) => {
+                  if (!isDragging) {
+                    return;
+                  }
+                  dragEvent.preventDefault();
+                  dragEvent.dataTransfer.dropEffect = "move";
+                  const startTime = pointerToTime(dragEvent);
+                  if (indicatorTime !== startTime) {
+                    onDragTarget(dayKey, startTime);
+                  }
+                }}
+                onDrop={(dragEvent) => {
+                  dragEvent.preventDefault();
+                  const eventId = dragEvent.dataTransfer.getData("text/plain");
+                  if (eventId) {
+                    onDropEvent(eventId, dayKey, pointerToTime(dragEvent));
+                  }
+                }}
+              >
+                {windowsOn(windows, dayKey).map((window) => (
+                  <div
+                    key={window.id}
+                    className={styles.drBand}
+                    title={`${window.program} · ${window.startTime}–${window.endTime}`}
+                    style={{
+                      top: (toMinutes(window.startTime) / 60) * hourHeight,
+                      height: ((toMinutes(window.endTime) - toMinutes(window.startTime)) / 60) * hourHeight
+                    }}
+                  >
+                    {t("demandResponseShort")} · {window.program}
+                  </div>
+                ))}
+                {placed.map(({ segment, lane }) => {
+                  const { event } = segment;
+                  return (
+                    <div
+                      key={`${event.id}-${segment.date}`}
+                      className={styles.segment}
+                      role="button"
+                      tabIndex={0}
+                      draggable={canReschedule}
+                      title={`${event.title} · ${event.startTime} – ${event.endTime} · ${formatEnergy(event.energyKwh, preferences)}`}
+                      onClick={() => onOpenEvent(event.id)}
+                      onKeyDown={(keyEvent) => {
+                        if (keyEvent.key === "Enter" || keyEvent.key === " ") {
+                          keyEvent.preventDefault();
+                          onOpenEvent(event.id);
+                        }
+                      }}
+                      onDragStart={(dragEvent) => {
+                        dragEvent.dataTransfer.setData("text/plain", event.id);
+                        dragEvent.dataTransfer.effectAllowed = "move";
+                        onDragStartEvent(event.id);
+                      }}
+                      onDragEnd={onDragEndEvent}
+                      style={{
+                        top: (segment.startMinute / 60) * hourHeight,
+                        height: Math.max(18, ((segment.endMinute - segment.startMinute) / 60) * hourHeight - 2),
+                        left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                        width: `calc(${100 / laneCount}% - 4px)`,
+                        background: typeStyleOf(taxonomy, event.type).background,
+                        border: typeStyleOf(taxonomy, event.type).border,
+                        opacity: countsTowardTotals(taxonomy, event) ? 1 : 0.5
+                      }}
+                    >
+                      <span className={styles.segmentTitle}>
+                        {segment.continuesFromPreviousDay ? "↳ " : ""}
+                        {event.title}
+                      </span>
+                      {event.startTime} – {event.endTime}
+                      {segment.continuesToNextDay ? ` ${t("nextDaySuffix")}` : ""} ·{" "}
+                      {formatEnergy(event.energyKwh, preferences)}
+                      <LiveProgressBar progress={liveProgress.get(event.id)} preferences={preferences} compact />
+                    </div>
+                  );
+                })}
+                {indicatorTime ? (
+                  <div className={styles.dropIndicator} style={{ top: (toMinutes(indicatorTime) / 60) * hourHeight }} />
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import pageStyles from "../page.module.css";
+import styles from "./ImportDialog.module.css";
+import { minPasswordLength, roleLabels, roles } from "../../utils/auth";
+import type { Role, User, UserInput } from "../../utils/auth";
+import { translatorFor } from "../../utils/i18n";
+import type { Preferences } from "../../utils/preferences";
+
+type UserManagerProps = {
+  users: User[];
+  currentUser: User;
+  isSaving: boolean;
+  error: string | null;
+  preferences: Preferences;
+  /** `id` is null for a new user; resolves to whether the save went through. */
+  onSave: (id: string | null, input: UserInput) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+const emptyInput: UserInput = { username: "", name: "", role: "operator", password: "" };
+
+const draftsOf = (users: User[]) =>
+  Object.fromEntries(users.map(({ id, username, name, role }) => [id, { username, name, role, password: "" }]));
+
+export default function UserManager({
+  users,
+  currentUser,
+  isSaving,
+  error,
+  preferences,
+  onSave,
+  onDelete,
+  onClose
+}: UserManagerProps) {
+  const [drafts, setDrafts] = useState<Record<string, UserInput>>(() => draftsOf(users));
+  const [newUser, setNewUser] = useState<UserInput>(emptyInput);
+  const { t } = translatorFor(preferences.locale);
+
+  useEffect(() => {
+    setDrafts(draftsOf(users));
+  }, [users]);
+
+  const row = (id: string | null, draft: UserInput, update: (changes: Partial<UserInput>) => void) => (
+    <>
+      <td>
+        <input
+          type="text"
+          aria-label={t("name")}
+          value={draft.name}
+          onChange={(event) => update({ name: event.target.value })}
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          aria-label={t("username")}
+          autoComplete="off"
+          value={draft.username}
+          onChange={(event) => update({ username: event.target.value.toLowerCase() })}
+        />
+      </td>
+      <td>
+        <select
+          aria-label={t("roleOf", { name: draft.name || t("newUser") })}
+          value={draft.role}
+          onChange={(event) => update({ role: event.target.value as Role })}
+        >
+          {roles.map((role) => (
+            <option key={role} value={role}>
+              {t(roleLabels[role])}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td>
+        <input
+          type="password"
+          aria-label={id ? t("newPassword") : t("password")}
+          autoComplete="new-password"
+          placeholder={id ? t("unchanged") : t("atLeastCharacters", { count: minPasswordLength })}
+          value={draft.password ?? ""}
+          onChange={(event) => update({ password: event.target.value })}
+        />
+      </td>
+    </>
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="users-heading">
+        <h2 id="users-heading">{t("users")}</h2>
+        <p className={styles.hint}>{t("usersHint")}</p>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("name")}</th>
+              <th>{t("username")}</th>
+              <th>{t("role")}</th>
+              <th>{t("password")}</th>
+              <th aria-label={t("actions")} />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => {
+              const draft = drafts[user.id];
+              if (!draft) {
+                return null;
+              }
+              return (
+                <tr key={user.id}>
+                  {row(user.id, draft, (changes) =>
+                    setDrafts((prev) => ({ ...prev, [user.id]: { ...draft, ...changes } }))
+                  )}
+                  <td>
+                    <button
+                      type="button"
+                      className={styles.secondaryButton}
+                      disabled={isSaving}
+                      onClick={() => onSave(user.id, draft)}
+                    >
+                      {t("save")}
+                    </button>
+                    {user.id !== currentUser.id ? (
+                      <button
+                        type="button"
+                        className={styles.secondaryButton}
+                        disabled={isSaving}
+                        onClick={() => onDelete(user.id)}
+                      >
+                        {t("remove")}
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+            <tr>
+              {row(null, newUser, (changes) => setNewUser((prev) => ({ ...prev, ...changes })))}
+              <td>
+                <button
+                  type="button"
+                  className={pageStyles.primaryButton}
+                  disabled={isSaving || !newUser.username || !newUser.name.trim() || !newUser.password}
+                  onClick={async () => {
+                    if (await onSave(null, newUser)) {
+                      setNewUser(emptyInput);
+                    }
+                  }}
+                >
+                  {t("addUser")}
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        {error ? (
+          <p className={styles.error} role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            {t("close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { categoryOf } from "../../utils/taxonomy";
+import type { Taxonomy } from "../../utils/taxonomy";
+import type { EnergyType } from "../../utils/types";
+
+export type TypeStyle = {
+  background: string;
+  border: string;
+  color: string;
+};
+
+/** Shown for events whose type is missing from the taxonomy. */
+const fallbackColor = "#8a94a6";
+
+/** Longer legend wording for the built-in categories; custom categories are shown by name. */
+const legendLabels: Record<string, string> = {
+  Demand: "Demand Load",
+  Production: "On-Site Production",
+  Storage: "Storage Cycle",
+  Provision: "Provision Export"
+};
+
+const rgba = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+/** Chip colours for a category, tinted from its taxonomy colour. */
+export const typeStyleOf = (taxonomy: Taxonomy, type: EnergyType): TypeStyle => {
+  const color = categoryOf(taxonomy, type)?.color ?? fallbackColor;
+  return {
+    background: rgba(color, 0.15),
+    border: `1px solid ${rgba(color, 0.4)}`,
+    color
+  };
+};
+
+export const legendLabelOf = (type: EnergyType) => legendLabels[type] ?? type;
@@ -1,8 +1,11 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import {
+  addDays,
   addMonths,
+  addWeeks,
   format,
   isSameDay,
   isSameMonth,
@@ -14,565 +17,1702 @@ import {
   eachDayOfInterval
 } from "date-fns";
 import styles from "./page.module.css";
+import detailStyles from "./components/EventDetailPanel.module.css";
+import drStyles from "./components/DemandResponse.module.css";
+import AuditLogDialog from "./components/AuditLogDialog";
+import AutomationEditor from "./components/AutomationEditor";
+import AutomationNotices from "./components/AutomationNotices";
+import AutomationPanel from "./components/AutomationPanel";
+import BillCards from "./components/BillCards";
+import CarbonProfileEditor from "./components/CarbonProfileEditor";
+import DemandResponseEditor from "./components/DemandResponseEditor";
+import DemandResponsePanel from "./components/DemandResponsePanel";
+import EfficiencyBreakdown from "./components/EfficiencyBreakdown";
+import EmissionsCard from "./components/EmissionsCard";
+import EventFilterBar from "./components/EventFilterBar";
+import EventDetailPanel from "./components/EventDetailPanel";
+import type { EditScope } from "./components/EventDetailPanel";
+import EventFormFields from "./components/EventFormFields";
+import ForecastCard from "./components/ForecastCard";
+import ICalImportDialog from "./components/ICalImportDialog";
+import MeterImportDialog from "./components/MeterImportDialog";
+import PreferencesDialog from "./components/PreferencesDialog";
+import SignInForm from "./components/SignInForm";
+import LiveBalanceCard from "./components/LiveBalanceCard";
+import type { TelemetryConnection } from "./components/LiveBalanceCard";
+import LiveProgressBar from "./components/LiveProgressBar";
+import LoadShiftPreview from "./components/LoadShiftPreview";
+import LoadShiftSuggestions from "./components/LoadShiftSuggestions";
+import SiteRegistryEditor from "./components/SiteRegistryEditor";
+import SiteSummaryCards from "./components/SiteSummaryCards";
+import StorageAssetsEditor from "./components/StorageAssetsEditor";
+import StorageCard from "./components/StorageCard";
+import StorageSocChart from "./components/StorageSocChart";
+import TariffEditor from "./components/TariffEditor";
+import TaxonomyEditor from "./components/TaxonomyEditor";
+import TimelineView from "./components/TimelineView";
+import UserManager from "./components/UserManager";
+import { legendLabelOf, typeStyleOf } from "./components/typeStyles";
+import { suggestLoadShifts } from "../utils/optimizer";
+import type { OptimizerObjective } from "../utils/optimizer";
+import { applyShift, shiftEvent } from "../utils/schedule";
+import type { AuditEntry } from "../utils/audit";
+import { can, roleNames } from "../utils/auth";
+import type { Credentials, User, UserInput } from "../utils/auth";
+import type { AutomationRule, AutomationRun } from "../utils/automation";
+import { defaultCarbonProfile, summarizeEmissions } from "../utils/carbon";
+import type { CarbonProfile } from "../utils/carbon";
+import { settleWindow, windowsForSite, windowsOn } from "../utils/demandResponse";
+import type { DemandResponseWindow } from "../utils/demandResponse";
+import { scoreEvents } from "../utils/efficiency";
+import {
+  createPresetId,
+  emptyFilter,
+  filterToSearchParams,
+  isFilterActive,
+  matchesFilter,
+  parseEventFilter
+} from "../utils/filters";
+import type { EventFilter, FilterPreset } from "../utils/filters";
+import { forecastBalance, forecastStartDate, parseWeatherFile } from "../utils/forecast";
+import type { WeatherDay } from "../utils/forecast";
+import {
+  defaultSiteRegistry,
+  eventsForSite,
+  siteTimeZoneOf,
+  storageAssetsOf,
+  summarizeSites,
+  timeZoneOf
+} from "../utils/sites";
+import type { SiteRegistry } from "../utils/sites";
+import { simulateStorage } from "../utils/storage";
+import type { StorageAsset } from "../utils/storage";
+import { buildRecommendations, summarizeMonth } from "../utils/summary";
+import { defaultTariff, eventCost, formatMoney, summarizeBill } from "../utils/tariff";
+import type { Tariff } from "../utils/tariff";
+import { countsTowardTotals, defaultTaxonomy } from "../utils/taxonomy";
+import type { Taxonomy } from "../utils/taxonomy";
+import { liveNetBalance, liveProgress, retentionMs } from "../utils/telemetry";
+import type { LiveProgress, TelemetryReading } from "../utils/telemetry";
+import { instantsOf, runtimeTimeZone, zoneAbbreviation } from "../utils/timeZones";
+import { applyFormChange, createEmptyForm, formToInput, isFormComplete } from "../utils/eventForm";
+import type { EventFormField } from "../utils/eventForm";
+import {
+  createEventRequest,
+  applyMeterReconciliationRequest,
+  createEventsRequest,
+  createUserRequest,
+  deleteEventRequest,
+  deleteFilterPresetRequest,
+  deleteUserRequest,
+  detachOccurrenceRequest,
+  exportEventsUrl,
+  fetchAuditLog,
+  fetchAutomationLog,
+  fetchAutomationRules,
+  fetchCarbonProfile,
+  fetchDemandResponseWindows,
+  fetchEvents,
+  fetchFilterPresets,
+  fetchPreferences,
+  fetchSession,
+  fetchSiteRegistry,
+  fetchTariff,
+  fetchTaxonomy,
+  fetchUsers,
+  previewMeterReconciliationRequest,
+  reportUrl,
+  restoreEventRequest,
+  runForecastRequest,
+  runAutomationsRequest,
+  saveAutomationRulesRequest,
+  saveCarbonProfileRequest,
+  saveDemandResponseWindowsRequest,
+  saveFilterPresetRequest,
+  savePreferencesRequest,
+  saveSiteRegistryRequest,
+  saveTariffRequest,
+  saveTaxonomyRequest,
+  signInRequest,
+  signOutRequest,
+  simulateTelemetryRequest,
+  skipOccurrenceRequest,
+  telemetryStreamUrl,
+  updateEventRequest,
+  updateUserRequest
+} from "../utils/eventsClient";
+import { formatVariance } from "../utils/events";
+import { dateLocales, translate, translatorFor } from "../utils/i18n";
+import type { Locale, MessageKey } from "../utils/i18n";
+import { parseICalendar } from "../utils/ical";
+import type { ICalDraft } from "../utils/ical";
+import { parseMeterFile } from "../utils/meterData";
+import type { MeterInterval, MeterTable, ReconcileOptions } from "../utils/meterData";
+import { defaultPreferences, formatEnergy, formatPower } from "../utils/preferences";
+import type { Preferences } from "../utils/preferences";
+import { expandRecurrences, isVirtualOccurrence } from "../utils/recurrence";
+import type { EnergyEvent, EnergyEventChanges, EnergyEventInput } from "../utils/types";
+import { findScheduleConflicts, hasBlockingIssues, validateEvent } from "../utils/validation";
 
-type EnergyType = "Demand" | "Production" | "Storage" | "Provision";
-type EnergyEvent = {
-  id: string;
-  title: string;
-  type: EnergyType;
-  date: string;
-  startTime: string;
-  endTime: string;
-  energyKwh: number;
-  status: "Scheduled" | "Completed" | "Opportunity";
-  efficiencyScore: number;
-  notes?: string;
-};
+type CalendarView = "month" | "week" | "day";
 
-const initialEvents: EnergyEvent[] = [
-  {
-    id: "event-1",
-    title: "EV Fleet Charging",
-    type: "Demand",
-    date: format(new Date(), "yyyy-MM-05"),
-    startTime: "19:00",
-    endTime: "22:30",
-    energyKwh: 420,
-    status: "Scheduled",
-    efficiencyScore: 68,
-    notes: "Aligned with evening time-of-use incentives."
-  },
-  {
-    id: "event-2",
-    title: "Solar Array Generation",
-    type: "Production",
-    date: format(new Date(), "yyyy-MM-06"),
-    startTime: "07:30",
-    endTime: "17:30",
-    energyKwh: 560,
-    status: "Completed",
-    efficiencyScore: 92,
-    notes: "Exceeded forecast by 8% due to clear skies."
-  },
-  {
-    id: "event-3",
-    title: "Battery Reserve Charge",
-    type: "Storage",
-    date: format(new Date(), "yyyy-MM-08"),
-    startTime: "00:30",
-    endTime: "02:00",
-    energyKwh: 135,
-    status: "Scheduled",
-    efficiencyScore: 83,
-    notes: "Nighttime charging to prep for peak shifting."
-  },
-  {
-    id: "event-4",
-    title: "Community Energy Share",
-    type: "Provision",
-    date: format(new Date(), "yyyy-MM-10"),
-    startTime: "14:00",
-    endTime: "16:00",
-    energyKwh: 220,
-    status: "Completed",
-    efficiencyScore: 88,
-    notes: "Delivered surplus to adjacent microgrid."
-  },
-  {
-    id: "event-5",
-    title: "Data Center Load Test",
-    type: "Demand",
-    date: format(new Date(), "yyyy-MM-15"),
-    startTime: "13:00",
-    endTime: "15:00",
-    energyKwh: 315,
-    status: "Scheduled",
-    efficiencyScore: 54,
-    notes: "Consider shifting to weekend window."
-  },
-  {
-    id: "event-6",
-    title: "Wind Turbine Peak",
-    type: "Production",
-    date: format(new Date(), "yyyy-MM-17"),
-    startTime: "02:00",
-    endTime: "05:00",
-    energyKwh: 410,
-    status: "Completed",
-    efficiencyScore: 79,
-    notes: "Met forecast; turbulence reduced output by 5%."
-  },
-  {
-    id: "event-7",
-    title: "Thermal Storage Discharge",
-    type: "Storage",
-    date: format(new Date(), "yyyy-MM-22"),
-    startTime: "16:30",
-    endTime: "19:00",
-    energyKwh: 190,
-    status: "Opportunity",
-    efficiencyScore: 72,
-    notes: "Dispatch to cover peak pricing interval."
-  }
+const viewOptions: Array<{ value: CalendarView; label: MessageKey }> = [
+  { value: "month", label: "month" },
+  { value: "week", label: "week" },
+  { value: "day", label: "day" }
 ];
 
-const typeStyles: Record<
-  EnergyType,
-  {
-    background: string;
-    border: string;
-    accentClass: string;
-  }
-> = {
-  Demand: {
-    background: "rgba(255, 87, 87, 0.12)",
-    border: "1px solid rgba(255, 87, 87, 0.35)",
-    accentClass: styles.legendSwatchDemand
-  },
-  Production: {
-    background: "rgba(14, 182, 119, 0.15)",
-    border: "1px solid rgba(14, 182, 119, 0.35)",
-    accentClass: styles.legendSwatchProduction
-  },
-  Storage: {
-    background: "rgba(246, 173, 85, 0.17)",
-    border: "1px solid rgba(246, 173, 85, 0.38)",
-    accentClass: styles.legendSwatchStorage
-  },
-  Provision: {
-    background: "rgba(46, 128, 255, 0.16)",
-    border: "1px solid rgba(46, 128, 255, 0.45)",
-    accentClass: styles.legendSwatchProvision
+const formatEventCost = (event: EnergyEvent, tariff: Tariff, taxonomy: Taxonomy, locale: Locale) => {
+  const cost = eventCost(event, tariff, taxonomy);
+  if (cost.importCost > 0) {
+    return translate(locale, "eventCost", { amount: formatMoney(cost.importCost, tariff.currency, 2, locale) });
   }
+  return cost.exportRevenue > 0
+    ? translate(locale, "eventRevenue", { amount: formatMoney(cost.exportRevenue, tariff.currency, 2, locale) })
+    : null;
 };
 
-const filterOptions: Array<EnergyType | "All"> = ["All", "Demand", "Production", "Storage", "Provision"];
+type DragState = { eventId: string; targetDate: string | null; targetStartTime?: string };
+
+const undoWindowMs = 8000;
 
-const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+/** How often live progress is recomputed when no new readings arrive. */
+const liveTickMs = 10_000;
 
-const now = new Date();
+const simulateEveryMs = 5000;
 
 export default function EnergyManagementCalendar() {
-  const [visibleMonth, setVisibleMonth] = useState(startOfMonth(now));
-  const [events, setEvents] = useState<EnergyEvent[]>(initialEvents);
-  const [activeFilter, setActiveFilter] = useState<EnergyType | "All">("All");
-
-  const [newEvent, setNewEvent] = useState({
-    title: "",
-    type: "Demand" as EnergyType,
-    date: format(now, "yyyy-MM-dd"),
-    startTime: "08:00",
-    endTime: "09:00",
-    energyKwh: "",
-    status: "Scheduled" as EnergyEvent["status"],
-    notes: ""
-  });
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isManagingUsers, setIsManagingUsers] = useState(false);
+  const [userError, setUserError] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<{ entries: AuditEntry[]; eventId: string | null } | null>(null);
+  /** When the page was opened; "today" and the start of forecasts and load shifts. */
+  const [now] = useState(() => new Date());
+  const [focusDate, setFocusDate] = useState(now);
+  const [view, setView] = useState<CalendarView>("month");
+  const [events, setEvents] = useState<EnergyEvent[]>([]);
+  const [loadState, setLoadState] = useState<"loading" | "ready" | "error">("loading");
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [filter, setFilter] = useState<EventFilter>(emptyFilter);
+  const [summaryFollowsFilter, setSummaryFollowsFilter] = useState(false);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [automationRules, setAutomationRules] = useState<AutomationRule[]>([]);
+  const [automationRuns, setAutomationRuns] = useState<AutomationRun[]>([]);
+  const [automationNotices, setAutomationNotices] = useState<AutomationRun[]>([]);
+  const [isEditingAutomation, setIsEditingAutomation] = useState(false);
+  const [automationError, setAutomationError] = useState<string | null>(null);
+  const latestRunAt = useRef<string | undefined>(undefined);
+
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [undoAction, setUndoAction] = useState<{ label: string; revert: () => Promise<void> } | null>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [icalImport, setIcalImport] = useState<{ fileName: string; drafts: ICalDraft[] } | null>(null);
+  const [tariff, setTariff] = useState<Tariff>(defaultTariff);
+  const [isEditingTariff, setIsEditingTariff] = useState(false);
+  const [tariffError, setTariffError] = useState<string | null>(null);
+  const [carbonProfile, setCarbonProfile] = useState<CarbonProfile>(defaultCarbonProfile);
+  const [isEditingCarbon, setIsEditingCarbon] = useState(false);
+  const [carbonError, setCarbonError] = useState<string | null>(null);
+  const [registry, setRegistry] = useState<SiteRegistry>(defaultSiteRegistry);
+  /** The site the page is scoped to; null shows the whole portfolio. */
+  const [activeSiteId, setActiveSiteId] = useState<string | null>(null);
+  const [isEditingSites, setIsEditingSites] = useState(false);
+  const [siteError, setSiteError] = useState<string | null>(null);
+  const [isEditingStorage, setIsEditingStorage] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+  const [isEditingPreferences, setIsEditingPreferences] = useState(false);
+  const [preferencesError, setPreferencesError] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [meterImport, setMeterImport] = useState<{ fileName: string; table: MeterTable } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [objective, setObjective] = useState<OptimizerObjective>("cost");
+  const [weather, setWeather] = useState<{ fileName: string; days: WeatherDay[] } | null>(null);
+  const [drWindows, setDrWindows] = useState<DemandResponseWindow[]>([]);
+  const [isEditingDr, setIsEditingDr] = useState(false);
+  const [drError, setDrError] = useState<string | null>(null);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(defaultTaxonomy);
+  const [isEditingTaxonomy, setIsEditingTaxonomy] = useState(false);
+  const [taxonomyError, setTaxonomyError] = useState<string | null>(null);
+  const [telemetry, setTelemetry] = useState<TelemetryReading[]>([]);
+  const [telemetryConnection, setTelemetryConnection] = useState<TelemetryConnection>("connecting");
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [liveNow, setLiveNow] = useState(() => new Date());
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [newEvent, setNewEvent] = useState(() => createEmptyForm(format(now, "yyyy-MM-dd")));
+
+  useEffect(() => {
+    fetchSession()
+      .then(setUser)
+      .catch((error: Error) => setSignInError(error.message))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all([
+      fetchEvents(),
+      fetchTariff(),
+      fetchCarbonProfile(),
+      fetchSiteRegistry(),
+      fetchDemandResponseWindows(),
+      fetchTaxonomy(),
+      fetchFilterPresets(),
+      fetchAutomationRules(),
+      fetchAutomationLog(),
+      fetchUsers(),
+      fetchPreferences()
+    ])
+      .then(
+        ([
+          loadedEvents,
+          loadedTariff,
+          loadedCarbonProfile,
+          loadedRegistry,
+          loadedWindows,
+          loadedTaxonomy,
+          loadedPresets,
+          loadedRules,
+          loadedRuns,
+          loadedUsers,
+          loadedPreferences
+        ]) => {
+          if (!cancelled) {
+            setEvents(loadedEvents);
+            setTariff(loadedTariff);
+            setCarbonProfile(loadedCarbonProfile);
+            setRegistry(loadedRegistry);
+            setDrWindows(loadedWindows);
+            setTaxonomy(loadedTaxonomy);
+            setPresets(loadedPresets);
+            setAutomationRules(loadedRules);
+            setAutomationRuns(loadedRuns);
+            setUsers(loadedUsers);
+            setPreferences(loadedPreferences);
+            latestRunAt.current = loadedRuns[0]?.ranAt;
+            // A shared link carries its filter; it is read only now so custom categories validate.
+            const params = new URLSearchParams(window.location.search);
+            const linked = parseEventFilter(params, loadedTaxonomy);
+            if (linked.ok) {
+              setFilter(linked.value);
+            } else {
+              setFilterError(translate(loadedPreferences.locale, "linkFilterIgnored", { error: linked.error }));
+            }
+            setSummaryFollowsFilter(params.get("summary") === "filtered");
+            setLoadState("ready");
+          }
+        }
+      )
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setRequestError(error.message);
+          setLoadState("error");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(
+    () => () => {
+      if (undoTimer.current) {
+        clearTimeout(undoTimer.current);
+      }
+    },
+    []
+  );
+
+  /**
+   * Automations run on the server after every event change and may create or update other events,
+   * so the run log is checked after local changes; new runs that touched events pull in the fresh schedule.
+   */
+  const syncAutomationRuns = useCallback(async () => {
+    const runs = await fetchAutomationLog(latestRunAt.current);
+    if (runs.length === 0) {
+      return;
+    }
+    latestRunAt.current = runs[0].ranAt;
+    const fresh = (known: AutomationRun[]) => runs.filter((run) => !known.some(({ id }) => id === run.id));
+    setAutomationRuns((prev) => [...fresh(prev), ...prev]);
+    setAutomationNotices((prev) => [...fresh(prev).filter((run) => run.notify), ...prev]);
+    if (runs.some((run) => run.eventIds.length > 0)) {
+      setEvents(await fetchEvents());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (loadState === "ready") {
+      syncAutomationRuns().catch((error: Error) => setRequestError(error.message));
+    }
+  }, [events, loadState, syncAutomationRuns]);
+
+  /**
+   * Telemetry arrives as server-sent events. EventSource reconnects by itself, and the server
+   * opens every connection with a snapshot of the buffer, so nothing is lost while offline.
+   */
+  useEffect(() => {
+    if (loadState !== "ready") {
+      return;
+    }
+    const source = new EventSource(telemetryStreamUrl);
+    const readingsOf = (message: MessageEvent<string>) =>
+      (JSON.parse(message.data) as { readings: TelemetryReading[] }).readings;
+    source.onopen = () => setTelemetryConnection("live");
+    source.onerror = () => setTelemetryConnection("offline");
+    source.addEventListener("snapshot", (message) => setTelemetry(readingsOf(message)));
+    source.addEventListener("readings", (message) => {
+      const cutoff = new Date(Date.now() - retentionMs).toISOString();
+      setTelemetry((prev) => [...prev.filter((reading) => reading.at >= cutoff), ...readingsOf(message)]);
+      setLiveNow(new Date());
+    });
+    return () => source.close();
+  }, [loadState]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setLiveNow(new Date()), liveTickMs);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isSimulating) {
+      return;
+    }
+    const simulate = () =>
+      simulateTelemetryRequest().catch((error: Error) => {
+        setIsSimulating(false);
+        setRequestError(error.message);
+      });
+    simulate();
+    const timer = setInterval(simulate, simulateEveryMs);
+    return () => clearInterval(timer);
+  }, [isSimulating]);
+
+  /** Mirrors the filter into the address bar so the calendar link can be shared as-is. */
+  useEffect(() => {
+    if (loadState !== "ready") {
+      return;
+    }
+    const params = filterToSearchParams(filter);
+    if (summaryFollowsFilter) {
+      params.set("summary", "filtered");
+    }
+    const search = params.toString();
+    window.history.replaceState(null, "", search ? `?${search}` : window.location.pathname);
+  }, [filter, summaryFollowsFilter, loadState]);
+
+  const visibleMonth = useMemo(() => startOfMonth(focusDate), [focusDate]);
+
+  const timelineDays = useMemo(() => {
+    if (view === "day") {
+      return [focusDate];
+    }
+    const { weekStartsOn } = preferences;
+    return eachDayOfInterval({
+      start: startOfWeek(focusDate, { weekStartsOn }),
+      end: endOfWeek(focusDate, { weekStartsOn })
+    });
+  }, [view, focusDate, preferences]);
 
   const monthInterval = useMemo(() => {
-    const start = startOfWeek(startOfMonth(visibleMonth), { weekStartsOn: 0 });
-    const end = endOfWeek(endOfMonth(visibleMonth), { weekStartsOn: 0 });
+    const { weekStartsOn } = preferences;
+    const start = startOfWeek(startOfMonth(visibleMonth), { weekStartsOn });
+    const end = endOfWeek(endOfMonth(visibleMonth), { weekStartsOn });
     return eachDayOfInterval({ start, end });
-  }, [visibleMonth]);
-
-  const filteredEvents = useMemo(() => {
-    if (activeFilter === "All") {
-      return events;
-    }
-    return events.filter((event) => event.type === activeFilter);
-  }, [events, activeFilter]);
-
-  const summary = useMemo(() => {
-    const monthKey = format(visibleMonth, "yyyy-MM");
-    const monthEvents = events.filter((event) => event.date.startsWith(monthKey));
-    const totalsByType = monthEvents.reduce(
-      (acc, event) => {
-        acc[event.type] += event.energyKwh;
-        return acc;
-      },
-      {
-        Demand: 0,
-        Production: 0,
-        Storage: 0,
-        Provision: 0
+  }, [visibleMonth, preferences]);
+
+  const occurrences = useMemo(
+    () =>
+      expandRecurrences(
+        events,
+        format(monthInterval[0], "yyyy-MM-dd"),
+        format(monthInterval[monthInterval.length - 1], "yyyy-MM-dd")
+      ),
+    [events, monthInterval]
+  );
+
+  const efficiency = useMemo(
+    () => scoreEvents(occurrences, tariff, carbonProfile, taxonomy, registry, preferences),
+    [occurrences, tariff, carbonProfile, taxonomy, registry, preferences]
+  );
+
+  /** Occurrences with live efficiency scores, so moving one event re-rates everything it overlaps. */
+  const expandedEvents = useMemo(
+    () =>
+      occurrences.map((event) => ({
+        ...event,
+        efficiencyScore: efficiency.get(event.id)?.score ?? event.efficiencyScore
+      })),
+    [occurrences, efficiency]
+  );
+
+  const selectedEvent = useMemo(
+    () => expandedEvents.find((event) => event.id === selectedEventId) ?? null,
+    [expandedEvents, selectedEventId]
+  );
+
+  const selectedSeries = useMemo(
+    () =>
+      selectedEvent && isVirtualOccurrence(selectedEvent)
+        ? (events.find((event) => event.id === selectedEvent.seriesId) ?? null)
+        : null,
+    [events, selectedEvent]
+  );
+
+  const siteEvents = useMemo(
+    () => eventsForSite(expandedEvents, registry, activeSiteId),
+    [expandedEvents, registry, activeSiteId]
+  );
+
+  const filteredEvents = useMemo(
+    () => (isFilterActive(filter) ? siteEvents.filter((event) => matchesFilter(event, filter)) : siteEvents),
+    [siteEvents, filter]
+  );
+
+  const summary = useMemo(
+    () => summarizeMonth(siteEvents, visibleMonth, taxonomy),
+    [siteEvents, visibleMonth, taxonomy]
+  );
+
+  /** Only the summary card follows the filter; bills, recommendations and the optimizer keep the whole site in view. */
+  const cardSummary = useMemo(
+    () =>
+      summaryFollowsFilter && isFilterActive(filter) ? summarizeMonth(filteredEvents, visibleMonth, taxonomy) : summary,
+    [summaryFollowsFilter, filter, filteredEvents, visibleMonth, taxonomy, summary]
+  );
+
+  /** Telemetry progress of the shown events that are in flight right now, keyed by event id. */
+  const liveProgressById = useMemo(() => {
+    const progress = new Map<string, LiveProgress>();
+    filteredEvents.forEach((event) => {
+      const live = countsTowardTotals(taxonomy, event)
+        ? liveProgress(event, telemetry, liveNow, timeZoneOf(event, registry), taxonomy)
+        : null;
+      if (live) {
+        progress.set(event.id, live);
       }
-    );
-    const totalConsumption = totalsByType.Demand;
-    const totalProduction = totalsByType.Production + totalsByType.Provision;
-    const storageBuffer = totalsByType.Storage;
-    const netBalance = totalProduction + storageBuffer - totalConsumption;
+    });
+    return progress;
+  }, [filteredEvents, telemetry, liveNow, registry, taxonomy]);
+
+  const liveBalance = useMemo(
+    () => liveNetBalance(telemetry, registry, activeSiteId, liveNow, taxonomy),
+    [telemetry, registry, activeSiteId, liveNow, taxonomy]
+  );
+
+  const monthEventCounts = useMemo(() => {
+    const inMonth = (event: EnergyEvent) => isSameMonth(parseISO(event.date), visibleMonth);
+    return { matching: filteredEvents.filter(inMonth).length, total: siteEvents.filter(inMonth).length };
+  }, [filteredEvents, siteEvents, visibleMonth]);
+
+  const portfolioSummary = useMemo(
+    () => (activeSiteId === null ? summary : summarizeMonth(expandedEvents, visibleMonth, taxonomy)),
+    [activeSiteId, summary, expandedEvents, visibleMonth, taxonomy]
+  );
+
+  const siteSummaries = useMemo(
+    () => summarizeSites(expandedEvents, visibleMonth, registry, taxonomy),
+    [expandedEvents, visibleMonth, registry, taxonomy]
+  );
+
+  const bill = useMemo(
+    () => summarizeBill(siteEvents, visibleMonth, tariff, taxonomy),
+    [siteEvents, visibleMonth, tariff, taxonomy]
+  );
+
+  const emissions = useMemo(
+    () => summarizeEmissions(siteEvents, visibleMonth, carbonProfile, taxonomy),
+    [siteEvents, visibleMonth, carbonProfile, taxonomy]
+  );
+
+  const recommendations = useMemo(
+    () => buildRecommendations(summary, siteEvents, carbonProfile, taxonomy, preferences),
+    [summary, siteEvents, carbonProfile, taxonomy, preferences]
+  );
+
+  const siteWindows = useMemo(() => windowsForSite(drWindows, activeSiteId), [drWindows, activeSiteId]);
+
+  /** Settled against stored events, so baselines can reach back into earlier months. */
+  const drSettlements = useMemo(
+    () =>
+      siteWindows
+        .filter((window) => isSameMonth(parseISO(window.date), visibleMonth))
+        .map((window) => settleWindow(window, events, drWindows, registry, taxonomy, now)),
+    [siteWindows, visibleMonth, events, drWindows, registry, taxonomy, now]
+  );
+
+  const storageAssets = useMemo(() => storageAssetsOf(registry, activeSiteId), [registry, activeSiteId]);
 
-    const completedCount = monthEvents.filter((event) => event.status === "Completed").length;
-    const averageEfficiency =
-      monthEvents.length > 0
-        ? Math.round(monthEvents.reduce((acc, event) => acc + event.efficiencyScore, 0) / monthEvents.length)
-        : 0;
+  /** Cancelled and failed storage events never moved any energy, so the simulation skips them. */
+  const storageSimulation = useMemo(
+    () =>
+      simulateStorage(
+        siteEvents.filter((event) => countsTowardTotals(taxonomy, event)),
+        visibleMonth,
+        storageAssets
+      ),
+    [siteEvents, visibleMonth, storageAssets, taxonomy]
+  );
+
+  const storageIssues = useMemo(
+    () =>
+      new Map(
+        storageSimulation.flatMap((simulation) =>
+          simulation.results.flatMap((result) => (result.issue ? [[result.event.id, result.issue] as const] : []))
+        )
+      ),
+    [storageSimulation]
+  );
+
+  const loadShifts = useMemo(
+    () =>
+      suggestLoadShifts(siteEvents, visibleMonth, tariff, objective, format(now, "yyyy-MM-dd"), taxonomy, preferences),
+    [siteEvents, visibleMonth, tariff, objective, taxonomy, now, preferences]
+  );
 
+  const forecast = useMemo(
+    () => forecastBalance(siteEvents, visibleMonth, forecastStartDate(now), taxonomy),
+    [siteEvents, visibleMonth, taxonomy, now]
+  );
+
+  const scheduleConflicts = useMemo(
+    () => findScheduleConflicts(siteEvents, registry, taxonomy, preferences),
+    [siteEvents, registry, taxonomy, preferences]
+  );
+
+  const newEventIssues = useMemo(() => {
+    const input = formToInput(newEvent, taxonomy);
+    return input
+      ? validateEvent({ ...input, id: "new-event", efficiencyScore: 0 }, events, registry, taxonomy, preferences)
+      : [];
+  }, [newEvent, events, registry, taxonomy, preferences]);
+
+  const draggedEvent = useMemo(
+    () => (dragState ? (expandedEvents.find((event) => event.id === dragState.eventId) ?? null) : null),
+    [expandedEvents, dragState]
+  );
+
+  const dragPreview = useMemo(() => {
+    if (!dragState?.targetDate) {
+      return null;
+    }
+    const shifted = applyShift(siteEvents, dragState.eventId, dragState.targetDate, dragState.targetStartTime);
+    const projectedScores = scoreEvents(shifted, tariff, carbonProfile, taxonomy, registry);
+    const projectedEvents = shifted.map((event) => ({
+      ...event,
+      efficiencyScore: projectedScores.get(event.id)?.score ?? event.efficiencyScore
+    }));
+    const projectedSummary = summarizeMonth(projectedEvents, visibleMonth, taxonomy);
     return {
-      totalsByType,
-      totalConsumption,
-      totalProduction,
-      storageBuffer,
-      netBalance,
-      completedCount,
-      totalEvents: monthEvents.length,
-      averageEfficiency
+      summary: projectedSummary,
+      recommendations: buildRecommendations(projectedSummary, projectedEvents, carbonProfile, taxonomy, preferences)
     };
-  }, [events, visibleMonth]);
-
-  const recommendations = useMemo(() => {
-    const recs: Array<{ title: string; detail: string }> = [];
-    if (summary.netBalance < 0) {
-      recs.push({
-        title: "Net Load Imbalance",
-        detail:
-          "Demand outpaces supply this month. Shift flexible loads (e.g., EV charging) into early morning windows or increase storage dispatch."
-      });
-    } else {
-      recs.push({
-        title: "Positive Net Balance",
-        detail:
-          "You're producing more energy than you consume. Schedule a provision event to export surplus during afternoon peak pricing."
-      });
+  }, [siteEvents, dragState, visibleMonth, tariff, carbonProfile, taxonomy, registry, preferences]);
+
+  const handleNavigate = (direction: "prev" | "next") => {
+    const step = direction === "prev" ? -1 : 1;
+    setFocusDate((prev) => {
+      if (view === "day") {
+        return addDays(prev, step);
+      }
+      if (view === "week") {
+        return addWeeks(prev, step);
+      }
+      return startOfMonth(addMonths(prev, step));
+    });
+  };
+
+  const { t, tn } = translatorFor(preferences.locale);
+  const dateLocale = dateLocales[preferences.locale];
+  const energy = (kwh: number, signed = false) => formatEnergy(kwh, preferences, { signed });
+  const power = (kw: number, signed = false) => formatPower(kw, preferences, { signed });
+  const money = (value: number, fractionDigits?: number) =>
+    formatMoney(value, tariff.currency, fractionDigits, preferences.locale);
+
+  /** Times are local to the event's site; events at sites in another zone than the browser say which. */
+  const zoneLabelOf = (event: EnergyEvent) => {
+    const timeZone = siteTimeZoneOf(event, registry);
+    return timeZone && timeZone !== runtimeTimeZone
+      ? ` ${zoneAbbreviation(timeZone, new Date(instantsOf(event, timeZone).start), preferences.locale)}`
+      : "";
+  };
+
+  const periodLabel =
+    view === "month"
+      ? format(visibleMonth, "LLLL yyyy", { locale: dateLocale })
+      : view === "week"
+        ? `${format(timelineDays[0], "d MMM", { locale: dateLocale })} – ${format(
+            timelineDays[timelineDays.length - 1],
+            "d MMM yyyy",
+            { locale: dateLocale }
+          )}`
+        : format(focusDate, "PPPP", { locale: dateLocale });
+
+  const handleChange = (field: EventFormField, value: string) => {
+    setNewEvent((prev) => applyFormChange(prev, field, value));
+  };
+
+  const handleCreateEvent = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const input = formToInput(newEvent, taxonomy);
+    if (!input || hasBlockingIssues(newEventIssues)) {
+      return;
     }
 
-    if (summary.totalsByType.Demand > summary.totalsByType.Production * 1.2) {
-      recs.push({
-        title: "Demand Peaks Forecasted",
-        detail:
-          "Forecasted demand is 20% above on-site production. Consider adding a demand response event or activating backup generation."
-      });
+    setIsSaving(true);
+    setRequestError(null);
+    try {
+      const createdEvent = await createEventRequest(input);
+      setEvents((prev) => [...prev, createdEvent]);
+      setNewEvent(createEmptyForm(newEvent.date, { type: newEvent.type, status: newEvent.status }));
+    } catch (error) {
+      setRequestError((error as Error).message);
+    } finally {
+      setIsSaving(false);
     }
+  };
 
-    const lowEfficiencyEvents = events
-      .filter((event) => event.efficiencyScore < 70)
-      .slice(0, 2)
-      .map((event) => event.title);
-    if (lowEfficiencyEvents.length > 0) {
-      recs.push({
-        title: "Improve Efficiency Scores",
-        detail: `Optimize schedules for ${lowEfficiencyEvents.join(
-          " & "
-        )} to boost their efficiency ratings above 70%.`
-      });
+  const openEvent = (id: string) => {
+    setDetailError(null);
+    setSelectedEventId(id);
+  };
+
+  const closeEvent = useCallback(() => setSelectedEventId(null), []);
+
+  const replaceEvent = (updated: EnergyEvent) =>
+    setEvents((prev) => prev.map((event) => (event.id === updated.id ? updated : event)));
+
+  /** Edits one occurrence of a series by detaching it into a standalone event. */
+  const detachOccurrence = async (occurrence: EnergyEvent, changes: EnergyEventChanges) => {
+    const { series, event: detached } = await detachOccurrenceRequest(
+      occurrence.seriesId as string,
+      occurrence.occurrenceDate as string,
+      changes
+    );
+    setEvents((prev) => [...prev.map((event) => (event.id === series.id ? series : event)), detached]);
+    return detached;
+  };
+
+  const handleUpdateEvent = async (target: EnergyEvent, changes: EnergyEventChanges, scope: EditScope) => {
+    setIsSaving(true);
+    setDetailError(null);
+    try {
+      if (isVirtualOccurrence(target) && scope === "occurrence") {
+        const detached = await detachOccurrence(target, changes);
+        setSelectedEventId(detached.id);
+      } else {
+        replaceEvent(
+          await updateEventRequest(target.seriesId && scope === "series" ? target.seriesId : target.id, changes)
+        );
+      }
+    } catch (error) {
+      setDetailError((error as Error).message);
+    } finally {
+      setIsSaving(false);
     }
+  };
 
-    return recs;
-  }, [summary, events]);
+  const handleRescheduleEvent = async (id: string, date: string, startTime?: string) => {
+    const original = expandedEvents.find((event) => event.id === id);
+    if (!original) {
+      return;
+    }
+    const changes = shiftEvent(original, date, startTime);
+    if (changes.date === original.date && changes.startTime === original.startTime) {
+      return;
+    }
+    setRequestError(null);
+    if (isVirtualOccurrence(original)) {
+      try {
+        await detachOccurrence(original, changes);
+      } catch (error) {
+        setRequestError((error as Error).message);
+      }
+      return;
+    }
+    setEvents((prev) => applyShift(prev, id, date, startTime));
+    try {
+      replaceEvent(await updateEventRequest(id, changes));
+    } catch (error) {
+      replaceEvent(original);
+      setRequestError((error as Error).message);
+    }
+  };
 
-  const handleMonthChange = (direction: "prev" | "next") => {
-    setVisibleMonth((prev) => (direction === "prev" ? addMonths(prev, -1) : addMonths(prev, 1)));
+  const offerUndo = (label: string, revert: () => Promise<void>) => {
+    if (undoTimer.current) {
+      clearTimeout(undoTimer.current);
+    }
+    setUndoAction({ label, revert });
+    undoTimer.current = setTimeout(() => setUndoAction(null), undoWindowMs);
   };
 
-  const handleChange = (field: string, value: string) => {
-    setNewEvent((prev) => ({
-      ...prev,
-      [field]: field === "energyKwh" ? value.replace(/[^0-9.]/g, "") : value
-    }));
+  const handleDeleteEvent = async (target: EnergyEvent, scope: EditScope) => {
+    setIsSaving(true);
+    setDetailError(null);
+    try {
+      if (isVirtualOccurrence(target) && scope === "occurrence") {
+        const seriesId = target.seriesId as string;
+        const previousRule = events.find((event) => event.id === seriesId)?.recurrence;
+        replaceEvent(await skipOccurrenceRequest(seriesId, target.occurrenceDate as string));
+        offerUndo(t("skippedOccurrence", { title: target.title, date: target.occurrenceDate as string }), async () => {
+          if (previousRule) {
+            replaceEvent(await updateEventRequest(seriesId, { recurrence: previousRule }));
+          }
+        });
+      } else {
+        const removedEvent = await deleteEventRequest(
+          scope === "series" && target.seriesId ? target.seriesId : target.id
+        );
+        setEvents((prev) => prev.filter((event) => event.id !== removedEvent.id));
+        offerUndo(t("deletedEvent", { title: removedEvent.title }), async () => {
+          const restoredEvent = await restoreEventRequest(removedEvent);
+          setEvents((prev) => [...prev, restoredEvent]);
+        });
+      }
+      setSelectedEventId(null);
+    } catch (error) {
+      setDetailError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleCreateEvent = (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (!newEvent.title.trim() || !newEvent.date || !newEvent.energyKwh) {
+  const handleIcalFile = async (file: File | undefined) => {
+    if (!file) {
       return;
     }
-    const energyValue = Number(newEvent.energyKwh);
-    if (Number.isNaN(energyValue) || energyValue <= 0) {
+    setRequestError(null);
+    const drafts = parseICalendar(await file.text(), taxonomy, preferences.locale);
+    if (drafts.length === 0) {
+      setRequestError(t("noCalendarEvents", { file: file.name }));
       return;
     }
+    setImportError(null);
+    setIcalImport({ fileName: file.name, drafts });
+  };
 
-    const createdEvent: EnergyEvent = {
-      id: `event-${Date.now()}`,
-      title: newEvent.title.trim(),
-      type: newEvent.type,
-      date: newEvent.date,
-      startTime: newEvent.startTime,
-      endTime: newEvent.endTime,
-      energyKwh: energyValue,
-      status: newEvent.status,
-      efficiencyScore: Math.min(100, Math.max(40, Math.round(energyValue > 500 ? 80 : 90 - energyValue / 10))),
-      notes: newEvent.notes?.trim() || undefined
-    };
-    setEvents((prev) => [...prev, createdEvent]);
-    setNewEvent({
-      title: "",
-      type: newEvent.type,
-      date: newEvent.date,
-      startTime: "08:00",
-      endTime: "09:00",
-      energyKwh: "",
-      status: newEvent.status,
-      notes: ""
-    });
+  const handleConfirmImport = async (inputs: EnergyEventInput[]) => {
+    setIsSaving(true);
+    setImportError(null);
+    try {
+      const created = await createEventsRequest(inputs);
+      setEvents((prev) => [...prev, ...created]);
+      setIcalImport(null);
+    } catch (error) {
+      setImportError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWeatherFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const parsed = parseWeatherFile(await file.text(), file.name);
+    if (!parsed.ok) {
+      setRequestError(`${file.name}: ${parsed.error}`);
+      return;
+    }
+    setRequestError(null);
+    setWeather({ fileName: file.name, days: parsed.value });
+  };
+
+  /** Regenerates the visible month's forecast; stale forecasts are replaced on the server and swapped out here. */
+  const handleRunForecast = async () => {
+    setIsSaving(true);
+    setRequestError(null);
+    try {
+      const { removedIds, events: created } = await runForecastRequest(
+        format(visibleMonth, "yyyy-MM"),
+        forecastStartDate(now),
+        weather?.days ?? []
+      );
+      setEvents((prev) => [...prev.filter((event) => !removedIds.includes(event.id)), ...created]);
+    } catch (error) {
+      setRequestError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMeterFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setRequestError(null);
+    try {
+      const table = parseMeterFile(await file.text(), file.name);
+      if (table.rows.length === 0 || table.columns.length < 2) {
+        setRequestError(t("meterFileNeedsColumns", { file: file.name }));
+        return;
+      }
+      setImportError(null);
+      setMeterImport({ fileName: file.name, table });
+    } catch (error) {
+      setRequestError(t("fileUnreadable", { file: file.name, error: (error as Error).message }));
+    }
+  };
+
+  const handlePreviewMeterData = async (intervals: MeterInterval[], options: ReconcileOptions) => {
+    setIsSaving(true);
+    setImportError(null);
+    try {
+      return await previewMeterReconciliationRequest(intervals, options);
+    } catch (error) {
+      setImportError((error as Error).message);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApplyMeterData = async (intervals: MeterInterval[], options: ReconcileOptions) => {
+    setIsSaving(true);
+    setImportError(null);
+    try {
+      const result = await applyMeterReconciliationRequest(intervals, options);
+      setEvents(result.events);
+      setMeterImport(null);
+    } catch (error) {
+      setImportError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveTariff = async (next: Tariff) => {
+    setIsSaving(true);
+    setTariffError(null);
+    try {
+      setTariff(await saveTariffRequest(next));
+      setIsEditingTariff(false);
+    } catch (error) {
+      setTariffError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveCarbonProfile = async (next: CarbonProfile) => {
+    setIsSaving(true);
+    setCarbonError(null);
+    try {
+      setCarbonProfile(await saveCarbonProfileRequest(next));
+      setIsEditingCarbon(false);
+    } catch (error) {
+      setCarbonError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDemandResponseWindows = async (next: DemandResponseWindow[]) => {
+    setIsSaving(true);
+    setDrError(null);
+    try {
+      setDrWindows(await saveDemandResponseWindowsRequest(next));
+      setIsEditingDr(false);
+    } catch (error) {
+      setDrError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAutomationRules = async (next: AutomationRule[]) => {
+    setIsSaving(true);
+    setAutomationError(null);
+    try {
+      setAutomationRules(await saveAutomationRulesRequest(next));
+      setIsEditingAutomation(false);
+    } catch (error) {
+      setAutomationError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDryRunAutomation = async (rule: AutomationRule) => {
+    setIsSaving(true);
+    setAutomationError(null);
+    try {
+      const [run] = await runAutomationsRequest({ rule, month: format(visibleMonth, "yyyy-MM"), dryRun: true });
+      return run ?? null;
+    } catch (error) {
+      setAutomationError((error as Error).message);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunAutomations = async () => {
+    setIsSaving(true);
+    setRequestError(null);
+    try {
+      await runAutomationsRequest({ month: format(visibleMonth, "yyyy-MM") });
+      await syncAutomationRuns();
+    } catch (error) {
+      setRequestError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
+  const handleChangeFilterPresets = async (change: () => Promise<FilterPreset[]>) => {
+    setIsSaving(true);
+    setFilterError(null);
+    try {
+      setPresets(await change());
+    } catch (error) {
+      setFilterError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApplyPreset = (preset: FilterPreset) => {
+    const parsed = parseEventFilter(new URLSearchParams(preset.query), taxonomy);
+    if (!parsed.ok) {
+      setFilterError(`${preset.name}: ${parsed.error}`);
+      return;
+    }
+    setFilterError(null);
+    setFilter(parsed.value);
+  };
+
+  const handleSaveTaxonomy = async (next: Taxonomy) => {
+    setIsSaving(true);
+    setTaxonomyError(null);
+    try {
+      const saved = await saveTaxonomyRequest(next);
+      setTaxonomy(saved);
+      setFilter((prev) => ({
+        ...prev,
+        types: prev.types.filter((type) => saved.categories.some((category) => category.name === type)),
+        statuses: prev.statuses.filter((status) => saved.statuses.some((definition) => definition.name === status))
+      }));
+      setIsEditingTaxonomy(false);
+    } catch (error) {
+      setTaxonomyError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSiteRegistry = async (next: SiteRegistry) => {
+    setIsSaving(true);
+    setSiteError(null);
+    try {
+      const saved = await saveSiteRegistryRequest(next);
+      setRegistry(saved);
+      // A changed site zone moves the local times of that site's events.
+      setEvents(await fetchEvents());
+      if (activeSiteId && !saved.sites.some((site) => site.id === activeSiteId)) {
+        setActiveSiteId(null);
+      }
+      setIsEditingSites(false);
+    } catch (error) {
+      setSiteError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Storage parameters live on registry assets, so edits are merged back and saved with the registry. */
+  const handleSaveStorageAssets = async (next: StorageAsset[]) => {
+    setIsSaving(true);
+    setStorageError(null);
+    try {
+      setRegistry(
+        await saveSiteRegistryRequest({
+          ...registry,
+          assets: registry.assets.map((asset) => {
+            const edited = next.find((candidate) => candidate.id === asset.id);
+            if (!edited) {
+              return asset;
+            }
+            const { id: _id, name, ...storage } = edited;
+            return { ...asset, name, storage };
+          })
+        })
+      );
+      setIsEditingStorage(false);
+    } catch (error) {
+      setStorageError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSavePreferences = async (next: Preferences) => {
+    setIsSaving(true);
+    setPreferencesError(null);
+    try {
+      setPreferences(await savePreferencesRequest(next));
+      setIsEditingPreferences(false);
+    } catch (error) {
+      setPreferencesError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!undoAction) {
+      return;
+    }
+    if (undoTimer.current) {
+      clearTimeout(undoTimer.current);
+    }
+    setUndoAction(null);
+    try {
+      await undoAction.revert();
+    } catch (error) {
+      setRequestError((error as Error).message);
+    }
+  };
+
+  const handleSignIn = async (credentials: Credentials) => {
+    setIsSaving(true);
+    setSignInError(null);
+    try {
+      setUser(await signInRequest(credentials));
+    } catch (error) {
+      setSignInError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOutRequest();
+      setIsSimulating(false);
+      setLoadState("loading");
+      setUser(null);
+      closeEvent();
+    } catch (error) {
+      setRequestError((error as Error).message);
+    }
+  };
+
+  const handleSaveUser = async (id: string | null, input: UserInput) => {
+    setIsSaving(true);
+    setUserError(null);
+    try {
+      const saved = id ? await updateUserRequest(id, input) : await createUserRequest(input);
+      setUsers((prev) => (id ? prev.map((existing) => (existing.id === id ? saved : existing)) : [...prev, saved]));
+      if (saved.id === user?.id) {
+        setUser(saved);
+      }
+      return true;
+    } catch (error) {
+      setUserError((error as Error).message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteUser = async (id: string) => {
+    setIsSaving(true);
+    setUserError(null);
+    try {
+      await deleteUserRequest(id);
+      setUsers((prev) => prev.filter((existing) => existing.id !== id));
+    } catch (error) {
+      setUserError((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Virtual occurrences share their series' history, so callers pass the series id for those. */
+  const openAuditLog = async (eventId: string | null) => {
+    try {
+      setAuditLog({ entries: await fetchAuditLog(), eventId });
+    } catch (error) {
+      setRequestError((error as Error).message);
+    }
+  };
+
+  if (!user) {
+    return (
+      <main className={styles.container}>
+        {isCheckingSession ? null : (
+          <SignInForm preferences={preferences} isSaving={isSaving} error={signInError} onSignIn={handleSignIn} />
+        )}
+      </main>
+    );
+  }
+
+  const canEdit = can(user, "events:edit");
+  const canEditSettings = can(user, "settings:edit");
+
   return (
     <main className={styles.container}>
       <div className={styles.wrapper}>
         <header className={styles.pageHeader}>
           <div className={styles.titleRow}>
-            <h1 className={styles.title}>Energy Management Calendar</h1>
+            <h1 className={styles.title}>{t("title")}</h1>
             <div className={styles.legend}>
-              <span className={styles.legendItem}>
-                <span className={`${styles.legendSwatch} ${styles.legendSwatchDemand}`} />
-                Demand Load
-              </span>
-              <span className={styles.legendItem}>
-                <span className={`${styles.legendSwatch} ${styles.legendSwatchProduction}`} />
-                On-Site Production
-              </span>
-              <span className={styles.legendItem}>
-                <span className={`${styles.legendSwatch} ${styles.legendSwatchStorage}`} />
-                Storage Cycle
-              </span>
-              <span className={styles.legendItem}>
-                <span className={`${styles.legendSwatch} ${styles.legendSwatchProvision}`} />
-                Provision Export
-              </span>
+              {taxonomy.categories.map((category) => (
+                <span key={category.name} className={styles.legendItem}>
+                  <span className={styles.legendSwatch} style={{ background: category.color }} />
+                  {legendLabelOf(category.name)}
+                </span>
+              ))}
             </div>
           </div>
-          <p className={styles.subtitle}>
-            Plan, schedule, and balance distributed energy resources across your operations. Align production, storage,
-            and consumption to optimize costs while meeting resilience targets.
-          </p>
+          <p className={styles.subtitle}>{t("subtitle")}</p>
+          <div className={styles.filterRow}>
+            <select
+              className={styles.select}
+              aria-label={t("site")}
+              value={activeSiteId ?? ""}
+              onChange={(event) => setActiveSiteId(event.target.value || null)}
+            >
+              <option value="">{t("allSites")}</option>
+              {registry.sites.map((site) => (
+                <option key={site.id} value={site.id}>
+                  {site.name}
+                </option>
+              ))}
+            </select>
+            {canEditSettings ? (
+              <button
+                type="button"
+                className={styles.filterButton}
+                onClick={() => {
+                  setSiteError(null);
+                  setIsEditingSites(true);
+                }}
+              >
+                {t("manageSites")}
+              </button>
+            ) : null}
+            {canEditSettings ? (
+              <button
+                type="button"
+                className={styles.filterButton}
+                onClick={() => {
+                  setTaxonomyError(null);
+                  setIsEditingTaxonomy(true);
+                }}
+              >
+                {t("categoriesAndStatuses")}
+              </button>
+            ) : null}
+            <Link href="/analytics" className={styles.filterButton}>
+              {t("analytics")}
+            </Link>
+            <a
+              className={styles.filterButton}
+              href={reportUrl(format(visibleMonth, "yyyy-MM"), "pdf", activeSiteId)}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {t("generateReport")}
+            </a>
+            <a
+              className={styles.filterButton}
+              href={reportUrl(format(visibleMonth, "yyyy-MM"), "csv", activeSiteId)}
+              download
+            >
+              {t("reportCsv")}
+            </a>
+            <button type="button" className={styles.filterButton} onClick={() => openAuditLog(null)}>
+              {t("auditLog")}
+            </button>
+            {can(user, "users:manage") ? (
+              <button
+                type="button"
+                className={styles.filterButton}
+                onClick={() => {
+                  setUserError(null);
+                  setIsManagingUsers(true);
+                }}
+              >
+                {t("users")}
+              </button>
+            ) : null}
+            <button
+              type="button"
+              className={styles.filterButton}
+              onClick={() => {
+                setPreferencesError(null);
+                setIsEditingPreferences(true);
+              }}
+            >
+              {t("preferences")}
+            </button>
+            <span className={styles.summaryDelta}>
+              {t("signedInAs", { name: user.name, role: t(roleNames[user.role]) })} ·{" "}
+              <button type="button" className={styles.filterButton} onClick={handleSignOut}>
+                {t("signOut")}
+              </button>
+            </span>
+          </div>
         </header>
 
         <section className={styles.summaryCard}>
           <div className={styles.summaryGrid}>
             <div className={styles.summaryItem}>
-              <span className={styles.summaryLabel}>Net Balance</span>
-              <span className={styles.summaryValue}>
-                {summary.netBalance >= 0 ? "+" : "-"}
-                {Math.abs(summary.netBalance).toFixed(0)} kWh
+              <span className={styles.summaryLabel}>
+                {t("netBalance")}
+                {cardSummary !== summary ? ` · ${t("filtered")}` : ""}
               </span>
+              <span className={styles.summaryValue}>{energy(cardSummary.netBalance, true)}</span>
               <span className={styles.summaryDelta}>
-                {summary.netBalance >= 0 ? "Surplus available for export" : "Cover deficit with storage or grid supply"}
+                {cardSummary.netBalance >= 0 ? t("surplusForExport") : t("coverDeficit")}
               </span>
             </div>
+            <LiveBalanceCard
+              balance={liveBalance}
+              connection={telemetryConnection}
+              isSimulating={isSimulating}
+              preferences={preferences}
+              onToggleSimulator={canEdit ? () => setIsSimulating((prev) => !prev) : null}
+            />
+            <BillCards
+              bill={bill}
+              currency={tariff.currency}
+              preferences={preferences}
+              onEditTariff={
+                canEditSettings
+                  ? () => {
+                      setTariffError(null);
+                      setIsEditingTariff(true);
+                    }
+                  : null
+              }
+            />
             <div className={styles.summaryItem}>
-              <span className={styles.summaryLabel}>Production</span>
-              <span className={styles.summaryValue}>{summary.totalProduction.toFixed(0)} kWh</span>
+              <span className={styles.summaryLabel}>{t("production")}</span>
+              <span className={styles.summaryValue}>{energy(cardSummary.totalProduction)}</span>
               <span className={styles.summaryDelta}>
-                {summary.totalsByType.Production.toFixed(0)} on-site · {summary.totalsByType.Provision.toFixed(0)} shared
+                {t("productionBreakdown", {
+                  onSite: energy(cardSummary.totalsByType.Production),
+                  shared: energy(cardSummary.totalsByType.Provision)
+                })}
               </span>
             </div>
             <div className={styles.summaryItem}>
-              <span className={styles.summaryLabel}>Consumption</span>
-              <span className={styles.summaryValue}>{summary.totalConsumption.toFixed(0)} kWh</span>
-              <span className={styles.summaryDelta}>{summary.totalsByType.Demand.toFixed(0)} kWh scheduled demand</span>
+              <span className={styles.summaryLabel}>{t("consumption")}</span>
+              <span className={styles.summaryValue}>{energy(cardSummary.totalConsumption)}</span>
+              <span className={styles.summaryDelta}>
+                {t("scheduledDemand", { energy: energy(cardSummary.totalsByType.Demand) })}
+              </span>
             </div>
+            <StorageCard
+              storageNetKwh={cardSummary.storageBuffer}
+              infeasibleCount={storageIssues.size}
+              preferences={preferences}
+              onEditStorage={
+                canEditSettings
+                  ? () => {
+                      setStorageError(null);
+                      setIsEditingStorage(true);
+                    }
+                  : null
+              }
+            />
+            <ForecastCard
+              forecast={forecast}
+              weatherFileName={weather?.fileName ?? null}
+              canEdit={canEdit}
+              isSaving={isSaving}
+              preferences={preferences}
+              onRunForecast={handleRunForecast}
+              onWeatherFile={handleWeatherFile}
+            />
+            <EmissionsCard
+              emissions={emissions}
+              preferences={preferences}
+              onEditProfile={
+                canEditSettings
+                  ? () => {
+                      setCarbonError(null);
+                      setIsEditingCarbon(true);
+                    }
+                  : null
+              }
+            />
             <div className={styles.summaryItem}>
-              <span className={styles.summaryLabel}>Efficiency Index</span>
-              <span className={styles.summaryValue}>{summary.averageEfficiency}%</span>
+              <span className={styles.summaryLabel}>{t("efficiencyIndex")}</span>
+              <span className={styles.summaryValue}>{cardSummary.averageEfficiency}%</span>
               <span className={styles.summaryDelta}>
-                {summary.completedCount} of {summary.totalEvents} events completed
+                {t("eventsCompleted", { completed: cardSummary.completedCount, total: cardSummary.totalEvents })}
+                {cardSummary.voidCount > 0 ? ` · ${t("cancelledOrFailed", { count: cardSummary.voidCount })}` : ""}
               </span>
             </div>
           </div>
         </section>
 
+        {siteSummaries.length > 1 ? (
+          <SiteSummaryCards
+            siteSummaries={siteSummaries}
+            portfolioSummary={portfolioSummary}
+            activeSiteId={activeSiteId}
+            preferences={preferences}
+            onViewSite={setActiveSiteId}
+          />
+        ) : null}
+
         <section className={styles.calendarCard}>
           <div className={styles.calendarHeader}>
-            <span>{format(visibleMonth, "MMMM yyyy")}</span>
+            <span>
+              {periodLabel}
+              {loadState === "loading" ? <span className={styles.summaryDelta}> · {t("loadingSchedule")}</span> : null}
+            </span>
             <div className={styles.filterRow}>
-              {filterOptions.map((option) => (
+              <button
+                type="button"
+                className={`${styles.filterButton} ${filter.types.length === 0 ? styles.filterButtonActive : ""}`}
+                onClick={() => setFilter((prev) => ({ ...prev, types: [] }))}
+              >
+                {t("all")}
+              </button>
+              {taxonomy.categories.map(({ name }) => (
                 <button
-                  key={option}
+                  key={name}
                   type="button"
-                  className={`${styles.filterButton} ${activeFilter === option ? styles.filterButtonActive : ""}`}
-                  onClick={() => setActiveFilter(option)}
+                  className={`${styles.filterButton} ${filter.types.includes(name) ? styles.filterButtonActive : ""}`}
+                  aria-pressed={filter.types.includes(name)}
+                  onClick={() =>
+                    setFilter((prev) => ({
+                      ...prev,
+                      types: prev.types.includes(name)
+                        ? prev.types.filter((type) => type !== name)
+                        : [...prev.types, name]
+                    }))
+                  }
                 >
-                  {option}
+                  {name}
                 </button>
               ))}
             </div>
             <div className={styles.navButtons}>
-              <button type="button" className={styles.navButton} onClick={() => handleMonthChange("prev")}>
-                ← Previous
+              {viewOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`${styles.filterButton} ${view === option.value ? styles.filterButtonActive : ""}`}
+                  aria-pressed={view === option.value}
+                  onClick={() => setView(option.value)}
+                >
+                  {t(option.label)}
+                </button>
+              ))}
+              <button type="button" className={styles.navButton} onClick={() => handleNavigate("prev")}>
+                {t("previous")}
               </button>
-              <button type="button" className={styles.navButton} onClick={() => setVisibleMonth(startOfMonth(now))}>
-                Today
+              <button type="button" className={styles.navButton} onClick={() => setFocusDate(now)}>
+                {t("today")}
               </button>
-              <button type="button" className={styles.navButton} onClick={() => handleMonthChange("next")}>
-                Next →
+              <button type="button" className={styles.navButton} onClick={() => handleNavigate("next")}>
+                {t("next")}
               </button>
+              <a
+                className={styles.navButton}
+                href={exportEventsUrl({
+                  month: format(visibleMonth, "yyyy-MM"),
+                  filter: isFilterActive(filter) ? filter : undefined
+                })}
+                download
+              >
+                {t("exportIcs")}
+              </a>
+              {canEdit ? (
+                <>
+                  <label className={styles.navButton}>
+                    {t("importIcs")}
+                    <input
+                      type="file"
+                      accept=".ics,text/calendar"
+                      hidden
+                      onChange={(changeEvent) => {
+                        handleIcalFile(changeEvent.target.files?.[0]);
+                        changeEvent.target.value = "";
+                      }}
+                    />
+                  </label>
+                  <label className={styles.navButton}>
+                    {t("importMeterData")}
+                    <input
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      hidden
+                      onChange={(changeEvent) => {
+                        handleMeterFile(changeEvent.target.files?.[0]);
+                        changeEvent.target.value = "";
+                      }}
+                    />
+                  </label>
+                </>
+              ) : null}
             </div>
           </div>
+          <EventFilterBar
+            filter={filter}
+            preferences={preferences}
+            taxonomy={taxonomy}
+            registry={registry}
+            presets={presets}
+            matchCount={monthEventCounts.matching}
+            totalCount={monthEventCounts.total}
+            summaryFollowsFilter={summaryFollowsFilter}
+            isSaving={isSaving}
+            error={filterError}
+            onChange={(next) => {
+              setFilterError(null);
+              setFilter(next);
+            }}
+            onSummaryFollowsFilterChange={setSummaryFollowsFilter}
+            onApplyPreset={handleApplyPreset}
+            canManagePresets={canEdit}
+            onSavePreset={(name) =>
+              handleChangeFilterPresets(() =>
+                saveFilterPresetRequest({ id: createPresetId(), name, query: filterToSearchParams(filter).toString() })
+              )
+            }
+            onDeletePreset={(id) => handleChangeFilterPresets(() => deleteFilterPresetRequest(id))}
+          />
+          <AutomationNotices
+            runs={automationNotices}
+            preferences={preferences}
+            onDismiss={(runId) => setAutomationNotices((prev) => prev.filter(({ id }) => id !== runId))}
+          />
+          {requestError ? (
+            <p className={styles.tag} role="alert">
+              {requestError}
+            </p>
+          ) : null}
+          {draggedEvent ? (
+            <LoadShiftPreview
+              event={draggedEvent}
+              targetDate={dragState?.targetDate ?? null}
+              targetStartTime={dragState?.targetStartTime}
+              current={{ summary, recommendations }}
+              projected={dragPreview}
+              preferences={preferences}
+            />
+          ) : null}
 
-          <div className={styles.grid}>
-            {weekdays.map((weekday) => (
-              <div key={weekday} className={styles.weekday}>
-                {weekday}
-              </div>
-            ))}
-            {monthInterval.map((day) => {
-              const dayEvents = filteredEvents.filter((event) => isSameDay(parseISO(event.date), day));
-              const isToday = isSameDay(day, now);
-              const inCurrentMonth = isSameMonth(day, visibleMonth);
-              return (
-                <div
-                  key={day.toISOString()}
-                  className={`${styles.dayCell} ${!inCurrentMonth ? styles.nonCurrentMonth : ""}`}
-                >
-                  <span className={`${styles.dayNumber} ${isToday ? styles.dayNumberToday : ""}`}>
-                    {format(day, "d")}
-                  </span>
-                  {dayEvents.length === 0 ? (
-                    <span className={styles.emptyState}>No activity scheduled</span>
-                  ) : (
-                    dayEvents.map((event) => (
-                      <article
-                        key={event.id}
-                        className={styles.event}
-                        style={{
-                          background: typeStyles[event.type].background,
-                          border: typeStyles[event.type].border
-                        }}
-                      >
-                        <div className={styles.eventHeader}>
-                          <span className={styles.eventTitle}>{event.title}</span>
-                          <span className={`${styles.eventType} ${typeStyles[event.type].accentClass}`}>{event.type}</span>
-                        </div>
-                        <span className={styles.energyValue}>
-                          {event.startTime} – {event.endTime} · {event.energyKwh.toFixed(0)} kWh
-                        </span>
-                        <span className={styles.eventEfficiency}>
-                          {event.status} · Efficiency {event.efficiencyScore}%
-                        </span>
-                        {event.notes ? <span className={styles.energyValue}>{event.notes}</span> : null}
-                      </article>
-                    ))
-                  )}
+          {view === "month" ? (
+            <div className={styles.grid}>
+              {monthInterval.slice(0, 7).map((day) => (
+                <div key={day.getDay()} className={styles.weekday}>
+                  {format(day, "EEE", { locale: dateLocale })}
                 </div>
-              );
-            })}
-          </div>
+              ))}
+              {monthInterval.map((day) => {
+                const dayEvents = filteredEvents.filter((event) => isSameDay(parseISO(event.date), day));
+                const isToday = isSameDay(day, now);
+                const inCurrentMonth = isSameMonth(day, visibleMonth);
+                const dayKey = format(day, "yyyy-MM-dd");
+                const dayConflicts = scheduleConflicts.get(dayKey) ?? [];
+                const isDropTarget = dragState?.targetDate === dayKey;
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={`${styles.dayCell} ${!inCurrentMonth ? styles.nonCurrentMonth : ""}`}
+                    style={
+                      isDropTarget ? { outline: "2px dashed rgba(46, 128, 255, 0.6)", outlineOffset: -2 } : undefined
+                    }
+                    onDragOver={(dragEvent) => {
+                      if (!dragState) {
+                        return;
+                      }
+                      dragEvent.preventDefault();
+                      dragEvent.dataTransfer.dropEffect = "move";
+                      if (!isDropTarget) {
+                        setDragState({ ...dragState, targetDate: dayKey });
+                      }
+                    }}
+                    onDrop={(dragEvent) => {
+                      dragEvent.preventDefault();
+                      const eventId = dragEvent.dataTransfer.getData("text/plain") || dragState?.eventId;
+                      setDragState(null);
+                      if (eventId) {
+                        handleRescheduleEvent(eventId, dayKey);
+                      }
+                    }}
+                  >
+                    <span className={`${styles.dayNumber} ${isToday ? styles.dayNumberToday : ""}`}>
+                      {format(day, "d")}
+                    </span>
+                    {dayConflicts.length > 0 ? (
+                      <span className={styles.tag} title={dayConflicts.join("\n")}>
+                        ⚠ {tn("conflicts", dayConflicts.length)}
+                      </span>
+                    ) : null}
+                    {windowsOn(siteWindows, dayKey).map((window) => (
+                      <span
+                        key={window.id}
+                        className={drStyles.band}
+                        title={t("demandResponseWindowRate", { rate: money(window.ratePerKwh, 2) })}
+                      >
+                        {t("demandResponseShort")} {window.startTime}–{window.endTime} · {window.program}
+                      </span>
+                    ))}
+                    {dayEvents.length === 0 ? (
+                      <span className={styles.emptyState}>{t("noActivity")}</span>
+                    ) : (
+                      dayEvents.map((event) => (
+                        <article
+                          key={event.id}
+                          className={styles.event}
+                          role="button"
+                          tabIndex={0}
+                          draggable={canEdit}
+                          onDragStart={(dragEvent) => {
+                            dragEvent.dataTransfer.setData("text/plain", event.id);
+                            dragEvent.dataTransfer.effectAllowed = "move";
+                            setDragState({ eventId: event.id, targetDate: null });
+                          }}
+                          onDragEnd={() => setDragState(null)}
+                          aria-label={t("editEvent", { title: event.title })}
+                          onClick={() => openEvent(event.id)}
+                          onKeyDown={(keyEvent) => {
+                            if (keyEvent.key === "Enter" || keyEvent.key === " ") {
+                              keyEvent.preventDefault();
+                              openEvent(event.id);
+                            }
+                          }}
+                          style={{
+                            cursor: "pointer",
+                            background: typeStyleOf(taxonomy, event.type).background,
+                            border: typeStyleOf(taxonomy, event.type).border,
+                            opacity: countsTowardTotals(taxonomy, event) ? undefined : 0.5
+                          }}
+                        >
+                          <div className={styles.eventHeader}>
+                            <span className={styles.eventTitle}>{event.title}</span>
+                            <span
+                              className={styles.eventType}
+                              style={{ color: typeStyleOf(taxonomy, event.type).color }}
+                            >
+                              {event.type}
+                            </span>
+                          </div>
+                          <span className={styles.energyValue}>
+                            {event.startTime} – {event.endTime}
+                            {zoneLabelOf(event)} · {energy(event.energyKwh)}
+                          </span>
+                          <LiveProgressBar progress={liveProgressById.get(event.id)} preferences={preferences} />
+                          <span className={styles.eventEfficiency}>
+                            {event.status} · {t("efficiencyScore", { score: event.efficiencyScore })}
+                            {event.seriesId ? ` · ${t("recurring")}` : ""}
+                          </span>
+                          <EfficiencyBreakdown breakdown={efficiency.get(event.id)} preferences={preferences} compact />
+                          {formatEventCost(event, tariff, taxonomy, preferences.locale) ? (
+                            <span className={styles.energyValue}>
+                              {formatEventCost(event, tariff, taxonomy, preferences.locale)}
+                            </span>
+                          ) : null}
+                          {event.forecast ? (
+                            <span className={styles.energyValue}>
+                              {t("forecastBand", {
+                                low: energy(event.forecast.lowKwh),
+                                high: energy(event.forecast.highKwh)
+                              })}
+                            </span>
+                          ) : null}
+                          {event.actualKwh !== undefined ? (
+                            <span className={styles.energyValue}>
+                              {t("meteredVsPlan", {
+                                energy: energy(event.actualKwh),
+                                variance: formatVariance(event, preferences) ?? ""
+                              })}
+                            </span>
+                          ) : null}
+                          {storageIssues.has(event.id) ? (
+                            <span className={styles.eventEfficiency} title={storageIssues.get(event.id)}>
+                              ⚠ {t("storageLimit")}
+                            </span>
+                          ) : null}
+                          {event.notes ? <span className={styles.energyValue}>{event.notes}</span> : null}
+                        </article>
+                      ))
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <TimelineView
+              days={timelineDays}
+              events={filteredEvents}
+              windows={siteWindows}
+              liveProgress={liveProgressById}
+              taxonomy={taxonomy}
+              preferences={preferences}
+              today={now}
+              isDragging={Boolean(dragState)}
+              canReschedule={canEdit}
+              dropTarget={
+                dragState?.targetDate ? { date: dragState.targetDate, startTime: dragState.targetStartTime } : null
+              }
+              onOpenEvent={openEvent}
+              onDragStartEvent={(id) => setDragState({ eventId: id, targetDate: null })}
+              onDragEndEvent={() => setDragState(null)}
+              onDragTarget={(date, startTime) =>
+                setDragState((prev) => (prev ? { ...prev, targetDate: date, targetStartTime: startTime } : prev))
+              }
+              onDropEvent={(id, date, startTime) => {
+                setDragState(null);
+                handleRescheduleEvent(id, date, startTime);
+              }}
+            />
+          )}
         </section>
 
         <section className={styles.plannerCard}>
           <div className={styles.plannerLayout}>
-            <form className={styles.form} onSubmit={handleCreateEvent}>
-              <h2>Schedule New Activity</h2>
-              <div className={styles.fieldGroup}>
-                <label className={styles.label} htmlFor="title">
-                  Activity title
-                </label>
-                <input
-                  id="title"
-                  className={styles.input}
-                  placeholder="e.g., Shift HVAC precooling"
-                  value={newEvent.title}
-                  onChange={(event) => handleChange("title", event.target.value)}
-                />
-              </div>
-              <div className={styles.formRow}>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="type">
-                    Category
-                  </label>
-                  <select
-                    id="type"
-                    className={styles.select}
-                    value={newEvent.type}
-                    onChange={(event) => handleChange("type", event.target.value)}
-                  >
-                    <option value="Demand">Demand</option>
-                    <option value="Production">Production</option>
-                    <option value="Storage">Storage</option>
-                    <option value="Provision">Provision</option>
-                  </select>
-                </div>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="status">
-                    Status
-                  </label>
-                  <select
-                    id="status"
-                    className={styles.select}
-                    value={newEvent.status}
-                    onChange={(event) => handleChange("status", event.target.value)}
-                  >
-                    <option value="Scheduled">Scheduled</option>
-                    <option value="Completed">Completed</option>
-                    <option value="Opportunity">Opportunity</option>
-                  </select>
-                </div>
-              </div>
-              <div className={styles.formRow}>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="date">
-                    Date
-                  </label>
-                  <input
-                    id="date"
-                    type="date"
-                    className={styles.input}
-                    value={newEvent.date}
-                    onChange={(event) => handleChange("date", event.target.value)}
-                  />
-                </div>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="energy">
-                    Energy (kWh)
-                  </label>
-                  <input
-                    id="energy"
-                    className={styles.input}
-                    placeholder="150"
-                    value={newEvent.energyKwh}
-                    onChange={(event) => handleChange("energyKwh", event.target.value)}
-                  />
-                </div>
-              </div>
-              <div className={styles.formRow}>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="startTime">
-                    Start time
-                  </label>
-                  <input
-                    id="startTime"
-                    type="time"
-                    className={styles.input}
-                    value={newEvent.startTime}
-                    onChange={(event) => handleChange("startTime", event.target.value)}
-                  />
-                </div>
-                <div className={styles.fieldGroup}>
-                  <label className={styles.label} htmlFor="endTime">
-                    End time
-                  </label>
-                  <input
-                    id="endTime"
-                    type="time"
-                    className={styles.input}
-                    value={newEvent.endTime}
-                    onChange={(event) => handleChange("endTime", event.target.value)}
-                  />
-                </div>
-              </div>
-              <div className={styles.fieldGroup}>
-                <label className={styles.label} htmlFor="notes">
-                  Notes
-                </label>
-                <textarea
-                  id="notes"
-                  className={styles.input}
-                  rows={3}
-                  placeholder="Add context, targets, or automation triggers..."
-                  value={newEvent.notes}
-                  onChange={(event) => handleChange("notes", event.target.value)}
+            {canEdit ? (
+              <form className={styles.form} onSubmit={handleCreateEvent}>
+                <h2>{t("scheduleNewActivity")}</h2>
+                <EventFormFields
+                  form={newEvent}
+                  preferences={preferences}
+                  onChange={handleChange}
+                  registry={registry}
+                  taxonomy={taxonomy}
+                  issues={newEventIssues}
+                  windows={drWindows}
                 />
+                <button
+                  className={styles.primaryButton}
+                  type="submit"
+                  disabled={isSaving || !isFormComplete(newEvent) || hasBlockingIssues(newEventIssues)}
+                >
+                  {isSaving ? t("saving") : t("addToCalendar")}
+                </button>
+              </form>
+            ) : (
+              <div className={styles.form}>
+                <h2>{t("scheduleNewActivity")}</h2>
+                <p className={styles.subtitle}>{t("readOnlyRole", { role: t(roleNames[user.role]) })}</p>
               </div>
-              <button
-                className={styles.primaryButton}
-                type="submit"
-                disabled={!newEvent.title.trim() || !newEvent.energyKwh}
-              >
-                Add to calendar
-              </button>
-            </form>
+            )}
 
             <div>
-              <h2>Optimization Insights</h2>
+              <h2>{t("optimizationInsights")}</h2>
               <div className={styles.recommendations}>
                 {recommendations.map((recommendation, index) => (
                   <div key={index} className={styles.recommendationItem}>
@@ -580,13 +1720,228 @@ export default function EnergyManagementCalendar() {
                     <span>{recommendation.detail}</span>
                   </div>
                 ))}
-                <div className={styles.tag}>Automations Ready · 3</div>
-                <div className={styles.tag}>Demand Response Windows · 2</div>
+                <LoadShiftSuggestions
+                  suggestions={loadShifts}
+                  objective={objective}
+                  currency={tariff.currency}
+                  preferences={preferences}
+                  onAccept={
+                    canEdit
+                      ? (suggestion) =>
+                          handleRescheduleEvent(suggestion.event.id, suggestion.date, suggestion.startTime)
+                      : null
+                  }
+                  onObjectiveChange={setObjective}
+                />
+                <DemandResponsePanel
+                  settlements={drSettlements}
+                  registry={registry}
+                  currency={tariff.currency}
+                  preferences={preferences}
+                  onManage={
+                    canEditSettings
+                      ? () => {
+                          setDrError(null);
+                          setIsEditingDr(true);
+                        }
+                      : null
+                  }
+                />
+                {storageSimulation.map((simulation) => (
+                  <StorageSocChart
+                    key={simulation.asset.id}
+                    simulation={simulation}
+                    color={typeStyleOf(taxonomy, "Storage").color}
+                    preferences={preferences}
+                  />
+                ))}
+                <AutomationPanel
+                  rules={automationRules}
+                  runs={automationRuns}
+                  isSaving={isSaving}
+                  preferences={preferences}
+                  onRunNow={canEdit ? handleRunAutomations : null}
+                  onManage={
+                    canEditSettings
+                      ? () => {
+                          setAutomationError(null);
+                          setIsEditingAutomation(true);
+                        }
+                      : null
+                  }
+                />
               </div>
             </div>
           </div>
         </section>
       </div>
+
+      {selectedEvent ? (
+        <EventDetailPanel
+          key={selectedEvent.id}
+          event={selectedEvent}
+          preferences={preferences}
+          series={selectedSeries}
+          registry={registry}
+          taxonomy={taxonomy}
+          events={events}
+          windows={drWindows}
+          automationRuleName={automationRules.find((rule) => rule.id === selectedEvent.automationRuleId)?.name ?? null}
+          storageIssue={storageIssues.get(selectedEvent.id) ?? null}
+          efficiency={efficiency.get(selectedEvent.id) ?? null}
+          isSaving={isSaving}
+          error={detailError}
+          canEdit={canEdit}
+          canComplete={can(user, "events:complete")}
+          onSave={(changes, scope) => handleUpdateEvent(selectedEvent, changes, scope)}
+          onDelete={(scope) => handleDeleteEvent(selectedEvent, scope)}
+          onShowHistory={() => openAuditLog(selectedEvent.seriesId ?? selectedEvent.id)}
+          onClose={closeEvent}
+        />
+      ) : null}
+      {icalImport ? (
+        <ICalImportDialog
+          fileName={icalImport.fileName}
+          preferences={preferences}
+          drafts={icalImport.drafts}
+          existingEvents={expandedEvents}
+          taxonomy={taxonomy}
+          registry={registry}
+          isSaving={isSaving}
+          error={importError}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setIcalImport(null)}
+        />
+      ) : null}
+      {isEditingTariff ? (
+        <TariffEditor
+          tariff={tariff}
+          preferences={preferences}
+          isSaving={isSaving}
+          error={tariffError}
+          onSave={handleSaveTariff}
+          onCancel={() => setIsEditingTariff(false)}
+        />
+      ) : null}
+      {isEditingCarbon ? (
+        <CarbonProfileEditor
+          profile={carbonProfile}
+          preferences={preferences}
+          isSaving={isSaving}
+          error={carbonError}
+          onSave={handleSaveCarbonProfile}
+          onCancel={() => setIsEditingCarbon(false)}
+        />
+      ) : null}
+      {isEditingDr ? (
+        <DemandResponseEditor
+          windows={drWindows}
+          preferences={preferences}
+          registry={registry}
+          defaultDate={format(visibleMonth, "yyyy-MM-dd")}
+          isSaving={isSaving}
+          error={drError}
+          onSave={handleSaveDemandResponseWindows}
+          onCancel={() => setIsEditingDr(false)}
+        />
+      ) : null}
+      {isEditingAutomation ? (
+        <AutomationEditor
+          rules={automationRules}
+          preferences={preferences}
+          taxonomy={taxonomy}
+          month={format(visibleMonth, "yyyy-MM")}
+          isSaving={isSaving}
+          error={automationError}
+          onSave={handleSaveAutomationRules}
+          onDryRun={handleDryRunAutomation}
+          onCancel={() => setIsEditingAutomation(false)}
+        />
+      ) : null}
+      {isEditingTaxonomy ? (
+        <TaxonomyEditor
+          taxonomy={taxonomy}
+          preferences={preferences}
+          isSaving={isSaving}
+          error={taxonomyError}
+          onSave={handleSaveTaxonomy}
+          onCancel={() => setIsEditingTaxonomy(false)}
+        />
+      ) : null}
+      {isEditingSites ? (
+        <SiteRegistryEditor
+          registry={registry}
+          preferences={preferences}
+          taxonomy={taxonomy}
+          isSaving={isSaving}
+          error={siteError}
+          onSave={handleSaveSiteRegistry}
+          onCancel={() => setIsEditingSites(false)}
+        />
+      ) : null}
+      {isEditingStorage ? (
+        <StorageAssetsEditor
+          assets={storageAssets}
+          preferences={preferences}
+          isSaving={isSaving}
+          error={storageError}
+          onSave={handleSaveStorageAssets}
+          onCancel={() => setIsEditingStorage(false)}
+        />
+      ) : null}
+      {meterImport ? (
+        <MeterImportDialog
+          fileName={meterImport.fileName}
+          table={meterImport.table}
+          taxonomy={taxonomy}
+          registry={registry}
+          siteId={activeSiteId}
+          preferences={preferences}
+          isSaving={isSaving}
+          error={importError}
+          onPreview={handlePreviewMeterData}
+          onApply={handleApplyMeterData}
+          onCancel={() => setMeterImport(null)}
+        />
+      ) : null}
+      {isEditingPreferences ? (
+        <PreferencesDialog
+          preferences={preferences}
+          isSaving={isSaving}
+          error={preferencesError}
+          onSave={handleSavePreferences}
+          onCancel={() => setIsEditingPreferences(false)}
+        />
+      ) : null}
+      {isManagingUsers ? (
+        <UserManager
+          users={users}
+          preferences={preferences}
+          currentUser={user}
+          isSaving={isSaving}
+          error={userError}
+          onSave={handleSaveUser}
+          onDelete={handleDeleteUser}
+          onClose={() => setIsManagingUsers(false)}
+        />
+      ) : null}
+      {auditLog ? (
+        <AuditLogDialog
+          entries={auditLog.entries}
+          preferences={preferences}
+          users={users}
+          initialEventId={auditLog.eventId}
+          onClose={() => setAuditLog(null)}
+        />
+      ) : null}
+      {undoAction ? (
+        <div className={detailStyles.toast} role="status">
+          <span>{undoAction.label}</span>
+          <button type="button" onClick={handleUndo}>
+            {t("undo")}
+          </button>
+        </div>
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { dailyBalances, efficiencyDistribution, monthlyTrends, monthsBetween } from "./analytics";
+import { defaultCarbonProfile } from "./carbon";
+import { defaultTariff } from "./tariff";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "chiller",
+  title: "Chiller",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "15:00",
+  endTime: "17:00",
+  energyKwh: 50,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  ...overrides
+});
+
+describe("monthsBetween", () => {
+  it("lists every month across a year end and stops at the charting limit", () => {
+    assert.deepEqual(monthsBetween("2023-11", "2024-02"), ["2023-11", "2023-12", "2024-01", "2024-02"]);
+    const capped = monthsBetween("2020-01", "2024-12");
+    assert.equal(capped.length, 24);
+    assert.equal(capped[23], "2021-12");
+  });
+});
+
+describe("monthlyTrends", () => {
+  it("totals each month's occurrences and compares plan with metered energy on reconciled events", () => {
+    const events = [
+      // Mondays: four in June 2024, five in July.
+      event({ id: "weekly", recurrence: { frequency: "weekly", interval: 1 } }),
+      event({ id: "metered", type: "Production", status: "Completed", energyKwh: 100, actualKwh: 90 }),
+      event({ id: "cancelled", type: "Production", status: "Cancelled", energyKwh: 100, actualKwh: 10 })
+    ];
+    const [june, july] = monthlyTrends(events, ["2024-06", "2024-07"], defaultTariff, defaultCarbonProfile);
+    assert.deepEqual([june.month, june.summary.totalConsumption, june.summary.totalProduction], ["2024-06", 200, 100]);
+    assert.deepEqual([june.plannedKwh, june.actualKwh, june.reconciledCount], [100, 90, 1]);
+    assert.deepEqual(
+      [july.month, july.summary.totalConsumption, july.plannedKwh, july.reconciledCount],
+      ["2024-07", 250, 0, 0]
+    );
+  });
+});
+
+describe("dailyBalances", () => {
+  it("gives every day of the month, charging storage against the balance and discharging towards it", () => {
+    const days = dailyBalances(
+      [
+        event({ energyKwh: 80 }),
+        event({ id: "solar", type: "Production", energyKwh: 120 }),
+        event({ id: "charge", type: "Storage", title: "Battery charge", energyKwh: 30 }),
+        event({ id: "discharge", type: "Storage", title: "Battery discharge", date: "2024-06-04", energyKwh: 20 }),
+        event({ id: "failed", status: "Failed", energyKwh: 500 })
+      ],
+      "2024-06"
+    );
+    assert.equal(days.length, 30);
+    assert.deepEqual(days[2], { date: "2024-06-03", production: 120, consumption: 80, storage: -30, net: 10 });
+    assert.deepEqual(days[3], { date: "2024-06-04", production: 0, consumption: 0, storage: 20, net: 20 });
+  });
+});
+
+describe("efficiencyDistribution", () => {
+  it("counts scores per 20-point band, with 100 in the top band, and leaves void events out", () => {
+    const demand = efficiencyDistribution([
+      event({ efficiencyScore: 5 }),
+      event({ efficiencyScore: 45 }),
+      event({ efficiencyScore: 100 }),
+      event({ status: "Cancelled", efficiencyScore: 90 })
+    ]).find((entry) => entry.type === "Demand");
+    assert.deepEqual(demand, { type: "Demand", buckets: [1, 0, 1, 0, 1], average: 50, count: 3 });
+  });
+});
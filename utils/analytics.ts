@@ -0,0 +1,140 @@
+import { addMonths, eachDayOfInterval, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import type { CarbonProfile } from "./carbon";
+import { scoreEvents } from "./efficiency";
+import { expandRecurrences, monthRange } from "./recurrence";
+import type { SiteRegistry } from "./sites";
+import { summarizeMonth } from "./summary";
+import type { MonthSummary } from "./summary";
+import type { Tariff } from "./tariff";
+import { balanceOf, balanceSign, countsTowardTotals, defaultTaxonomy } from "./taxonomy";
+import type { BalanceRole, Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyType } from "./types";
+
+export type MonthTrend = {
+  month: string;
+  summary: MonthSummary;
+  /** Plan and metered totals over the events that have been reconciled against meter data. */
+  plannedKwh: number;
+  actualKwh: number;
+  reconciledCount: number;
+};
+
+export type DailyBalance = {
+  date: string;
+  production: number;
+  consumption: number;
+  storage: number;
+  net: number;
+};
+
+export type EfficiencyDistribution = {
+  type: EnergyType;
+  /** Event counts per 20-point score band, lowest band first. */
+  buckets: number[];
+  average: number;
+  count: number;
+};
+
+export const efficiencyBands = ["0–19", "20–39", "40–59", "60–79", "80–100"];
+
+/** Longest range the analytics page charts, to keep the month-by-month scoring cheap. */
+export const maxTrendMonths = 24;
+
+/** Every month from `from` to `to` inclusive, as yyyy-MM keys, capped at `maxTrendMonths`. */
+export const monthsBetween = (from: string, to: string) => {
+  const months: string[] = [];
+  for (
+    let month = parseISO(`${from}-01`);
+    format(month, "yyyy-MM") <= to && months.length < maxTrendMonths;
+    month = addMonths(month, 1)
+  ) {
+    months.push(format(month, "yyyy-MM"));
+  }
+  return months;
+};
+
+/**
+ * A month's occurrences with live efficiency scores, matching what the calendar shows for that
+ * month rather than the scores stored when each event was last saved.
+ */
+export const scoredMonthEvents = (
+  events: EnergyEvent[],
+  month: string,
+  tariff: Tariff,
+  carbon: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  registry?: SiteRegistry
+) => {
+  const { start, end } = monthRange(month);
+  const occurrences = expandRecurrences(events, start, end);
+  const scores = scoreEvents(occurrences, tariff, carbon, taxonomy, registry);
+  return occurrences.map((event) => ({
+    ...event,
+    efficiencyScore: scores.get(event.id)?.score ?? event.efficiencyScore
+  }));
+};
+
+export const monthlyTrends = (
+  events: EnergyEvent[],
+  months: string[],
+  tariff: Tariff,
+  carbon: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  registry?: SiteRegistry
+): MonthTrend[] =>
+  months.map((month) => {
+    const monthEvents = scoredMonthEvents(events, month, tariff, carbon, taxonomy, registry);
+    // One-off events from other months pass through the expansion, so keep to the month's own.
+    const reconciled = monthEvents.filter(
+      (event) => event.date.startsWith(month) && event.actualKwh !== undefined && countsTowardTotals(taxonomy, event)
+    );
+    return {
+      month,
+      summary: summarizeMonth(monthEvents, parseISO(`${month}-01`), taxonomy),
+      plannedKwh: reconciled.reduce((acc, event) => acc + event.energyKwh, 0),
+      actualKwh: reconciled.reduce((acc, event) => acc + (event.actualKwh ?? 0), 0),
+      reconciledCount: reconciled.length
+    };
+  });
+
+/** Per-day totals using the same sign conventions as the monthly summary. */
+export const dailyBalances = (
+  monthEvents: EnergyEvent[],
+  month: string,
+  taxonomy: Taxonomy = defaultTaxonomy
+): DailyBalance[] => {
+  const first = parseISO(`${month}-01`);
+  return eachDayOfInterval({ start: startOfMonth(first), end: endOfMonth(first) }).map((day) => {
+    const date = format(day, "yyyy-MM-dd");
+    const dayEvents = monthEvents.filter((event) => event.date === date && countsTowardTotals(taxonomy, event));
+    const total = (balance: BalanceRole, energyOf = (event: EnergyEvent) => event.energyKwh) =>
+      dayEvents
+        .filter((event) => balanceOf(taxonomy, event.type) === balance)
+        .reduce((acc, event) => acc + energyOf(event), 0);
+    const production = total("supply");
+    const consumption = total("consumption");
+    const storage = total("storage", (event) => balanceSign(taxonomy, event) * event.energyKwh);
+    return { date, production, consumption, storage, net: production + storage - consumption };
+  });
+};
+
+/** One entry per category in the taxonomy; void events are left out as their scores mean nothing. */
+export const efficiencyDistribution = (
+  events: EnergyEvent[],
+  taxonomy: Taxonomy = defaultTaxonomy
+): EfficiencyDistribution[] =>
+  taxonomy.categories.map(({ name: type }) => {
+    const scores = events
+      .filter((event) => event.type === type && countsTowardTotals(taxonomy, event))
+      .map((event) => event.efficiencyScore);
+    const buckets = efficiencyBands.map(() => 0);
+    for (const score of scores) {
+      buckets[Math.min(efficiencyBands.length - 1, Math.floor(score / 20))] += 1;
+    }
+    return {
+      type,
+      buckets,
+      average: scores.length > 0 ? Math.round(scores.reduce((acc, score) => acc + score, 0) / scores.length) : 0,
+      count: scores.length
+    };
+  });
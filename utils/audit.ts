@@ -0,0 +1,111 @@
+import type { EnergyEvent } from "./types";
+
+/** The username automation rules act under in `createdBy`, `updatedBy` and the audit log. */
+export const automationActor = "automation";
+
+/** Who a change is attributed to, plus context when it was not a direct edit, e.g. "Meter import". */
+export type AuditActor = {
+  username: string;
+  via?: string;
+};
+
+export type AuditAction = "created" | "updated" | "deleted";
+
+export type AuditFieldChange = {
+  field: string;
+  /** Undefined when the field was not set before, or is no longer set after. */
+  from?: unknown;
+  to?: unknown;
+};
+
+export type AuditEntry = {
+  id: string;
+  /** ISO timestamp of the change. */
+  at: string;
+  actor: string;
+  via?: string;
+  action: AuditAction;
+  eventId: string;
+  /** The title at the time of the change, so deleted events stay recognisable. */
+  eventTitle: string;
+  /** The fields an update changed; empty for creations and deletions. */
+  changes: AuditFieldChange[];
+};
+
+export type AuditQuery = {
+  eventId?: string;
+  actor?: string;
+};
+
+/** Derived or bookkeeping fields whose changes are not worth an entry of their own. */
+const ignoredFields = new Set<string>(["id", "efficiencyScore", "createdBy", "updatedBy", "startsAt", "endsAt"]);
+
+export const createAuditId = () => `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffEvents = (before: EnergyEvent, after: EnergyEvent): AuditFieldChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !ignoredFields.has(field))
+    .filter((field) => !same(before[field as keyof EnergyEvent], after[field as keyof EnergyEvent]))
+    .sort()
+    .map((field) => ({
+      field,
+      from: before[field as keyof EnergyEvent],
+      to: after[field as keyof EnergyEvent]
+    }));
+
+/**
+ * Audit entries for everything that differs between two versions of the stored schedule,
+ * matched by event id: new ids were created, missing ones deleted, and the rest updated when
+ * a field other than the derived efficiency score changed.
+ */
+export const auditChanges = (
+  previous: EnergyEvent[],
+  next: EnergyEvent[],
+  actor: AuditActor,
+  at: string
+): AuditEntry[] => {
+  const before = new Map(previous.map((event) => [event.id, event]));
+  const after = new Map(next.map((event) => [event.id, event]));
+  const entry = (action: AuditAction, event: EnergyEvent, changes: AuditFieldChange[] = []): AuditEntry => ({
+    id: createAuditId(),
+    at,
+    actor: actor.username,
+    ...(actor.via ? { via: actor.via } : {}),
+    action,
+    eventId: event.id,
+    eventTitle: event.title,
+    changes
+  });
+  const entries: AuditEntry[] = [];
+  next.forEach((event) => {
+    const old = before.get(event.id);
+    if (!old) {
+      entries.push(entry("created", event));
+    } else if (old !== event) {
+      const changes = diffEvents(old, event);
+      if (changes.length > 0) {
+        entries.push(entry("updated", event, changes));
+      }
+    }
+  });
+  previous.forEach((event) => {
+    if (!after.has(event.id)) {
+      entries.push(entry("deleted", event));
+    }
+  });
+  return entries;
+};
+
+export const matchesAuditQuery = (entry: AuditEntry, query: AuditQuery) =>
+  (!query.eventId || entry.eventId === query.eventId) && (!query.actor || entry.actor === query.actor);
+
+/** A short, human-readable value for the audit view, e.g. `120` or `{"frequency":"weekly",…}`. */
+export const formatAuditValue = (value: unknown) => {
+  if (value === undefined || value === "") {
+    return "—";
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
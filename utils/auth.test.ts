@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { can, parseCredentials, parseUserInput, settlesEvent } from "./auth";
+import type { User } from "./auth";
+import { parseFilterPreset } from "./filters";
+import { defaultTaxonomy } from "./taxonomy";
+
+const user = (role: User["role"]): User => ({ id: `user-${role}`, username: role, name: role, role });
+
+const input = { username: "Ops.Lead", name: " Dana ", role: "operator", password: "long-enough" };
+
+describe("can", () => {
+  it("lets viewers only read, operators edit and complete, and admins do everything", () => {
+    assert.ok(!can(user("viewer"), "events:edit"));
+    assert.ok(can(user("operator"), "events:complete"));
+    assert.ok(!can(user("operator"), "settings:edit"));
+    assert.ok(can(user("admin"), "users:manage"));
+    assert.ok(!can(null, "events:edit"));
+  });
+});
+
+describe("settlesEvent", () => {
+  it("treats actuals and completed statuses as settling, other status changes not", () => {
+    assert.ok(settlesEvent({ actualKwh: 40 }, defaultTaxonomy));
+    assert.ok(settlesEvent({ status: "Completed" }, defaultTaxonomy));
+    assert.ok(!settlesEvent({ status: "Scheduled" }, defaultTaxonomy));
+  });
+});
+
+describe("parseCredentials", () => {
+  it("normalizes the username and requires both fields", () => {
+    assert.deepEqual(parseCredentials({ username: " Admin ", password: "secret" }), {
+      ok: true,
+      value: { username: "admin", password: "secret" }
+    });
+    assert.deepEqual(parseCredentials({ username: "admin" }), { ok: false, error: "password is required." });
+  });
+});
+
+describe("parseUserInput", () => {
+  it("normalizes names and keeps the password", () => {
+    assert.deepEqual(parseUserInput(input, true), {
+      ok: true,
+      value: { username: "ops.lead", name: "Dana", role: "operator", password: "long-enough" }
+    });
+  });
+
+  it("requires a password for new users only and enforces its length", () => {
+    const withoutPassword = { username: input.username, name: input.name, role: input.role };
+    assert.deepEqual(parseUserInput(withoutPassword, true), { ok: false, error: "password is required." });
+    assert.ok(parseUserInput({ ...withoutPassword, password: "" }, false).ok);
+    assert.deepEqual(parseUserInput({ ...input, password: "short" }, false), {
+      ok: false,
+      error: "password must be at least 8 characters."
+    });
+  });
+
+  it("rejects unknown roles and malformed usernames", () => {
+    assert.ok(!parseUserInput({ ...input, role: "root" }, true).ok);
+    assert.ok(!parseUserInput({ ...input, username: "a b" }, true).ok);
+  });
+});
+
+describe("parseFilterPreset", () => {
+  it("normalizes the stored query and rejects unknown filter values", () => {
+    const result = parseFilterPreset({ id: "preset-1", name: " Peaks ", query: "type=Demand&q=+&type=Demand" });
+    assert.deepEqual(result, { ok: true, value: { id: "preset-1", name: "Peaks", query: "type=Demand" } });
+    assert.ok(!parseFilterPreset({ id: "preset-1", name: "Bad", query: "type=Nope" }).ok);
+  });
+});
@@ -0,0 +1,108 @@
+import type { ParseResult } from "./events";
+import type { MessageKey } from "./i18n";
+import { lifecycleOf } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEventChanges } from "./types";
+
+export type Role = "viewer" | "operator" | "admin";
+
+/**
+ * What a role may do beyond reading the schedule. Completing is separate from editing because
+ * it settles an event's actuals; settings cover tariffs, carbon, sites, the taxonomy, demand
+ * response windows and automation rules.
+ */
+export type Permission = "events:edit" | "events:complete" | "settings:edit" | "users:manage";
+
+export type User = {
+  id: string;
+  /** The sign-in name, unique and lower-case; events and the audit log refer to users by it. */
+  username: string;
+  name: string;
+  role: Role;
+};
+
+export type UserInput = {
+  username: string;
+  name: string;
+  role: Role;
+  password?: string;
+};
+
+export type Credentials = {
+  username: string;
+  password: string;
+};
+
+export const roles: Role[] = ["viewer", "operator", "admin"];
+
+export const rolePermissions: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: ["events:edit", "events:complete"],
+  admin: ["events:edit", "events:complete", "settings:edit", "users:manage"]
+};
+
+export const roleNames: Record<Role, MessageKey> = {
+  viewer: "roleViewer",
+  operator: "roleOperator",
+  admin: "roleAdmin"
+};
+
+/** What each role may do, for the role pickers. */
+export const roleLabels: Record<Role, MessageKey> = {
+  viewer: "roleViewerLabel",
+  operator: "roleOperatorLabel",
+  admin: "roleAdminLabel"
+};
+
+export const minPasswordLength = 8;
+
+const usernamePattern = /^[a-z0-9][a-z0-9._-]{1,31}$/;
+
+export const can = (user: User | null, permission: Permission) =>
+  user !== null && rolePermissions[user.role].includes(permission);
+
+/** A completed status or metered actuals settle an event, which takes `events:complete` on top of editing. */
+export const settlesEvent = (changes: Pick<EnergyEventChanges, "status" | "actualKwh">, taxonomy: Taxonomy) =>
+  changes.actualKwh !== undefined ||
+  (changes.status !== undefined && lifecycleOf(taxonomy, changes.status) === "completed");
+
+export const createUserId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const parseCredentials = (payload: unknown): ParseResult<Credentials> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  if (typeof source.username !== "string" || !source.username.trim()) {
+    return { ok: false, error: "username is required." };
+  }
+  if (typeof source.password !== "string" || !source.password) {
+    return { ok: false, error: "password is required." };
+  }
+  return { ok: true, value: { username: source.username.trim().toLowerCase(), password: source.password } };
+};
+
+/** New users need a password; on updates an omitted password keeps the current one. */
+export const parseUserInput = (payload: unknown, requirePassword: boolean): ParseResult<UserInput> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  const username = typeof source.username === "string" ? source.username.trim().toLowerCase() : "";
+  if (!usernamePattern.test(username)) {
+    return {
+      ok: false,
+      error: "username must be 2–32 lower-case letters, digits, dots, dashes or underscores."
+    };
+  }
+  if (typeof source.name !== "string" || !source.name.trim()) {
+    return { ok: false, error: "name is required." };
+  }
+  if (!roles.includes(source.role as Role)) {
+    return { ok: false, error: `role must be one of ${roles.join(", ")}.` };
+  }
+  const input: UserInput = { username, name: source.name.trim(), role: source.role as Role };
+  if (source.password !== undefined && source.password !== "") {
+    if (typeof source.password !== "string" || source.password.length < minPasswordLength) {
+      return { ok: false, error: `password must be at least ${minPasswordLength} characters.` };
+    }
+    input.password = source.password;
+  } else if (requirePassword) {
+    return { ok: false, error: "password is required." };
+  }
+  return { ok: true, value: input };
+};
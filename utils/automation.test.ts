@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyRule, createSeedRules, evaluateRule, handledKey, parseAutomationRule, touchedMonths } from "./automation";
+import type { AutomationRule } from "./automation";
+import { defaultPreferences } from "./preferences";
+import { defaultSiteRegistry } from "./sites";
+import { defaultTaxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "solar",
+  title: "Solar",
+  type: "Production",
+  date: "2024-06-10",
+  startTime: "10:00",
+  endTime: "14:00",
+  energyKwh: 600,
+  status: "Scheduled",
+  efficiencyScore: 80,
+  ...overrides
+});
+
+const [exportSurplus, expireOpportunities, cancelTagged] = createSeedRules();
+
+const options = {
+  now: new Date(2024, 5, 5, 9),
+  dryRun: false,
+  taxonomy: defaultTaxonomy,
+  registry: defaultSiteRegistry,
+  handled: new Set<string>()
+};
+
+describe("createSeedRules", () => {
+  it("ships the rule that fails missed opportunities disabled", () => {
+    assert.equal(expireOpportunities.enabled, false);
+    assert.ok(exportSurplus.enabled && cancelTagged.enabled);
+  });
+});
+
+describe("evaluateRule", () => {
+  it("creates one event per surplus day from today on", () => {
+    const events = [event(), event({ id: "past", date: "2024-06-01" })];
+    const effects = evaluateRule(exportSurplus, events, "2024-06", "2024-06-05");
+    assert.deepEqual(
+      effects.map((effect) => effect.message),
+      ["Create Export surplus to grid on 2024-06-10 for 600 kWh surplus"]
+    );
+  });
+
+  it("describes its effects in the preferred locale and energy unit, without writing a note", () => {
+    const preferences = { ...defaultPreferences, locale: "de-DE" as const, energyUnit: "MWh" as const };
+    const [effect] = evaluateRule(
+      exportSurplus,
+      [event()],
+      "2024-06",
+      "2024-06-05",
+      defaultTaxonomy,
+      new Set(),
+      preferences
+    );
+    assert.equal(effect.message, "Export surplus to grid am 2024-06-10 für 0,60 MWh Überschuss anlegen");
+    assert.equal(effect.kind === "create" ? effect.input.notes : null, undefined);
+  });
+
+  it("skips days that already have the rule's event or were handled before", () => {
+    const created = event({ id: "export", type: "Provision", energyKwh: 1, automationRuleId: exportSurplus.id });
+    assert.deepEqual(evaluateRule(exportSurplus, [event(), created], "2024-06", "2024-06-05"), []);
+    const handled = new Set([handledKey(exportSurplus.id, "2024-06-10")]);
+    assert.deepEqual(evaluateRule(exportSurplus, [event()], "2024-06", "2024-06-05", defaultTaxonomy, handled), []);
+  });
+
+  it("sets the status of matching one-off events that are not in it yet", () => {
+    const tagged = event({ id: "tagged", notes: "Grid works, #CANCEL" });
+    const series = { ...tagged, id: "series", recurrence: { frequency: "daily" as const, interval: 1 } };
+    const done = { ...tagged, id: "done", status: "Cancelled" };
+    const effects = evaluateRule(cancelTagged, [tagged, series, done], "2024-06", "2024-06-05");
+    assert.deepEqual(effects, [
+      {
+        kind: "update",
+        eventId: "tagged",
+        changes: { status: "Cancelled" },
+        message: "Set Solar on 2024-06-10 to Cancelled"
+      }
+    ]);
+  });
+});
+
+describe("applyRule", () => {
+  it("applies effects and reports the days it handled", () => {
+    const pass = applyRule(exportSurplus, [event()], "2024-06", options);
+    assert.equal(pass.events.length, 2);
+    assert.equal(pass.events[1].automationRuleId, exportSurplus.id);
+    assert.deepEqual(pass.run.eventIds, [pass.events[1].id]);
+    assert.deepEqual(pass.handled, [handledKey(exportSurplus.id, "2024-06-10")]);
+  });
+
+  it("changes nothing on a dry run", () => {
+    const events = [event()];
+    const pass = applyRule(exportSurplus, events, "2024-06", { ...options, dryRun: true });
+    assert.equal(pass.events, events);
+    assert.equal(pass.run.messages.length, 1);
+    assert.deepEqual(pass.handled, []);
+  });
+
+  it("skips effects that fail the schedule checks", () => {
+    const rule: AutomationRule = {
+      ...exportSurplus,
+      action: {
+        kind: "createEvent",
+        title: "Export",
+        type: "Provision",
+        status: "Scheduled",
+        startTime: "12:00",
+        endTime: "12:00"
+      }
+    };
+    const pass = applyRule(rule, [event()], "2024-06", options);
+    assert.equal(pass.events.length, 1);
+    assert.equal(
+      pass.run.error,
+      "Skipped Create Export on 2024-06-10 for 600 kWh surplus: End time must differ from the start time."
+    );
+  });
+});
+
+describe("touchedMonths", () => {
+  it("covers the current month, both sides of a move and a series' later months", () => {
+    const now = new Date(2024, 5, 5);
+    const series = event({ date: "2024-07-30", recurrence: { frequency: "weekly", interval: 1, count: 3 } });
+    assert.deepEqual(touchedMonths([event({ date: "2024-09-01" }), series], now), [
+      "2024-06",
+      "2024-07",
+      "2024-08",
+      "2024-09"
+    ]);
+  });
+});
+
+describe("parseAutomationRule", () => {
+  it("pairs surplus conditions with event creation only", () => {
+    const result = parseAutomationRule({ ...exportSurplus, action: { kind: "setStatus", status: "Failed" } });
+    assert.ok(!result.ok);
+  });
+});
@@ -0,0 +1,449 @@
+import { addYears, format, parseISO } from "date-fns";
+import { createEventId } from "./events";
+import type { ParseResult } from "./events";
+import { translate, translatorFor } from "./i18n";
+import type { Locale } from "./i18n";
+import { defaultPreferences, formatEnergy } from "./preferences";
+import type { Preferences } from "./preferences";
+import { expandRecurrences, monthRange, occurrenceDates } from "./recurrence";
+import type { SiteRegistry } from "./sites";
+import { balanceSign, countsTowardTotals, defaultTaxonomy, isEnergyType, isEventStatus } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyEventInput, EnergyType, EventStatus } from "./types";
+import { validateEvent } from "./validation";
+
+/**
+ * What a rule watches. `dailySurplus` matches days whose supply (forecasts included) beats
+ * consumption by more than the threshold; the other two match individual events.
+ */
+export type AutomationCondition =
+  | { kind: "dailySurplus"; thresholdKwh: number }
+  /** Events still in `status` once their date has passed. */
+  | { kind: "overdue"; status: EventStatus }
+  /** Events whose notes mention the keyword, e.g. "#precool"; matched case-insensitively. */
+  | { kind: "noteKeyword"; keyword: string };
+
+/** `createEvent` acts on matched days and `setStatus` on matched events. */
+export type AutomationAction =
+  | { kind: "createEvent"; title: string; type: EnergyType; status: EventStatus; startTime: string; endTime: string }
+  | { kind: "setStatus"; status: EventStatus };
+
+export type AutomationRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AutomationCondition;
+  action: AutomationAction;
+  /** Surface the rule's runs as notifications in the calendar, not only in the run log. */
+  notify: boolean;
+};
+
+export type AutomationEffect =
+  | { kind: "create"; input: EnergyEventInput; message: string }
+  | { kind: "update"; eventId: string; changes: Pick<EnergyEvent, "status">; message: string };
+
+export type AutomationRun = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  /** ISO timestamp of the run. */
+  ranAt: string;
+  month: string;
+  /** Dry runs report what the rule would do without writing anything; they are not logged. */
+  dryRun: boolean;
+  notify: boolean;
+  /** One line per effect, in the locale of whoever set the run off, e.g. "Set Solar forecast on 2024-06-03 to Failed". */
+  messages: string[];
+  /** Events the run created or updated; empty on dry runs. */
+  eventIds: string[];
+  error?: string;
+};
+
+export const conditionKinds: AutomationCondition["kind"][] = ["dailySurplus", "overdue", "noteKeyword"];
+
+export const actionKinds: AutomationAction["kind"][] = ["createEvent", "setStatus"];
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createRunId = () => `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * The three rules new installations start with, matching the examples in the planner. Failing
+ * missed opportunities changes events nobody asked to change, so it ships disabled.
+ */
+export const createSeedRules = (): AutomationRule[] => [
+  {
+    id: "rule-export-surplus",
+    name: "Export forecast surplus",
+    enabled: true,
+    condition: { kind: "dailySurplus", thresholdKwh: 250 },
+    action: {
+      kind: "createEvent",
+      title: "Export surplus to grid",
+      type: "Provision",
+      status: "Scheduled",
+      startTime: "12:00",
+      endTime: "15:00"
+    },
+    notify: false
+  },
+  {
+    id: "rule-expire-opportunities",
+    name: "Fail missed opportunities",
+    enabled: false,
+    condition: { kind: "overdue", status: "Opportunity" },
+    action: { kind: "setStatus", status: "Failed" },
+    notify: true
+  },
+  {
+    id: "rule-cancel-tag",
+    name: "Cancel events tagged #cancel",
+    enabled: true,
+    condition: { kind: "noteKeyword", keyword: "#cancel" },
+    action: { kind: "setStatus", status: "Cancelled" },
+    notify: false
+  }
+];
+
+export const describeCondition = (condition: AutomationCondition, locale: Locale = "en-US") => {
+  switch (condition.kind) {
+    case "dailySurplus":
+      return translate(locale, "conditionDailySurplus", { kwh: condition.thresholdKwh });
+    case "overdue":
+      return translate(locale, "conditionOverdue", { status: condition.status });
+    case "noteKeyword":
+      return translate(locale, "conditionNoteKeyword", { keyword: condition.keyword });
+  }
+};
+
+export const describeAction = (action: AutomationAction, locale: Locale = "en-US") =>
+  action.kind === "createEvent"
+    ? translate(locale, "actionCreateEvent", {
+        status: action.status,
+        type: action.type,
+        start: action.startTime,
+        end: action.endTime
+      })
+    : translate(locale, "actionSetStatus", { status: action.status });
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** Net kWh per day over the month: supply and discharging storage minus consumption and charging. */
+const dailySurplus = (events: EnergyEvent[], month: string, taxonomy: Taxonomy) => {
+  const { start, end } = monthRange(month);
+  const totals = new Map<string, number>();
+  expandRecurrences(events, start, end)
+    .filter((event) => event.date >= start && event.date <= end && countsTowardTotals(taxonomy, event))
+    .forEach((event) =>
+      totals.set(event.date, (totals.get(event.date) ?? 0) + balanceSign(taxonomy, event) * event.energyKwh)
+    );
+  return totals;
+};
+
+/**
+ * Stored one-off events in the month that meet an event condition. Series are left alone, since
+ * changing one occurrence would mean detaching it from its series behind the user's back.
+ */
+const matchingEvents = (
+  condition: Exclude<AutomationCondition, { kind: "dailySurplus" }>,
+  events: EnergyEvent[],
+  month: string,
+  today: string
+) =>
+  events.filter((event) => {
+    if (event.recurrence || !event.date.startsWith(month)) {
+      return false;
+    }
+    if (condition.kind === "overdue") {
+      return event.status === condition.status && event.date < today;
+    }
+    return (event.notes ?? "").toLowerCase().includes(condition.keyword.toLowerCase());
+  });
+
+/** Identifies a day a surplus rule has already created an event for; see `evaluateRule`. */
+export const handledKey = (ruleId: string, date: string) => `${ruleId}|${date}`;
+
+/**
+ * What a rule would do to the month's events on `today` (yyyy-MM-dd). Effects are idempotent:
+ * a rule creates at most one event per day, and skips events already in the target status,
+ * so re-evaluating after every change never piles up duplicates. Days in `handled` (see
+ * `handledKey`) are skipped too, so deleting a created event keeps it deleted. Surplus days
+ * before today are ignored, as there is nothing left to schedule on them. Messages are in the
+ * `preferences` locale and energy unit; created events carry their rule's id rather than a note,
+ * so whoever opens one is told which rule made it in their own language.
+ */
+export const evaluateRule = (
+  rule: AutomationRule,
+  events: EnergyEvent[],
+  month: string,
+  today: string,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  handled: ReadonlySet<string> = new Set(),
+  preferences: Preferences = defaultPreferences
+): AutomationEffect[] => {
+  const { t } = translatorFor(preferences.locale);
+  const { condition, action } = rule;
+  if (
+    !isEventStatus(taxonomy, action.status) ||
+    (action.kind === "createEvent" && !isEnergyType(taxonomy, action.type))
+  ) {
+    return [];
+  }
+  if (condition.kind === "dailySurplus") {
+    if (action.kind !== "createEvent") {
+      return [];
+    }
+    return Array.from(dailySurplus(events, month, taxonomy))
+      .filter(([date, surplus]) => date >= today && surplus > condition.thresholdKwh)
+      .filter(([date]) => !handled.has(handledKey(rule.id, date)))
+      .filter(([date]) => !events.some((event) => event.automationRuleId === rule.id && event.date === date))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, surplus]) => ({
+        kind: "create",
+        input: {
+          title: action.title,
+          type: action.type,
+          status: action.status,
+          date,
+          startTime: action.startTime,
+          endTime: action.endTime,
+          energyKwh: round(surplus),
+          automationRuleId: rule.id
+        },
+        message: t("automationCreates", {
+          title: action.title,
+          date,
+          energy: formatEnergy(round(surplus), preferences)
+        })
+      }));
+  }
+  if (action.kind !== "setStatus") {
+    return [];
+  }
+  return matchingEvents(condition, events, month, today)
+    .filter((event) => event.status !== action.status)
+    .map((event) => ({
+      kind: "update",
+      eventId: event.id,
+      changes: { status: action.status },
+      message: t("automationSetsStatus", { title: event.title, date: event.date, status: action.status })
+    }));
+};
+
+export type RuleOptions = {
+  now: Date;
+  dryRun: boolean;
+  taxonomy: Taxonomy;
+  registry: SiteRegistry;
+  handled: ReadonlySet<string>;
+  /** What run messages and errors are written in; English in kWh by default. */
+  preferences?: Preferences;
+};
+
+/** The events after a rule ran, its run record, and the days it newly handled (see `handledKey`). */
+export type RulePass = { events: EnergyEvent[]; run: AutomationRun; handled: string[] };
+
+/**
+ * Evaluates a rule over one month and, unless it is a dry run, applies its effects to `events`.
+ * Effects that would fail the blocking schedule checks are skipped and reported as the run's
+ * error; a skipped day still counts as handled so the same failure is not retried on every write.
+ * Created events get a placeholder score for the caller to replace.
+ */
+export const applyRule = (
+  rule: AutomationRule,
+  events: EnergyEvent[],
+  month: string,
+  { now, dryRun, taxonomy, registry, handled, preferences = defaultPreferences }: RuleOptions
+): RulePass => {
+  const run: AutomationRun = {
+    id: createRunId(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ranAt: now.toISOString(),
+    month,
+    dryRun,
+    notify: rule.notify,
+    messages: [],
+    eventIds: []
+  };
+  const effects = evaluateRule(rule, events, month, format(now, "yyyy-MM-dd"), taxonomy, handled, preferences);
+  run.messages = effects.map((effect) => effect.message);
+  if (dryRun) {
+    return { events, run, handled: [] };
+  }
+  let next = events;
+  const newlyHandled: string[] = [];
+  const skipped: string[] = [];
+  for (const effect of effects) {
+    let candidate: EnergyEvent;
+    if (effect.kind === "create") {
+      candidate = { ...effect.input, id: createEventId(), efficiencyScore: 0 };
+      newlyHandled.push(handledKey(rule.id, candidate.date));
+    } else {
+      const current = next.find((event) => event.id === effect.eventId);
+      if (!current) {
+        continue;
+      }
+      candidate = { ...current, ...effect.changes };
+    }
+    const issue = validateEvent(candidate, next, registry, taxonomy, preferences).find(
+      (entry) => entry.severity === "error"
+    );
+    if (issue) {
+      skipped.push(`${effect.message}: ${issue.message}`);
+      continue;
+    }
+    next = next.some((event) => event.id === candidate.id)
+      ? next.map((event) => (event.id === candidate.id ? candidate : event))
+      : [...next, candidate];
+    run.eventIds.push(candidate.id);
+  }
+  if (skipped.length > 0) {
+    run.error = translate(preferences.locale, "automationSkipped", { effects: skipped.join("; ") });
+  }
+  return { events: next, run, handled: newlyHandled };
+};
+
+/**
+ * Months (yyyy-MM) automations should look at after a write: the current one, plus every month
+ * the changed events fall in before and after the change. A series counts for each month it has
+ * an occurrence in over the following year.
+ */
+export const touchedMonths = (changed: EnergyEvent[], now: Date) => {
+  const months = new Set([format(now, "yyyy-MM")]);
+  for (const event of changed) {
+    const horizon = format(addYears(parseISO(event.date), 1), "yyyy-MM-dd");
+    occurrenceDates(event, event.date, horizon).forEach((date) => months.add(date.slice(0, 7)));
+    months.add(event.date.slice(0, 7));
+  }
+  return Array.from(months).sort();
+};
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const parseCondition = (value: unknown, label: string, taxonomy: Taxonomy): ParseResult<AutomationCondition> => {
+  const source = (value ?? {}) as Record<string, unknown>;
+  switch (source.kind) {
+    case "dailySurplus": {
+      const threshold = Number(source.thresholdKwh);
+      if (!Number.isFinite(threshold) || threshold < 0) {
+        return { ok: false, error: `${label}.thresholdKwh must be zero or a positive number.` };
+      }
+      return { ok: true, value: { kind: "dailySurplus", thresholdKwh: threshold } };
+    }
+    case "overdue":
+      if (!isEventStatus(taxonomy, source.status)) {
+        return { ok: false, error: `${label}.status must be a status from the taxonomy.` };
+      }
+      return { ok: true, value: { kind: "overdue", status: source.status } };
+    case "noteKeyword":
+      if (typeof source.keyword !== "string" || !source.keyword.trim()) {
+        return { ok: false, error: `${label}.keyword is required.` };
+      }
+      return { ok: true, value: { kind: "noteKeyword", keyword: source.keyword.trim() } };
+    default:
+      return { ok: false, error: `${label}.kind must be one of ${conditionKinds.join(", ")}.` };
+  }
+};
+
+const parseAction = (value: unknown, label: string, taxonomy: Taxonomy): ParseResult<AutomationAction> => {
+  const source = (value ?? {}) as Record<string, unknown>;
+  if (!isEventStatus(taxonomy, source.status)) {
+    return { ok: false, error: `${label}.status must be a status from the taxonomy.` };
+  }
+  if (source.kind === "setStatus") {
+    return { ok: true, value: { kind: "setStatus", status: source.status } };
+  }
+  if (source.kind !== "createEvent") {
+    return { ok: false, error: `${label}.kind must be one of ${actionKinds.join(", ")}.` };
+  }
+  if (typeof source.title !== "string" || !source.title.trim()) {
+    return { ok: false, error: `${label}.title is required.` };
+  }
+  if (!isEnergyType(taxonomy, source.type)) {
+    return { ok: false, error: `${label}.type must be a category from the taxonomy.` };
+  }
+  for (const key of ["startTime", "endTime"] as const) {
+    if (typeof source[key] !== "string" || !timePattern.test(source[key] as string)) {
+      return { ok: false, error: `${label}.${key} must use the HH:mm format.` };
+    }
+  }
+  return {
+    ok: true,
+    value: {
+      kind: "createEvent",
+      title: source.title.trim(),
+      type: source.type,
+      status: source.status,
+      startTime: source.startTime as string,
+      endTime: source.endTime as string
+    }
+  };
+};
+
+export const parseAutomationRule = (
+  payload: unknown,
+  label = "rule",
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<AutomationRule> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  if (typeof source.id !== "string" || !source.id.trim()) {
+    return { ok: false, error: `${label}.id is required.` };
+  }
+  if (typeof source.name !== "string" || !source.name.trim()) {
+    return { ok: false, error: `${label}.name is required.` };
+  }
+  const condition = parseCondition(source.condition, `${label}.condition`, taxonomy);
+  if (!condition.ok) {
+    return condition;
+  }
+  const action = parseAction(source.action, `${label}.action`, taxonomy);
+  if (!action.ok) {
+    return action;
+  }
+  if ((condition.value.kind === "dailySurplus") !== (action.value.kind === "createEvent")) {
+    return {
+      ok: false,
+      error: `${label}: a dailySurplus condition creates events; overdue and noteKeyword conditions set a status.`
+    };
+  }
+  return {
+    ok: true,
+    value: {
+      id: source.id,
+      name: source.name.trim(),
+      enabled: source.enabled !== false,
+      condition: condition.value,
+      action: action.value,
+      notify: source.notify === true
+    }
+  };
+};
+
+export const parseAutomationRules = (
+  payload: unknown,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<AutomationRule[]> => {
+  if (!Array.isArray(payload)) {
+    return { ok: false, error: "Automation rules must be a JSON array." };
+  }
+  const rules: AutomationRule[] = [];
+  for (const [index, raw] of payload.entries()) {
+    const rule = parseAutomationRule(raw, `rules[${index}]`, taxonomy);
+    if (!rule.ok) {
+      return rule;
+    }
+    if (rules.some((existing) => existing.id === rule.value.id)) {
+      return { ok: false, error: `rules[${index}].id "${rule.value.id}" is used twice.` };
+    }
+    rules.push(rule.value);
+  }
+  return { ok: true, value: rules };
+};
+
+/** Category and status names a rule depends on, so the taxonomy cannot drop them from under it. */
+export const taxonomyNamesOf = (rule: AutomationRule) => [
+  ...(rule.condition.kind === "overdue" ? [rule.condition.status] : []),
+  rule.action.status,
+  ...(rule.action.kind === "createEvent" ? [rule.action.type] : [])
+];
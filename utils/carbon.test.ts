@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { averageIntensity, defaultCarbonProfile, suggestLowCarbonShifts, summarizeEmissions } from "./carbon";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "ev-charging",
+  title: "EV charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "18:00",
+  endTime: "20:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  ...overrides
+});
+
+const flatProfile = Array.from({ length: 24 }, () => 300);
+
+describe("averageIntensity", () => {
+  it("weights each hour an event runs in, across midnight too", () => {
+    assert.equal(averageIntensity(event(), defaultCarbonProfile), 475);
+    assert.equal(averageIntensity(event({ startTime: "23:00", endTime: "01:00" }), defaultCarbonProfile), 385);
+  });
+});
+
+describe("suggestLowCarbonShifts", () => {
+  it("moves a planned load to the cleanest window of the same length and prices the saving", () => {
+    const [shift] = suggestLowCarbonShifts([event()], defaultCarbonProfile);
+    assert.equal(shift.window.startTime, "12:00");
+    assert.equal(shift.window.averageIntensity, 202.5);
+    assert.equal(shift.currentIntensity, 475);
+    // 100 kWh × (475 − 202.5) g/kWh.
+    assert.equal(shift.savedKg, 27.25);
+  });
+
+  it("lists the biggest saving first", () => {
+    const shifts = suggestLowCarbonShifts(
+      [event({ id: "small", energyKwh: 10 }), event({ id: "large", energyKwh: 200 })],
+      defaultCarbonProfile
+    );
+    assert.deepEqual(
+      shifts.map((shift) => shift.event.id),
+      ["large", "small"]
+    );
+  });
+
+  it("leaves loads alone that already run at the cleanest time or would save under 15%", () => {
+    assert.deepEqual(
+      suggestLowCarbonShifts([event({ startTime: "12:00", endTime: "14:00" })], defaultCarbonProfile),
+      []
+    );
+    const profile = [...flatProfile];
+    profile[3] = 260;
+    assert.deepEqual(suggestLowCarbonShifts([event()], profile), []);
+  });
+
+  it("only considers planned consumption", () => {
+    const skipped = [event({ type: "Production" }), event({ type: "Storage" }), event({ status: "Completed" })];
+    assert.deepEqual(suggestLowCarbonShifts(skipped, defaultCarbonProfile), []);
+  });
+});
+
+describe("summarizeEmissions", () => {
+  it("counts consumption as emitted and supply as avoided, leaving storage out", () => {
+    const noon = { startTime: "12:00", endTime: "13:00" };
+    const emissions = summarizeEmissions(
+      [
+        event({ ...noon, energyKwh: 100 }),
+        event({ ...noon, id: "solar", type: "Production", energyKwh: 50 }),
+        event({ ...noon, id: "battery", type: "Storage", energyKwh: 500 }),
+        event({ ...noon, id: "july", date: "2024-07-01" })
+      ],
+      new Date(2024, 5, 1),
+      defaultCarbonProfile
+    );
+    assert.deepEqual(emissions, { grossTonnes: 0.02, avoidedTonnes: 0.01, netTonnes: 0.01 });
+  });
+});
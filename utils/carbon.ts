@@ -0,0 +1,220 @@
+import { format } from "date-fns";
+import type { ParseResult } from "./events";
+import { parseTimestamp } from "./meterData";
+import { hourlySlices } from "./profile";
+import { durationMinutes, toMinutes } from "./schedule";
+import { balanceOf, countsTowardTotals, defaultTaxonomy, lifecycleOf } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+/** Grid carbon intensity in gCO2e per kWh for each hour of the day, 00:00 first. */
+export type CarbonProfile = number[];
+
+export type EventEmissions = {
+  /** Grid emissions caused by a consumption event, in kgCO2e. */
+  emittedKg: number;
+  /** Grid emissions displaced by a supply event, in kgCO2e. */
+  avoidedKg: number;
+};
+
+export type MonthlyEmissions = {
+  grossTonnes: number;
+  avoidedTonnes: number;
+  netTonnes: number;
+};
+
+/** The cleanest hour-aligned window a load of a given length could move into. */
+export type LowCarbonWindow = {
+  startTime: string;
+  averageIntensity: number;
+};
+
+/**
+ * A typical mixed grid: cleanest around midday when solar is plentiful, dirtiest in the
+ * evening ramp when gas peakers cover the shortfall.
+ */
+export const defaultCarbonProfile: CarbonProfile = [
+  380, 370, 360, 355, 355, 365, 390, 410, 360, 300, 250, 215, 200, 205, 230, 290, 370, 450, 480, 470, 445, 420, 400, 390
+];
+
+export const carbonIntensityAt = (profile: CarbonProfile, hour: number) => profile[hour] ?? profile[0];
+
+/** Average intensity an event sees across its window, weighted by the energy in each hour. */
+export const averageIntensity = (event: EnergyEvent, profile: CarbonProfile) => {
+  const slices = hourlySlices(event);
+  const total = slices.reduce((acc, slice) => acc + slice.kwh, 0);
+  return total > 0
+    ? slices.reduce((acc, slice) => acc + slice.kwh * carbonIntensityAt(profile, slice.hour), 0) / total
+    : 0;
+};
+
+/**
+ * Consumption draws from the grid at the hourly intensity; supply displaces the same amount.
+ * Storage only moves energy between hours and is left out.
+ */
+export const eventEmissions = (
+  event: EnergyEvent,
+  profile: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy
+): EventEmissions => {
+  const balance = balanceOf(taxonomy, event.type);
+  if (balance === "storage") {
+    return { emittedKg: 0, avoidedKg: 0 };
+  }
+  const kg = hourlySlices(event).reduce(
+    (acc, slice) => acc + (slice.kwh * carbonIntensityAt(profile, slice.hour)) / 1000,
+    0
+  );
+  return balance === "consumption" ? { emittedKg: kg, avoidedKg: 0 } : { emittedKg: 0, avoidedKg: kg };
+};
+
+const roundTonnes = (value: number) => Math.round(value * 1000) / 1000;
+
+export const summarizeEmissions = (
+  events: EnergyEvent[],
+  month: Date,
+  profile: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy
+): MonthlyEmissions => {
+  const monthKey = format(month, "yyyy-MM");
+  const totals = events
+    .filter((event) => event.date.startsWith(monthKey) && countsTowardTotals(taxonomy, event))
+    .map((event) => eventEmissions(event, profile, taxonomy))
+    .reduce(
+      (acc, emissions) => ({
+        emittedKg: acc.emittedKg + emissions.emittedKg,
+        avoidedKg: acc.avoidedKg + emissions.avoidedKg
+      }),
+      { emittedKg: 0, avoidedKg: 0 }
+    );
+  return {
+    grossTonnes: roundTonnes(totals.emittedKg / 1000),
+    avoidedTonnes: roundTonnes(totals.avoidedKg / 1000),
+    netTonnes: roundTonnes((totals.emittedKg - totals.avoidedKg) / 1000)
+  };
+};
+
+export const formatTonnes = (value: number) => `${value.toFixed(value !== 0 && Math.abs(value) < 10 ? 2 : 1)} tCO2e`;
+
+/** Tries every whole-hour start and returns the one whose window has the lowest average intensity. */
+export const lowestCarbonWindow = (profile: CarbonProfile, minutes: number): LowCarbonWindow => {
+  const hours = Math.max(1, Math.ceil(minutes / 60));
+  let best = { hour: 0, averageIntensity: Number.POSITIVE_INFINITY };
+  for (let hour = 0; hour < 24; hour += 1) {
+    let total = 0;
+    for (let offset = 0; offset < hours; offset += 1) {
+      total += carbonIntensityAt(profile, (hour + offset) % 24);
+    }
+    if (total / hours < best.averageIntensity) {
+      best = { hour, averageIntensity: total / hours };
+    }
+  }
+  return { startTime: `${String(best.hour).padStart(2, "0")}:00`, averageIntensity: best.averageIntensity };
+};
+
+/** Minimum drop in average intensity, as a share, before moving a load is worth suggesting. */
+const minimumReduction = 0.15;
+
+export type LowCarbonShift = {
+  event: EnergyEvent;
+  window: LowCarbonWindow;
+  currentIntensity: number;
+  savedKg: number;
+};
+
+/** Planned consumption events that would run on a markedly cleaner grid at another time of day, biggest saving first. */
+export const suggestLowCarbonShifts = (
+  events: EnergyEvent[],
+  profile: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy
+): LowCarbonShift[] =>
+  events
+    .filter(
+      (event) => balanceOf(taxonomy, event.type) === "consumption" && lifecycleOf(taxonomy, event.status) === "planned"
+    )
+    .flatMap((event) => {
+      const minutes = durationMinutes(event.startTime, event.endTime);
+      if (minutes === 0 || event.energyKwh <= 0) {
+        return [];
+      }
+      const currentIntensity = averageIntensity(event, profile);
+      const window = lowestCarbonWindow(profile, minutes);
+      if (
+        toMinutes(window.startTime) === toMinutes(event.startTime) ||
+        window.averageIntensity > currentIntensity * (1 - minimumReduction)
+      ) {
+        return [];
+      }
+      const savedKg = (event.energyKwh * (currentIntensity - window.averageIntensity)) / 1000;
+      return [{ event, window, currentIntensity, savedKg }];
+    })
+    .sort((a, b) => b.savedKg - a.savedKg);
+
+const isIntensity = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+export const parseCarbonProfile = (payload: unknown): ParseResult<CarbonProfile> => {
+  if (!Array.isArray(payload) || payload.length !== 24) {
+    return { ok: false, error: "Carbon profile must list 24 hourly values." };
+  }
+  const index = payload.findIndex((value) => !isIntensity(value));
+  if (index !== -1) {
+    return { ok: false, error: `Hour ${index} must be zero or a positive gCO2e/kWh value.` };
+  }
+  return { ok: true, value: payload as number[] };
+};
+
+/** Reads an hour cell as 0–23, "HH:mm" or a full timestamp. */
+const hourOf = (cell: string) => {
+  if (/^\d{1,2}$/.test(cell)) {
+    return Number(cell) < 24 ? Number(cell) : null;
+  }
+  if (/^\d{1,2}:\d{2}$/.test(cell)) {
+    return Number(cell.split(":")[0]) < 24 ? Number(cell.split(":")[0]) : null;
+  }
+  return parseTimestamp(cell)?.getHours() ?? null;
+};
+
+const parseCarbonCsv = (text: string): ParseResult<CarbonProfile> => {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, "")))
+    .filter(
+      (cells) => cells.length > 0 && cells[cells.length - 1] !== "" && !Number.isNaN(Number(cells[cells.length - 1]))
+    );
+  if (rows.every((cells) => cells.length === 1)) {
+    return parseCarbonProfile(rows.map((cells) => Number(cells[0])));
+  }
+  const sums = Array.from({ length: 24 }, () => ({ total: 0, count: 0 }));
+  for (const cells of rows) {
+    const hour = hourOf(cells[0]);
+    if (hour === null) {
+      return { ok: false, error: `Could not read an hour from "${cells[0]}".` };
+    }
+    sums[hour].total += Number(cells[cells.length - 1]);
+    sums[hour].count += 1;
+  }
+  const missing = sums.findIndex((sum) => sum.count === 0);
+  if (missing !== -1) {
+    return { ok: false, error: `The file has no reading for hour ${missing}.` };
+  }
+  return parseCarbonProfile(sums.map((sum) => Math.round(sum.total / sum.count)));
+};
+
+/**
+ * Accepts a JSON array of 24 values (or `{ profile: [...] }`), a single CSV column of 24
+ * values, or CSV rows of hour and intensity. Rows keyed by timestamp are averaged per hour of
+ * day, so a month or year of grid data can be uploaded as-is. Header rows are skipped.
+ */
+export const parseCarbonFile = (text: string, fileName: string): ParseResult<CarbonProfile> => {
+  const trimmed = text.trim();
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      const data = JSON.parse(trimmed);
+      return parseCarbonProfile(Array.isArray(data) ? data : data?.profile);
+    } catch {
+      return { ok: false, error: "The file is not valid JSON." };
+    }
+  }
+  return parseCarbonCsv(trimmed);
+};
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { settleWindow } from "./demandResponse";
+import type { DemandResponseWindow } from "./demandResponse";
+import { defaultSiteRegistry } from "./sites";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "hvac",
+  title: "HVAC",
+  type: "Demand",
+  date: "2024-06-14",
+  startTime: "17:00",
+  endTime: "19:00",
+  energyKwh: 100,
+  status: "Completed",
+  efficiencyScore: 60,
+  assetId: "data-center",
+  ...overrides
+});
+
+/** A Friday evening window at North Campus. */
+const window: DemandResponseWindow = {
+  id: "peak-saver",
+  program: "Peak Saver",
+  date: "2024-06-14",
+  startTime: "17:00",
+  endTime: "19:00",
+  ratePerKwh: 0.5,
+  siteId: "north-campus",
+  source: "utility"
+};
+
+/** 50 kW drawn every evening in May and June, skipped on the window day. */
+const history = event({
+  date: "2024-05-01",
+  recurrence: { frequency: "daily", interval: 1, exceptions: ["2024-06-14"] }
+});
+
+/** Cut to 20 kW on the window day, committing 25 kW of reduction. */
+const curtailed = event({
+  id: "curtailed",
+  energyKwh: 100,
+  actualKwh: 40,
+  demandResponse: { windowId: "peak-saver", committedKw: 25 }
+});
+
+const after = new Date(2024, 5, 14, 20);
+
+describe("settleWindow", () => {
+  it("pays the reduction below the last 10 weekdays' load, up to what was committed", () => {
+    const settlement = settleWindow(window, [history, curtailed], [window], defaultSiteRegistry, undefined, after);
+    assert.equal(settlement.baselineMethod, "history");
+    assert.equal(settlement.baselineDays.length, 10);
+    assert.deepEqual(
+      [settlement.committedKw, settlement.baselineKw, settlement.loadKw, settlement.reductionKw],
+      [25, 50, 20, 30]
+    );
+    // 60 kWh delivered, but only the committed 25 kW × 2 h is paid.
+    assert.deepEqual([settlement.deliveredKwh, settlement.earnings, settlement.settled], [60, 25, true]);
+    assert.deepEqual(
+      settlement.enrolled.map(({ id }) => id),
+      ["curtailed"]
+    );
+  });
+
+  it("leaves other windows' days out of the baseline and other sites' load out of the measure", () => {
+    const earlier = { ...window, id: "emergency", date: "2024-06-13" };
+    const elsewhere = event({
+      id: "thermal",
+      type: "Storage",
+      title: "Thermal charge",
+      assetId: "thermal-1",
+      energyKwh: 1000
+    });
+    const settlement = settleWindow(
+      window,
+      [history, curtailed, elsewhere],
+      [window, earlier],
+      defaultSiteRegistry,
+      undefined,
+      after
+    );
+    assert.ok(!settlement.baselineDays.includes("2024-06-13"));
+    assert.equal(settlement.baselineDays.length, 10);
+    assert.equal(settlement.loadKw, 20);
+  });
+
+  it("projects the committed reduction until the window has ended", () => {
+    const settlement = settleWindow(
+      window,
+      [history, curtailed],
+      [window],
+      defaultSiteRegistry,
+      undefined,
+      new Date(2024, 5, 14, 18)
+    );
+    assert.deepEqual(
+      [settlement.settled, settlement.loadKw, settlement.reductionKw, settlement.earnings],
+      [false, 25, 25, 25]
+    );
+  });
+
+  it("falls back to the booked schedule as the baseline without load history", () => {
+    const settlement = settleWindow(window, [curtailed], [window], defaultSiteRegistry, undefined, after);
+    assert.equal(settlement.baselineMethod, "schedule");
+    assert.deepEqual(settlement.baselineDays, []);
+    assert.deepEqual([settlement.baselineKw, settlement.loadKw, settlement.earnings], [50, 20, 25]);
+  });
+
+  it("does not count events that are not committed", () => {
+    const tentative = { ...curtailed, status: "Opportunity" };
+    const settlement = settleWindow(window, [history, tentative], [window], defaultSiteRegistry, undefined, after);
+    assert.deepEqual([settlement.enrolled, settlement.committedKw, settlement.earnings], [[], 0, 0]);
+  });
+});
@@ -0,0 +1,319 @@
+import { addDays, format, isWeekend, parseISO } from "date-fns";
+import type { ParseResult } from "./events";
+import { parseMeterFile, parseTimestamp } from "./meterData";
+import { eventSegments } from "./profile";
+import { expandRecurrences } from "./recurrence";
+import { durationMinutes, toMinutes } from "./schedule";
+import { siteIdOf } from "./sites";
+import type { SiteRegistry } from "./sites";
+import { storageDirectionOf } from "./storage";
+import { balanceOf, defaultTaxonomy, isCommitted } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+export type DemandResponseSource = "manual" | "utility";
+
+/** A period a utility program pays for load reduction in. Windows start and end on the same day. */
+export type DemandResponseWindow = {
+  id: string;
+  program: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  /** Payment per kWh of reduction below the baseline, in the tariff currency. */
+  ratePerKwh: number;
+  /** The site whose load is measured; omitted means the whole portfolio. */
+  siteId?: string;
+  source: DemandResponseSource;
+};
+
+export type BaselineMethod = "history" | "schedule";
+
+export type DemandResponseSettlement = {
+  window: DemandResponseWindow;
+  enrolled: EnergyEvent[];
+  committedKw: number;
+  /** "history" averages earlier days without a window; "schedule" falls back to the plan when there is no history. */
+  baselineMethod: BaselineMethod;
+  baselineDays: string[];
+  baselineKw: number;
+  loadKw: number;
+  reductionKw: number;
+  deliveredKwh: number;
+  earnings: number;
+  /**
+   * False until the window has ended. Until then the load is projected from the schedule,
+   * assuming enrolled events deliver at least their committed reduction.
+   */
+  settled: boolean;
+};
+
+/** Customer baselines in the usual "10 of 10" style: the last 10 weekdays, or 4 weekend days, without a window. */
+const baselineDayCount = { weekday: 10, weekend: 4 };
+
+/** How far back to look for clean baseline days before giving up. */
+const baselineLookbackDays = 45;
+
+export const windowHours = (window: DemandResponseWindow) => durationMinutes(window.startTime, window.endTime) / 60;
+
+const windowEnd = (window: DemandResponseWindow) =>
+  parseISO(window.date).getTime() + toMinutes(window.endTime) * 60_000;
+
+/** Windows without a site cover the whole portfolio, so they show on every site's calendar. */
+export const windowsForSite = (windows: DemandResponseWindow[], siteId: string | null) =>
+  windows.filter((window) => siteId === null || !window.siteId || window.siteId === siteId);
+
+export const windowsOn = (windows: DemandResponseWindow[], date: string) =>
+  windows.filter((window) => window.date === date).sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+/**
+ * Direction an event moves grid load: consumption and storage charging add to it, storage
+ * discharging offsets it. Supply is left out so baselines do not swing with the weather.
+ */
+const loadSign = (event: EnergyEvent, taxonomy: Taxonomy) => {
+  const balance = balanceOf(taxonomy, event.type);
+  if (balance === "consumption") {
+    return 1;
+  }
+  if (balance === "storage") {
+    return storageDirectionOf(event) === "discharge" ? -1 : 1;
+  }
+  return 0;
+};
+
+/**
+ * Average kW the events draw inside the window's hours on `date`. `energyOf` picks planned or
+ * metered energy; events that are not committed (tentative or void) never count.
+ */
+const loadDuring = (
+  events: EnergyEvent[],
+  window: DemandResponseWindow,
+  date: string,
+  energyOf: (event: EnergyEvent) => number,
+  taxonomy: Taxonomy
+) => {
+  const start = toMinutes(window.startTime);
+  const end = start + durationMinutes(window.startTime, window.endTime);
+  const kwh = events
+    .filter((event) => isCommitted(taxonomy, event) && loadSign(event, taxonomy) !== 0)
+    .flatMap(eventSegments)
+    .filter((segment) => segment.date === date)
+    .reduce((acc, segment) => {
+      const overlap = Math.min(end, segment.endMinute) - Math.max(start, segment.startMinute);
+      if (overlap <= 0) {
+        return acc;
+      }
+      const { event } = segment;
+      const minutes = durationMinutes(event.startTime, event.endTime);
+      return acc + loadSign(event, taxonomy) * energyOf(event) * (overlap / minutes);
+    }, 0);
+  return kwh / windowHours(window);
+};
+
+const baselineDates = (window: DemandResponseWindow, windows: DemandResponseWindow[]) => {
+  const windowDay = parseISO(window.date);
+  const weekend = isWeekend(windowDay);
+  const wanted = weekend ? baselineDayCount.weekend : baselineDayCount.weekday;
+  const excluded = new Set(
+    windows
+      .filter((other) => !other.siteId || !window.siteId || other.siteId === window.siteId)
+      .map((other) => other.date)
+  );
+  const dates: string[] = [];
+  for (let offset = 1; offset <= baselineLookbackDays && dates.length < wanted; offset += 1) {
+    const day = addDays(windowDay, -offset);
+    const date = format(day, "yyyy-MM-dd");
+    if (isWeekend(day) === weekend && !excluded.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+/**
+ * Estimates what a window earned: the baseline load minus the load actually drawn (metered
+ * energy where events have been reconciled), paid at the program rate for the reduction up to
+ * what enrolled events committed. Without load history the booked schedule is the baseline.
+ * `events` are stored events; recurring series are expanded here.
+ */
+export const settleWindow = (
+  window: DemandResponseWindow,
+  events: EnergyEvent[],
+  windows: DemandResponseWindow[],
+  registry: SiteRegistry,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  now = new Date()
+): DemandResponseSettlement => {
+  const dates = baselineDates(window, windows);
+  const from = dates[dates.length - 1] ?? window.date;
+  const occurrences = expandRecurrences(events, format(addDays(parseISO(from), -1), "yyyy-MM-dd"), window.date).filter(
+    (event) => !window.siteId || siteIdOf(event, registry) === window.siteId
+  );
+  const enrolled = occurrences.filter(
+    (event) => event.demandResponse?.windowId === window.id && isCommitted(taxonomy, event)
+  );
+  const committedKw = enrolled.reduce((acc, event) => acc + (event.demandResponse?.committedKw ?? 0), 0);
+
+  const planned = (event: EnergyEvent) => event.energyKwh;
+  const metered = (event: EnergyEvent) => event.actualKwh ?? event.energyKwh;
+  const historyKw = dates.map((date) => loadDuring(occurrences, window, date, metered, taxonomy));
+  const hasHistory = historyKw.some((kw) => kw !== 0);
+  const baselineKw = hasHistory
+    ? historyKw.reduce((acc, kw) => acc + kw, 0) / historyKw.length
+    : loadDuring(occurrences, window, window.date, planned, taxonomy);
+  const settled = windowEnd(window) <= now.getTime();
+  const loadKw = settled
+    ? loadDuring(occurrences, window, window.date, metered, taxonomy)
+    : Math.min(loadDuring(occurrences, window, window.date, planned, taxonomy), baselineKw - committedKw);
+  const reductionKw = Math.max(0, baselineKw - loadKw);
+  const deliveredKwh = reductionKw * windowHours(window);
+  const paidKwh = Math.min(deliveredKwh, committedKw * windowHours(window));
+
+  return {
+    window,
+    enrolled,
+    committedKw,
+    baselineMethod: hasHistory ? "history" : "schedule",
+    baselineDays: hasHistory ? dates : [],
+    baselineKw,
+    loadKw,
+    reductionKw,
+    deliveredKwh,
+    earnings: Math.round(paidKwh * window.ratePerKwh * 100) / 100,
+    settled
+  };
+};
+
+export const createSeedWindows = (reference = new Date()): DemandResponseWindow[] => [
+  {
+    id: "dr-peak-saver",
+    program: "Summer Peak Saver",
+    date: format(reference, "yyyy-MM-15"),
+    startTime: "17:00",
+    endTime: "20:00",
+    ratePerKwh: 0.45,
+    siteId: "north-campus",
+    source: "utility"
+  },
+  {
+    id: "dr-grid-emergency",
+    program: "Grid Emergency Call",
+    date: format(reference, "yyyy-MM-24"),
+    startTime: "14:00",
+    endTime: "18:00",
+    ratePerKwh: 0.8,
+    source: "utility"
+  }
+];
+
+export const createWindowId = () => `dr-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const parseWindow = (raw: unknown, label: string): ParseResult<DemandResponseWindow> => {
+  const source = (raw ?? {}) as Record<string, unknown>;
+  if (typeof source.id !== "string" || !source.id.trim()) {
+    return { ok: false, error: `${label}.id is required.` };
+  }
+  if (typeof source.program !== "string" || !source.program.trim()) {
+    return { ok: false, error: `${label}.program is required.` };
+  }
+  if (typeof source.date !== "string" || !datePattern.test(source.date)) {
+    return { ok: false, error: `${label}.date must use the yyyy-MM-dd format.` };
+  }
+  for (const key of ["startTime", "endTime"] as const) {
+    if (typeof source[key] !== "string" || !timePattern.test(source[key] as string)) {
+      return { ok: false, error: `${label}.${key} must use the HH:mm format.` };
+    }
+  }
+  if (toMinutes(source.endTime as string) <= toMinutes(source.startTime as string)) {
+    return { ok: false, error: `${label} must end after it starts on the same day.` };
+  }
+  const rate = source.ratePerKwh;
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0) {
+    return { ok: false, error: `${label}.ratePerKwh must be zero or a positive number.` };
+  }
+  if (source.siteId !== undefined && (typeof source.siteId !== "string" || !source.siteId)) {
+    return { ok: false, error: `${label}.siteId must be a string.` };
+  }
+  return {
+    ok: true,
+    value: {
+      id: source.id.trim(),
+      program: source.program.trim(),
+      date: source.date,
+      startTime: source.startTime as string,
+      endTime: source.endTime as string,
+      ratePerKwh: rate,
+      ...(source.siteId ? { siteId: source.siteId as string } : {}),
+      source: source.source === "utility" ? "utility" : "manual"
+    }
+  };
+};
+
+export const parseDemandResponseWindows = (payload: unknown): ParseResult<DemandResponseWindow[]> => {
+  if (!Array.isArray(payload)) {
+    return { ok: false, error: "Demand response windows must be a JSON array." };
+  }
+  const windows: DemandResponseWindow[] = [];
+  for (const [index, raw] of payload.entries()) {
+    const window = parseWindow(raw, `windows[${index}]`);
+    if (!window.ok) {
+      return window;
+    }
+    if (windows.some((existing) => existing.id === window.value.id)) {
+      return { ok: false, error: `windows[${index}].id "${window.value.id}" is used twice.` };
+    }
+    windows.push(window.value);
+  }
+  return {
+    ok: true,
+    value: windows.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+  };
+};
+
+/**
+ * Reads a utility's event notice file (CSV or JSON) into windows. Columns are matched by name:
+ * program, date, start and end (times, or full timestamps that also carry the date) and rate.
+ */
+export const parseDemandResponseFile = (text: string, fileName: string): ParseResult<DemandResponseWindow[]> => {
+  const table = parseMeterFile(text, fileName);
+  const column = (pattern: RegExp) => table.columns.find((name) => pattern.test(name));
+  const programColumn = column(/program|name|title/i);
+  const dateColumn = column(/date|day/i);
+  const startColumn = column(/start|from|begin/i);
+  const endColumn = column(/end|to|until/i);
+  const rateColumn = column(/rate|price|payment|incentive/i);
+  if (!startColumn || !endColumn) {
+    return { ok: false, error: "The file needs start and end columns." };
+  }
+  const windows: DemandResponseWindow[] = [];
+  for (const [index, row] of table.rows.entries()) {
+    const start = row[startColumn] ?? "";
+    const end = row[endColumn] ?? "";
+    const startStamp = timePattern.test(start) ? null : parseTimestamp(start);
+    const endStamp = timePattern.test(end) ? null : parseTimestamp(end);
+    const dateStamp = dateColumn ? parseTimestamp(row[dateColumn] ?? "") : startStamp;
+    const window = parseWindow(
+      {
+        id: `${createWindowId()}-${index}`,
+        program: (programColumn && row[programColumn]) || fileName.replace(/\.[^.]+$/, ""),
+        date: dateStamp ? format(dateStamp, "yyyy-MM-dd") : "",
+        startTime: startStamp ? format(startStamp, "HH:mm") : start,
+        endTime: endStamp ? format(endStamp, "HH:mm") : end,
+        ratePerKwh: rateColumn ? Number(row[rateColumn]) : 0,
+        source: "utility"
+      },
+      `Row ${index + 2}`
+    );
+    if (!window.ok) {
+      return window;
+    }
+    windows.push(window.value);
+  }
+  if (windows.length === 0) {
+    return { ok: false, error: "The file has no windows." };
+  }
+  return { ok: true, value: windows };
+};
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultCarbonProfile } from "./carbon";
+import { createEfficiencyScorer, scoreEvents } from "./efficiency";
+import { defaultPreferences } from "./preferences";
+import { defaultSiteRegistry } from "./sites";
+import { defaultTariff } from "./tariff";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "load",
+  title: "Data center",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "11:00",
+  endTime: "13:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 0,
+  assetId: "data-center",
+  ...overrides
+});
+
+const solar = (assetId: string) =>
+  event({ id: `solar-${assetId}`, title: "Solar", type: "Production", energyKwh: 400, assetId });
+
+const productionScore = (events: EnergyEvent[], registry = defaultSiteRegistry) =>
+  scoreEvents(events, defaultTariff, defaultCarbonProfile, undefined, registry)
+    .get("load")
+    ?.components.find((component) => component.factor === "production")?.score;
+
+describe("createEfficiencyScorer", () => {
+  it("credits loads with Production at their own site", () => {
+    assert.equal(productionScore([event(), solar("solar-array")]), 100);
+  });
+
+  it("does not credit loads with Production at another site", () => {
+    assert.equal(productionScore([event(), solar("wind-turbine")]), 0);
+  });
+
+  it("treats the whole schedule as one site without a registry", () => {
+    const score = createEfficiencyScorer([event(), solar("wind-turbine")], defaultTariff, defaultCarbonProfile);
+    assert.equal(score(event()).components.find((component) => component.factor === "production")?.score, 100);
+  });
+
+  it("rates the plan factor only once an event is metered", () => {
+    const score = createEfficiencyScorer([], defaultTariff, defaultCarbonProfile);
+    assert.equal(
+      score(event()).components.some((component) => component.factor === "plan"),
+      false
+    );
+    const metered = score(event({ actualKwh: 110 })).components.find((component) => component.factor === "plan");
+    assert.equal(metered?.score, 80);
+  });
+
+  it("explains each factor in the preferred locale and energy unit", () => {
+    const preferences = { ...defaultPreferences, locale: "de-DE" as const, energyUnit: "MWh" as const };
+    const score = createEfficiencyScorer([], defaultTariff, defaultCarbonProfile, undefined, undefined, preferences);
+    const details = score(event({ actualKwh: 110 })).components.map((component) => component.detail);
+    assert.match(details[0], /^Ø Bezugspreis \d+\/MWh bei \d+–\d+ an diesem Tag$/);
+    assert.match(details[2], /^Ø \d+ kg\/MWh bei \d+–\d+ über den Tag$/);
+    assert.equal(details[3], "Gemessen +10,0\u00a0% gegenüber Plan");
+  });
+
+  it("gives events without energy a neutral score", () => {
+    const score = createEfficiencyScorer([], defaultTariff, defaultCarbonProfile);
+    assert.deepEqual(score(event({ energyKwh: 0 })), { score: 50, components: [] });
+  });
+});
@@ -0,0 +1,207 @@
+import { carbonIntensityAt } from "./carbon";
+import type { CarbonProfile } from "./carbon";
+import { translatorFor } from "./i18n";
+import { defaultPreferences } from "./preferences";
+import type { Preferences } from "./preferences";
+import { hourlyProfile, hourlySlices, totalKw } from "./profile";
+import type { HourlyLoad, HourSlice } from "./profile";
+import { siteIdOf } from "./sites";
+import type { SiteRegistry } from "./sites";
+import { rateAt, tariffSide } from "./tariff";
+import type { Tariff } from "./tariff";
+import { balanceOf, defaultTaxonomy, typesWithBalance } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+export type EfficiencyFactor = "tariff" | "production" | "carbon" | "plan";
+
+export type EfficiencyComponent = {
+  factor: EfficiencyFactor;
+  label: string;
+  /** 0–100, where 100 is the best this factor allows. */
+  score: number;
+  weight: number;
+  detail: string;
+};
+
+export type EfficiencyBreakdown = {
+  score: number;
+  components: EfficiencyComponent[];
+};
+
+/** Factors that do not apply to an event are left out and the remaining weights rescaled. */
+const weights: Record<EfficiencyFactor, number> = { tariff: 0.3, production: 0.3, carbon: 0.2, plan: 0.2 };
+
+/** Where `value` sits between the day's worst and best, as 0–100; a flat range scores 100 since nothing better exists. */
+const position = (value: number, min: number, max: number, higherIsBetter: boolean) => {
+  if (max - min < 1e-9) {
+    return 100;
+  }
+  return (100 * (higherIsBetter ? value - min : max - value)) / (max - min);
+};
+
+const weightedAverage = (slices: HourSlice[], valueAt: (slice: HourSlice) => number) => {
+  const total = slices.reduce((acc, slice) => acc + slice.kwh, 0);
+  return total > 0 ? slices.reduce((acc, slice) => acc + slice.kwh * valueAt(slice), 0) / total : 0;
+};
+
+/** Given to events with no duration or energy, which leave nothing to rate. */
+const neutralScore = 50;
+
+const hours = Array.from({ length: 24 }, (_value, hour) => hour);
+
+/**
+ * Rates events against the rest of the schedule. Build one per schedule snapshot: hourly
+ * profiles are cached per site and date, so scoring a whole month stays cheap. Production only
+ * covers loads at its own site; without a `registry` the whole schedule counts as one site.
+ * Details are in the `preferences` locale, with rates and intensities per its energy unit.
+ */
+export const createEfficiencyScorer = (
+  events: EnergyEvent[],
+  tariff: Tariff,
+  carbon: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  registry?: SiteRegistry,
+  preferences: Preferences = defaultPreferences
+) => {
+  const { t } = translatorFor(preferences.locale);
+  const inMwh = preferences.energyUnit === "MWh";
+  const number = (value: number, digits: number, options: Intl.NumberFormatOptions = {}) =>
+    new Intl.NumberFormat(preferences.locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+      ...options
+    }).format(value);
+  const percent = (value: number, digits = 0, options: Intl.NumberFormatOptions = {}) =>
+    number(value / 100, digits, { style: "percent", ...options });
+  /** Rates per kWh shown per MWh when that is the preferred unit; g/kWh and kg/MWh are the same number. */
+  const unitRate = (perKwh: number) => (inMwh ? number(perKwh * 1000, 0) : number(perKwh, 2));
+  const siteOf = (event: EnergyEvent) => (registry ? siteIdOf(event, registry) : null);
+  const supplyTypes = typesWithBalance(taxonomy, "supply");
+  const demandTypes = typesWithBalance(taxonomy, "consumption");
+  const profiles = new Map<string, HourlyLoad[]>();
+  const profileFor = (siteId: string | null, date: string) => {
+    const key = `${siteId ?? ""}|${date}`;
+    let profile = profiles.get(key);
+    if (!profile) {
+      profile = hourlyProfile(
+        events.filter((event) => siteOf(event) === siteId),
+        date
+      );
+      profiles.set(key, profile);
+    }
+    return profile;
+  };
+
+  const tariffComponent = (event: EnergyEvent, slices: HourSlice[]): EfficiencyComponent => {
+    const side = tariffSide(event, taxonomy);
+    const rate = (date: string, hour: number) => {
+      const rates = rateAt(tariff, date, hour * 60 + 30);
+      return side === "import" ? rates.importRate : rates.exportRate;
+    };
+    const average = weightedAverage(slices, (slice) => rate(slice.date, slice.hour));
+    const dayRates = Array.from(new Set(slices.map((slice) => slice.date))).flatMap((date) =>
+      hours.map((hour) => rate(date, hour))
+    );
+    const min = Math.min(...dayRates);
+    const max = Math.max(...dayRates);
+    return {
+      factor: "tariff",
+      label: "Tariff timing",
+      score: position(average, min, max, side === "export"),
+      weight: weights.tariff,
+      detail: t(side === "import" ? "importRateDetail" : "exportRateDetail", {
+        average: unitRate(average),
+        min: unitRate(min),
+        max: unitRate(max),
+        unit: preferences.energyUnit
+      })
+    };
+  };
+
+  /** Loads score by how much supply at their site covers them; supply by how much of it is used there. */
+  const productionComponent = (event: EnergyEvent, slices: HourSlice[]): EfficiencyComponent | null => {
+    const isLoad = tariffSide(event, taxonomy) === "import";
+    if (!isLoad && balanceOf(taxonomy, event.type) !== "supply") {
+      return null;
+    }
+    const siteId = siteOf(event);
+    const matchedTypes = isLoad ? supplyTypes : demandTypes;
+    const matched = slices.reduce(
+      (acc, slice) => acc + Math.min(slice.kwh, totalKw(profileFor(siteId, slice.date)[slice.hour], matchedTypes)),
+      0
+    );
+    const share = (100 * matched) / event.energyKwh;
+    return {
+      factor: "production",
+      label: "Production overlap",
+      score: share,
+      weight: weights.production,
+      detail: t(isLoad ? "metByProductionDetail" : "usedOnSiteDetail", { percent: percent(share) })
+    };
+  };
+
+  /** Loads should run when the grid is clean; exports displace the most carbon when it is dirty. */
+  const carbonComponent = (event: EnergyEvent, slices: HourSlice[]): EfficiencyComponent => {
+    const average = weightedAverage(slices, (slice) => carbonIntensityAt(carbon, slice.hour));
+    const min = Math.min(...carbon);
+    const max = Math.max(...carbon);
+    return {
+      factor: "carbon",
+      label: "Carbon intensity",
+      score: position(average, min, max, tariffSide(event, taxonomy) === "export"),
+      weight: weights.carbon,
+      detail: t("carbonDetail", {
+        average: number(average, 0),
+        min: number(min, 0),
+        max: number(max, 0),
+        unit: inMwh ? "kg/MWh" : "g/kWh"
+      })
+    };
+  };
+
+  const planComponent = (event: EnergyEvent): EfficiencyComponent | null => {
+    if (event.actualKwh === undefined) {
+      return null;
+    }
+    const variance = (100 * (event.actualKwh - event.energyKwh)) / event.energyKwh;
+    return {
+      factor: "plan",
+      label: "Planned vs actual",
+      score: Math.max(0, 100 - 2 * Math.abs(variance)),
+      weight: weights.plan,
+      detail: t("planDetail", { variance: percent(variance, 1, { signDisplay: "always" }) })
+    };
+  };
+
+  return (event: EnergyEvent): EfficiencyBreakdown => {
+    const slices = hourlySlices(event);
+    if (slices.length === 0 || event.energyKwh <= 0) {
+      return { score: neutralScore, components: [] };
+    }
+    const components = [
+      tariffComponent(event, slices),
+      productionComponent(event, slices),
+      carbonComponent(event, slices),
+      planComponent(event)
+    ]
+      .filter((component): component is EfficiencyComponent => component !== null)
+      .map((component) => ({ ...component, score: Math.round(component.score) }));
+    const totalWeight = components.reduce((acc, component) => acc + component.weight, 0);
+    const score = components.reduce((acc, component) => acc + component.score * component.weight, 0) / totalWeight;
+    return { score: Math.round(score), components };
+  };
+};
+
+/** Scores every event against the same schedule, keyed by event id. */
+export const scoreEvents = (
+  events: EnergyEvent[],
+  tariff: Tariff,
+  carbon: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  registry?: SiteRegistry,
+  preferences: Preferences = defaultPreferences
+) => {
+  const score = createEfficiencyScorer(events, tariff, carbon, taxonomy, registry, preferences);
+  return new Map(events.map((event) => [event.id, score(event)]));
+};
@@ -0,0 +1,218 @@
+import { storageDirectionOf } from "./storage";
+import { defaultTaxonomy, isFlexibleType } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type {
+  DemandResponseEnrollment,
+  EnergyEvent,
+  EnergyEventInput,
+  EnergyType,
+  EventStatus,
+  Flexibility,
+  Recurrence,
+  RecurrenceFrequency,
+  StorageDirection
+} from "./types";
+
+export type RepeatEnd = "never" | "until" | "count";
+
+export type EventFormState = {
+  title: string;
+  type: EnergyType;
+  date: string;
+  startTime: string;
+  endTime: string;
+  energyKwh: string;
+  status: EventStatus;
+  notes: string;
+  storageDirection: StorageDirection;
+  /** Empty means the event is not tied to a specific asset. */
+  assetId: string;
+  repeat: "none" | RecurrenceFrequency;
+  repeatInterval: string;
+  repeatWeekdays: number[];
+  repeatEnd: RepeatEnd;
+  repeatUntil: string;
+  repeatCount: string;
+  /** Carried through untouched so editing a series keeps its skipped dates. */
+  repeatExceptions: string[];
+  flexible: boolean;
+  flexEarliest: string;
+  flexLatest: string;
+  flexDays: string;
+  /** Empty means the event is not enrolled in a demand response window. */
+  drWindowId: string;
+  drCommittedKw: string;
+};
+
+export type EventFormField = keyof EventFormState;
+
+const emptyRepeat = {
+  repeat: "none" as const,
+  repeatInterval: "1",
+  repeatWeekdays: [],
+  repeatEnd: "never" as const,
+  repeatUntil: "",
+  repeatCount: "",
+  repeatExceptions: []
+};
+
+const emptyFlexibility = {
+  flexible: false,
+  flexEarliest: "00:00",
+  flexLatest: "23:59",
+  flexDays: "0"
+};
+
+const emptyEnrollment = {
+  drWindowId: "",
+  drCommittedKw: ""
+};
+
+export const createEmptyForm = (
+  date: string,
+  defaults: Partial<Pick<EventFormState, "type" | "status">> = {}
+): EventFormState => ({
+  title: "",
+  type: defaults.type ?? "Demand",
+  date,
+  startTime: "08:00",
+  endTime: "09:00",
+  energyKwh: "",
+  status: defaults.status ?? "Scheduled",
+  notes: "",
+  storageDirection: "charge",
+  assetId: "",
+  ...emptyRepeat,
+  ...emptyFlexibility,
+  ...emptyEnrollment
+});
+
+export const formFromEvent = (event: EnergyEvent): EventFormState => {
+  const rule = event.recurrence;
+  return {
+    title: event.title,
+    type: event.type,
+    date: event.date,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    energyKwh: String(event.energyKwh),
+    status: event.status,
+    notes: event.notes ?? "",
+    storageDirection: storageDirectionOf(event),
+    assetId: event.assetId ?? "",
+    ...(rule
+      ? {
+          repeat: rule.frequency,
+          repeatInterval: String(rule.interval),
+          repeatWeekdays: rule.byWeekday ?? [],
+          repeatEnd: rule.until ? "until" : rule.count ? "count" : "never",
+          repeatUntil: rule.until ?? "",
+          repeatCount: rule.count ? String(rule.count) : "",
+          repeatExceptions: rule.exceptions ?? []
+        }
+      : emptyRepeat),
+    ...(event.flexibility
+      ? {
+          flexible: true,
+          flexEarliest: event.flexibility.earliestStart,
+          flexLatest: event.flexibility.latestEnd,
+          flexDays: String(event.flexibility.dayRange)
+        }
+      : emptyFlexibility),
+    ...(event.demandResponse
+      ? { drWindowId: event.demandResponse.windowId, drCommittedKw: String(event.demandResponse.committedKw) }
+      : emptyEnrollment)
+  };
+};
+
+/**
+ * Weekday toggles arrive as the day number and the flexible checkbox as "true"/"false";
+ * every other field is a plain input value.
+ */
+export const applyFormChange = (form: EventFormState, field: EventFormField, value: string): EventFormState => {
+  if (field === "repeatWeekdays") {
+    const day = Number(value);
+    const days = form.repeatWeekdays.includes(day)
+      ? form.repeatWeekdays.filter((existing) => existing !== day)
+      : [...form.repeatWeekdays, day].sort();
+    return { ...form, repeatWeekdays: days };
+  }
+  if (field === "flexible") {
+    return { ...form, flexible: value === "true" };
+  }
+  if (field === "energyKwh" || field === "drCommittedKw") {
+    return { ...form, [field]: value.replace(/[^0-9.]/g, "") };
+  }
+  if (field === "repeatInterval" || field === "repeatCount" || field === "flexDays") {
+    return { ...form, [field]: value.replace(/[^0-9]/g, "") };
+  }
+  return { ...form, [field]: value };
+};
+
+export const isFormComplete = (form: EventFormState) => Boolean(form.title.trim() && form.date && form.energyKwh);
+
+const formToRecurrence = (form: EventFormState): Recurrence | undefined => {
+  if (form.repeat === "none") {
+    return undefined;
+  }
+  const rule: Recurrence = { frequency: form.repeat, interval: Math.max(1, Number(form.repeatInterval) || 1) };
+  if (form.repeat !== "monthly" && form.repeatWeekdays.length > 0) {
+    rule.byWeekday = form.repeatWeekdays;
+  }
+  if (form.repeatEnd === "until" && form.repeatUntil) {
+    rule.until = form.repeatUntil;
+  }
+  if (form.repeatEnd === "count" && Number(form.repeatCount) > 0) {
+    rule.count = Number(form.repeatCount);
+  }
+  if (form.repeatExceptions.length > 0) {
+    rule.exceptions = form.repeatExceptions;
+  }
+  return rule;
+};
+
+const formToFlexibility = (form: EventFormState, taxonomy: Taxonomy): Flexibility | undefined => {
+  const isDischarge = form.type === "Storage" && form.storageDirection === "discharge";
+  if (!form.flexible || !isFlexibleType(taxonomy, form.type) || isDischarge) {
+    return undefined;
+  }
+  return {
+    earliestStart: form.flexEarliest,
+    latestEnd: form.flexLatest,
+    dayRange: Math.min(14, Number(form.flexDays) || 0)
+  };
+};
+
+const formToEnrollment = (form: EventFormState, taxonomy: Taxonomy): DemandResponseEnrollment | undefined => {
+  const committedKw = Number(form.drCommittedKw);
+  if (!form.drWindowId || !isFlexibleType(taxonomy, form.type) || !(committedKw > 0)) {
+    return undefined;
+  }
+  return { windowId: form.drWindowId, committedKw };
+};
+
+/** Returns null while the form is incomplete or the energy value is not a positive number. */
+export const formToInput = (form: EventFormState, taxonomy: Taxonomy = defaultTaxonomy): EnergyEventInput | null => {
+  if (!isFormComplete(form)) {
+    return null;
+  }
+  const energyValue = Number(form.energyKwh);
+  if (Number.isNaN(energyValue) || energyValue <= 0) {
+    return null;
+  }
+  return {
+    title: form.title.trim(),
+    type: form.type,
+    date: form.date,
+    startTime: form.startTime,
+    endTime: form.endTime,
+    energyKwh: energyValue,
+    status: form.status,
+    notes: form.notes.trim() || undefined,
+    storageDirection: form.type === "Storage" ? form.storageDirection : undefined,
+    assetId: form.assetId || undefined,
+    recurrence: formToRecurrence(form),
+    flexibility: formToFlexibility(form, taxonomy),
+    demandResponse: formToEnrollment(form, taxonomy)
+  };
+};
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatVariance, parseEventInput } from "./events";
+
+const payload = {
+  title: "Fleet charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "18:00",
+  endTime: "19:00",
+  energyKwh: 100,
+  status: "Scheduled"
+};
+
+describe("parseEventInput", () => {
+  it("accepts a complete event", () => {
+    const result = parseEventInput(payload);
+    assert.ok(result.ok);
+    assert.equal(result.value.energyKwh, 100);
+  });
+
+  it("rejects an end time equal to the start time", () => {
+    assert.deepEqual(parseEventInput({ ...payload, endTime: "18:00" }), {
+      ok: false,
+      error: "endTime must differ from startTime."
+    });
+    assert.ok(!parseEventInput({ startTime: "07:00", endTime: "07:00" }, true).ok);
+    assert.ok(parseEventInput({ startTime: "07:00" }, true).ok);
+  });
+
+  it("rejects energy that is not a finite positive number", () => {
+    for (const energyKwh of [0, -5, "abc", Infinity, "1e999"]) {
+      assert.ok(!parseEventInput({ ...payload, energyKwh }).ok, String(energyKwh));
+    }
+    assert.ok(!parseEventInput({ actualKwh: Infinity }, true).ok);
+  });
+});
+
+describe("formatVariance", () => {
+  it("follows the energy unit and locale preferences", () => {
+    const metered = { ...payload, id: "event-1", efficiencyScore: 50, energyKwh: 10_000, actualKwh: 11_250 };
+    assert.equal(formatVariance(metered), "+1,250 kWh (+13%)");
+    assert.equal(
+      formatVariance(metered, { locale: "de-DE", weekStartsOn: 1, energyUnit: "MWh", powerUnit: "MW" }),
+      "+1,25 MWh (+13\u00a0%)"
+    );
+    assert.equal(formatVariance({ ...metered, actualKwh: undefined }), null);
+  });
+});
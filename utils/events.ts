@@ -0,0 +1,346 @@
+import { isFilterActive, matchesFilter, parseEventFilter } from "./filters";
+import { defaultPreferences, formatEnergy } from "./preferences";
+import type { Preferences } from "./preferences";
+import { monthRange, occurrenceDates } from "./recurrence";
+import { defaultTaxonomy, isEnergyType, isEventStatus } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import { recurrenceFrequencies, storageDirections } from "./types";
+import type {
+  DemandResponseEnrollment,
+  EnergyEvent,
+  EnergyEventChanges,
+  EnergyEventInput,
+  EventQuery,
+  Flexibility,
+  ForecastBand,
+  Recurrence,
+  RecurrenceFrequency,
+  StorageDirection
+} from "./types";
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+const monthPattern = /^\d{4}-\d{2}$/;
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const categoryNames = (taxonomy: Taxonomy) => taxonomy.categories.map(({ name }) => name).join(", ");
+
+const parseRecurrence = (value: unknown): ParseResult<Recurrence> => {
+  if (!value || typeof value !== "object") {
+    return { ok: false, error: "recurrence must be an object." };
+  }
+  const source = value as Record<string, unknown>;
+  if (!recurrenceFrequencies.includes(source.frequency as RecurrenceFrequency)) {
+    return { ok: false, error: `recurrence.frequency must be one of ${recurrenceFrequencies.join(", ")}.` };
+  }
+  const rule: Recurrence = {
+    frequency: source.frequency as RecurrenceFrequency,
+    interval: source.interval === undefined ? 1 : Number(source.interval)
+  };
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return { ok: false, error: "recurrence.interval must be a positive whole number." };
+  }
+  if (source.byWeekday !== undefined) {
+    const days = source.byWeekday;
+    if (!Array.isArray(days) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { ok: false, error: "recurrence.byWeekday must list weekdays from 0 (Sunday) to 6." };
+    }
+    rule.byWeekday = Array.from(new Set(days as number[])).sort();
+  }
+  if (source.until !== undefined) {
+    if (typeof source.until !== "string" || !datePattern.test(source.until)) {
+      return { ok: false, error: "recurrence.until must use the yyyy-MM-dd format." };
+    }
+    rule.until = source.until;
+  }
+  if (source.count !== undefined) {
+    const count = Number(source.count);
+    if (!Number.isInteger(count) || count < 1) {
+      return { ok: false, error: "recurrence.count must be a positive whole number." };
+    }
+    rule.count = count;
+  }
+  if (source.exceptions !== undefined) {
+    const exceptions = source.exceptions;
+    if (!Array.isArray(exceptions) || exceptions.some((date) => typeof date !== "string" || !datePattern.test(date))) {
+      return { ok: false, error: "recurrence.exceptions must list yyyy-MM-dd dates." };
+    }
+    rule.exceptions = Array.from(new Set(exceptions as string[])).sort();
+  }
+  return { ok: true, value: rule };
+};
+
+const parseFlexibility = (value: unknown): ParseResult<Flexibility> => {
+  if (!value || typeof value !== "object") {
+    return { ok: false, error: "flexibility must be an object." };
+  }
+  const source = value as Record<string, unknown>;
+  for (const key of ["earliestStart", "latestEnd"] as const) {
+    if (typeof source[key] !== "string" || !timePattern.test(source[key] as string)) {
+      return { ok: false, error: `flexibility.${key} must use the HH:mm format.` };
+    }
+  }
+  const dayRange = source.dayRange === undefined ? 0 : Number(source.dayRange);
+  if (!Number.isInteger(dayRange) || dayRange < 0 || dayRange > 14) {
+    return { ok: false, error: "flexibility.dayRange must be a whole number from 0 to 14." };
+  }
+  return {
+    ok: true,
+    value: { earliestStart: source.earliestStart as string, latestEnd: source.latestEnd as string, dayRange }
+  };
+};
+
+const parseDemandResponse = (value: unknown): ParseResult<DemandResponseEnrollment> => {
+  const source = (value ?? {}) as Record<string, unknown>;
+  if (typeof source.windowId !== "string" || !source.windowId.trim()) {
+    return { ok: false, error: "demandResponse.windowId is required." };
+  }
+  const committedKw = Number(source.committedKw);
+  if (!Number.isFinite(committedKw) || committedKw <= 0) {
+    return { ok: false, error: "demandResponse.committedKw must be a positive number." };
+  }
+  return { ok: true, value: { windowId: source.windowId.trim(), committedKw } };
+};
+
+const parseForecastBand = (value: unknown): ParseResult<ForecastBand> => {
+  const source = (value ?? {}) as Record<string, unknown>;
+  for (const key of ["lowKwh", "highKwh", "samples", "weatherFactor"] as const) {
+    if (typeof source[key] !== "number" || !Number.isFinite(source[key]) || (source[key] as number) < 0) {
+      return { ok: false, error: `forecast.${key} must be zero or a positive number.` };
+    }
+  }
+  return {
+    ok: true,
+    value: {
+      lowKwh: source.lowKwh as number,
+      highKwh: source.highKwh as number,
+      samples: source.samples as number,
+      weatherFactor: source.weatherFactor as number
+    }
+  };
+};
+
+const isStorageDirection = (value: unknown): value is StorageDirection =>
+  typeof value === "string" && storageDirections.includes(value as StorageDirection);
+
+export const createEventId = () => `event-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Validates an untrusted payload. With `partial` set, only the fields present are checked,
+ * which is what PATCH requests need. Types and statuses must exist in `taxonomy`.
+ */
+export function parseEventInput(payload: unknown, partial: true, taxonomy?: Taxonomy): ParseResult<EnergyEventChanges>;
+export function parseEventInput(payload: unknown, partial?: false, taxonomy?: Taxonomy): ParseResult<EnergyEventInput>;
+export function parseEventInput(
+  payload: unknown,
+  partial = false,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<EnergyEventChanges> {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+  const source = payload as Record<string, unknown>;
+  const result: EnergyEventChanges = {};
+  const has = (key: string) => source[key] !== undefined;
+
+  if (has("title") || !partial) {
+    if (typeof source.title !== "string" || !source.title.trim()) {
+      return { ok: false, error: "title is required." };
+    }
+    result.title = source.title.trim();
+  }
+  if (has("type") || !partial) {
+    if (!isEnergyType(taxonomy, source.type)) {
+      return { ok: false, error: `type must be one of ${categoryNames(taxonomy)}.` };
+    }
+    result.type = source.type;
+  }
+  if (has("date") || !partial) {
+    if (typeof source.date !== "string" || !datePattern.test(source.date)) {
+      return { ok: false, error: "date must use the yyyy-MM-dd format." };
+    }
+    result.date = source.date;
+  }
+  for (const key of ["startTime", "endTime"] as const) {
+    if (has(key) || !partial) {
+      const value = source[key];
+      if (typeof value !== "string" || !timePattern.test(value)) {
+        return { ok: false, error: `${key} must use the HH:mm format.` };
+      }
+      result[key] = value;
+    }
+  }
+  if (result.startTime !== undefined && result.startTime === result.endTime) {
+    return { ok: false, error: "endTime must differ from startTime." };
+  }
+  if (has("energyKwh") || !partial) {
+    const energy = Number(source.energyKwh);
+    if (!Number.isFinite(energy) || energy <= 0) {
+      return { ok: false, error: "energyKwh must be a positive number." };
+    }
+    result.energyKwh = energy;
+  }
+  if (has("actualKwh")) {
+    const actual = Number(source.actualKwh);
+    if (!Number.isFinite(actual) || actual < 0) {
+      return { ok: false, error: "actualKwh must be zero or a positive number." };
+    }
+    result.actualKwh = actual;
+  }
+  if (has("status") || !partial) {
+    if (!isEventStatus(taxonomy, source.status)) {
+      return { ok: false, error: `status must be one of ${taxonomy.statuses.map(({ name }) => name).join(", ")}.` };
+    }
+    result.status = source.status;
+  }
+  if (has("efficiencyScore")) {
+    const score = Number(source.efficiencyScore);
+    if (Number.isNaN(score) || score < 0 || score > 100) {
+      return { ok: false, error: "efficiencyScore must be between 0 and 100." };
+    }
+    result.efficiencyScore = Math.round(score);
+  }
+  if (has("notes")) {
+    if (source.notes !== null && typeof source.notes !== "string") {
+      return { ok: false, error: "notes must be a string." };
+    }
+    result.notes = typeof source.notes === "string" ? source.notes.trim() || undefined : undefined;
+  }
+  if (has("recurrence")) {
+    if (source.recurrence === null) {
+      if (!partial) {
+        return { ok: false, error: "recurrence must be an object." };
+      }
+      result.recurrence = null;
+    } else {
+      const recurrence = parseRecurrence(source.recurrence);
+      if (!recurrence.ok) {
+        return recurrence;
+      }
+      result.recurrence = recurrence.value;
+    }
+  }
+  if (has("flexibility")) {
+    if (source.flexibility === null) {
+      if (!partial) {
+        return { ok: false, error: "flexibility must be an object." };
+      }
+      result.flexibility = null;
+    } else {
+      const flexibility = parseFlexibility(source.flexibility);
+      if (!flexibility.ok) {
+        return flexibility;
+      }
+      result.flexibility = flexibility.value;
+    }
+  }
+  if (has("demandResponse")) {
+    if (source.demandResponse === null) {
+      if (!partial) {
+        return { ok: false, error: "demandResponse must be an object." };
+      }
+      result.demandResponse = null;
+    } else {
+      const demandResponse = parseDemandResponse(source.demandResponse);
+      if (!demandResponse.ok) {
+        return demandResponse;
+      }
+      result.demandResponse = demandResponse.value;
+    }
+  }
+  if (has("storageDirection")) {
+    if (!isStorageDirection(source.storageDirection)) {
+      return { ok: false, error: `storageDirection must be one of ${storageDirections.join(", ")}.` };
+    }
+    result.storageDirection = source.storageDirection;
+  }
+  if (has("assetId")) {
+    if (typeof source.assetId !== "string") {
+      return { ok: false, error: "assetId must be a string." };
+    }
+    result.assetId = source.assetId || undefined;
+  }
+  if (has("forecast")) {
+    const forecast = parseForecastBand(source.forecast);
+    if (!forecast.ok) {
+      return forecast;
+    }
+    result.forecast = forecast.value;
+  }
+  if (has("automationRuleId")) {
+    if (typeof source.automationRuleId !== "string" || !source.automationRuleId) {
+      return { ok: false, error: "automationRuleId must be a string." };
+    }
+    result.automationRuleId = source.automationRuleId;
+  }
+  if (has("seriesId")) {
+    if (typeof source.seriesId !== "string" || !source.seriesId) {
+      return { ok: false, error: "seriesId must be a string." };
+    }
+    result.seriesId = source.seriesId;
+  }
+  return { ok: true, value: result };
+}
+
+export const parseEventQuery = (
+  params: URLSearchParams,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<EventQuery> => {
+  const query: EventQuery = {};
+  const month = params.get("month");
+  if (params.get("expand") === "true") {
+    query.expand = true;
+  }
+  if (month) {
+    if (!monthPattern.test(month)) {
+      return { ok: false, error: "month must use the yyyy-MM format." };
+    }
+    query.month = month;
+  }
+  const filter = parseEventFilter(params, taxonomy);
+  if (!filter.ok) {
+    return filter;
+  }
+  if (isFilterActive(filter.value)) {
+    query.filter = filter.value;
+  }
+  return { ok: true, value: query };
+};
+
+const occursInMonth = (event: EnergyEvent, month: string) => {
+  if (!event.recurrence) {
+    return event.date.startsWith(month);
+  }
+  const { start, end } = monthRange(month);
+  return occurrenceDates(event, start, end).length > 0;
+};
+
+export const matchesQuery = (event: EnergyEvent, query: EventQuery) =>
+  (!query.month || occursInMonth(event, query.month)) && (!query.filter || matchesFilter(event, query.filter));
+
+export const compareEvents = (a: EnergyEvent, b: EnergyEvent) =>
+  a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime);
+
+/** Metered minus planned energy, as kWh and as a percentage of the plan; null until metered. */
+export const energyVariance = (event: EnergyEvent) => {
+  if (event.actualKwh === undefined) {
+    return null;
+  }
+  const kwh = event.actualKwh - event.energyKwh;
+  return { kwh, percent: event.energyKwh > 0 ? Math.round((kwh / event.energyKwh) * 100) : 0 };
+};
+
+/** The variance in the preferred energy unit and locale, e.g. "+1,25 MWh (+13 %)" in German. */
+export const formatVariance = (event: EnergyEvent, preferences: Preferences = defaultPreferences) => {
+  const variance = energyVariance(event);
+  if (!variance) {
+    return null;
+  }
+  const percent = new Intl.NumberFormat(preferences.locale, {
+    style: "percent",
+    signDisplay: "always",
+    maximumFractionDigits: 0
+  }).format(variance.percent / 100);
+  return `${formatEnergy(variance.kwh, preferences, { signed: true })} (${percent})`;
+};
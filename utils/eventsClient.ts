@@ -0,0 +1,264 @@
+import type { AuditEntry, AuditQuery } from "./audit";
+import type { Credentials, User, UserInput } from "./auth";
+import type { AutomationRule, AutomationRun } from "./automation";
+import type { CarbonProfile } from "./carbon";
+import type { DemandResponseWindow } from "./demandResponse";
+import { filterToSearchParams } from "./filters";
+import type { FilterPreset } from "./filters";
+import type { WeatherDay } from "./forecast";
+import type { MeterInterval, ReconcileOptions, ReconciliationPlan } from "./meterData";
+import type { Preferences } from "./preferences";
+import type { ReportFormat } from "./report";
+import type { SiteRegistry } from "./sites";
+import type { Tariff } from "./tariff";
+import type { Taxonomy } from "./taxonomy";
+import type { TelemetryReading } from "./telemetry";
+import type { EnergyEvent, EnergyEventChanges, EnergyEventInput, EventQuery } from "./types";
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers }
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error ?? `Request failed with status ${response.status}`);
+  }
+  return body as T;
+};
+
+export const fetchEvents = async (query: EventQuery = {}) => {
+  const params = query.filter ? filterToSearchParams(query.filter) : new URLSearchParams();
+  if (query.month) {
+    params.set("month", query.month);
+  }
+  if (query.expand) {
+    params.set("expand", "true");
+  }
+  const search = params.toString();
+  const { events } = await request<{ events: EnergyEvent[] }>(`/api/events${search ? `?${search}` : ""}`, {
+    cache: "no-store"
+  });
+  return events;
+};
+
+export const createEventRequest = async (input: EnergyEventInput) =>
+  (await request<{ event: EnergyEvent }>("/api/events", { method: "POST", body: JSON.stringify(input) })).event;
+
+export const createEventsRequest = async (inputs: EnergyEventInput[]) =>
+  (
+    await request<{ events: EnergyEvent[] }>("/api/events/bulk", {
+      method: "POST",
+      body: JSON.stringify({ events: inputs })
+    })
+  ).events;
+
+export const exportEventsUrl = (query: EventQuery) => {
+  const params = query.filter ? filterToSearchParams(query.filter) : new URLSearchParams();
+  if (query.month) {
+    params.set("month", query.month);
+  }
+  return `/api/events/export?${params.toString()}`;
+};
+
+/** The server-generated monthly report; `siteId` narrows it to one site. */
+export const reportUrl = (month: string, reportFormat: ReportFormat, siteId: string | null) => {
+  const params = new URLSearchParams({ month, format: reportFormat });
+  if (siteId) {
+    params.set("site", siteId);
+  }
+  return `/api/reports?${params.toString()}`;
+};
+
+/** Re-creates a deleted event with its original id, e.g. to undo a deletion. */
+export const restoreEventRequest = async (event: EnergyEvent) =>
+  (await request<{ event: EnergyEvent }>("/api/events", { method: "POST", body: JSON.stringify(event) })).event;
+
+export const updateEventRequest = async (id: string, changes: EnergyEventChanges) =>
+  (
+    await request<{ event: EnergyEvent }>(`/api/events/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes)
+    })
+  ).event;
+
+export const deleteEventRequest = async (id: string) =>
+  (await request<{ event: EnergyEvent }>(`/api/events/${encodeURIComponent(id)}`, { method: "DELETE" })).event;
+
+const occurrenceUrl = (seriesId: string, date: string) =>
+  `/api/events/${encodeURIComponent(seriesId)}/occurrences/${encodeURIComponent(date)}`;
+
+export const detachOccurrenceRequest = (seriesId: string, date: string, changes: EnergyEventChanges) =>
+  request<{ series: EnergyEvent; event: EnergyEvent }>(occurrenceUrl(seriesId, date), {
+    method: "PATCH",
+    body: JSON.stringify(changes)
+  });
+
+export const skipOccurrenceRequest = async (seriesId: string, date: string) =>
+  (await request<{ series: EnergyEvent }>(occurrenceUrl(seriesId, date), { method: "DELETE" })).series;
+
+export const previewMeterReconciliationRequest = async (intervals: MeterInterval[], options: ReconcileOptions) =>
+  (
+    await request<{ plan: ReconciliationPlan }>("/api/meter-data/reconcile", {
+      method: "POST",
+      body: JSON.stringify({ intervals, ...options, apply: false })
+    })
+  ).plan;
+
+export const applyMeterReconciliationRequest = (intervals: MeterInterval[], options: ReconcileOptions) =>
+  request<{ plan: ReconciliationPlan; events: EnergyEvent[] }>("/api/meter-data/reconcile", {
+    method: "POST",
+    body: JSON.stringify({ intervals, ...options, apply: true })
+  });
+
+export const fetchTariff = async () => (await request<{ tariff: Tariff }>("/api/tariff", { cache: "no-store" })).tariff;
+
+export const saveTariffRequest = async (tariff: Tariff) =>
+  (await request<{ tariff: Tariff }>("/api/tariff", { method: "PUT", body: JSON.stringify(tariff) })).tariff;
+
+export const fetchSiteRegistry = async () =>
+  (await request<{ registry: SiteRegistry }>("/api/sites", { cache: "no-store" })).registry;
+
+export const saveSiteRegistryRequest = async (registry: SiteRegistry) =>
+  (await request<{ registry: SiteRegistry }>("/api/sites", { method: "PUT", body: JSON.stringify(registry) })).registry;
+
+export const fetchTaxonomy = async () =>
+  (await request<{ taxonomy: Taxonomy }>("/api/taxonomy", { cache: "no-store" })).taxonomy;
+
+export const saveTaxonomyRequest = async (taxonomy: Taxonomy) =>
+  (await request<{ taxonomy: Taxonomy }>("/api/taxonomy", { method: "PUT", body: JSON.stringify(taxonomy) })).taxonomy;
+
+export const fetchDemandResponseWindows = async () =>
+  (await request<{ windows: DemandResponseWindow[] }>("/api/demand-response", { cache: "no-store" })).windows;
+
+export const saveDemandResponseWindowsRequest = async (windows: DemandResponseWindow[]) =>
+  (
+    await request<{ windows: DemandResponseWindow[] }>("/api/demand-response", {
+      method: "PUT",
+      body: JSON.stringify(windows)
+    })
+  ).windows;
+
+export const fetchCarbonProfile = async () =>
+  (await request<{ profile: CarbonProfile }>("/api/carbon", { cache: "no-store" })).profile;
+
+export const saveCarbonProfileRequest = async (profile: CarbonProfile) =>
+  (await request<{ profile: CarbonProfile }>("/api/carbon", { method: "PUT", body: JSON.stringify(profile) })).profile;
+
+export const runForecastRequest = (month: string, from: string, weather: WeatherDay[]) =>
+  request<{ removedIds: string[]; events: EnergyEvent[] }>("/api/forecast", {
+    method: "POST",
+    body: JSON.stringify({ month, from, weather })
+  });
+
+export const fetchFilterPresets = async () =>
+  (await request<{ presets: FilterPreset[] }>("/api/filter-presets", { cache: "no-store" })).presets;
+
+export const saveFilterPresetRequest = async (preset: FilterPreset) =>
+  (
+    await request<{ presets: FilterPreset[] }>(`/api/filter-presets/${encodeURIComponent(preset.id)}`, {
+      method: "PUT",
+      body: JSON.stringify(preset)
+    })
+  ).presets;
+
+export const deleteFilterPresetRequest = async (id: string) =>
+  (
+    await request<{ presets: FilterPreset[] }>(`/api/filter-presets/${encodeURIComponent(id)}`, {
+      method: "DELETE"
+    })
+  ).presets;
+
+export const fetchPreferences = async () =>
+  (await request<{ preferences: Preferences }>("/api/preferences", { cache: "no-store" })).preferences;
+
+export const savePreferencesRequest = async (preferences: Preferences) =>
+  (
+    await request<{ preferences: Preferences }>("/api/preferences", {
+      method: "PUT",
+      body: JSON.stringify(preferences)
+    })
+  ).preferences;
+
+export const fetchAutomationRules = async () =>
+  (await request<{ rules: AutomationRule[] }>("/api/automation/rules", { cache: "no-store" })).rules;
+
+export const saveAutomationRulesRequest = async (rules: AutomationRule[]) =>
+  (
+    await request<{ rules: AutomationRule[] }>("/api/automation/rules", {
+      method: "PUT",
+      body: JSON.stringify(rules)
+    })
+  ).rules;
+
+/** Logged automation runs, newest first; `since` (ISO timestamp) returns only later ones. */
+export const fetchAutomationLog = async (since?: string) =>
+  (
+    await request<{ runs: AutomationRun[] }>(
+      `/api/automation/log${since ? `?${new URLSearchParams({ since }).toString()}` : ""}`,
+      { cache: "no-store" }
+    )
+  ).runs;
+
+/** Runs every enabled rule, or just `rule` / `ruleId`; dry runs only report what would change. */
+export const runAutomationsRequest = async (options: {
+  month?: string;
+  rule?: AutomationRule;
+  ruleId?: string;
+  dryRun?: boolean;
+}) =>
+  (
+    await request<{ runs: AutomationRun[] }>("/api/automation/run", {
+      method: "POST",
+      body: JSON.stringify(options)
+    })
+  ).runs;
+
+/** Server-sent events of `snapshot` and `readings`, each carrying `{ readings: TelemetryReading[] }`. */
+export const telemetryStreamUrl = "/api/telemetry/stream";
+
+export const simulateTelemetryRequest = async () =>
+  (await request<{ readings: TelemetryReading[] }>("/api/telemetry/simulate", { method: "POST" })).readings;
+
+/** The signed-in user, or null when there is no valid session. */
+export const fetchSession = async () => {
+  const response = await fetch("/api/session", { cache: "no-store" });
+  return response.ok ? ((await response.json()) as { user: User }).user : null;
+};
+
+export const signInRequest = async (credentials: Credentials) =>
+  (await request<{ user: User }>("/api/session", { method: "POST", body: JSON.stringify(credentials) })).user;
+
+export const signOutRequest = async () => {
+  await request<{ user: null }>("/api/session", { method: "DELETE" });
+};
+
+export const fetchUsers = async () => (await request<{ users: User[] }>("/api/users", { cache: "no-store" })).users;
+
+export const createUserRequest = async (input: UserInput) =>
+  (await request<{ user: User }>("/api/users", { method: "POST", body: JSON.stringify(input) })).user;
+
+export const updateUserRequest = async (id: string, input: UserInput) =>
+  (
+    await request<{ user: User }>(`/api/users/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(input)
+    })
+  ).user;
+
+export const deleteUserRequest = async (id: string) =>
+  (await request<{ user: User }>(`/api/users/${encodeURIComponent(id)}`, { method: "DELETE" })).user;
+
+/** Schedule changes, newest first, optionally for one event or one user. */
+export const fetchAuditLog = async (query: AuditQuery = {}) => {
+  const params = new URLSearchParams();
+  if (query.eventId) {
+    params.set("eventId", query.eventId);
+  }
+  if (query.actor) {
+    params.set("actor", query.actor);
+  }
+  const search = params.toString();
+  return (await request<{ entries: AuditEntry[] }>(`/api/audit${search ? `?${search}` : ""}`, { cache: "no-store" }))
+    .entries;
+};
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { emptyFilter, filterToSearchParams, matchesFilter, parseEventFilter, parseFilterPreset } from "./filters";
+import type { EventFilter } from "./filters";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "chiller",
+  title: "Chiller pre-cooling",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "15:00",
+  endTime: "17:00",
+  energyKwh: 120,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  assetId: "data-center",
+  notes: "Ahead of the afternoon peak",
+  ...overrides
+});
+
+const filter: EventFilter = {
+  types: ["Demand", "Storage"],
+  statuses: ["Scheduled"],
+  assetIds: ["data-center"],
+  minEfficiency: 0,
+  maxEfficiency: 80,
+  minKwh: 50,
+  search: "peak"
+};
+
+describe("filterToSearchParams", () => {
+  it("round-trips through parseEventFilter, open bounds and zero included", () => {
+    const query = filterToSearchParams(filter).toString();
+    assert.equal(
+      query,
+      "type=Demand&type=Storage&status=Scheduled&asset=data-center&minEfficiency=0&maxEfficiency=80&minKwh=50&q=peak"
+    );
+    assert.deepEqual(parseEventFilter(new URLSearchParams(query)), { ok: true, value: filter });
+    assert.deepEqual(parseEventFilter(filterToSearchParams(emptyFilter)), { ok: true, value: emptyFilter });
+  });
+
+  it("keeps the calendar's other parameters", () => {
+    const params = filterToSearchParams({ ...emptyFilter, search: "  chiller " }, new URLSearchParams("month=2024-06"));
+    assert.equal(params.toString(), "month=2024-06&q=chiller");
+  });
+});
+
+describe("parseEventFilter", () => {
+  it("ignores the legacy type=All and repeated values", () => {
+    const parsed = parseEventFilter(new URLSearchParams("type=All&status=Scheduled&status=Scheduled&asset="));
+    assert.deepEqual(parsed, { ok: true, value: { ...emptyFilter, statuses: ["Scheduled"] } });
+  });
+
+  it("rejects unknown categories and statuses and negative bounds", () => {
+    assert.deepEqual(parseEventFilter(new URLSearchParams("status=Done")), {
+      ok: false,
+      error: 'status "Done" must be one of Scheduled, In Progress, Completed, Opportunity, Cancelled, Failed.'
+    });
+    assert.deepEqual(parseEventFilter(new URLSearchParams("minKwh=-5")), {
+      ok: false,
+      error: "minKwh must be zero or a positive number."
+    });
+  });
+});
+
+describe("parseFilterPreset", () => {
+  it("stores the query in the calendar's own form, so a preset and a shared link are the same", () => {
+    const shared = filterToSearchParams(filter).toString();
+    const preset = parseFilterPreset({ id: "peaks", name: "Peaks", query: `q=peak&${shared}` });
+    assert.deepEqual(preset, { ok: true, value: { id: "peaks", name: "Peaks", query: shared } });
+  });
+
+  it("names the preset in errors", () => {
+    assert.deepEqual(parseFilterPreset({ id: "peaks", name: "Peaks", query: "type=Wind" }, "presets[2]"), {
+      ok: false,
+      error: 'presets[2]: type "Wind" must be one of Demand, Production, Storage, Provision.'
+    });
+  });
+});
+
+describe("matchesFilter", () => {
+  it("needs every criterion to match, with text looked up in the title and notes", () => {
+    assert.ok(matchesFilter(event(), filter));
+    assert.ok(matchesFilter(event(), { ...emptyFilter, search: "AFTERNOON" }));
+    assert.ok(!matchesFilter(event({ efficiencyScore: 81 }), filter));
+    assert.ok(!matchesFilter(event({ energyKwh: 49 }), filter));
+    assert.ok(!matchesFilter(event({ assetId: undefined }), filter));
+    assert.ok(!matchesFilter(event({ notes: undefined }), filter));
+  });
+});
@@ -0,0 +1,140 @@
+import type { ParseResult } from "./events";
+import { defaultTaxonomy, isEnergyType, isEventStatus } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyType, EventStatus } from "./types";
+
+/**
+ * Narrows the calendar. Empty lists mean "any"; ranges are inclusive and either bound may be left
+ * open. Efficiency bounds are scores from 0 to 100.
+ */
+export type EventFilter = {
+  types: EnergyType[];
+  statuses: EventStatus[];
+  assetIds: string[];
+  minEfficiency?: number;
+  maxEfficiency?: number;
+  minKwh?: number;
+  maxKwh?: number;
+  /** Case-insensitive text looked up in the title and notes. */
+  search: string;
+};
+
+/**
+ * A named filter. It is stored in the same query-string form the calendar URL uses, so a preset
+ * and a shared link are interchangeable.
+ */
+export type FilterPreset = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+export const emptyFilter: EventFilter = { types: [], statuses: [], assetIds: [], search: "" };
+
+const rangeKeys = ["minEfficiency", "maxEfficiency", "minKwh", "maxKwh"] as const;
+
+export const isFilterActive = (filter: EventFilter) =>
+  filter.types.length > 0 ||
+  filter.statuses.length > 0 ||
+  filter.assetIds.length > 0 ||
+  rangeKeys.some((key) => filter[key] !== undefined) ||
+  filter.search.trim() !== "";
+
+const within = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+export const matchesFilter = (event: EnergyEvent, filter: EventFilter) => {
+  const search = filter.search.trim().toLowerCase();
+  return (
+    (filter.types.length === 0 || filter.types.includes(event.type)) &&
+    (filter.statuses.length === 0 || filter.statuses.includes(event.status)) &&
+    (filter.assetIds.length === 0 || (event.assetId !== undefined && filter.assetIds.includes(event.assetId))) &&
+    within(event.efficiencyScore, filter.minEfficiency, filter.maxEfficiency) &&
+    within(event.energyKwh, filter.minKwh, filter.maxKwh) &&
+    (!search || `${event.title}\n${event.notes ?? ""}`.toLowerCase().includes(search))
+  );
+};
+
+/** Writes the filter as repeated `type`, `status` and `asset` parameters plus `q` and the range bounds. */
+export const filterToSearchParams = (filter: EventFilter, params = new URLSearchParams()) => {
+  filter.types.forEach((type) => params.append("type", type));
+  filter.statuses.forEach((status) => params.append("status", status));
+  filter.assetIds.forEach((assetId) => params.append("asset", assetId));
+  rangeKeys.forEach((key) => {
+    if (filter[key] !== undefined) {
+      params.set(key, String(filter[key]));
+    }
+  });
+  if (filter.search.trim()) {
+    params.set("q", filter.search.trim());
+  }
+  return params;
+};
+
+/** Reads a filter written by `filterToSearchParams`; a `type` of "All" is ignored, as the calendar has always sent it. */
+export const parseEventFilter = (
+  params: URLSearchParams,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<EventFilter> => {
+  const types = params.getAll("type").filter((type) => type !== "All");
+  const unknownType = types.find((type) => !isEnergyType(taxonomy, type));
+  if (unknownType !== undefined) {
+    return {
+      ok: false,
+      error: `type "${unknownType}" must be one of ${taxonomy.categories.map(({ name }) => name).join(", ")}.`
+    };
+  }
+  const statuses = params.getAll("status");
+  const unknownStatus = statuses.find((status) => !isEventStatus(taxonomy, status));
+  if (unknownStatus !== undefined) {
+    return {
+      ok: false,
+      error: `status "${unknownStatus}" must be one of ${taxonomy.statuses.map(({ name }) => name).join(", ")}.`
+    };
+  }
+  const filter: EventFilter = {
+    types: Array.from(new Set(types)),
+    statuses: Array.from(new Set(statuses)),
+    assetIds: Array.from(new Set(params.getAll("asset").filter(Boolean))),
+    search: params.get("q")?.trim() ?? ""
+  };
+  for (const key of rangeKeys) {
+    const raw = params.get(key);
+    if (raw === null || raw === "") {
+      continue;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return { ok: false, error: `${key} must be zero or a positive number.` };
+    }
+    filter[key] = value;
+  }
+  return { ok: true, value: filter };
+};
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const parseFilterPreset = (
+  payload: unknown,
+  label = "preset",
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<FilterPreset> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  if (typeof source.id !== "string" || !source.id.trim()) {
+    return { ok: false, error: `${label}.id is required.` };
+  }
+  if (typeof source.name !== "string" || !source.name.trim()) {
+    return { ok: false, error: `${label}.name is required.` };
+  }
+  if (typeof source.query !== "string") {
+    return { ok: false, error: `${label}.query must be a query string.` };
+  }
+  const filter = parseEventFilter(new URLSearchParams(source.query), taxonomy);
+  if (!filter.ok) {
+    return { ok: false, error: `${label}: ${filter.error}` };
+  }
+  return {
+    ok: true,
+    value: { id: source.id, name: source.name.trim(), query: filterToSearchParams(filter.value).toString() }
+  };
+};
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { forecastBalance, forecastProduction, parseForecastRequest } from "./forecast";
+import { defaultSiteRegistry } from "./sites";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "solar",
+  title: "Solar output",
+  type: "Production",
+  date: "2024-06-03",
+  startTime: "10:00",
+  endTime: "12:00",
+  energyKwh: 100,
+  status: "Completed",
+  efficiencyScore: 60,
+  assetId: "solar-array",
+  ...overrides
+});
+
+/** Two completed mornings: one metered at 140 kWh, one taken at its planned 100 kWh. */
+const history = [event(), event({ id: "solar-2", date: "2024-06-04", energyKwh: 90, actualKwh: 140 })];
+
+const request = { month: "2024-06", from: "2024-06-28", weather: [] };
+
+describe("forecastProduction", () => {
+  it("forecasts each remaining day from the mean of completed supply, with an 80% band", () => {
+    const forecasts = forecastProduction(history, defaultSiteRegistry, request);
+    assert.deepEqual(
+      forecasts.map(({ date, startTime, endTime, energyKwh }) => [date, startTime, endTime, energyKwh]),
+      [
+        ["2024-06-28", "10:00", "12:00", 120],
+        ["2024-06-29", "10:00", "12:00", 120],
+        ["2024-06-30", "10:00", "12:00", 120]
+      ]
+    );
+    const [first] = forecasts;
+    assert.equal(first.title, "Solar output (forecast)");
+    assert.equal(first.status, "Opportunity");
+    assert.equal(first.assetId, "solar-array");
+    assert.equal(first.notes, "Forecast from 2 completed morning events.");
+    // Standard deviation 28.3 kWh × z 1.2816 either side of the mean.
+    assert.deepEqual(first.forecast, { lowKwh: 83.8, highKwh: 156.2, samples: 2, weatherFactor: 1 });
+  });
+
+  it("skips days the asset already has supply scheduled", () => {
+    const scheduled = event({ id: "planned", date: "2024-06-29", status: "Scheduled" });
+    assert.deepEqual(
+      forecastProduction([...history, scheduled], defaultSiteRegistry, request).map(({ date }) => date),
+      ["2024-06-28", "2024-06-30"]
+    );
+  });
+
+  it("scales by the weather factor for the asset, up to what the asset can deliver", () => {
+    const weather = [
+      { date: "2024-06-28", factors: { solar: 0.5 } },
+      { date: "2024-06-29", factors: { solar: 5 } }
+    ];
+    const forecasts = forecastProduction(history, defaultSiteRegistry, { ...request, weather });
+    // The 250 kW array delivers at most 500 kWh in two hours.
+    assert.deepEqual(
+      forecasts.map(({ energyKwh, forecast }) => [energyKwh, forecast?.weatherFactor]),
+      [
+        [60, 0.5],
+        [500, 5],
+        [120, 1]
+      ]
+    );
+  });
+
+  it("learns only from completed supply, ignoring forecasts nobody metered", () => {
+    const ignored = [
+      event({ status: "Scheduled" }),
+      event({ type: "Demand" }),
+      event({ forecast: { lowKwh: 80, highKwh: 120, samples: 1, weatherFactor: 1 } })
+    ];
+    assert.deepEqual(forecastProduction(ignored, defaultSiteRegistry, request), []);
+  });
+
+  it("writes its notes in the requested locale", () => {
+    const [first] = forecastProduction(history, defaultSiteRegistry, request, undefined, "de-DE");
+    assert.equal(first.notes, "Prognose aus 2 abgeschlossenen Ereignissen (Vormittag).");
+  });
+});
+
+describe("forecastBalance", () => {
+  it("adds forecasts and scheduled supply against scheduled demand from the given day", () => {
+    const events = [
+      event({
+        id: "forecast",
+        date: "2024-06-20",
+        status: "Opportunity",
+        energyKwh: 120,
+        forecast: { lowKwh: 80, highKwh: 160, samples: 2, weatherFactor: 1 }
+      }),
+      event({ id: "supply", date: "2024-06-21", status: "Scheduled", energyKwh: 50 }),
+      event({ id: "demand", type: "Demand", date: "2024-06-22", status: "In Progress", energyKwh: 100 }),
+      event({ id: "battery", type: "Storage", date: "2024-06-22", status: "Scheduled", energyKwh: 400 }),
+      event({ id: "done", date: "2024-06-23", energyKwh: 70 }),
+      event({ id: "earlier", date: "2024-06-10", status: "Scheduled", energyKwh: 70 })
+    ];
+    assert.deepEqual(forecastBalance(events, new Date(2024, 5, 1), "2024-06-15"), {
+      from: "2024-06-15",
+      forecastKwh: 120,
+      forecastLowKwh: 80,
+      forecastHighKwh: 160,
+      scheduledSupplyKwh: 50,
+      scheduledDemandKwh: 100,
+      balanceKwh: 70,
+      balanceLowKwh: 30,
+      balanceHighKwh: 110,
+      forecastCount: 1
+    });
+  });
+});
+
+describe("parseForecastRequest", () => {
+  it("starts tomorrow unless told otherwise", () => {
+    const parsed = parseForecastRequest({ month: "2024-06" }, new Date(2024, 5, 14));
+    assert.deepEqual(parsed, { ok: true, value: { month: "2024-06", from: "2024-06-15", weather: [] } });
+  });
+
+  it("rejects negative weather factors", () => {
+    const parsed = parseForecastRequest(
+      { month: "2024-06", weather: [{ date: "2024-06-20", factors: { solar: -1 } }] },
+      new Date(2024, 5, 14)
+    );
+    assert.deepEqual(parsed, { ok: false, error: "weather[0].factors must be zero or positive numbers." });
+  });
+});
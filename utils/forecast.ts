@@ -0,0 +1,331 @@
+import { addDays, eachDayOfInterval, endOfMonth, format, isValid, parseISO } from "date-fns";
+import type { ParseResult } from "./events";
+import { translate, translateCount } from "./i18n";
+import type { Locale, MessageKey } from "./i18n";
+import { parseMeterFile, parseTimestamp } from "./meterData";
+import { fromMinutes, minutesPerDay, toMinutes } from "./schedule";
+import type { SiteRegistry } from "./sites";
+import { findAsset } from "./sites";
+import { balanceOf, defaultTaxonomy, lifecycleOf, statusWithLifecycle } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyEventInput } from "./types";
+
+/**
+ * Output relative to a typical day, per weather column: 1.2 means 20% above the historical
+ * average. Columns are matched to assets by id or by a word in the asset or event name,
+ * e.g. "solar" or "wind".
+ */
+export type WeatherDay = {
+  date: string;
+  factors: Record<string, number>;
+};
+
+export type ForecastRequest = {
+  month: string;
+  /** First date to forecast; earlier days in the month are left alone. */
+  from: string;
+  weather: WeatherDay[];
+};
+
+/** Rest-of-month supply from forecasts and scheduled events against scheduled demand. */
+export type ForecastBalance = {
+  from: string;
+  forecastKwh: number;
+  forecastLowKwh: number;
+  forecastHighKwh: number;
+  scheduledSupplyKwh: number;
+  scheduledDemandKwh: number;
+  balanceKwh: number;
+  balanceLowKwh: number;
+  balanceHighKwh: number;
+  forecastCount: number;
+};
+
+type Sample = {
+  event: EnergyEvent;
+  kwh: number;
+  startMinute: number;
+  endMinute: number;
+};
+
+/** Time-of-day buckets that history is grouped into; each becomes at most one forecast per day. */
+const dayparts: { name: MessageKey; from: number; to: number }[] = [
+  { name: "daypartNight", from: 0, to: 6 * 60 },
+  { name: "daypartMorning", from: 6 * 60, to: 12 * 60 },
+  { name: "daypartAfternoon", from: 12 * 60, to: 18 * 60 },
+  { name: "daypartEvening", from: 18 * 60, to: 24 * 60 }
+];
+
+/** z-score for an 80% two-sided band. */
+const bandZ = 1.2816;
+
+/** With a single sample there is no spread to learn from, so assume ±30%. */
+const fallbackSpread = 0.3;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const roundKwh = (value: number) => Math.round(value * 10) / 10;
+
+/** Snaps a learned time to the 15-minute grid the planner uses. */
+const snapTime = (minute: number) => fromMinutes(Math.round(minute / 15) * 15);
+
+/**
+ * Completed supply with a trustworthy output: metered events use their actual kWh, and
+ * forecasts that were marked completed without a meter reading are skipped as they only echo
+ * the forecast.
+ */
+const toSample = (event: EnergyEvent, taxonomy: Taxonomy): Sample | null => {
+  if (
+    balanceOf(taxonomy, event.type) !== "supply" ||
+    lifecycleOf(taxonomy, event.status) !== "completed" ||
+    (event.forecast && event.actualKwh === undefined)
+  ) {
+    return null;
+  }
+  const startMinute = toMinutes(event.startTime);
+  let endMinute = toMinutes(event.endTime);
+  if (endMinute <= startMinute) {
+    endMinute += minutesPerDay;
+  }
+  return { event, kwh: event.actualKwh ?? event.energyKwh, startMinute, endMinute };
+};
+
+const sourceKey = (event: EnergyEvent) => event.assetId ?? `title:${event.title.replace(/\s*\(forecast\)$/i, "")}`;
+
+/** Samples from the same calendar month, widening to neighbouring months and then all history when there are none. */
+const seasonalSamples = (samples: Sample[], month: number) => {
+  const monthOf = (sample: Sample) => Number(sample.event.date.slice(5, 7));
+  const distance = (sample: Sample) =>
+    Math.min(Math.abs(monthOf(sample) - month), 12 - Math.abs(monthOf(sample) - month));
+  for (const maxDistance of [0, 1]) {
+    const matched = samples.filter((sample) => distance(sample) <= maxDistance);
+    if (matched.length > 0) {
+      return matched;
+    }
+  }
+  return samples;
+};
+
+const weatherFactorFor = (weather: WeatherDay[], date: string, names: string[]) => {
+  const day = weather.find((entry) => entry.date === date);
+  if (!day) {
+    return 1;
+  }
+  const lowered = names.map((name) => name.toLowerCase());
+  const column = Object.keys(day.factors).find((key) => lowered.some((name) => name === key || name.includes(key)));
+  return column ? day.factors[column] : 1;
+};
+
+/**
+ * Builds tentative events for every day from `request.from` to the end of `request.month`, one
+ * per asset and time of day that has completed supply history, in the category of that history.
+ * Days on which the asset already has non-forecast supply are skipped. Notes are in `locale`.
+ */
+export const forecastProduction = (
+  events: EnergyEvent[],
+  registry: SiteRegistry,
+  request: ForecastRequest,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  locale: Locale = "en-US"
+): EnergyEventInput[] => {
+  const monthStart = parseISO(`${request.month}-01`);
+  const start = parseISO(request.from > `${request.month}-01` ? request.from : `${request.month}-01`);
+  const end = endOfMonth(monthStart);
+  if (start > end) {
+    return [];
+  }
+  const samplesBySource = new Map<string, Sample[]>();
+  for (const event of events) {
+    const sample = toSample(event, taxonomy);
+    if (sample) {
+      samplesBySource.set(sourceKey(event), [...(samplesBySource.get(sourceKey(event)) ?? []), sample]);
+    }
+  }
+  const covered = new Set(
+    events
+      .filter((event) => balanceOf(taxonomy, event.type) === "supply" && !event.forecast)
+      .map((event) => `${sourceKey(event)}|${event.date}`)
+  );
+
+  const tentative = statusWithLifecycle(taxonomy, "tentative") ?? "Opportunity";
+  const forecasts: EnergyEventInput[] = [];
+  samplesBySource.forEach((samples, key) => {
+    const seasonal = seasonalSamples(samples, monthStart.getMonth() + 1);
+    const latest = [...samples].sort((a, b) => b.event.date.localeCompare(a.event.date))[0].event;
+    const asset = findAsset(registry, latest.assetId);
+    const baseTitle = latest.title.replace(/\s*\(forecast\)$/i, "");
+    for (const daypart of dayparts) {
+      const inPart = seasonal.filter((sample) => sample.startMinute >= daypart.from && sample.startMinute < daypart.to);
+      if (inPart.length === 0) {
+        continue;
+      }
+      const outputs = inPart.map((sample) => sample.kwh);
+      const mean = outputs.reduce((acc, kwh) => acc + kwh, 0) / outputs.length;
+      const deviation =
+        outputs.length > 1
+          ? Math.sqrt(outputs.reduce((acc, kwh) => acc + (kwh - mean) ** 2, 0) / (outputs.length - 1))
+          : mean * (fallbackSpread / bandZ);
+      const startMinute = median(inPart.map((sample) => sample.startMinute));
+      const endMinute = median(inPart.map((sample) => sample.endMinute));
+      // Weather can push a forecast up, but never past what the asset can deliver in the window.
+      const capacityKwh = asset ? (asset.ratedKw * (endMinute - startMinute)) / 60 : Number.POSITIVE_INFINITY;
+      for (const day of eachDayOfInterval({ start, end })) {
+        const date = format(day, "yyyy-MM-dd");
+        if (covered.has(`${key}|${date}`)) {
+          continue;
+        }
+        const factor = weatherFactorFor(request.weather, date, [latest.assetId ?? "", asset?.name ?? "", baseTitle]);
+        const expected = Math.min(capacityKwh, mean * factor);
+        const low = Math.min(capacityKwh, Math.max(0, (mean - bandZ * deviation) * factor));
+        const high = Math.min(capacityKwh, (mean + bandZ * deviation) * factor);
+        forecasts.push({
+          title: `${baseTitle} (forecast)`,
+          type: latest.type,
+          date,
+          startTime: snapTime(startMinute),
+          endTime: snapTime(endMinute),
+          energyKwh: Math.max(0.1, roundKwh(expected)),
+          status: tentative,
+          assetId: latest.assetId,
+          notes: translateCount(locale, "forecastNote", inPart.length, { daypart: translate(locale, daypart.name) }),
+          forecast: {
+            lowKwh: roundKwh(low),
+            highKwh: roundKwh(high),
+            samples: inPart.length,
+            weatherFactor: Math.round(factor * 100) / 100
+          }
+        });
+      }
+    }
+  });
+  return forecasts.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+};
+
+/** Forecast events the next run may replace: ones a user has scheduled or completed are kept. */
+export const isReplaceableForecast = (event: EnergyEvent, taxonomy: Taxonomy = defaultTaxonomy) =>
+  Boolean(event.forecast) && lifecycleOf(taxonomy, event.status) === "tentative";
+
+/** Upcoming planned and in-progress events set the base; storage is left out as it only moves energy around. */
+export const forecastBalance = (
+  events: EnergyEvent[],
+  month: Date,
+  from: string,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ForecastBalance => {
+  const monthKey = format(month, "yyyy-MM");
+  const upcoming = events.filter((event) => event.date.startsWith(monthKey) && event.date >= from);
+  const forecasts = upcoming.filter((event) => event.forecast);
+  const scheduled = upcoming.filter((event) => {
+    const lifecycle = lifecycleOf(taxonomy, event.status);
+    return !event.forecast && (lifecycle === "planned" || lifecycle === "active");
+  });
+  const sum = (list: EnergyEvent[], pick: (event: EnergyEvent) => number) =>
+    list.reduce((acc, event) => acc + pick(event), 0);
+  const forecastKwh = sum(forecasts, (event) => event.energyKwh);
+  const forecastLowKwh = sum(forecasts, (event) => event.forecast?.lowKwh ?? event.energyKwh);
+  const forecastHighKwh = sum(forecasts, (event) => event.forecast?.highKwh ?? event.energyKwh);
+  const scheduledSupplyKwh = sum(
+    scheduled.filter((event) => balanceOf(taxonomy, event.type) === "supply"),
+    (event) => event.energyKwh
+  );
+  const scheduledDemandKwh = sum(
+    scheduled.filter((event) => balanceOf(taxonomy, event.type) === "consumption"),
+    (event) => event.energyKwh
+  );
+  const base = scheduledSupplyKwh - scheduledDemandKwh;
+  return {
+    from,
+    forecastKwh,
+    forecastLowKwh,
+    forecastHighKwh,
+    scheduledSupplyKwh,
+    scheduledDemandKwh,
+    balanceKwh: base + forecastKwh,
+    balanceLowKwh: base + forecastLowKwh,
+    balanceHighKwh: base + forecastHighKwh,
+    forecastCount: forecasts.length
+  };
+};
+
+/** The first day a forecast run should cover: tomorrow. */
+export const forecastStartDate = (today: Date) => format(addDays(today, 1), "yyyy-MM-dd");
+
+/**
+ * Reads a weather file: a date (or timestamp) column plus numeric columns per source. Values
+ * above 5 are read as percentages of typical output (120 = 1.2); timestamped rows are averaged
+ * per day.
+ */
+export const parseWeatherFile = (text: string, fileName: string): ParseResult<WeatherDay[]> => {
+  const table = parseMeterFile(text, fileName);
+  const dateColumn = table.columns.find((column) => /date|time|day/i.test(column)) ?? table.columns[0];
+  const valueColumns = table.columns.filter((column) => column !== dateColumn);
+  if (!dateColumn || valueColumns.length === 0 || table.rows.length === 0) {
+    return { ok: false, error: "Weather files need a date column and at least one factor column." };
+  }
+  const totals = new Map<string, Record<string, { sum: number; count: number }>>();
+  for (const row of table.rows) {
+    const stamp = parseTimestamp(row[dateColumn] ?? "");
+    if (!stamp) {
+      return { ok: false, error: `Could not read a date from "${row[dateColumn]}".` };
+    }
+    const date = format(stamp, "yyyy-MM-dd");
+    const day = totals.get(date) ?? {};
+    for (const column of valueColumns) {
+      const value = Number(row[column]);
+      if (row[column] === "" || Number.isNaN(value)) {
+        continue;
+      }
+      const key = column.trim().toLowerCase();
+      const total = day[key] ?? { sum: 0, count: 0 };
+      day[key] = { sum: total.sum + (value > 5 ? value / 100 : value), count: total.count + 1 };
+    }
+    totals.set(date, day);
+  }
+  return {
+    ok: true,
+    value: Array.from(totals.entries()).map(([date, columns]) => ({
+      date,
+      factors: Object.fromEntries(
+        Object.entries(columns).map(([key, total]) => [key, Math.round((total.sum / total.count) * 100) / 100])
+      )
+    }))
+  };
+};
+
+const isDate = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export const parseForecastRequest = (payload: unknown, today: Date): ParseResult<ForecastRequest> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  if (typeof source.month !== "string" || !/^\d{4}-\d{2}$/.test(source.month)) {
+    return { ok: false, error: "month must use the yyyy-MM format." };
+  }
+  if (source.from !== undefined && !isDate(source.from)) {
+    return { ok: false, error: "from must use the yyyy-MM-dd format." };
+  }
+  const weather: WeatherDay[] = [];
+  if (source.weather !== undefined) {
+    if (!Array.isArray(source.weather)) {
+      return { ok: false, error: "weather must be an array of days." };
+    }
+    for (const [index, raw] of (source.weather as unknown[]).entries()) {
+      const day = (raw ?? {}) as Record<string, unknown>;
+      const factors = (day.factors ?? {}) as Record<string, unknown>;
+      if (!isDate(day.date) || typeof factors !== "object") {
+        return { ok: false, error: `weather[${index}] needs a date and a factors object.` };
+      }
+      if (Object.values(factors).some((value) => typeof value !== "number" || !(value >= 0))) {
+        return { ok: false, error: `weather[${index}].factors must be zero or positive numbers.` };
+      }
+      weather.push({ date: day.date, factors: factors as Record<string, number> });
+    }
+  }
+  return {
+    ok: true,
+    value: { month: source.month, from: (source.from as string | undefined) ?? forecastStartDate(today), weather }
+  };
+};
@@ -0,0 +1,81 @@
+import type { Locale as DateLocale } from "date-fns";
+import { de, enGB, enUS, es, fr } from "date-fns/locale";
+import { german } from "./locales/de-DE";
+import { british } from "./locales/en-GB";
+import { english } from "./locales/en-US";
+import { spanish } from "./locales/es-ES";
+import { french } from "./locales/fr-FR";
+
+export type Locale = "en-US" | "en-GB" | "de-DE" | "fr-FR" | "es-ES";
+
+export const locales: Locale[] = ["en-US", "en-GB", "de-DE", "fr-FR", "es-ES"];
+
+/** Each language in itself, as people look for their own language in the list. */
+export const localeLabels: Record<Locale, string> = {
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "de-DE": "Deutsch",
+  "fr-FR": "Français",
+  "es-ES": "Español"
+};
+
+export const dateLocales: Record<Locale, DateLocale> = {
+  "en-US": enUS,
+  "en-GB": enGB,
+  "de-DE": de,
+  "fr-FR": fr,
+  "es-ES": es
+};
+
+/** Weekday names from Sunday, as date-fns and `Recurrence.byWeekday` count them. */
+export const weekdayNames = (locale: Locale, width: "long" | "short" = "short") => {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday: width, timeZone: "UTC" });
+  // 7 January 2024 was a Sunday.
+  return Array.from({ length: 7 }, (_unused, day) => formatter.format(Date.UTC(2024, 0, 7 + day)));
+};
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+export type MessageKey = keyof typeof english;
+
+/** Missing translations fall back to English. */
+export type Messages = Partial<Record<MessageKey, string>>;
+
+export type MessageParams = Record<string, string | number>;
+
+/** Messages counted with `translateCount`, each a `…One` and `…Other` pair. */
+export type CountedKey = {
+  [Key in MessageKey]: Key extends `${infer Base}Other` ? (`${Base}One` extends MessageKey ? Base : never) : never;
+}[MessageKey];
+
+const messages: Record<Locale, Messages> = {
+  "en-US": english,
+  "en-GB": british,
+  "de-DE": german,
+  "fr-FR": french,
+  "es-ES": spanish
+};
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}) =>
+  (messages[locale][key] ?? english[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+/** Picks the `…One` or `…Other` form by the locale's plural rules; `{count}` is filled in. */
+export const translateCount = (locale: Locale, key: CountedKey, count: number, params: MessageParams = {}) => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  const form = rules.select(count) === "one" ? "One" : "Other";
+  return translate(locale, `${key}${form}` as MessageKey, { count, ...params });
+};
+
+/** `t` and `tn` (for counted messages) bound to a locale, as components use them. */
+export const translatorFor = (locale: Locale) => ({
+  t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+  tn: (key: CountedKey, count: number, params?: MessageParams) => translateCount(locale, key, count, params)
+});
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { draftToInput, draftWallClock, eventsToICalendar, parseICalendar } from "./ical";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "event-1",
+  title: "Peak shaving, phase 1",
+  type: "Storage",
+  date: "2024-06-03",
+  startTime: "17:00",
+  endTime: "19:30",
+  energyKwh: 240,
+  status: "Scheduled",
+  efficiencyScore: 82,
+  notes: "Discharge; keep 20% reserve\nCheck inverter",
+  ...overrides
+});
+
+const stamp = new Date(Date.UTC(2024, 5, 1, 8, 30));
+
+const linesOf = (text: string) => text.replace(/\r\n[ \t]/g, "").split("\r\n");
+
+describe("eventsToICalendar", () => {
+  it("writes DTSTAMP in UTC", () => {
+    const text = eventsToICalendar([event()], "Plan", undefined, undefined, stamp);
+    assert.ok(linesOf(text).includes("DTSTAMP:20240601T083000Z"));
+  });
+
+  it("writes one-off events in a known zone as UTC instants", () => {
+    const text = eventsToICalendar([event()], "Plan", undefined, () => "America/New_York", stamp);
+    const lines = linesOf(text);
+    assert.ok(lines.includes("DTSTART:20240603T210000Z"));
+    assert.ok(lines.includes("DTEND:20240603T233000Z"));
+  });
+
+  it("gives a zoned series a UTC UNTIL and zoned exceptions", () => {
+    const series = event({
+      recurrence: { frequency: "daily", interval: 1, until: "2024-06-30", exceptions: ["2024-06-10"] }
+    });
+    const lines = linesOf(eventsToICalendar([series], "Plan", undefined, () => "America/New_York", stamp));
+    assert.ok(lines.includes("DTSTART;TZID=America/New_York:20240603T170000"));
+    assert.ok(lines.includes("RRULE:FREQ=DAILY;UNTIL=20240701T035959Z"));
+    assert.ok(lines.includes("EXDATE;TZID=America/New_York:20240610T170000"));
+  });
+
+  it("defines each TZID it uses with its offset changes", () => {
+    const series = event({ recurrence: { frequency: "weekly", interval: 1, until: "2024-12-31" } });
+    const lines = linesOf(eventsToICalendar([series], "Plan", undefined, () => "Europe/Berlin", stamp));
+    const start = lines.indexOf("BEGIN:VTIMEZONE");
+    assert.ok(start > 0 && start < lines.indexOf("BEGIN:VEVENT"));
+    assert.deepEqual(lines.slice(start, lines.indexOf("END:VTIMEZONE") + 1), [
+      "BEGIN:VTIMEZONE",
+      "TZID:Europe/Berlin",
+      "BEGIN:STANDARD",
+      "DTSTART:20240101T010000",
+      "TZOFFSETFROM:+0100",
+      "TZOFFSETTO:+0100",
+      "END:STANDARD",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20240331T020000",
+      "TZOFFSETFROM:+0100",
+      "TZOFFSETTO:+0200",
+      "END:DAYLIGHT",
+      "BEGIN:STANDARD",
+      "DTSTART:20241027T030000",
+      "TZOFFSETFROM:+0200",
+      "TZOFFSETTO:+0100",
+      "END:STANDARD",
+      "END:VTIMEZONE"
+    ]);
+    assert.ok(
+      !linesOf(eventsToICalendar([event()], "Plan", undefined, () => "Europe/Berlin", stamp)).includes(
+        "BEGIN:VTIMEZONE"
+      )
+    );
+  });
+
+  it("keeps a floating UNTIL for a floating series", () => {
+    const series = event({ recurrence: { frequency: "weekly", interval: 2, byWeekday: [1], until: "2024-06-30" } });
+    const lines = linesOf(eventsToICalendar([series], "Plan", undefined, undefined, stamp));
+    assert.ok(lines.includes("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240630T235959"));
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const title = "Überschusseinspeisung Süd — Wärmepumpe vorheizen ".repeat(4).trim();
+    const text = eventsToICalendar([event({ title })], "Plan", undefined, undefined, stamp);
+    const encoder = new TextEncoder();
+    for (const line of text.split("\r\n")) {
+      assert.ok(encoder.encode(line).length <= 75, line);
+    }
+    assert.equal(parseICalendar(text)[0].title, title);
+  });
+});
+
+describe("parseICalendar", () => {
+  it("round-trips floating events, energy fields and recurrence", () => {
+    const series = event({
+      recurrence: { frequency: "weekly", interval: 1, byWeekday: [1, 3], count: 6, exceptions: ["2024-06-05"] }
+    });
+    const [draft] = parseICalendar(eventsToICalendar([series], "Plan", undefined, undefined, stamp));
+    assert.deepEqual(draft.issues, []);
+    assert.equal(draft.uid, "event-1@energy-calendar");
+    assert.deepEqual(draftToInput(draft), {
+      title: series.title,
+      type: "Storage",
+      date: "2024-06-03",
+      startTime: "17:00",
+      endTime: "19:30",
+      energyKwh: 240,
+      status: "Scheduled",
+      efficiencyScore: 82,
+      notes: series.notes,
+      recurrence: series.recurrence
+    });
+  });
+
+  it("reads UTC and TZID times as instants and imports them in the site's zone", () => {
+    const calendar = (start: string, end: string) =>
+      ["BEGIN:VCALENDAR", "BEGIN:VEVENT", "UID:abc", start, end, "X-ENERGY-KWH:50", "END:VEVENT", "END:VCALENDAR"].join(
+        "\r\n"
+      );
+    const [utc] = parseICalendar(calendar("DTSTART:20240603T210000Z", "DTEND:20240603T233000Z"));
+    assert.deepEqual(draftWallClock(utc, "America/New_York"), {
+      date: "2024-06-03",
+      startTime: "17:00",
+      endTime: "19:30"
+    });
+    assert.deepEqual(draftWallClock(utc, "Europe/Berlin"), {
+      date: "2024-06-03",
+      startTime: "23:00",
+      endTime: "01:30"
+    });
+    const [zoned] = parseICalendar(
+      calendar('DTSTART;TZID="Europe/Berlin":20240603T090000', "DTEND;TZID=Europe/Berlin:20240603T100000")
+    );
+    assert.equal(zoned.startsAt, "2024-06-03T07:00:00.000Z");
+    assert.equal(draftToInput({ ...zoned, type: "Demand" }, "Europe/London")?.startTime, "08:00");
+  });
+
+  it("keeps times with an unknown TZID as written and says so", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=W. Europe Standard Time:20240603T090000",
+      "DTEND;TZID=W. Europe Standard Time:20240603T100000",
+      "X-ENERGY-TYPE:Demand",
+      "X-ENERGY-KWH:50",
+      "END:VEVENT",
+      "END:VCALENDAR"
+    ].join("\r\n");
+    const [draft] = parseICalendar(text);
+    assert.equal(draft.startsAt, undefined);
+    assert.equal(draftToInput(draft, "Europe/London")?.startTime, "09:00");
+    assert.deepEqual(draft.issues, [
+      'Unknown time zone "W. Europe Standard Time"; times are taken as local to the event\'s site.'
+    ]);
+  });
+
+  it("flags unknown categories and missing energy for review", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:abc",
+      "DTSTART:20240603",
+      "SUMMARY:Site visit",
+      "CATEGORIES:Meeting",
+      "STATUS:TENTATIVE",
+      "END:VEVENT",
+      "END:VCALENDAR"
+    ].join("\r\n");
+    const [draft] = parseICalendar(text);
+    assert.equal(draft.type, null);
+    assert.equal(draft.rawType, "Meeting");
+    assert.equal(draft.status, "Opportunity");
+    assert.deepEqual([draft.startTime, draft.endTime], ["00:00", "23:59"]);
+    assert.deepEqual(draft.issues, ['Unknown category "Meeting".', "No energy amount."]);
+    assert.equal(draftToInput(draft), null);
+  });
+});
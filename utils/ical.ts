@@ -0,0 +1,435 @@
+import { translate, translatorFor } from "./i18n";
+import type { Locale } from "./i18n";
+import { endDateOf } from "./schedule";
+import { defaultTaxonomy, isEnergyType, isEventStatus, lifecycleOf, statusWithLifecycle } from "./taxonomy";
+import type { StatusLifecycle, Taxonomy } from "./taxonomy";
+import {
+  instantsOf,
+  isValidTimeZone,
+  offsetMinutes,
+  offsetTransitions,
+  runtimeTimeZone,
+  utcToZoned,
+  wallClockOf,
+  zonedToUtc
+} from "./timeZones";
+import type { EnergyEvent, EnergyEventInput, EnergyType, EventStatus, Recurrence, RecurrenceFrequency } from "./types";
+
+export const icalProductId = "-//Energy Management Calendar//EN";
+
+/** An event read from an .ics file, before the user has reviewed it. */
+export type ICalDraft = {
+  uid: string;
+  title: string;
+  /** Wall-clock times as written in the file; floating times are taken as local to the event's site. */
+  date: string;
+  startTime: string;
+  endTime: string;
+  /**
+   * The UTC instants of times written in UTC or with a known TZID. These are shown and imported
+   * at the wall-clock times of the zone of the site the event goes to.
+   */
+  startsAt?: string;
+  endsAt?: string;
+  /** The asset the reviewer assigned, which places the event at a site. */
+  assetId?: string;
+  type: EnergyType | null;
+  /** The raw X-ENERGY-TYPE or CATEGORIES value when it did not match a known type. */
+  rawType?: string;
+  status: EventStatus;
+  energyKwh: number | null;
+  efficiencyScore?: number;
+  notes?: string;
+  recurrence?: Recurrence;
+  issues: string[];
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\(n|N|\\|;|,)/g, (_match, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+const encoder = new TextEncoder();
+
+/**
+ * Folds content lines longer than 75 octets as RFC 5545 requires. Lines are measured in UTF-8
+ * and only split between characters, so a multi-byte character is never cut in half.
+ */
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+};
+
+const toICalDate = (date: string) => date.replace(/-/g, "");
+
+const toICalDateTime = (date: string, time: string) => `${toICalDate(date)}T${time.replace(":", "")}00`;
+
+const toICalLocal = (instant: number) => new Date(instant).toISOString().replace(/[-:]/g, "").slice(0, 15);
+
+const toICalUtc = (instant: number) => `${toICalLocal(instant)}Z`;
+
+const toICalOffset = (minutes: number) => {
+  const absolute = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${String(Math.floor(absolute / 60)).padStart(2, "0")}${String(absolute % 60).padStart(2, "0")}`;
+};
+
+/**
+ * A VTIMEZONE listing every offset change of `timeZone` in the given years, each as its own
+ * observance, so clients that do not know the IANA name still place the times correctly.
+ */
+const timeZoneLines = (timeZone: string, fromYear: number, toYear: number) => {
+  const from = Date.UTC(fromYear, 0, 1);
+  const transitions = offsetTransitions(timeZone, from, Date.UTC(toYear + 1, 0, 1));
+  const initial = offsetMinutes(from, timeZone);
+  const observances = [{ instant: from, offsetFrom: initial, offsetTo: initial }, ...transitions];
+  const startsInDaylight = transitions.length > 0 && transitions[0].offsetTo < initial;
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observances.flatMap(({ instant, offsetFrom, offsetTo }, index) => {
+      const kind = (index === 0 ? startsInDaylight : offsetTo > offsetFrom) ? "DAYLIGHT" : "STANDARD";
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${toICalLocal(instant + offsetFrom * 60_000)}`,
+        `TZOFFSETFROM:${toICalOffset(offsetFrom)}`,
+        `TZOFFSETTO:${toICalOffset(offsetTo)}`,
+        `END:${kind}`
+      ];
+    }),
+    "END:VTIMEZONE"
+  ];
+};
+
+const icalStatusOf = (lifecycle: StatusLifecycle) =>
+  lifecycle === "completed" ? "CONFIRMED" : lifecycle === "void" ? "CANCELLED" : "TENTATIVE";
+
+/** UNTIL must be in UTC when DTSTART carries a TZID, and floating when DTSTART is floating. */
+const recurrenceToRRule = (rule: Recurrence, timeZone: string | null) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byWeekday && rule.byWeekday.length > 0 && rule.frequency !== "monthly") {
+    parts.push(`BYDAY=${rule.byWeekday.map((day) => weekdayCodes[day]).join(",")}`);
+  }
+  if (rule.until) {
+    const lastSecond = timeZone
+      ? toICalUtc(zonedToUtc(rule.until, "23:59", timeZone) + 59_000)
+      : `${toICalDate(rule.until)}T235959`;
+    parts.push(`UNTIL=${lastSecond}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(";");
+};
+
+/**
+ * Serializes events to an iCalendar document; the energy fields travel in X-ENERGY-* properties.
+ * One-off events in a known zone are written in UTC. Recurring ones keep their wall-clock time
+ * with a TZID, so the series stays at the same local time across daylight saving changes, and
+ * each TZID gets a VTIMEZONE covering the series' years up to the year after the export or its
+ * UNTIL; events without a zone are written as floating local times.
+ */
+export const eventsToICalendar = (
+  events: EnergyEvent[],
+  calendarName: string,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  timeZoneOf: (event: EnergyEvent) => string | null = () => null,
+  stamp = new Date()
+) => {
+  const dtstamp = toICalUtc(stamp.getTime());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${icalProductId}`,
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    const timeZone = event.recurrence ? timeZoneOf(event) : null;
+    if (timeZone && event.recurrence) {
+      const from = Number(event.date.slice(0, 4));
+      const to = event.recurrence.until
+        ? Number(event.recurrence.until.slice(0, 4))
+        : Math.max(from, stamp.getUTCFullYear()) + 1;
+      const years = zoneYears.get(timeZone);
+      zoneYears.set(timeZone, { from: Math.min(from, years?.from ?? from), to: Math.max(to, years?.to ?? to) });
+    }
+  }
+  zoneYears.forEach(({ from, to }, timeZone) => lines.push(...timeZoneLines(timeZone, from, to)));
+  for (const event of events) {
+    const timeZone = timeZoneOf(event);
+    const instants = timeZone && !event.recurrence ? instantsOf(event, timeZone) : null;
+    const zoneParam = timeZone && event.recurrence ? `;TZID=${timeZone}` : "";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@energy-calendar`,
+      `DTSTAMP:${dtstamp}`,
+      instants
+        ? `DTSTART:${toICalUtc(instants.start)}`
+        : `DTSTART${zoneParam}:${toICalDateTime(event.date, event.startTime)}`,
+      instants
+        ? `DTEND:${toICalUtc(instants.end)}`
+        : `DTEND${zoneParam}:${toICalDateTime(endDateOf(event), event.endTime)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `CATEGORIES:${event.type}`,
+      `STATUS:${icalStatusOf(lifecycleOf(taxonomy, event.status))}`,
+      `X-ENERGY-TYPE:${event.type}`,
+      `X-ENERGY-KWH:${event.energyKwh}`,
+      `X-ENERGY-STATUS:${event.status}`,
+      `X-ENERGY-EFFICIENCY:${event.efficiencyScore}`
+    );
+    if (event.notes) {
+      lines.push(`DESCRIPTION:${escapeText(event.notes)}`);
+    }
+    if (event.recurrence) {
+      lines.push(`RRULE:${recurrenceToRRule(event.recurrence, timeZone)}`);
+      for (const exception of event.recurrence.exceptions ?? []) {
+        lines.push(`EXDATE${zoneParam}:${toICalDateTime(exception, event.startTime)}`);
+      }
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+type ContentLine = { name: string; params: Record<string, string>; value: string };
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const colon = line.indexOf(":");
+  if (colon === -1) {
+    return null;
+  }
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: params.reduce<Record<string, string>>((acc, param) => {
+      const [key, value = ""] = param.split("=");
+      acc[key.toUpperCase()] = value;
+      return acc;
+    }, {}),
+    value: line.slice(colon + 1)
+  };
+};
+
+/**
+ * Reads DATE and DATE-TIME values as written, with the instant of UTC (`Z`) values and of those
+ * with a known `timeZone` (the TZID); floating values and dates have none.
+ */
+const parseICalDateTime = (value: string, timeZone: string | null = null) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hours) {
+    return { date, time: "00:00", allDay: true };
+  }
+  const time = `${hours}:${minutes}`;
+  const instant = utc ? Date.parse(`${date}T${time}:00Z`) : timeZone ? zonedToUtc(date, time, timeZone) : undefined;
+  return { date, time, allDay: false, instant };
+};
+
+/** The date of a parsed value in `timeZone`, e.g. a UTC UNTIL or EXDATE for a series with a TZID. */
+const dateIn = (parsed: ReturnType<typeof parseICalDateTime>, timeZone: string | null) =>
+  parsed && parsed.instant !== undefined && timeZone ? utcToZoned(parsed.instant, timeZone).date : parsed?.date;
+
+/** The TZID parameter when it names a zone this runtime knows; quotes around it are allowed. */
+const timeZoneParam = (property: ContentLine | undefined) => {
+  const tzid = property?.params.TZID?.replace(/^"|"$/g, "");
+  return tzid && isValidTimeZone(tzid) ? tzid : null;
+};
+
+const parseRRule = (
+  value: string,
+  issues: string[],
+  timeZone: string | null,
+  locale: Locale
+): Recurrence | undefined => {
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, partValue = ""] = part.split("=");
+      return [key.toUpperCase(), partValue];
+    })
+  );
+  const frequency = (parts.FREQ ?? "").toLowerCase() as RecurrenceFrequency;
+  if (!["daily", "weekly", "monthly"].includes(frequency)) {
+    issues.push(translate(locale, "unsupportedRepeatRule", { rule: value }));
+    return undefined;
+  }
+  const rule: Recurrence = { frequency, interval: Math.max(1, Number(parts.INTERVAL) || 1) };
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(",")
+      .map((code: string) => weekdayCodes.indexOf(code.slice(-2).toUpperCase()))
+      .filter((day: number) => day >= 0);
+    if (days.length > 0) {
+      rule.byWeekday = days;
+    }
+  }
+  const until = parts.UNTIL ? dateIn(parseICalDateTime(parts.UNTIL), timeZone) : undefined;
+  if (until) {
+    rule.until = until;
+  }
+  if (parts.COUNT && Number(parts.COUNT) > 0) {
+    rule.count = Number(parts.COUNT);
+  }
+  return rule;
+};
+
+/** Statuses the taxonomy does not know fall back on the iCalendar STATUS, as for files from other calendars. */
+const statusFromICal = (taxonomy: Taxonomy, value: string | undefined, dtStatus: string | undefined): EventStatus => {
+  if (isEventStatus(taxonomy, value)) {
+    return value;
+  }
+  if (dtStatus === "CANCELLED") {
+    return statusWithLifecycle(taxonomy, "void") ?? "Opportunity";
+  }
+  return dtStatus === "TENTATIVE" ? "Opportunity" : "Scheduled";
+};
+
+const draftFromProperties = (
+  properties: ContentLine[],
+  index: number,
+  taxonomy: Taxonomy,
+  locale: Locale
+): ICalDraft | null => {
+  const { t } = translatorFor(locale);
+  const first = (name: string) => properties.find((property) => property.name === name);
+  const dtStart = first("DTSTART");
+  const timeZone = timeZoneParam(dtStart);
+  const start = dtStart ? parseICalDateTime(dtStart.value, timeZone) : null;
+  if (!start) {
+    return null;
+  }
+  const issues: string[] = [];
+  const tzid = dtStart?.params.TZID;
+  if (tzid && !timeZone) {
+    issues.push(t("unknownTimeZone", { zone: tzid }));
+  }
+  const dtEnd = first("DTEND");
+  const end = dtEnd ? parseICalDateTime(dtEnd.value, timeZoneParam(dtEnd)) : null;
+  const rawType = first("X-ENERGY-TYPE")?.value ?? first("CATEGORIES")?.value.split(",")[0];
+  const type = rawType && isEnergyType(taxonomy, rawType.trim()) ? rawType.trim() : null;
+  if (!type) {
+    issues.push(rawType ? t("unknownCategory", { category: rawType }) : t("noEnergyCategory"));
+  }
+  const kwh = Number(first("X-ENERGY-KWH")?.value);
+  const energyKwh = Number.isFinite(kwh) && kwh > 0 ? kwh : null;
+  if (energyKwh === null) {
+    issues.push(t("noEnergyAmount"));
+  }
+  const efficiency = Number(first("X-ENERGY-EFFICIENCY")?.value);
+  const rrule = first("RRULE");
+  const recurrence = rrule ? parseRRule(rrule.value, issues, timeZone, locale) : undefined;
+  if (recurrence) {
+    const exceptions = properties
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) =>
+        property.value.split(",").map((value) => parseICalDateTime(value, timeZoneParam(property)))
+      )
+      .map((parsed) => dateIn(parsed, timeZone))
+      .filter((date): date is string => Boolean(date));
+    if (exceptions.length > 0) {
+      recurrence.exceptions = exceptions;
+    }
+  }
+  const description = first("DESCRIPTION")?.value;
+
+  return {
+    uid: first("UID")?.value ?? `import-${index}`,
+    title: unescapeText(first("SUMMARY")?.value ?? "").trim() || t("importedEvent"),
+    date: start.date,
+    startTime: start.time,
+    endTime: end && !end.allDay ? end.time : "23:59",
+    ...(start.instant !== undefined && end?.instant !== undefined
+      ? { startsAt: new Date(start.instant).toISOString(), endsAt: new Date(end.instant).toISOString() }
+      : {}),
+    type,
+    rawType: type ? undefined : rawType,
+    status: statusFromICal(taxonomy, first("X-ENERGY-STATUS")?.value, first("STATUS")?.value.toUpperCase()),
+    energyKwh,
+    efficiencyScore: Number.isFinite(efficiency) && efficiency > 0 ? Math.round(efficiency) : undefined,
+    notes: description ? unescapeText(description).trim() || undefined : undefined,
+    recurrence,
+    issues
+  };
+};
+
+/** Parses the VEVENTs of an .ics document into drafts for the import review step; issues are in `locale`. */
+export const parseICalendar = (
+  text: string,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  locale: Locale = "en-US"
+): ICalDraft[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const drafts: ICalDraft[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line === "BEGIN:VEVENT") {
+      current = [];
+      continue;
+    }
+    if (line === "END:VEVENT" && current) {
+      const draft = draftFromProperties(current, drafts.length, taxonomy, locale);
+      if (draft) {
+        drafts.push(draft);
+      }
+      current = null;
+      continue;
+    }
+    if (current) {
+      const parsed = parseContentLine(line);
+      if (parsed) {
+        current.push(parsed);
+      }
+    }
+  }
+  return drafts;
+};
+
+/**
+ * A draft's wall-clock times in the zone of the site it goes to. A series keeps the wall-clock
+ * time of its first occurrence there, so it only matches the file exactly when the zones agree.
+ */
+export const draftWallClock = (draft: ICalDraft, timeZone: string) =>
+  draft.startsAt && draft.endsAt
+    ? wallClockOf(draft.startsAt, draft.endsAt, timeZone)
+    : { date: draft.date, startTime: draft.startTime, endTime: draft.endTime };
+
+/** Returns null until the reviewer has resolved the draft's category and energy amount. */
+export const draftToInput = (draft: ICalDraft, timeZone = runtimeTimeZone): EnergyEventInput | null =>
+  draft.type && draft.energyKwh
+    ? {
+        title: draft.title,
+        type: draft.type,
+        ...draftWallClock(draft, timeZone),
+        ...(draft.assetId ? { assetId: draft.assetId } : {}),
+        energyKwh: draft.energyKwh,
+        status: draft.status,
+        efficiencyScore: draft.efficiencyScore,
+        notes: draft.notes,
+        recurrence: draft.recurrence
+      }
+    : null;
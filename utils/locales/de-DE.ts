@@ -0,0 +1,638 @@
+import type { Messages } from "../i18n";
+
+export const german: Messages = {
+  title: "Energiemanagement-Kalender",
+  subtitle:
+    "Planen, terminieren und bilanzieren Sie dezentrale Energieressourcen über Ihren gesamten Betrieb. Stimmen Sie Erzeugung, Speicherung und Verbrauch ab, um Kosten zu senken und Resilienzziele einzuhalten.",
+  allSites: "Alle Standorte (Portfolio)",
+  manageSites: "Standorte verwalten",
+  categoriesAndStatuses: "Kategorien & Status",
+  analytics: "Auswertungen",
+  generateReport: "Bericht erstellen",
+  reportCsv: "Bericht als CSV",
+  auditLog: "Änderungsprotokoll",
+  users: "Benutzer",
+  preferences: "Einstellungen",
+  signedInAs: "Angemeldet als {name} ({role})",
+  signOut: "Abmelden",
+  netBalance: "Nettobilanz",
+  filtered: "Gefiltert",
+  liveNet: "Live-Bilanz",
+  energyCost: "Energiekosten",
+  exportRevenue: "Einspeiseerlös",
+  netBill: "Nettorechnung",
+  production: "Erzeugung",
+  consumption: "Verbrauch",
+  storageNet: "Speicher netto",
+  forecastBalance: "Prognosebilanz",
+  netEmissions: "Nettoemissionen",
+  efficiencyIndex: "Effizienzindex",
+  eventsCompleted: "{completed} von {total} Ereignissen abgeschlossen",
+  loadingSchedule: "Zeitplan wird geladen…",
+  all: "Alle",
+  month: "Monat",
+  week: "Woche",
+  day: "Tag",
+  previous: "← Zurück",
+  today: "Heute",
+  next: "Weiter →",
+  exportIcs: ".ics exportieren",
+  importIcs: ".ics importieren",
+  importMeterData: "Zählerdaten importieren",
+  noActivity: "Nichts geplant",
+  scheduleNewActivity: "Neue Aktivität planen",
+  readOnlyRole: "Ihre Rolle {role} darf den Zeitplan ansehen, aber nicht ändern.",
+  addToCalendar: "Zum Kalender hinzufügen",
+  saving: "Wird gespeichert…",
+  optimizationInsights: "Optimierungshinweise",
+  eventCost: "Kosten {amount}",
+  eventRevenue: "Erlös {amount}",
+  connecting: "Verbinde",
+  live: "Live",
+  offline: "Offline",
+  linkFilterIgnored: "Der Filter des Links wurde ignoriert: {error}",
+  skippedOccurrence: "„{title}“ am {date} ausgelassen",
+  deletedEvent: "„{title}“ gelöscht",
+  noCalendarEvents: "{file} enthält keine Kalenderereignisse.",
+  meterFileNeedsColumns: "{file} braucht mindestens eine Zeitstempel- und eine kWh-Spalte.",
+  fileUnreadable: "{file} konnte nicht gelesen werden: {error}",
+  surplusForExport: "Überschuss zur Einspeisung verfügbar",
+  coverDeficit: "Defizit aus Speicher oder Netz decken",
+  assetsReportingOne: "{count} Anlage meldet · {time}",
+  assetsReportingOther: "{count} Anlagen melden · {time}",
+  noAssetReported: "Keine Anlage hat in den letzten 5 Minuten gemeldet",
+  stopSimulator: "Simulator stoppen",
+  simulateTelemetry: "Telemetrie simulieren",
+  energyCostBreakdown: "{energy} Energie · {demand} Leistungspreis ({peak} Spitze)",
+  atExportRates: "Erzeugung und Bereitstellung zu Einspeisetarifen",
+  creditThisMonth: "Gutschrift in diesem Monat",
+  payableThisMonth: "Fällig in diesem Monat",
+  editTariff: "Tarif bearbeiten",
+  productionBreakdown: "{onSite} vor Ort · {shared} geteilt",
+  scheduledDemand: "{energy} geplanter Bedarf",
+  infeasibleStorageOne: "{count} undurchführbares Speicherereignis",
+  infeasibleStorageOther: "{count} undurchführbare Speicherereignisse",
+  dischargedMinusCharged: "Entladen minus geladen",
+  editStorage: "Speicher bearbeiten",
+  forecastRange:
+    "{low} bis {high} (80-%-Band) · {forecast} Prognose + {supply} geplantes Angebot gegenüber {demand} Bedarf",
+  noForecastYet: "Noch keine Prognose · {demand} Bedarf geplant",
+  restOfMonth: "restlicher Monat",
+  runForecast: "Prognose erstellen",
+  forecastNoteOne: "Prognose aus {count} abgeschlossenen Ereignis ({daypart}).",
+  forecastNoteOther: "Prognose aus {count} abgeschlossenen Ereignissen ({daypart}).",
+  daypartNight: "Nacht",
+  daypartMorning: "Vormittag",
+  daypartAfternoon: "Nachmittag",
+  daypartEvening: "Abend",
+  usingFile: "Verwendet {file}",
+  weatherLoaded: "Wetter ✓",
+  weatherFile: "Wetterdatei",
+  emissionsBreakdown: "{gross} brutto · {avoided} vermieden",
+  carbonProfile: "CO₂-Profil",
+  cancelledOrFailed: "{count} abgesagt oder fehlgeschlagen",
+  siteTotalsOne: "{produced} erzeugt · {consumed} verbraucht · {count} Ereignis",
+  siteTotalsOther: "{produced} erzeugt · {consumed} verbraucht · {count} Ereignisse",
+  viewSite: "Standort anzeigen",
+  portfolio: "Portfolio",
+  dismiss: "Ausblenden",
+  conflictsOne: "{count} Konflikt",
+  conflictsOther: "{count} Konflikte",
+  demandResponseWindowRate: "Demand-Response-Fenster · {rate}/kWh",
+  editEvent: "{title} bearbeiten",
+  recurring: "↻ Wiederkehrend",
+  forecastBand: "Prognose {low}–{high} (80 %)",
+  meteredVsPlan: "Gemessen {energy} · {variance} gegenüber Plan",
+  storageLimit: "Speichergrenze",
+  loadShiftSuggestions: "Vorschläge zur Lastverschiebung",
+  minimizeCost: "Kosten minimieren",
+  maximizeSelfConsumption: "Eigenverbrauch maximieren",
+  loadsInBestSlots: "Flexible Lasten liegen diesen Monat bereits in ihren besten Zeitfenstern.",
+  moveTo: "Verschieben auf {date} {start}–{end}.",
+  shiftSaves: "Spart {amount}; Eigenverbrauch {current} → {proposed}.",
+  soaksUpSurplus: "Nimmt {energy} Überschuss der eigenen Erzeugung auf.",
+  runsInBand: "Läuft in den Stunden „{band}“.",
+  runsAtStandardRate: "Läuft zum Standardtarif.",
+  shiftCosts: "Kostet {amount}; Eigenverbrauch {current} → {proposed}.",
+  accept: "Übernehmen",
+  demandResponseWindowsHeading: "Demand-Response-Fenster",
+  noProgramWindows: "Keine Programmfenster in diesem Monat.",
+  drEarnings: "Bisher {earned} verdient; {projected} aus kommenden Fenstern erwartet.",
+  manageWindows: "Fenster verwalten",
+  automationsActive: "Automatisierungen · {count} aktiv",
+  noRuleChangedAnything: "Noch keine Regel hat etwas geändert.",
+  loggedRunsOne: "{count} protokollierter Lauf; der neueste steht oben.",
+  loggedRunsOther: "{count} protokollierte Läufe; der neueste steht oben.",
+  runNow: "Jetzt ausführen",
+  manageRules: "Regeln verwalten",
+  runFailed: "Fehlgeschlagen: {error}",
+  undo: "Rückgängig",
+
+  // Schedule checks
+  endEqualsStart: "Die Endzeit muss sich von der Startzeit unterscheiden.",
+  runsOvernight: "Läuft über Nacht und endet am nächsten Tag um {time}.",
+  skippedTime:
+    "{time} gibt es am {date} in {zone} wegen der Zeitumstellung nicht; das Ereignis beginnt stattdessen um {actual}.",
+  flexWindowTooShort: "Das flexible Fenster ist kürzer als das Ereignis, daher kann es nie hineinverschoben werden.",
+  aboveRating: "Benötigt im Mittel {power}, mehr als die Nennleistung {rating} von {asset}.",
+  alreadyBooked: "{asset} ist bereits für {title} gebucht ({start}–{end}).",
+  importWouldReach: "Der Bezug von {site} würde am {date} um {hour}:00 {power} erreichen, über dem Limit von {limit}.",
+  exportWouldReach:
+    "Die Einspeisung von {site} würde am {date} um {hour}:00 {power} erreichen, über dem Limit von {limit}.",
+  bothUse: "{first} und {second} nutzen beide {asset}",
+  importPeaksAt: "Bezugsspitze von {site} bei {power} (Limit {limit})",
+  exportPeaksAt: "Einspeisespitze von {site} bei {power} (Limit {limit})",
+
+  // Recommendations
+  netLoadImbalance: "Ungleichgewicht der Nettolast",
+  netLoadImbalanceDetail:
+    "Der Bedarf übersteigt in diesem Monat das Angebot. Verschieben Sie flexible Lasten (z. B. Laden von E-Fahrzeugen) in die frühen Morgenstunden oder erhöhen Sie die Speicherentladung.",
+  positiveNetBalance: "Positive Nettobilanz",
+  positiveNetBalanceDetail:
+    "Sie erzeugen mehr Energie, als Sie verbrauchen. Planen Sie eine Bereitstellung, um den Überschuss zu den nachmittäglichen Spitzenpreisen einzuspeisen.",
+  demandPeaksForecasted: "Bedarfsspitzen prognostiziert",
+  demandPeaksForecastedDetail:
+    "Der prognostizierte Bedarf liegt 20 % über der Erzeugung vor Ort. Erwägen Sie ein Demand-Response-Ereignis oder den Einsatz von Notstromerzeugung.",
+  improveEfficiencyScores: "Effizienzwerte verbessern",
+  improveEfficiencyScoresDetail: "Optimieren Sie die Planung von {titles}, um ihre Effizienz über 70 % zu heben.",
+  moveToLowCarbon: "Lasten in CO₂-arme Stunden verlegen",
+  moveToLowCarbonDetail:
+    "Beginnt {title} um {time}, läuft es mit {intensity} statt {current} gCO2e/kWh und vermeidet etwa {saved} kg CO2e.",
+  moveToLowCarbonMore: "{titles} könnten ebenfalls verlegt werden.",
+
+  // Recurrence
+  everyDayOne: "Jeden Tag",
+  everyDayOther: "Alle {count} Tage",
+  everyWeekOne: "Jede Woche",
+  everyWeekOther: "Alle {count} Wochen",
+  everyMonthOne: "Jeden Monat",
+  everyMonthOther: "Alle {count} Monate",
+  onWeekdays: "am {days}",
+  untilDate: "bis {date}",
+  timesOne: "{count}-mal",
+  timesOther: "{count}-mal",
+
+  // Event form
+  activityTitle: "Titel der Aktivität",
+  activityTitlePlaceholder: "z. B. Vorkühlung der Klimaanlage verschieben",
+  category: "Kategorie",
+  status: "Status",
+  date: "Datum",
+  energyKwh: "Energie (kWh)",
+  startTime: "Startzeit",
+  endTime: "Endzeit",
+  timesLocalToSite: "Zeiten gelten in der Ortszeit des Standorts ({zone}).",
+  notes: "Notizen",
+  notesPlaceholder: "Kontext, Ziele oder #Tags hinzufügen, auf die Automatisierungsregeln achten…",
+  asset: "Anlage",
+  noAsset: "Keine Anlage",
+  direction: "Richtung",
+  charge: "Laden",
+  discharge: "Entladen",
+  flexibleLoad: "Flexible Last — der Optimierer darf ein besseres Zeitfenster vorschlagen",
+  earliestStart: "Frühester Start",
+  latestEnd: "Spätestes Ende",
+  plusMinusDays: "± Tage",
+  demandResponse: "Demand Response",
+  notEnrolled: "Nicht angemeldet",
+  removedWindow: "Entferntes Fenster",
+  committedReductionKw: "Zugesagte Reduktion (kW)",
+  repeat: "Wiederholen",
+  doesNotRepeat: "Keine Wiederholung",
+  daily: "Täglich",
+  weekly: "Wöchentlich",
+  monthly: "Monatlich",
+  everyDays: "Alle … Tage",
+  everyWeeks: "Alle … Wochen",
+  everyMonths: "Alle … Monate",
+  onWeekdaysLabel: "An Wochentagen",
+  ends: "Endet",
+  never: "Nie",
+  onDate: "Am Datum",
+  afterOccurrences: "Nach Terminen",
+  until: "Bis",
+  occurrences: "Termine",
+
+  // Event details
+  efficiencyScore: "Effizienz {score} %",
+  editedOccurrence: "Bearbeiteter Termin eines wiederkehrenden Ereignisses",
+  createdBy: "Erstellt von {creator}",
+  createdAndChangedBy: "Erstellt von {creator}, zuletzt geändert von {editor}",
+  closeEventDetails: "Ereignisdetails schließen",
+  applyChangesTo: "Änderungen anwenden auf",
+  thisOccurrence: "Diesen Termin",
+  wholeSeries: "Ganze Serie",
+  saveChanges: "Änderungen speichern",
+  markCompleted: "Als abgeschlossen markieren",
+  history: "Verlauf",
+  deleteSeries: "Serie löschen",
+  skipOccurrence: "Termin auslassen",
+  delete: "Löschen",
+
+  // Event filters
+  search: "Suche",
+  titleOrNotes: "Titel oder Notizen",
+  efficiencyPercent: "Effizienz %",
+  energyKwhRange: "Energie kWh",
+  minimumOf: "Minimum {field}",
+  maximumOf: "Maximum {field}",
+  min: "min",
+  max: "max",
+  assets: "Anlagen",
+  presets: "Vorlagen",
+  applySavedFilter: "Gespeicherten Filter anwenden",
+  savedFilters: "Gespeicherte Filter…",
+  noSavedFilters: "Keine gespeicherten Filter",
+  deletePreset: "Vorlage löschen",
+  presetName: "Name der Vorlage",
+  saveFilter: "Filter speichern",
+  summaryShowsFiltered: "Übersicht zeigt gefilterte Ereignisse",
+  eventsMatchingOne: "{matched} von {count} Ereignis",
+  eventsMatchingOther: "{matched} von {count} Ereignissen",
+  clearFilters: "Filter zurücksetzen",
+  linkCopied: "Link kopiert",
+  copyLink: "Link kopieren",
+
+  // Preferences
+  preferencesHint:
+    "Diese Einstellungen gelten nur für Ihr Konto. Ereigniszeiten werden immer in der Zeitzone des Standorts angezeigt; Ihr Browser ist auf {zone} eingestellt.",
+  languageAndFormats: "Sprache und Formate",
+  weekStartsOn: "Woche beginnt am",
+  energy: "Energie",
+  power: "Leistung",
+  preferencesPreview: "Vorschau: {date} · {energy} · {power}. Formulare erwarten weiterhin kWh und kW.",
+  cancel: "Abbrechen",
+  savePreferences: "Einstellungen speichern",
+
+  // Audit log
+  auditLogHint:
+    "Jede Änderung am Zeitplan, wer sie vorgenommen hat und wann. Effizienzwerte werden automatisch neu berechnet und nicht aufgeführt.",
+  automation: "Automatisierung",
+  auditCreated: "Erstellt",
+  auditChanged: "Geändert",
+  auditDeleted: "Gelöscht",
+  event: "Ereignis",
+  allEvents: "Alle Ereignisse",
+  user: "Benutzer",
+  everyone: "Alle",
+  noChangesForFilter: "Für diesen Filter sind keine Änderungen erfasst.",
+  noChangesYet: "Noch keine Änderungen erfasst.",
+  when: "Wann",
+  who: "Wer",
+  what: "Was",
+  changes: "Änderungen",
+  showOnlyThisEvent: "Nur dieses Ereignis anzeigen",
+  close: "Schließen",
+
+  // Sign in
+  signInHeading: "Beim Energiemanagement-Kalender anmelden",
+  signInHint:
+    "Konten werden von einem Admin verwaltet. Bei einer neuen Installation muss der Server mit gesetztem {variable} gestartet werden; melden Sie sich als {username} mit diesem Passwort an und ändern Sie es unter Benutzer.",
+  username: "Benutzername",
+  password: "Passwort",
+  signingIn: "Anmeldung läuft…",
+  signIn: "Anmelden",
+
+  // Users
+  roleViewer: "Betrachter",
+  roleOperator: "Operator",
+  roleAdmin: "Admin",
+  roleViewerLabel: "Betrachter · nur lesen",
+  roleOperatorLabel: "Operator · plant und schließt Ereignisse ab",
+  roleAdminLabel: "Admin · auch Einstellungen und Benutzer",
+  usersHint:
+    "Betrachter sehen Zeitplan, Berichte und Änderungsprotokoll. Operatoren erstellen, bearbeiten und schließen außerdem Ereignisse ab. Admins ändern zusätzlich Tarife und andere Einstellungen und verwalten Benutzer. Lassen Sie ein Passwort leer, um es beizubehalten.",
+  name: "Name",
+  role: "Rolle",
+  roleOf: "Rolle von {name}",
+  newUser: "Neuer Benutzer",
+  newPassword: "Neues Passwort",
+  unchanged: "Unverändert",
+  atLeastCharacters: "Mindestens {count} Zeichen",
+  actions: "Aktionen",
+  save: "Speichern",
+  remove: "Entfernen",
+  addUser: "Benutzer hinzufügen",
+
+  // Calendar import
+  importFile: "{fileName} importieren",
+  eventsFoundOne: "{count} Ereignis gefunden.",
+  eventsFoundOther: "{count} Ereignisse gefunden.",
+  icalImportHint:
+    "Weisen Sie markierten Zeilen vor dem Import eine Kategorie und eine Energiemenge zu; Ereignisse, die schon im Kalender stehen, sind abgewählt. Zeiten, die die Datei in UTC oder einer anderen Zone angibt, werden in der Zone des jeweiligen Standorts angezeigt.",
+  include: "Übernehmen",
+  importTitle: "{title} importieren",
+  alreadyOnCalendar: "Bereits im Kalender.",
+  categoryFor: "Kategorie für {title}",
+  choose: "Auswählen…",
+  assetFor: "Anlage für {title}",
+  energyFor: "Energie für {title}",
+  importing: "Wird importiert…",
+  rowsNeedCategoryOrKwhOne: "{count} Zeile braucht eine Kategorie oder kWh",
+  rowsNeedCategoryOrKwhOther: "{count} Zeilen brauchen eine Kategorie oder kWh",
+  importEventsOne: "{count} Ereignis importieren",
+  importEventsOther: "{count} Ereignisse importieren",
+  unsupportedRepeatRule: "Nicht unterstützte Wiederholungsregel „{rule}“; als einzelnes Ereignis importiert.",
+  unknownTimeZone: "Unbekannte Zeitzone „{zone}“; Zeiten gelten in der Ortszeit des Standorts.",
+  unknownCategory: "Unbekannte Kategorie „{category}“.",
+  noEnergyCategory: "Keine Energiekategorie.",
+  noEnergyAmount: "Keine Energiemenge.",
+  importedEvent: "Importiertes Ereignis",
+
+  // Meter import
+  meteredActivity: "Gemessene Aktivität",
+  reconcileMeterData: "Zählerdaten abgleichen · {fileName}",
+  rowsReadOne: "{count} Zeile gelesen.",
+  rowsReadOther: "{count} Zeilen gelesen.",
+  meterImportHint:
+    "Ordnen Sie die Zeitstempel- und Energiespalten zu und prüfen Sie in der Vorschau, wie die Messwerte zu geplanten Ereignissen passen, bevor Sie sie übernehmen.",
+  timestampColumn: "Zeitstempelspalte",
+  kwhColumn: "kWh-Spalte",
+  intervalLength: "Intervalllänge",
+  hourly: "Stündlich",
+  minutesCount: "{count} Minuten",
+  timestampMarks: "Zeitstempel markiert",
+  intervalStart: "Intervallbeginn",
+  intervalEnd: "Intervallende",
+  meterCategory: "Zählerkategorie",
+  titleForUnmatched: "Titel für nicht zugeordnete Messwerte",
+  meterMeasures: "Zähler misst",
+  wholeSiteMeter: "{site} — gesamter Standort",
+  rowsSkippedOne: "{count} Zeile übersprungen",
+  rowsSkippedOther: "{count} Zeilen übersprungen",
+  unreadableMeterRow: "Zeile {row}: Zeitstempel oder kWh nicht lesbar.",
+  planned: "Geplant",
+  metered: "Gemessen",
+  variance: "Abweichung",
+  intervalsToOne: "{count} Intervall → {status}",
+  intervalsToOther: "{count} Intervalle → {status}",
+  newTitle: "Neu · {title}",
+  noReadingsOverlap: "Keine Messwerte überschneiden sich mit {type}-Ereignissen, und keiner enthält Energie.",
+  applying: "Wird übernommen…",
+  completeEventsOne: "{count} Ereignis abschließen · {created} erstellen",
+  completeEventsOther: "{count} Ereignisse abschließen · {created} erstellen",
+  matching: "Wird abgeglichen…",
+  previewIntervalsOne: "Vorschau für {count} Intervall",
+  previewIntervalsOther: "Vorschau für {count} Intervalle",
+  createdFromIntervalsOne: "Aus {count} gemessenen Intervall erstellt.",
+  createdFromIntervalsOther: "Aus {count} gemessenen Intervallen erstellt.",
+
+  // Tariff
+  newBand: "Neues Band",
+  timeOfUseTariff: "Zeitvariabler Tarif",
+  tariffHint:
+    "Bänder werden von oben nach unten geprüft; das erste Band, das eine Minute abdeckt, bestimmt ihren Preis. Minuten außerhalb aller Bänder nutzen die Standardpreise. Monate sind Zahlen (6, 7, 8 für Juni–August); leer lassen für das ganze Jahr.",
+  currency: "Währung",
+  defaultImportPerKwh: "Standardbezug / kWh",
+  defaultImportRate: "Standardbezugspreis",
+  defaultExportPerKwh: "Standardeinspeisung / kWh",
+  defaultExportRate: "Standardeinspeisepreis",
+  demandChargePerPeakKw: "Leistungspreis / Spitzen-kW",
+  demandCharge: "Leistungspreis",
+  band: "Band",
+  from: "Von",
+  to: "Bis",
+  days: "Tage",
+  months: "Monate",
+  import: "Bezug",
+  export: "Einspeisung",
+  bandName: "Name des Bands",
+  importRate: "Bezugspreis",
+  exportRate: "Einspeisepreis",
+  weekdays: "Werktage",
+  weekends: "Wochenenden",
+  allYear: "Ganzjährig",
+  addBand: "Band hinzufügen",
+  saveTariff: "Tarif speichern",
+
+  // Carbon profile
+  loadedFileReview: "{fileName} geladen. Prüfen Sie die Werte und speichern Sie, um sie zu übernehmen.",
+  gridCarbonIntensity: "CO₂-Intensität des Netzes",
+  carbonHint:
+    "Stündliche gCO2e pro kWh für Emissionen, vermiedene Emissionen und Effizienzwerte. Laden Sie ein JSON-Array mit 24 Werten hoch oder eine CSV mit Stunde (oder Zeitstempel) und Intensität; Zeilen mit Zeitstempel werden je Tagesstunde gemittelt.",
+  uploadProfile: "Profil hochladen",
+  resetToDefault: "Auf Standard zurücksetzen",
+  saveProfile: "Profil speichern",
+
+  // Storage assets
+  storageAssets: "Speicheranlagen",
+  storageAssetsHint:
+    "Jeder Monat wird ab dem Startladestand simuliert. Der Gesamtwirkungsgrad ist ein Anteil (0,9 behält 90 % der geladenen Energie); Speicherereignisse ohne Anlage nutzen die erste der Liste. Speicheranlagen fügen Sie im Standortregister hinzu oder entfernen sie dort.",
+  capacityKwh: "Kapazität kWh",
+  maxChargeKw: "Max. Laden kW",
+  maxDischargeKw: "Max. Entladen kW",
+  roundTrip: "Gesamtwirkungsgrad",
+  minSocPercent: "Min. Ladestand %",
+  startSocPercent: "Start-Ladestand %",
+  assetName: "Name der Anlage",
+  saveAssets: "Anlagen speichern",
+
+  // Sites
+  newSite: "Neuer Standort",
+  newAsset: "Neue Anlage",
+  sitesAndAssets: "Standorte & Anlagen",
+  sitesHint:
+    "Ereignisse, die mit einer Anlage verknüpft sind, zählen zu ihrem Standort. Ein Standort lässt sich erst entfernen, wenn er keine Anlagen mehr hat; Ereignisse einer entfernten Anlage fallen auf die Portfoliosummen zurück. Netzlimits begrenzen den stündlichen Nettobezug und die Nettoeinspeisung des Standorts; leer lassen für einen unbegrenzten Anschluss. Ereigniszeiten gelten in der Zeitzone des Standorts; wird die Zone geändert, bleiben einmalige Ereignisse zum selben Zeitpunkt und ihre Ortszeiten verschieben sich, während wiederkehrende Ereignisse ihre Ortszeiten behalten.",
+  site: "Standort",
+  location: "Ort",
+  timeZone: "Zeitzone",
+  importLimitKw: "Bezugslimit kW",
+  exportLimitKw: "Einspeiselimit kW",
+  siteName: "Name des Standorts",
+  noLimit: "Kein Limit",
+  type: "Typ",
+  ratedKw: "Nennleistung kW",
+  sameAsSite: "Wie Standort",
+  addSite: "Standort hinzufügen",
+  addAsset: "Anlage hinzufügen",
+  saveRegistry: "Register speichern",
+
+  // Categories and statuses
+  addsToBalance: "Erhöht die Bilanz",
+  drawsFromBalance: "Belastet die Bilanz",
+  byDirection: "Nach Richtung (Speicher)",
+  lifecycleTentative: "Vorläufig — bucht nichts",
+  lifecyclePlanned: "Geplant",
+  lifecycleActive: "Aktiv",
+  lifecycleCompleted: "Abgeschlossen",
+  lifecycleVoid: "Nichtig — nicht in den Summen",
+  categoriesAndStatusesHeading: "Kategorien und Status",
+  taxonomyHint:
+    "Kategorien legen die Farbe jedes Ereignisses fest und ob es die Nettobilanz erhöht oder belastet, was auch entscheidet, ob es als Bezug oder Einspeisung abgerechnet wird. Der Lebenszyklus eines Status entscheidet, ob Ereignisse ihre Anlage buchen und in die Summen eingehen. Eingebaute Einträge lassen sich umfärben, aber nicht entfernen; Einträge, die noch von Ereignissen oder Anlagen genutzt werden, lassen sich weder entfernen noch umbenennen.",
+  colour: "Farbe",
+  netBalanceColumn: "Nettobilanz",
+  categoryName: "Name der Kategorie",
+  lifecycle: "Lebenszyklus",
+  statusName: "Name des Status",
+  newCategory: "Neue Kategorie",
+  addCategory: "Kategorie hinzufügen",
+  newStatus: "Neuer Status",
+  addStatus: "Status hinzufügen",
+  saveTaxonomy: "Taxonomie speichern",
+
+  // Demand response windows
+  demandResponseEvent: "Demand-Response-Ereignis",
+  addedWindowsOne: "{count} Fenster aus {fileName} hinzugefügt. Prüfen und speichern Sie es, um es zu übernehmen.",
+  addedWindowsOther: "{count} Fenster aus {fileName} hinzugefügt. Prüfen und speichern Sie sie, um sie zu übernehmen.",
+  demandResponseWindows: "Demand-Response-Fenster",
+  demandResponseHint:
+    "Zeiträume, in denen ein Programm des Versorgers für die Senkung der Netzlast zahlt, gemessen an einer Basislinie früherer Tage. Laden Sie die Ereignismitteilung des Versorgers als CSV oder JSON mit den Spalten Programm, Datum, Start, Ende und Preis hoch (Start und Ende dürfen vollständige Zeitstempel sein) oder fügen Sie Fenster von Hand hinzu. Fenster ohne Standort gelten für das ganze Portfolio.",
+  program: "Programm",
+  start: "Start",
+  end: "Ende",
+  ratePerKwh: "Preis pro kWh",
+  allSitesOption: "Alle Standorte",
+  uploadUtilityFile: "Datei des Versorgers hochladen",
+  addWindow: "Fenster hinzufügen",
+  saveWindows: "Fenster speichern",
+
+  // Automation rules
+  dailySurplusAbove: "Tagesüberschuss über (kWh)",
+  datePassesWhileStatus: "Datum verstreicht bei Status",
+  notesMention: "Notizen erwähnen",
+  conditionDailySurplus: "der Überschuss eines Tages {kwh} kWh übersteigt",
+  conditionOverdue: "das Datum eines Ereignisses mit Status {status} verstreicht",
+  conditionNoteKeyword: "die Notizen eines Ereignisses „{keyword}“ erwähnen",
+  actionCreateEvent: "ein {type}-Ereignis mit Status {status} von {start}–{end} erstellen",
+  actionSetStatus: "seinen Status auf {status} setzen",
+  ruleSummary: "Wenn {condition}: {action}.",
+  newRule: "Neue Regel",
+  exportSurplusToGrid: "Überschuss ins Netz einspeisen",
+  automationRules: "Automatisierungsregeln",
+  automationHint:
+    "Aktive Regeln laufen der Reihe nach, sobald sich Ereignisse ändern, oder auf Abruf aus dem Planer. Überschussregeln betrachten den Rest des Monats einschließlich Prognosen und erstellen höchstens ein Ereignis pro Tag; Statusregeln ändern einmalige Ereignisse im aktuellen Monat. Testen Sie eine Regel, um zu sehen, was sie in {month} tun würde, ohne etwas zu ändern.",
+  rule: "Regel",
+  on: "Aktiv",
+  then: "Dann",
+  notify: "Benachrichtigen",
+  ruleName: "Name der Regel",
+  enabled: "aktiv",
+  condition: "Bedingung",
+  surplusThreshold: "Überschussschwelle",
+  overdueStatus: "überfälliger Status",
+  keyword: "Stichwort",
+  eventTitle: "Ereignistitel",
+  eventType: "Ereignistyp",
+  eventStatus: "Ereignisstatus",
+  eventStart: "Ereignisbeginn",
+  eventEnd: "Ereignisende",
+  newStatusField: "neuer Status",
+  notifies: "benachrichtigt",
+  dryRun: "Testlauf",
+  nothingToDo: "Nichts zu tun: Derzeit passt kein Tag und kein Ereignis.",
+  addRule: "Regel hinzufügen",
+  saveRules: "Regeln speichern",
+  automationCreates: "{title} am {date} für {energy} Überschuss anlegen",
+  automationSetsStatus: "{title} am {date} auf {status} setzen",
+  automationSkipped: "Übersprungen: {effects}",
+  createdByRule: "Von der Automatisierung „{rule}“ angelegt",
+
+  // Efficiency
+  factorTariff: "Tarifzeitpunkt",
+  factorProduction: "Überlappung mit Erzeugung",
+  factorCarbon: "CO₂-Intensität",
+  factorPlan: "Plan gegenüber Ist",
+  factorTariffShort: "Tarif",
+  factorProductionShort: "Solar",
+  factorCarbonShort: "CO₂",
+  factorPlanShort: "Plan",
+  efficiencyBreakdown: "Aufschlüsselung der Effizienz",
+  importRateDetail: "Ø Bezugspreis {average}/{unit} bei {min}–{max} an diesem Tag",
+  exportRateDetail: "Ø Einspeisevergütung {average}/{unit} bei {min}–{max} an diesem Tag",
+  metByProductionDetail: "{percent} durch eigene Erzeugung gedeckt",
+  usedOnSiteDetail: "{percent} am Standort verbraucht",
+  carbonDetail: "Ø {average} {unit} bei {min}–{max} über den Tag",
+  planDetail: "Gemessen {variance} gegenüber Plan",
+
+  // Live telemetry
+  liveSummary: "{delivered} von {planned} geliefert; {expected} bis jetzt geplant",
+  deliveredEnergy: "Gelieferte Energie",
+  liveEnergy: "Live {energy}",
+  percentVsPlan: "{percent} % gegenüber Plan",
+  justStarted: "gerade gestartet",
+  noRecentReading: "kein aktueller Messwert",
+  powerNow: "{power} jetzt",
+
+  // Load shift preview
+  moving: "{title} wird verschoben",
+  dropToPreview: "Auf einem Tag ablegen, um die Lastverschiebung zu sehen.",
+  netBalanceShift: "Nettobilanz {from} → {to}",
+  recommendationsUnchanged: "Empfehlungen unverändert",
+
+  // Demand response settlement
+  dayAverageOne: "{count}-Tages-Mittel",
+  dayAverageOther: "{count}-Tages-Mittel",
+  bookedSchedule: "gebuchter Zeitplan",
+  baseline: "Basislinie",
+  actual: "Ist",
+  projected: "Erwartet",
+  settlementChart: "{program}: Basislinie {baseline}, Last {load}",
+  baselineVsActual: "Basislinie {baseline} ({source}) · Ist {load}",
+  baselineVsProjected: "Basislinie {baseline} ({source}) · erwartet {load}",
+  noEventsEnrolled: "Keine Ereignisse angemeldet",
+  enrolledOne: "{count} angemeldet",
+  enrolledOther: "{count} angemeldet",
+  committedReduced: "zugesagt {committed} · reduziert {reduced}",
+  earnedFor: "{earnings} verdient für {energy} zu {rate}/kWh",
+  projectedFor: "{earnings} erwartet für {energy} zu {rate}/kWh",
+
+  // Charts
+  hourlyProfile: "Stündliches Leistungsprofil nach Energieart",
+  hourlyProfileHour: "{hour} · Angebot {supply} · Bedarf {demand} · netto {net}",
+  atMonthEnd: "{energy} am Monatsende",
+  eventCountOne: "{count} Ereignis",
+  eventCountOther: "{count} Ereignisse",
+  stateOfChargeOverMonth: "Ladestand von {name} über den Monat",
+  peakPower: "Spitze {power}",
+  demandResponseShort: "DR",
+  nextDaySuffix: "(+1 T.)",
+
+  // Analytics
+  analyticsTitle: "Energieauswertungen",
+  backToCalendar: "← Zurück zum Kalender",
+  analyticsSubtitle:
+    "Monatsvergleiche für denselben Zeitplan, den der Kalender plant, mit Effizienz live bewertet nach aktuellem Tarif und CO₂-Profil.",
+  netBalanceTrend: "Trend der Nettobilanz",
+  efficiencyTrend: "Effizienztrend",
+  points: "{points} Pkt.",
+  plannedVsActual: "Plan gegenüber Ist",
+  meteredEventsInRangeOne: "{count} gemessenes Ereignis im Zeitraum",
+  meteredEventsInRangeOther: "{count} gemessene Ereignisse im Zeitraum",
+  monthlyEnergy: "Monatliche Energie",
+  monthlyEnergyChart: "Verbrauch, Erzeugung, Speicher und Nettobilanz pro Monat",
+  dailyBalance: "Tagesbilanz · {month}",
+  dailyBalanceChart: "Netto-Energiebilanz pro Tag in diesem Monat",
+  efficiencyDistribution: "Verteilung der Effizienz",
+  distributionEntry: "{type} ({count} · Ø {average} %)",
+  eventsUnit: "Ereignisse",
+  efficiencyDistributionChart: "Ereignisse je Effizienzband nach Energieart",
+  plannedVsMeteredChart: "Geplante und gemessene Energie pro Monat für abgeglichene Ereignisse",
+
+  // Monthly report
+  reportTitle: "Energiebericht · {month} · {scope}",
+  reportGenerated: "Erstellt {time}",
+  reportSummary: "Übersicht",
+  storageBuffer: "Speicherpuffer",
+  averageEfficiency: "Durchschnittliche Effizienz",
+  completionRate: "Abschlussquote",
+  completionOf: "{percent} ({completed} von {total})",
+  peakDemand: "Spitzenlast",
+  reportByType: "Nach Energieart",
+  reportRecommendations: "Empfehlungen",
+  lowEfficiencyBelow: "Ereignisse mit geringer Effizienz (unter {threshold})",
+  noneThisMonth: "Keine in diesem Monat.",
+  reportEvents: "Ereignisse",
+  eventsColumn: "Ereign.",
+  completedColumn: "Abgeschl.",
+  efficiencyColumn: "Effizienz",
+  efficiencyShort: "Eff",
+  timeColumn: "Zeit",
+  titleColumn: "Titel",
+  plannedKwhColumn: "Geplant kWh",
+  actualKwhColumn: "Ist kWh",
+  reportColumn: "Bericht",
+  generatedColumn: "Erstellt",
+  recommendationColumn: "Empfehlung",
+  detailColumn: "Details",
+  lowEfficiencyEventColumn: "Ereignis mit geringer Effizienz"
+};
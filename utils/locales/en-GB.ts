@@ -0,0 +1,15 @@
+import type { Messages } from "../i18n";
+
+export const british: Messages = {
+  subtitle:
+    "Plan, schedule, and balance distributed energy resources across your operations. Align production, storage, and consumption to optimise costs while meeting resilience targets.",
+  optimizationInsights: "Optimisation Insights",
+  minimizeCost: "Minimise cost",
+  maximizeSelfConsumption: "Maximise self-consumption",
+  noProgramWindows: "No programme windows this month.",
+  improveEfficiencyScoresDetail: "Optimise schedules for {titles} to boost their efficiency ratings above 70%.",
+  flexibleLoad: "Flexible load — let the optimiser propose a better slot",
+  demandResponseHint:
+    "Periods a utility programme pays for cutting grid load, measured against a baseline of earlier days. Upload the utility's event notice as CSV or JSON with program, date, start, end and rate columns (start and end may be full timestamps), or add windows by hand. Windows without a site cover the whole portfolio.",
+  program: "Programme"
+};
@@ -0,0 +1,635 @@
+/** The source text, in US English; `{name}` marks a parameter and `…One`/`…Other` pairs are counted. */
+export const english = {
+  title: "Energy Management Calendar",
+  subtitle:
+    "Plan, schedule, and balance distributed energy resources across your operations. Align production, storage, and consumption to optimize costs while meeting resilience targets.",
+  allSites: "All sites (portfolio)",
+  manageSites: "Manage sites",
+  categoriesAndStatuses: "Categories & statuses",
+  analytics: "Analytics",
+  generateReport: "Generate report",
+  reportCsv: "Report CSV",
+  auditLog: "Audit log",
+  users: "Users",
+  preferences: "Preferences",
+  signedInAs: "Signed in as {name} ({role})",
+  signOut: "Sign out",
+  netBalance: "Net Balance",
+  filtered: "Filtered",
+  liveNet: "Live Net",
+  energyCost: "Energy Cost",
+  exportRevenue: "Export Revenue",
+  netBill: "Net Bill",
+  production: "Production",
+  consumption: "Consumption",
+  storageNet: "Storage Net",
+  forecastBalance: "Forecast Balance",
+  netEmissions: "Net Emissions",
+  efficiencyIndex: "Efficiency Index",
+  eventsCompleted: "{completed} of {total} events completed",
+  loadingSchedule: "Loading schedule…",
+  all: "All",
+  month: "Month",
+  week: "Week",
+  day: "Day",
+  previous: "← Previous",
+  today: "Today",
+  next: "Next →",
+  exportIcs: "Export .ics",
+  importIcs: "Import .ics",
+  importMeterData: "Import meter data",
+  noActivity: "No activity scheduled",
+  scheduleNewActivity: "Schedule New Activity",
+  readOnlyRole: "Your {role} role can view the schedule but not change it.",
+  addToCalendar: "Add to calendar",
+  saving: "Saving…",
+  optimizationInsights: "Optimization Insights",
+  eventCost: "Cost {amount}",
+  eventRevenue: "Revenue {amount}",
+  connecting: "Connecting",
+  live: "Live",
+  offline: "Offline",
+  linkFilterIgnored: "The link's filter was ignored: {error}",
+  skippedOccurrence: "Skipped “{title}” on {date}",
+  deletedEvent: "Deleted “{title}”",
+  noCalendarEvents: "{file} does not contain any calendar events.",
+  meterFileNeedsColumns: "{file} needs at least a timestamp and a kWh column.",
+  fileUnreadable: "{file} could not be read: {error}",
+  surplusForExport: "Surplus available for export",
+  coverDeficit: "Cover deficit with storage or grid supply",
+  assetsReportingOne: "{count} asset reporting · {time}",
+  assetsReportingOther: "{count} assets reporting · {time}",
+  noAssetReported: "No asset has reported in the last 5 minutes",
+  stopSimulator: "Stop simulator",
+  simulateTelemetry: "Simulate telemetry",
+  energyCostBreakdown: "{energy} energy · {demand} demand ({peak} peak)",
+  atExportRates: "Production and provision at export rates",
+  creditThisMonth: "Credit this month",
+  payableThisMonth: "Payable this month",
+  editTariff: "Edit tariff",
+  productionBreakdown: "{onSite} on-site · {shared} shared",
+  scheduledDemand: "{energy} scheduled demand",
+  infeasibleStorageOne: "{count} infeasible storage event",
+  infeasibleStorageOther: "{count} infeasible storage events",
+  dischargedMinusCharged: "Discharged minus charged",
+  editStorage: "Edit storage",
+  forecastRange: "{low} to {high} (80% band) · {forecast} forecast + {supply} scheduled supply vs {demand} demand",
+  noForecastYet: "No forecast yet · {demand} demand scheduled",
+  restOfMonth: "rest of month",
+  runForecast: "Run forecast",
+  forecastNoteOne: "Forecast from {count} completed {daypart} event.",
+  forecastNoteOther: "Forecast from {count} completed {daypart} events.",
+  daypartNight: "night",
+  daypartMorning: "morning",
+  daypartAfternoon: "afternoon",
+  daypartEvening: "evening",
+  usingFile: "Using {file}",
+  weatherLoaded: "Weather ✓",
+  weatherFile: "Weather file",
+  emissionsBreakdown: "{gross} gross · {avoided} avoided",
+  carbonProfile: "Carbon profile",
+  cancelledOrFailed: "{count} cancelled or failed",
+  siteTotalsOne: "{produced} produced · {consumed} consumed · {count} event",
+  siteTotalsOther: "{produced} produced · {consumed} consumed · {count} events",
+  viewSite: "View site",
+  portfolio: "Portfolio",
+  dismiss: "Dismiss",
+  conflictsOne: "{count} conflict",
+  conflictsOther: "{count} conflicts",
+  demandResponseWindowRate: "Demand response window · {rate}/kWh",
+  editEvent: "Edit {title}",
+  recurring: "↻ Recurring",
+  forecastBand: "Forecast {low}–{high} (80%)",
+  meteredVsPlan: "Metered {energy} · {variance} vs plan",
+  storageLimit: "Storage limit",
+  loadShiftSuggestions: "Load Shift Suggestions",
+  minimizeCost: "Minimize cost",
+  maximizeSelfConsumption: "Maximize self-consumption",
+  loadsInBestSlots: "Flexible loads already sit in their best slots this month.",
+  moveTo: "Move to {date} {start}–{end}.",
+  shiftSaves: "Saves {amount}; self-consumed {current} → {proposed}.",
+  soaksUpSurplus: "Soaks up {energy} of on-site Production surplus.",
+  runsInBand: "Runs in {band} hours.",
+  runsAtStandardRate: "Runs in standard-rate hours.",
+  shiftCosts: "Costs {amount}; self-consumed {current} → {proposed}.",
+  accept: "Accept",
+  demandResponseWindowsHeading: "Demand Response Windows",
+  noProgramWindows: "No program windows this month.",
+  drEarnings: "Earned {earned} so far; {projected} projected from upcoming windows.",
+  manageWindows: "Manage windows",
+  automationsActive: "Automations · {count} active",
+  noRuleChangedAnything: "No rule has changed anything yet.",
+  loggedRunsOne: "{count} logged run; the latest is shown first.",
+  loggedRunsOther: "{count} logged runs; the latest is shown first.",
+  runNow: "Run now",
+  manageRules: "Manage rules",
+  runFailed: "Failed: {error}",
+  undo: "Undo",
+
+  // Schedule checks
+  endEqualsStart: "End time must differ from the start time.",
+  runsOvernight: "Runs overnight and ends at {time} the next day.",
+  skippedTime: "{time} does not exist on {date} in {zone} as the clocks go forward; it falls at {actual} instead.",
+  flexWindowTooShort: "The flexible window is shorter than the event, so it can never be moved inside it.",
+  aboveRating: "Needs {power} on average, above the {rating} rating of {asset}.",
+  alreadyBooked: "{asset} is already booked for {title} ({start}–{end}).",
+  importWouldReach: "{site} import would reach {power} at {hour}:00 on {date}, over its {limit} limit.",
+  exportWouldReach: "{site} export would reach {power} at {hour}:00 on {date}, over its {limit} limit.",
+  bothUse: "{first} and {second} both use {asset}",
+  importPeaksAt: "{site} import peaks at {power} (limit {limit})",
+  exportPeaksAt: "{site} export peaks at {power} (limit {limit})",
+
+  // Recommendations
+  netLoadImbalance: "Net Load Imbalance",
+  netLoadImbalanceDetail:
+    "Demand outpaces supply this month. Shift flexible loads (e.g., EV charging) into early morning windows or increase storage dispatch.",
+  positiveNetBalance: "Positive Net Balance",
+  positiveNetBalanceDetail:
+    "You're producing more energy than you consume. Schedule a provision event to export surplus during afternoon peak pricing.",
+  demandPeaksForecasted: "Demand Peaks Forecasted",
+  demandPeaksForecastedDetail:
+    "Forecasted demand is 20% above on-site production. Consider adding a demand response event or activating backup generation.",
+  improveEfficiencyScores: "Improve Efficiency Scores",
+  improveEfficiencyScoresDetail: "Optimize schedules for {titles} to boost their efficiency ratings above 70%.",
+  moveToLowCarbon: "Move Loads to Low-Carbon Hours",
+  moveToLowCarbonDetail:
+    "Starting {title} at {time} runs it on {intensity} instead of {current} gCO2e/kWh, avoiding about {saved} kg CO2e.",
+  moveToLowCarbonMore: "{titles} could move too.",
+
+  // Recurrence
+  everyDayOne: "Every day",
+  everyDayOther: "Every {count} days",
+  everyWeekOne: "Every week",
+  everyWeekOther: "Every {count} weeks",
+  everyMonthOne: "Every month",
+  everyMonthOther: "Every {count} months",
+  onWeekdays: "on {days}",
+  untilDate: "until {date}",
+  timesOne: "{count} time",
+  timesOther: "{count} times",
+
+  // Event form
+  namedField: "{name} {field}",
+  activityTitle: "Activity title",
+  activityTitlePlaceholder: "e.g., Shift HVAC precooling",
+  category: "Category",
+  status: "Status",
+  date: "Date",
+  energyKwh: "Energy (kWh)",
+  startTime: "Start time",
+  endTime: "End time",
+  timesLocalToSite: "Times are local to the site ({zone}).",
+  notes: "Notes",
+  notesPlaceholder: "Add context, targets, or #tags that automation rules watch for...",
+  asset: "Asset",
+  noAsset: "No asset",
+  direction: "Direction",
+  charge: "Charge",
+  discharge: "Discharge",
+  flexibleLoad: "Flexible load — let the optimizer propose a better slot",
+  earliestStart: "Earliest start",
+  latestEnd: "Latest end",
+  plusMinusDays: "± days",
+  demandResponse: "Demand response",
+  notEnrolled: "Not enrolled",
+  removedWindow: "Removed window",
+  committedReductionKw: "Committed reduction (kW)",
+  repeat: "Repeat",
+  doesNotRepeat: "Does not repeat",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  everyDays: "Every day(s)",
+  everyWeeks: "Every week(s)",
+  everyMonths: "Every month(s)",
+  onWeekdaysLabel: "On weekdays",
+  ends: "Ends",
+  never: "Never",
+  onDate: "On date",
+  afterOccurrences: "After occurrences",
+  until: "Until",
+  occurrences: "Occurrences",
+
+  // Event details
+  efficiencyScore: "Efficiency {score}%",
+  editedOccurrence: "Edited occurrence of a recurring event",
+  createdBy: "Created by {creator}",
+  createdAndChangedBy: "Created by {creator}, last changed by {editor}",
+  closeEventDetails: "Close event details",
+  applyChangesTo: "Apply changes to",
+  thisOccurrence: "This occurrence",
+  wholeSeries: "Whole series",
+  saveChanges: "Save changes",
+  markCompleted: "Mark completed",
+  history: "History",
+  deleteSeries: "Delete series",
+  skipOccurrence: "Skip occurrence",
+  delete: "Delete",
+
+  // Event filters
+  search: "Search",
+  titleOrNotes: "Title or notes",
+  efficiencyPercent: "Efficiency %",
+  energyKwhRange: "Energy kWh",
+  minimumOf: "Minimum {field}",
+  maximumOf: "Maximum {field}",
+  min: "min",
+  max: "max",
+  assets: "Assets",
+  presets: "Presets",
+  applySavedFilter: "Apply a saved filter",
+  savedFilters: "Saved filters…",
+  noSavedFilters: "No saved filters",
+  deletePreset: "Delete preset",
+  presetName: "Preset name",
+  saveFilter: "Save filter",
+  summaryShowsFiltered: "Summary shows filtered events",
+  eventsMatchingOne: "{matched} of {count} event",
+  eventsMatchingOther: "{matched} of {count} events",
+  clearFilters: "Clear filters",
+  linkCopied: "Link copied",
+  copyLink: "Copy link",
+
+  // Preferences
+  preferencesHint:
+    "These apply to your account only. Event times are always shown in the time zone of the event's site; your browser is in {zone}.",
+  languageAndFormats: "Language and formats",
+  weekStartsOn: "Week starts on",
+  energy: "Energy",
+  power: "Power",
+  preferencesPreview: "Preview: {date} · {energy} · {power}. Forms still take kWh and kW.",
+  cancel: "Cancel",
+  savePreferences: "Save preferences",
+
+  // Audit log
+  auditLogHint:
+    "Every change to the schedule, who made it and when. Efficiency scores are recalculated automatically and are not listed.",
+  automation: "Automation",
+  auditCreated: "Created",
+  auditChanged: "Changed",
+  auditDeleted: "Deleted",
+  event: "Event",
+  allEvents: "All events",
+  user: "User",
+  everyone: "Everyone",
+  noChangesForFilter: "No changes recorded for this filter.",
+  noChangesYet: "No changes recorded yet.",
+  when: "When",
+  who: "Who",
+  what: "What",
+  changes: "Changes",
+  showOnlyThisEvent: "Show only this event",
+  close: "Close",
+
+  // Sign in
+  signInHeading: "Sign in to the Energy Management Calendar",
+  signInHint:
+    "Accounts are managed by an admin. On a fresh installation, the server must be started with {variable} set; sign in as {username} with that password and change it under Users.",
+  username: "Username",
+  password: "Password",
+  signingIn: "Signing in…",
+  signIn: "Sign in",
+
+  // Users
+  roleViewer: "viewer",
+  roleOperator: "operator",
+  roleAdmin: "admin",
+  roleViewerLabel: "Viewer · read only",
+  roleOperatorLabel: "Operator · schedules and completes events",
+  roleAdminLabel: "Admin · also settings and users",
+  usersHint:
+    "Viewers can read the schedule, reports and audit log. Operators also create, edit and complete events. Admins also change tariffs and other settings, and manage users. Leave a password empty to keep it.",
+  name: "Name",
+  role: "Role",
+  roleOf: "{name} role",
+  newUser: "New user",
+  newPassword: "New password",
+  unchanged: "Unchanged",
+  atLeastCharacters: "At least {count} characters",
+  actions: "Actions",
+  save: "Save",
+  remove: "Remove",
+  addUser: "Add user",
+
+  // Calendar import
+  importFile: "Import {fileName}",
+  eventsFoundOne: "{count} event found.",
+  eventsFoundOther: "{count} events found.",
+  icalImportHint:
+    "Assign a category and energy amount to highlighted rows before importing; events that already exist on the calendar are unchecked. Times the file gives in UTC or another zone are shown in the zone of each event's site.",
+  include: "Include",
+  importTitle: "Import {title}",
+  alreadyOnCalendar: "Already on the calendar.",
+  categoryFor: "Category for {title}",
+  choose: "Choose…",
+  assetFor: "Asset for {title}",
+  energyFor: "Energy for {title}",
+  importing: "Importing…",
+  rowsNeedCategoryOrKwhOne: "{count} row needs a category or kWh",
+  rowsNeedCategoryOrKwhOther: "{count} rows need a category or kWh",
+  importEventsOne: "Import {count} event",
+  importEventsOther: "Import {count} events",
+  unsupportedRepeatRule: 'Unsupported repeat rule "{rule}"; imported as a single event.',
+  unknownTimeZone: 'Unknown time zone "{zone}"; times are taken as local to the event\'s site.',
+  unknownCategory: 'Unknown category "{category}".',
+  noEnergyCategory: "No energy category.",
+  noEnergyAmount: "No energy amount.",
+  importedEvent: "Imported event",
+
+  // Meter import
+  meteredActivity: "Metered activity",
+  reconcileMeterData: "Reconcile meter data · {fileName}",
+  rowsReadOne: "{count} row read.",
+  rowsReadOther: "{count} rows read.",
+  meterImportHint:
+    "Map the timestamp and energy columns, then preview how the readings line up with scheduled events before applying them.",
+  timestampColumn: "Timestamp column",
+  kwhColumn: "kWh column",
+  intervalLength: "Interval length",
+  hourly: "Hourly",
+  minutesCount: "{count} minutes",
+  timestampMarks: "Timestamp marks",
+  intervalStart: "Interval start",
+  intervalEnd: "Interval end",
+  meterCategory: "Meter category",
+  titleForUnmatched: "Title for unmatched readings",
+  meterMeasures: "Meter measures",
+  wholeSiteMeter: "{site} — whole site",
+  rowsSkippedOne: "{count} row skipped",
+  rowsSkippedOther: "{count} rows skipped",
+  unreadableMeterRow: "Row {row}: could not read timestamp or kWh.",
+  planned: "Planned",
+  metered: "Metered",
+  variance: "Variance",
+  intervalsToOne: "{count} interval → {status}",
+  intervalsToOther: "{count} intervals → {status}",
+  newTitle: "New · {title}",
+  noReadingsOverlap: "No readings overlap {type} events and none carry energy.",
+  applying: "Applying…",
+  completeEventsOne: "Complete {count} event · create {created}",
+  completeEventsOther: "Complete {count} events · create {created}",
+  matching: "Matching…",
+  previewIntervalsOne: "Preview {count} interval",
+  previewIntervalsOther: "Preview {count} intervals",
+  createdFromIntervalsOne: "Created from {count} metered interval.",
+  createdFromIntervalsOther: "Created from {count} metered intervals.",
+
+  // Tariff
+  newBand: "New band",
+  timeOfUseTariff: "Time-of-use tariff",
+  tariffHint:
+    "Bands are matched top to bottom; the first band covering a minute sets its price. Minutes outside every band use the default rates. Months are numbers (6, 7, 8 for June–August); leave empty for all year.",
+  currency: "Currency",
+  defaultImportPerKwh: "Default import / kWh",
+  defaultImportRate: "Default import rate",
+  defaultExportPerKwh: "Default export / kWh",
+  defaultExportRate: "Default export rate",
+  demandChargePerPeakKw: "Demand charge / peak kW",
+  demandCharge: "Demand charge",
+  band: "Band",
+  from: "From",
+  to: "To",
+  days: "Days",
+  months: "Months",
+  import: "Import",
+  export: "Export",
+  bandName: "Band name",
+  importRate: "import rate",
+  exportRate: "export rate",
+  weekdays: "Weekdays",
+  weekends: "Weekends",
+  allYear: "All year",
+  addBand: "Add band",
+  saveTariff: "Save tariff",
+
+  // Carbon profile
+  loadedFileReview: "Loaded {fileName}. Review the values and save to apply them.",
+  gridCarbonIntensity: "Grid carbon intensity",
+  carbonHint:
+    "Hourly gCO2e per kWh used for emissions, avoided emissions and efficiency scores. Upload a JSON array of 24 values, or a CSV of hour (or timestamp) and intensity; timestamped rows are averaged per hour of day.",
+  uploadProfile: "Upload profile",
+  resetToDefault: "Reset to default",
+  saveProfile: "Save profile",
+
+  // Storage assets
+  storageAssets: "Storage assets",
+  storageAssetsHint:
+    "Each month is simulated from the start state of charge. Round-trip efficiency is a fraction (0.9 keeps 90% of the energy charged); Storage events without an asset use the first one in the list. Add or remove storage assets in the site registry.",
+  capacityKwh: "Capacity kWh",
+  maxChargeKw: "Max charge kW",
+  maxDischargeKw: "Max discharge kW",
+  roundTrip: "Round trip",
+  minSocPercent: "Min SoC %",
+  startSocPercent: "Start SoC %",
+  assetName: "Asset name",
+  saveAssets: "Save assets",
+
+  // Sites
+  newSite: "New site",
+  newAsset: "New asset",
+  sitesAndAssets: "Sites & assets",
+  sitesHint:
+    "Events linked to an asset count towards its site. A site can only be removed once it has no assets; events on a removed asset fall back to the portfolio totals. Grid limits cap the site's net hourly import and export; leave them empty for an uncapped connection. Event times at a site are local to its time zone; changing the zone keeps one-off events at the same moment and moves their local times, while recurring events keep their local times.",
+  site: "Site",
+  location: "Location",
+  timeZone: "Time zone",
+  importLimitKw: "Import limit kW",
+  exportLimitKw: "Export limit kW",
+  siteName: "Site name",
+  noLimit: "No limit",
+  type: "Type",
+  ratedKw: "Rated kW",
+  sameAsSite: "Same as site",
+  addSite: "Add site",
+  addAsset: "Add asset",
+  saveRegistry: "Save registry",
+
+  // Categories and statuses
+  addsToBalance: "Adds to balance",
+  drawsFromBalance: "Draws from balance",
+  byDirection: "By direction (storage)",
+  lifecycleTentative: "Tentative — books nothing",
+  lifecyclePlanned: "Planned",
+  lifecycleActive: "Active",
+  lifecycleCompleted: "Completed",
+  lifecycleVoid: "Void — left out of totals",
+  categoriesAndStatusesHeading: "Categories and statuses",
+  taxonomyHint:
+    "Categories set each event's colour and whether it adds to or draws from the net balance, which also decides whether it is billed as an import or an export. A status's lifecycle decides whether events book their asset and count toward totals. Built-in entries can be recoloured but not removed; entries still used by events or assets cannot be removed or renamed.",
+  colour: "Colour",
+  netBalanceColumn: "Net balance",
+  categoryName: "Category name",
+  lifecycle: "Lifecycle",
+  statusName: "Status name",
+  newCategory: "New category",
+  addCategory: "Add category",
+  newStatus: "New status",
+  addStatus: "Add status",
+  saveTaxonomy: "Save taxonomy",
+
+  // Demand response windows
+  demandResponseEvent: "Demand response event",
+  addedWindowsOne: "Added {count} window from {fileName}. Review it and save to apply.",
+  addedWindowsOther: "Added {count} windows from {fileName}. Review them and save to apply.",
+  demandResponseWindows: "Demand response windows",
+  demandResponseHint:
+    "Periods a utility program pays for cutting grid load, measured against a baseline of earlier days. Upload the utility's event notice as CSV or JSON with program, date, start, end and rate columns (start and end may be full timestamps), or add windows by hand. Windows without a site cover the whole portfolio.",
+  program: "Program",
+  start: "Start",
+  end: "End",
+  ratePerKwh: "Rate per kWh",
+  allSitesOption: "All sites",
+  uploadUtilityFile: "Upload utility file",
+  addWindow: "Add window",
+  saveWindows: "Save windows",
+
+  // Automation rules
+  dailySurplusAbove: "Daily surplus above (kWh)",
+  datePassesWhileStatus: "Date passes while status is",
+  notesMention: "Notes mention",
+  conditionDailySurplus: "a day's surplus exceeds {kwh} kWh",
+  conditionOverdue: "a {status} event's date passes",
+  conditionNoteKeyword: 'an event\'s notes mention "{keyword}"',
+  actionCreateEvent: "create a {status} {type} event {start}–{end}",
+  actionSetStatus: "set its status to {status}",
+  ruleSummary: "When {condition}, {action}.",
+  newRule: "New rule",
+  exportSurplusToGrid: "Export surplus to grid",
+  automationRules: "Automation rules",
+  automationHint:
+    "Enabled rules run in order whenever events change, or on demand from the planner. Surplus rules look at the rest of the month, forecasts included, and create at most one event a day; status rules change one-off events in the current month. Dry run a rule to see what it would do in {month} without changing anything.",
+  rule: "Rule",
+  on: "On",
+  then: "Then",
+  notify: "Notify",
+  ruleName: "Rule name",
+  enabled: "enabled",
+  condition: "condition",
+  surplusThreshold: "surplus threshold",
+  overdueStatus: "overdue status",
+  keyword: "keyword",
+  eventTitle: "event title",
+  eventType: "event type",
+  eventStatus: "event status",
+  eventStart: "event start",
+  eventEnd: "event end",
+  newStatusField: "new status",
+  notifies: "notifies",
+  dryRun: "Dry run",
+  nothingToDo: "Nothing to do: no day or event matches right now.",
+  addRule: "Add rule",
+  saveRules: "Save rules",
+  automationCreates: "Create {title} on {date} for {energy} surplus",
+  automationSetsStatus: "Set {title} on {date} to {status}",
+  automationSkipped: "Skipped {effects}",
+  createdByRule: "Created by the “{rule}” automation",
+
+  // Efficiency
+  factorTariff: "Tariff timing",
+  factorProduction: "Production overlap",
+  factorCarbon: "Carbon intensity",
+  factorPlan: "Planned vs actual",
+  factorTariffShort: "Tariff",
+  factorProductionShort: "Solar",
+  factorCarbonShort: "Carbon",
+  factorPlanShort: "Plan",
+  efficiencyBreakdown: "Efficiency breakdown",
+  importRateDetail: "Avg import rate {average}/{unit} vs {min}–{max} that day",
+  exportRateDetail: "Avg export rate {average}/{unit} vs {min}–{max} that day",
+  metByProductionDetail: "{percent} met by on-site production",
+  usedOnSiteDetail: "{percent} used on site",
+  carbonDetail: "Avg {average} {unit} vs {min}–{max} across the day",
+  planDetail: "Metered {variance} vs plan",
+
+  // Live telemetry
+  liveSummary: "{delivered} of {planned} delivered; {expected} planned by now",
+  deliveredEnergy: "Delivered energy",
+  liveEnergy: "Live {energy}",
+  percentVsPlan: "{percent}% vs plan",
+  justStarted: "just started",
+  noRecentReading: "no recent reading",
+  powerNow: "{power} now",
+
+  // Load shift preview
+  moving: "Moving {title}",
+  dropToPreview: "Drop on a day to preview the load shift.",
+  netBalanceShift: "Net balance {from} → {to}",
+  recommendationsUnchanged: "Recommendations unchanged",
+
+  // Demand response settlement
+  dayAverageOne: "{count}-day average",
+  dayAverageOther: "{count}-day average",
+  bookedSchedule: "booked schedule",
+  baseline: "Baseline",
+  actual: "Actual",
+  projected: "Projected",
+  settlementChart: "{program}: baseline {baseline}, load {load}",
+  baselineVsActual: "Baseline {baseline} ({source}) · actual {load}",
+  baselineVsProjected: "Baseline {baseline} ({source}) · projected {load}",
+  noEventsEnrolled: "No events enrolled",
+  enrolledOne: "{count} enrolled",
+  enrolledOther: "{count} enrolled",
+  committedReduced: "committed {committed} · reduced {reduced}",
+  earnedFor: "Earned {earnings} for {energy} at {rate}/kWh",
+  projectedFor: "Projected {earnings} for {energy} at {rate}/kWh",
+
+  // Charts
+  hourlyProfile: "Hourly power profile by energy type",
+  hourlyProfileHour: "{hour} · supply {supply} · demand {demand} · net {net}",
+  atMonthEnd: "{energy} at month end",
+  eventCountOne: "{count} event",
+  eventCountOther: "{count} events",
+  stateOfChargeOverMonth: "{name} state of charge over the month",
+  peakPower: "Peak {power}",
+  demandResponseShort: "DR",
+  nextDaySuffix: "(+1d)",
+
+  // Analytics
+  analyticsTitle: "Energy Analytics",
+  backToCalendar: "← Back to calendar",
+  analyticsSubtitle:
+    "Month-over-month trends for the same schedule the calendar plans, with efficiency scored live against the current tariff and carbon profile.",
+  netBalanceTrend: "Net Balance Trend",
+  efficiencyTrend: "Efficiency Trend",
+  points: "{points} pts",
+  plannedVsActual: "Planned vs Actual",
+  meteredEventsInRangeOne: "{count} metered event in range",
+  meteredEventsInRangeOther: "{count} metered events in range",
+  monthlyEnergy: "Monthly energy",
+  monthlyEnergyChart: "Consumption, production, storage and net balance per month",
+  dailyBalance: "Daily balance · {month}",
+  dailyBalanceChart: "Net energy balance per day this month",
+  efficiencyDistribution: "Efficiency distribution",
+  distributionEntry: "{type} ({count} · avg {average}%)",
+  eventsUnit: "events",
+  efficiencyDistributionChart: "Events per efficiency score band by energy type",
+  plannedVsMeteredChart: "Planned and metered energy per month for reconciled events",
+
+  // Monthly report
+  reportTitle: "Energy report · {month} · {scope}",
+  reportGenerated: "Generated {time}",
+  reportSummary: "Summary",
+  storageBuffer: "Storage buffer",
+  averageEfficiency: "Average efficiency",
+  completionRate: "Completion rate",
+  completionOf: "{percent} ({completed} of {total})",
+  peakDemand: "Peak demand",
+  reportByType: "By energy type",
+  reportRecommendations: "Recommendations",
+  lowEfficiencyBelow: "Low-efficiency events (below {threshold})",
+  noneThisMonth: "None this month.",
+  reportEvents: "Events",
+  eventsColumn: "Events",
+  completedColumn: "Completed",
+  efficiencyColumn: "Efficiency",
+  efficiencyShort: "Eff",
+  timeColumn: "Time",
+  titleColumn: "Title",
+  plannedKwhColumn: "Planned kWh",
+  actualKwhColumn: "Actual kWh",
+  reportColumn: "Report",
+  generatedColumn: "Generated",
+  recommendationColumn: "Recommendation",
+  detailColumn: "Detail",
+  lowEfficiencyEventColumn: "Low-efficiency event"
+};
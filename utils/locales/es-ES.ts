@@ -0,0 +1,638 @@
+import type { Messages } from "../i18n";
+
+export const spanish: Messages = {
+  title: "Calendario de gestión energética",
+  subtitle:
+    "Planifique, programe y equilibre los recursos energéticos distribuidos de sus operaciones. Coordine producción, almacenamiento y consumo para optimizar costes y cumplir los objetivos de resiliencia.",
+  allSites: "Todas las sedes (cartera)",
+  manageSites: "Gestionar sedes",
+  categoriesAndStatuses: "Categorías y estados",
+  analytics: "Análisis",
+  generateReport: "Generar informe",
+  reportCsv: "Informe CSV",
+  auditLog: "Registro de cambios",
+  users: "Usuarios",
+  preferences: "Preferencias",
+  signedInAs: "Sesión iniciada como {name} ({role})",
+  signOut: "Cerrar sesión",
+  netBalance: "Balance neto",
+  filtered: "Filtrado",
+  liveNet: "Balance en directo",
+  energyCost: "Coste energético",
+  exportRevenue: "Ingresos por vertido",
+  netBill: "Factura neta",
+  production: "Producción",
+  consumption: "Consumo",
+  storageNet: "Almacenamiento neto",
+  forecastBalance: "Balance previsto",
+  netEmissions: "Emisiones netas",
+  efficiencyIndex: "Índice de eficiencia",
+  eventsCompleted: "{completed} de {total} eventos completados",
+  loadingSchedule: "Cargando la programación…",
+  all: "Todos",
+  month: "Mes",
+  week: "Semana",
+  day: "Día",
+  previous: "← Anterior",
+  today: "Hoy",
+  next: "Siguiente →",
+  exportIcs: "Exportar .ics",
+  importIcs: "Importar .ics",
+  importMeterData: "Importar datos de contador",
+  noActivity: "Sin actividad programada",
+  scheduleNewActivity: "Programar nueva actividad",
+  readOnlyRole: "Su rol {role} puede ver la programación, pero no modificarla.",
+  addToCalendar: "Añadir al calendario",
+  saving: "Guardando…",
+  optimizationInsights: "Recomendaciones de optimización",
+  eventCost: "Coste {amount}",
+  eventRevenue: "Ingreso {amount}",
+  connecting: "Conectando",
+  live: "En directo",
+  offline: "Sin conexión",
+  linkFilterIgnored: "Se ignoró el filtro del enlace: {error}",
+  skippedOccurrence: "Se omitió «{title}» el {date}",
+  deletedEvent: "Se eliminó «{title}»",
+  noCalendarEvents: "{file} no contiene eventos de calendario.",
+  meterFileNeedsColumns: "{file} necesita al menos una columna de marca de tiempo y otra de kWh.",
+  fileUnreadable: "No se pudo leer {file}: {error}",
+  surplusForExport: "Excedente disponible para exportar",
+  coverDeficit: "Cubrir el déficit con almacenamiento o red",
+  assetsReportingOne: "{count} activo informando · {time}",
+  assetsReportingOther: "{count} activos informando · {time}",
+  noAssetReported: "Ningún activo ha informado en los últimos 5 minutos",
+  stopSimulator: "Detener simulador",
+  simulateTelemetry: "Simular telemetría",
+  energyCostBreakdown: "{energy} energía · {demand} potencia ({peak} de pico)",
+  atExportRates: "Producción y suministro a tarifas de exportación",
+  creditThisMonth: "Saldo a favor este mes",
+  payableThisMonth: "A pagar este mes",
+  editTariff: "Editar tarifa",
+  productionBreakdown: "{onSite} in situ · {shared} compartido",
+  scheduledDemand: "{energy} de demanda programada",
+  infeasibleStorageOne: "{count} evento de almacenamiento inviable",
+  infeasibleStorageOther: "{count} eventos de almacenamiento inviables",
+  dischargedMinusCharged: "Descargado menos cargado",
+  editStorage: "Editar almacenamiento",
+  forecastRange:
+    "{low} a {high} (banda del 80 %) · {forecast} previstos + {supply} de oferta programada frente a {demand} de demanda",
+  noForecastYet: "Aún sin previsión · {demand} de demanda programada",
+  restOfMonth: "resto del mes",
+  runForecast: "Calcular previsión",
+  forecastNoteOne: "Previsión a partir de {count} evento completado ({daypart}).",
+  forecastNoteOther: "Previsión a partir de {count} eventos completados ({daypart}).",
+  daypartNight: "madrugada",
+  daypartMorning: "mañana",
+  daypartAfternoon: "tarde",
+  daypartEvening: "noche",
+  usingFile: "Usando {file}",
+  weatherLoaded: "Meteorología ✓",
+  weatherFile: "Archivo meteorológico",
+  emissionsBreakdown: "{gross} brutas · {avoided} evitadas",
+  carbonProfile: "Perfil de carbono",
+  cancelledOrFailed: "{count} cancelados o fallidos",
+  siteTotalsOne: "{produced} producidos · {consumed} consumidos · {count} evento",
+  siteTotalsOther: "{produced} producidos · {consumed} consumidos · {count} eventos",
+  viewSite: "Ver sede",
+  portfolio: "Cartera",
+  dismiss: "Descartar",
+  conflictsOne: "{count} conflicto",
+  conflictsOther: "{count} conflictos",
+  demandResponseWindowRate: "Ventana de respuesta a la demanda · {rate}/kWh",
+  editEvent: "Editar {title}",
+  recurring: "↻ Periódico",
+  forecastBand: "Previsión {low}–{high} (80 %)",
+  meteredVsPlan: "Medido {energy} · {variance} frente al plan",
+  storageLimit: "Límite de almacenamiento",
+  loadShiftSuggestions: "Sugerencias de desplazamiento de carga",
+  minimizeCost: "Minimizar coste",
+  maximizeSelfConsumption: "Maximizar autoconsumo",
+  loadsInBestSlots: "Las cargas flexibles ya están en sus mejores franjas este mes.",
+  moveTo: "Mover al {date} {start}–{end}.",
+  shiftSaves: "Ahorra {amount}; autoconsumo {current} → {proposed}.",
+  soaksUpSurplus: "Absorbe {energy} de excedente de producción propia.",
+  runsInBand: "Funciona en horas «{band}».",
+  runsAtStandardRate: "Funciona en horas de tarifa estándar.",
+  shiftCosts: "Cuesta {amount}; autoconsumo {current} → {proposed}.",
+  accept: "Aceptar",
+  demandResponseWindowsHeading: "Ventanas de respuesta a la demanda",
+  noProgramWindows: "No hay ventanas de programa este mes.",
+  drEarnings: "{earned} ganados hasta ahora; {projected} previstos en las próximas ventanas.",
+  manageWindows: "Gestionar ventanas",
+  automationsActive: "Automatizaciones · {count} activas",
+  noRuleChangedAnything: "Ninguna regla ha cambiado nada todavía.",
+  loggedRunsOne: "{count} ejecución registrada; la más reciente aparece primero.",
+  loggedRunsOther: "{count} ejecuciones registradas; la más reciente aparece primero.",
+  runNow: "Ejecutar ahora",
+  manageRules: "Gestionar reglas",
+  runFailed: "Error: {error}",
+  undo: "Deshacer",
+
+  // Schedule checks
+  endEqualsStart: "La hora de fin debe ser distinta de la de inicio.",
+  runsOvernight: "Se extiende durante la noche y termina a las {time} del día siguiente.",
+  skippedTime: "Las {time} no existen el {date} en {zone} por el cambio de hora; el evento empieza a las {actual}.",
+  flexWindowTooShort: "La ventana flexible es más corta que el evento, así que nunca podrá moverse dentro de ella.",
+  aboveRating: "Necesita {power} de media, por encima de la potencia nominal de {rating} de {asset}.",
+  alreadyBooked: "{asset} ya está reservado para {title} ({start}–{end}).",
+  importWouldReach:
+    "La importación de {site} llegaría a {power} a las {hour}:00 del {date}, por encima de su límite de {limit}.",
+  exportWouldReach:
+    "La exportación de {site} llegaría a {power} a las {hour}:00 del {date}, por encima de su límite de {limit}.",
+  bothUse: "{first} y {second} usan {asset}",
+  importPeaksAt: "La importación de {site} alcanza un pico de {power} (límite {limit})",
+  exportPeaksAt: "La exportación de {site} alcanza un pico de {power} (límite {limit})",
+
+  // Recommendations
+  netLoadImbalance: "Desequilibrio de carga neta",
+  netLoadImbalanceDetail:
+    "La demanda supera a la oferta este mes. Desplace las cargas flexibles (p. ej., la recarga de VE) a primera hora de la mañana o aumente la descarga del almacenamiento.",
+  positiveNetBalance: "Balance neto positivo",
+  positiveNetBalanceDetail:
+    "Produce más energía de la que consume. Programe un suministro para exportar el excedente durante los precios punta de la tarde.",
+  demandPeaksForecasted: "Picos de demanda previstos",
+  demandPeaksForecastedDetail:
+    "La demanda prevista supera en un 20 % la producción in situ. Considere añadir un evento de respuesta a la demanda o activar la generación de respaldo.",
+  improveEfficiencyScores: "Mejorar las puntuaciones de eficiencia",
+  improveEfficiencyScoresDetail: "Optimice la programación de {titles} para elevar su eficiencia por encima del 70 %.",
+  moveToLowCarbon: "Mover cargas a horas bajas en carbono",
+  moveToLowCarbonDetail:
+    "Iniciar {title} a las {time} lo hace funcionar con {intensity} en lugar de {current} gCO2e/kWh, evitando unos {saved} kg CO2e.",
+  moveToLowCarbonMore: "{titles} también podrían moverse.",
+
+  // Recurrence
+  everyDayOne: "Cada día",
+  everyDayOther: "Cada {count} días",
+  everyWeekOne: "Cada semana",
+  everyWeekOther: "Cada {count} semanas",
+  everyMonthOne: "Cada mes",
+  everyMonthOther: "Cada {count} meses",
+  onWeekdays: "los {days}",
+  untilDate: "hasta el {date}",
+  timesOne: "{count} vez",
+  timesOther: "{count} veces",
+
+  // Event form
+  activityTitle: "Título de la actividad",
+  activityTitlePlaceholder: "p. ej., Desplazar el preenfriamiento de climatización",
+  category: "Categoría",
+  status: "Estado",
+  date: "Fecha",
+  energyKwh: "Energía (kWh)",
+  startTime: "Hora de inicio",
+  endTime: "Hora de fin",
+  timesLocalToSite: "Las horas son locales de la sede ({zone}).",
+  notes: "Notas",
+  notesPlaceholder: "Añada contexto, objetivos o #etiquetas que vigilan las reglas de automatización…",
+  asset: "Activo",
+  noAsset: "Sin activo",
+  direction: "Sentido",
+  charge: "Carga",
+  discharge: "Descarga",
+  flexibleLoad: "Carga flexible: deje que el optimizador proponga una franja mejor",
+  earliestStart: "Inicio más temprano",
+  latestEnd: "Fin más tardío",
+  plusMinusDays: "± días",
+  demandResponse: "Respuesta a la demanda",
+  notEnrolled: "Sin inscribir",
+  removedWindow: "Ventana eliminada",
+  committedReductionKw: "Reducción comprometida (kW)",
+  repeat: "Repetir",
+  doesNotRepeat: "No se repite",
+  daily: "Diario",
+  weekly: "Semanal",
+  monthly: "Mensual",
+  everyDays: "Cada … días",
+  everyWeeks: "Cada … semanas",
+  everyMonths: "Cada … meses",
+  onWeekdaysLabel: "Los días",
+  ends: "Termina",
+  never: "Nunca",
+  onDate: "En una fecha",
+  afterOccurrences: "Tras repeticiones",
+  until: "Hasta",
+  occurrences: "Repeticiones",
+
+  // Event details
+  efficiencyScore: "Eficiencia {score} %",
+  editedOccurrence: "Repetición editada de un evento periódico",
+  createdBy: "Creado por {creator}",
+  createdAndChangedBy: "Creado por {creator}, modificado por última vez por {editor}",
+  closeEventDetails: "Cerrar detalles del evento",
+  applyChangesTo: "Aplicar cambios a",
+  thisOccurrence: "Esta repetición",
+  wholeSeries: "Toda la serie",
+  saveChanges: "Guardar cambios",
+  markCompleted: "Marcar como completado",
+  history: "Historial",
+  deleteSeries: "Eliminar serie",
+  skipOccurrence: "Omitir repetición",
+  delete: "Eliminar",
+
+  // Event filters
+  search: "Buscar",
+  titleOrNotes: "Título o notas",
+  efficiencyPercent: "Eficiencia %",
+  energyKwhRange: "Energía kWh",
+  minimumOf: "{field} mínimo",
+  maximumOf: "{field} máximo",
+  min: "mín.",
+  max: "máx.",
+  assets: "Activos",
+  presets: "Filtros guardados",
+  applySavedFilter: "Aplicar un filtro guardado",
+  savedFilters: "Filtros guardados…",
+  noSavedFilters: "No hay filtros guardados",
+  deletePreset: "Eliminar filtro guardado",
+  presetName: "Nombre del filtro",
+  saveFilter: "Guardar filtro",
+  summaryShowsFiltered: "El resumen muestra los eventos filtrados",
+  eventsMatchingOne: "{matched} de {count} evento",
+  eventsMatchingOther: "{matched} de {count} eventos",
+  clearFilters: "Quitar filtros",
+  linkCopied: "Enlace copiado",
+  copyLink: "Copiar enlace",
+
+  // Preferences
+  preferencesHint:
+    "Estas preferencias solo se aplican a su cuenta. Las horas de los eventos se muestran siempre en la zona horaria de su sede; su navegador está en {zone}.",
+  languageAndFormats: "Idioma y formatos",
+  weekStartsOn: "La semana empieza el",
+  energy: "Energía",
+  power: "Potencia",
+  preferencesPreview: "Vista previa: {date} · {energy} · {power}. Los formularios siguen usando kWh y kW.",
+  cancel: "Cancelar",
+  savePreferences: "Guardar preferencias",
+
+  // Audit log
+  auditLogHint:
+    "Cada cambio en la programación, quién lo hizo y cuándo. Las puntuaciones de eficiencia se recalculan automáticamente y no se listan.",
+  automation: "Automatización",
+  auditCreated: "Creado",
+  auditChanged: "Modificado",
+  auditDeleted: "Eliminado",
+  event: "Evento",
+  allEvents: "Todos los eventos",
+  user: "Usuario",
+  everyone: "Todos",
+  noChangesForFilter: "No hay cambios registrados para este filtro.",
+  noChangesYet: "Aún no hay cambios registrados.",
+  when: "Cuándo",
+  who: "Quién",
+  what: "Qué",
+  changes: "Cambios",
+  showOnlyThisEvent: "Mostrar solo este evento",
+  close: "Cerrar",
+
+  // Sign in
+  signInHeading: "Iniciar sesión en el Calendario de Gestión Energética",
+  signInHint:
+    "Un administrador gestiona las cuentas. En una instalación nueva, el servidor debe arrancarse con {variable} definida; inicie sesión como {username} con esa contraseña y cámbiela en Usuarios.",
+  username: "Nombre de usuario",
+  password: "Contraseña",
+  signingIn: "Iniciando sesión…",
+  signIn: "Iniciar sesión",
+
+  // Users
+  roleViewer: "lector",
+  roleOperator: "operador",
+  roleAdmin: "administrador",
+  roleViewerLabel: "Lector · solo lectura",
+  roleOperatorLabel: "Operador · programa y completa eventos",
+  roleAdminLabel: "Administrador · también ajustes y usuarios",
+  usersHint:
+    "Los lectores ven la programación, los informes y el registro de cambios. Los operadores también crean, editan y completan eventos. Los administradores además cambian tarifas y otros ajustes y gestionan usuarios. Deje una contraseña vacía para conservarla.",
+  name: "Nombre",
+  role: "Rol",
+  roleOf: "Rol de {name}",
+  newUser: "Nuevo usuario",
+  newPassword: "Nueva contraseña",
+  unchanged: "Sin cambios",
+  atLeastCharacters: "Al menos {count} caracteres",
+  actions: "Acciones",
+  save: "Guardar",
+  remove: "Quitar",
+  addUser: "Añadir usuario",
+
+  // Calendar import
+  importFile: "Importar {fileName}",
+  eventsFoundOne: "{count} evento encontrado.",
+  eventsFoundOther: "{count} eventos encontrados.",
+  icalImportHint:
+    "Asigne una categoría y una cantidad de energía a las filas resaltadas antes de importar; los eventos que ya están en el calendario aparecen desmarcados. Las horas que el archivo da en UTC u otra zona se muestran en la zona de la sede de cada evento.",
+  include: "Incluir",
+  importTitle: "Importar {title}",
+  alreadyOnCalendar: "Ya está en el calendario.",
+  categoryFor: "Categoría de {title}",
+  choose: "Elegir…",
+  assetFor: "Activo de {title}",
+  energyFor: "Energía de {title}",
+  importing: "Importando…",
+  rowsNeedCategoryOrKwhOne: "{count} fila necesita una categoría o kWh",
+  rowsNeedCategoryOrKwhOther: "{count} filas necesitan una categoría o kWh",
+  importEventsOne: "Importar {count} evento",
+  importEventsOther: "Importar {count} eventos",
+  unsupportedRepeatRule: "Regla de repetición «{rule}» no admitida; se importa como evento único.",
+  unknownTimeZone: "Zona horaria «{zone}» desconocida; las horas se toman como locales de la sede.",
+  unknownCategory: "Categoría «{category}» desconocida.",
+  noEnergyCategory: "Sin categoría de energía.",
+  noEnergyAmount: "Sin cantidad de energía.",
+  importedEvent: "Evento importado",
+
+  // Meter import
+  meteredActivity: "Actividad medida",
+  reconcileMeterData: "Conciliar datos de contador · {fileName}",
+  rowsReadOne: "{count} fila leída.",
+  rowsReadOther: "{count} filas leídas.",
+  meterImportHint:
+    "Asigne las columnas de marca de tiempo y de energía y previsualice cómo encajan las lecturas con los eventos programados antes de aplicarlas.",
+  timestampColumn: "Columna de marca de tiempo",
+  kwhColumn: "Columna de kWh",
+  intervalLength: "Duración del intervalo",
+  hourly: "Horario",
+  minutesCount: "{count} minutos",
+  timestampMarks: "La marca de tiempo indica",
+  intervalStart: "Inicio del intervalo",
+  intervalEnd: "Fin del intervalo",
+  meterCategory: "Categoría del contador",
+  titleForUnmatched: "Título de las lecturas sin evento",
+  meterMeasures: "El contador mide",
+  wholeSiteMeter: "{site} — sede completa",
+  rowsSkippedOne: "{count} fila omitida",
+  rowsSkippedOther: "{count} filas omitidas",
+  unreadableMeterRow: "Fila {row}: no se pudo leer la marca de tiempo o los kWh.",
+  planned: "Previsto",
+  metered: "Medido",
+  variance: "Desviación",
+  intervalsToOne: "{count} intervalo → {status}",
+  intervalsToOther: "{count} intervalos → {status}",
+  newTitle: "Nuevo · {title}",
+  noReadingsOverlap: "Ninguna lectura coincide con eventos de {type} y ninguna contiene energía.",
+  applying: "Aplicando…",
+  completeEventsOne: "Completar {count} evento · crear {created}",
+  completeEventsOther: "Completar {count} eventos · crear {created}",
+  matching: "Conciliando…",
+  previewIntervalsOne: "Previsualizar {count} intervalo",
+  previewIntervalsOther: "Previsualizar {count} intervalos",
+  createdFromIntervalsOne: "Creado a partir de {count} intervalo medido.",
+  createdFromIntervalsOther: "Creado a partir de {count} intervalos medidos.",
+
+  // Tariff
+  newBand: "Nueva franja",
+  timeOfUseTariff: "Tarifa por franjas horarias",
+  tariffHint:
+    "Las franjas se evalúan de arriba abajo; la primera que cubre un minuto fija su precio. Los minutos fuera de toda franja usan las tarifas por defecto. Los meses son números (6, 7, 8 para junio–agosto); déjelo vacío para todo el año.",
+  currency: "Moneda",
+  defaultImportPerKwh: "Importación por defecto / kWh",
+  defaultImportRate: "Tarifa de importación por defecto",
+  defaultExportPerKwh: "Exportación por defecto / kWh",
+  defaultExportRate: "Tarifa de exportación por defecto",
+  demandChargePerPeakKw: "Término de potencia / kW de pico",
+  demandCharge: "Término de potencia",
+  band: "Franja",
+  from: "Desde",
+  to: "Hasta",
+  days: "Días",
+  months: "Meses",
+  import: "Importación",
+  export: "Exportación",
+  bandName: "Nombre de la franja",
+  importRate: "tarifa de importación",
+  exportRate: "tarifa de exportación",
+  weekdays: "Laborables",
+  weekends: "Fines de semana",
+  allYear: "Todo el año",
+  addBand: "Añadir franja",
+  saveTariff: "Guardar tarifa",
+
+  // Carbon profile
+  loadedFileReview: "{fileName} cargado. Revise los valores y guarde para aplicarlos.",
+  gridCarbonIntensity: "Intensidad de carbono de la red",
+  carbonHint:
+    "gCO2e por kWh para cada hora, usados para las emisiones, las emisiones evitadas y las puntuaciones de eficiencia. Suba un array JSON de 24 valores o un CSV de hora (o marca de tiempo) e intensidad; las filas con marca de tiempo se promedian por hora del día.",
+  uploadProfile: "Subir perfil",
+  resetToDefault: "Restablecer valores por defecto",
+  saveProfile: "Guardar perfil",
+
+  // Storage assets
+  storageAssets: "Activos de almacenamiento",
+  storageAssetsHint:
+    "Cada mes se simula desde el estado de carga inicial. La eficiencia de ida y vuelta es una fracción (0,9 conserva el 90 % de la energía cargada); los eventos de almacenamiento sin activo usan el primero de la lista. Añada o quite activos de almacenamiento en el registro de sedes.",
+  capacityKwh: "Capacidad kWh",
+  maxChargeKw: "Carga máx. kW",
+  maxDischargeKw: "Descarga máx. kW",
+  roundTrip: "Ida y vuelta",
+  minSocPercent: "SoC mín. %",
+  startSocPercent: "SoC inicial %",
+  assetName: "Nombre del activo",
+  saveAssets: "Guardar activos",
+
+  // Sites
+  newSite: "Nueva sede",
+  newAsset: "Nuevo activo",
+  sitesAndAssets: "Sedes y activos",
+  sitesHint:
+    "Los eventos vinculados a un activo cuentan para su sede. Una sede solo puede quitarse cuando no tiene activos; los eventos de un activo quitado pasan a los totales de la cartera. Los límites de red acotan la importación y exportación netas por hora de la sede; déjelos vacíos para una conexión sin límite. Las horas de los eventos de una sede son locales de su zona horaria; al cambiar la zona, los eventos únicos se mantienen en el mismo instante y cambian su hora local, mientras que los periódicos conservan su hora local.",
+  site: "Sede",
+  location: "Ubicación",
+  timeZone: "Zona horaria",
+  importLimitKw: "Límite de importación kW",
+  exportLimitKw: "Límite de exportación kW",
+  siteName: "Nombre de la sede",
+  noLimit: "Sin límite",
+  type: "Tipo",
+  ratedKw: "Potencia nominal kW",
+  sameAsSite: "Igual que la sede",
+  addSite: "Añadir sede",
+  addAsset: "Añadir activo",
+  saveRegistry: "Guardar registro",
+
+  // Categories and statuses
+  addsToBalance: "Suma al balance",
+  drawsFromBalance: "Resta del balance",
+  byDirection: "Según el sentido (almacenamiento)",
+  lifecycleTentative: "Provisional: no reserva nada",
+  lifecyclePlanned: "Previsto",
+  lifecycleActive: "Activo",
+  lifecycleCompleted: "Completado",
+  lifecycleVoid: "Nulo: fuera de los totales",
+  categoriesAndStatusesHeading: "Categorías y estados",
+  taxonomyHint:
+    "Las categorías fijan el color de cada evento y si suma o resta del balance neto, lo que también decide si se factura como importación o exportación. El ciclo de vida de un estado decide si los eventos reservan su activo y cuentan en los totales. Las entradas predefinidas pueden cambiar de color pero no quitarse; las que aún usan eventos o activos no pueden quitarse ni renombrarse.",
+  colour: "Color",
+  netBalanceColumn: "Balance neto",
+  categoryName: "Nombre de la categoría",
+  lifecycle: "Ciclo de vida",
+  statusName: "Nombre del estado",
+  newCategory: "Nueva categoría",
+  addCategory: "Añadir categoría",
+  newStatus: "Nuevo estado",
+  addStatus: "Añadir estado",
+  saveTaxonomy: "Guardar taxonomía",
+
+  // Demand response windows
+  demandResponseEvent: "Evento de respuesta a la demanda",
+  addedWindowsOne: "Se añadió {count} ventana desde {fileName}. Revísela y guarde para aplicarla.",
+  addedWindowsOther: "Se añadieron {count} ventanas desde {fileName}. Revíselas y guarde para aplicarlas.",
+  demandResponseWindows: "Ventanas de respuesta a la demanda",
+  demandResponseHint:
+    "Periodos en los que un programa de la compañía paga por reducir la carga de red, medida frente a una línea base de días anteriores. Suba el aviso de evento de la compañía en CSV o JSON con columnas de programa, fecha, inicio, fin y tarifa (inicio y fin pueden ser marcas de tiempo completas), o añada ventanas a mano. Las ventanas sin sede cubren toda la cartera.",
+  program: "Programa",
+  start: "Inicio",
+  end: "Fin",
+  ratePerKwh: "Tarifa por kWh",
+  allSitesOption: "Todas las sedes",
+  uploadUtilityFile: "Subir archivo de la compañía",
+  addWindow: "Añadir ventana",
+  saveWindows: "Guardar ventanas",
+
+  // Automation rules
+  dailySurplusAbove: "Excedente diario superior a (kWh)",
+  datePassesWhileStatus: "Pasa la fecha con el estado",
+  notesMention: "Las notas mencionan",
+  conditionDailySurplus: "el excedente de un día supera {kwh} kWh",
+  conditionOverdue: "pasa la fecha de un evento en estado {status}",
+  conditionNoteKeyword: "las notas de un evento mencionan «{keyword}»",
+  actionCreateEvent: "crear un evento de {type} en estado {status} {start}–{end}",
+  actionSetStatus: "cambiar su estado a {status}",
+  ruleSummary: "Cuando {condition}, {action}.",
+  newRule: "Nueva regla",
+  exportSurplusToGrid: "Exportar excedente a la red",
+  automationRules: "Reglas de automatización",
+  automationHint:
+    "Las reglas activas se ejecutan en orden cada vez que cambian los eventos, o a petición desde el planificador. Las reglas de excedente miran el resto del mes, previsiones incluidas, y crean como mucho un evento al día; las de estado cambian eventos únicos del mes actual. Pruebe una regla para ver qué haría en {month} sin cambiar nada.",
+  rule: "Regla",
+  on: "Activa",
+  then: "Entonces",
+  notify: "Notificar",
+  ruleName: "Nombre de la regla",
+  enabled: "activa",
+  condition: "condición",
+  surplusThreshold: "umbral de excedente",
+  overdueStatus: "estado vencido",
+  keyword: "palabra clave",
+  eventTitle: "título del evento",
+  eventType: "tipo de evento",
+  eventStatus: "estado del evento",
+  eventStart: "inicio del evento",
+  eventEnd: "fin del evento",
+  newStatusField: "nuevo estado",
+  notifies: "notifica",
+  dryRun: "Prueba",
+  nothingToDo: "Nada que hacer: ningún día ni evento coincide ahora mismo.",
+  addRule: "Añadir regla",
+  saveRules: "Guardar reglas",
+  automationCreates: "Crear {title} el {date} para un excedente de {energy}",
+  automationSetsStatus: "Cambiar {title} del {date} a {status}",
+  automationSkipped: "Omitido: {effects}",
+  createdByRule: "Creado por la automatización «{rule}»",
+
+  // Efficiency
+  factorTariff: "Momento tarifario",
+  factorProduction: "Coincidencia con la producción",
+  factorCarbon: "Intensidad de carbono",
+  factorPlan: "Previsto frente a real",
+  factorTariffShort: "Tarifa",
+  factorProductionShort: "Solar",
+  factorCarbonShort: "Carbono",
+  factorPlanShort: "Plan",
+  efficiencyBreakdown: "Desglose de eficiencia",
+  importRateDetail: "Tarifa de compra media {average}/{unit} frente a {min}–{max} ese día",
+  exportRateDetail: "Tarifa de venta media {average}/{unit} frente a {min}–{max} ese día",
+  metByProductionDetail: "{percent} cubierto por producción propia",
+  usedOnSiteDetail: "{percent} consumido en la sede",
+  carbonDetail: "Media {average} {unit} frente a {min}–{max} a lo largo del día",
+  planDetail: "Medido {variance} frente al plan",
+
+  // Live telemetry
+  liveSummary: "{delivered} de {planned} entregados; {expected} previstos a esta hora",
+  deliveredEnergy: "Energía entregada",
+  liveEnergy: "En directo {energy}",
+  percentVsPlan: "{percent} % frente al plan",
+  justStarted: "recién iniciado",
+  noRecentReading: "sin lectura reciente",
+  powerNow: "{power} ahora",
+
+  // Load shift preview
+  moving: "Moviendo {title}",
+  dropToPreview: "Suelte sobre un día para previsualizar el desplazamiento de carga.",
+  netBalanceShift: "Balance neto {from} → {to}",
+  recommendationsUnchanged: "Recomendaciones sin cambios",
+
+  // Demand response settlement
+  dayAverageOne: "media de {count} día",
+  dayAverageOther: "media de {count} días",
+  bookedSchedule: "programación reservada",
+  baseline: "Línea base",
+  actual: "Real",
+  projected: "Previsto",
+  settlementChart: "{program}: línea base {baseline}, carga {load}",
+  baselineVsActual: "Línea base {baseline} ({source}) · real {load}",
+  baselineVsProjected: "Línea base {baseline} ({source}) · previsto {load}",
+  noEventsEnrolled: "Ningún evento inscrito",
+  enrolledOne: "{count} inscrito",
+  enrolledOther: "{count} inscritos",
+  committedReduced: "comprometido {committed} · reducido {reduced}",
+  earnedFor: "{earnings} ganados por {energy} a {rate}/kWh",
+  projectedFor: "{earnings} previstos por {energy} a {rate}/kWh",
+
+  // Charts
+  hourlyProfile: "Perfil horario de potencia por tipo de energía",
+  hourlyProfileHour: "{hour} · oferta {supply} · demanda {demand} · neto {net}",
+  atMonthEnd: "{energy} a fin de mes",
+  eventCountOne: "{count} evento",
+  eventCountOther: "{count} eventos",
+  stateOfChargeOverMonth: "Estado de carga de {name} durante el mes",
+  peakPower: "Pico {power}",
+  demandResponseShort: "RD",
+  nextDaySuffix: "(+1 d)",
+
+  // Analytics
+  analyticsTitle: "Análisis energético",
+  backToCalendar: "← Volver al calendario",
+  analyticsSubtitle:
+    "Tendencias mes a mes de la misma programación que planifica el calendario, con la eficiencia puntuada en directo según la tarifa y el perfil de carbono actuales.",
+  netBalanceTrend: "Tendencia del balance neto",
+  efficiencyTrend: "Tendencia de eficiencia",
+  points: "{points} ptos.",
+  plannedVsActual: "Previsto frente a real",
+  meteredEventsInRangeOne: "{count} evento medido en el periodo",
+  meteredEventsInRangeOther: "{count} eventos medidos en el periodo",
+  monthlyEnergy: "Energía mensual",
+  monthlyEnergyChart: "Consumo, producción, almacenamiento y balance neto por mes",
+  dailyBalance: "Balance diario · {month}",
+  dailyBalanceChart: "Balance energético neto por día este mes",
+  efficiencyDistribution: "Distribución de eficiencia",
+  distributionEntry: "{type} ({count} · media {average} %)",
+  eventsUnit: "eventos",
+  efficiencyDistributionChart: "Eventos por tramo de eficiencia y tipo de energía",
+  plannedVsMeteredChart: "Energía prevista y medida por mes de los eventos conciliados",
+
+  // Monthly report
+  reportTitle: "Informe energético · {month} · {scope}",
+  reportGenerated: "Generado el {time}",
+  reportSummary: "Resumen",
+  storageBuffer: "Reserva de almacenamiento",
+  averageEfficiency: "Eficiencia media",
+  completionRate: "Tasa de finalización",
+  completionOf: "{percent} ({completed} de {total})",
+  peakDemand: "Demanda máxima",
+  reportByType: "Por tipo de energía",
+  reportRecommendations: "Recomendaciones",
+  lowEfficiencyBelow: "Eventos de baja eficiencia (por debajo de {threshold})",
+  noneThisMonth: "Ninguno este mes.",
+  reportEvents: "Eventos",
+  eventsColumn: "Eventos",
+  completedColumn: "Complet.",
+  efficiencyColumn: "Eficiencia",
+  efficiencyShort: "Ef",
+  timeColumn: "Hora",
+  titleColumn: "Título",
+  plannedKwhColumn: "kWh previstos",
+  actualKwhColumn: "kWh reales",
+  reportColumn: "Informe",
+  generatedColumn: "Generado",
+  recommendationColumn: "Recomendación",
+  detailColumn: "Detalle",
+  lowEfficiencyEventColumn: "Evento de baja eficiencia"
+};
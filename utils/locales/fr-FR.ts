@@ -0,0 +1,638 @@
+import type { Messages } from "../i18n";
+
+export const french: Messages = {
+  title: "Calendrier de gestion de l'énergie",
+  subtitle:
+    "Planifiez, programmez et équilibrez les ressources énergétiques distribuées de vos sites. Coordonnez production, stockage et consommation pour réduire les coûts tout en respectant vos objectifs de résilience.",
+  allSites: "Tous les sites (portefeuille)",
+  manageSites: "Gérer les sites",
+  categoriesAndStatuses: "Catégories et statuts",
+  analytics: "Analyses",
+  generateReport: "Générer le rapport",
+  reportCsv: "Rapport CSV",
+  auditLog: "Journal des modifications",
+  users: "Utilisateurs",
+  preferences: "Préférences",
+  signedInAs: "Connecté en tant que {name} ({role})",
+  signOut: "Se déconnecter",
+  netBalance: "Bilan net",
+  filtered: "Filtré",
+  liveNet: "Bilan en direct",
+  energyCost: "Coût de l'énergie",
+  exportRevenue: "Revenus d'injection",
+  netBill: "Facture nette",
+  production: "Production",
+  consumption: "Consommation",
+  storageNet: "Stockage net",
+  forecastBalance: "Bilan prévisionnel",
+  netEmissions: "Émissions nettes",
+  efficiencyIndex: "Indice d'efficacité",
+  eventsCompleted: "{completed} événements terminés sur {total}",
+  loadingSchedule: "Chargement du planning…",
+  all: "Tous",
+  month: "Mois",
+  week: "Semaine",
+  day: "Jour",
+  previous: "← Précédent",
+  today: "Aujourd'hui",
+  next: "Suivant →",
+  exportIcs: "Exporter .ics",
+  importIcs: "Importer .ics",
+  importMeterData: "Importer des relevés",
+  noActivity: "Aucune activité prévue",
+  scheduleNewActivity: "Planifier une activité",
+  readOnlyRole: "Votre rôle {role} permet de consulter le planning, pas de le modifier.",
+  addToCalendar: "Ajouter au calendrier",
+  saving: "Enregistrement…",
+  optimizationInsights: "Pistes d'optimisation",
+  eventCost: "Coût {amount}",
+  eventRevenue: "Recette {amount}",
+  connecting: "Connexion",
+  live: "En direct",
+  offline: "Hors ligne",
+  linkFilterIgnored: "Le filtre du lien a été ignoré : {error}",
+  skippedOccurrence: "« {title} » du {date} ignoré",
+  deletedEvent: "« {title} » supprimé",
+  noCalendarEvents: "{file} ne contient aucun événement de calendrier.",
+  meterFileNeedsColumns: "{file} doit contenir au moins une colonne d'horodatage et une colonne kWh.",
+  fileUnreadable: "Impossible de lire {file} : {error}",
+  surplusForExport: "Surplus disponible pour l'injection",
+  coverDeficit: "Couvrir le déficit par le stockage ou le réseau",
+  assetsReportingOne: "{count} équipement transmet · {time}",
+  assetsReportingOther: "{count} équipements transmettent · {time}",
+  noAssetReported: "Aucun équipement n'a transmis depuis 5 minutes",
+  stopSimulator: "Arrêter le simulateur",
+  simulateTelemetry: "Simuler la télémétrie",
+  energyCostBreakdown: "{energy} énergie · {demand} puissance ({peak} en pointe)",
+  atExportRates: "Production et fourniture aux tarifs d'injection",
+  creditThisMonth: "Crédit ce mois-ci",
+  payableThisMonth: "À payer ce mois-ci",
+  editTariff: "Modifier le tarif",
+  productionBreakdown: "{onSite} sur site · {shared} partagé",
+  scheduledDemand: "{energy} de demande planifiée",
+  infeasibleStorageOne: "{count} événement de stockage irréalisable",
+  infeasibleStorageOther: "{count} événements de stockage irréalisables",
+  dischargedMinusCharged: "Déchargé moins chargé",
+  editStorage: "Modifier le stockage",
+  forecastRange:
+    "{low} à {high} (intervalle à 80 %) · {forecast} prévus + {supply} d'offre planifiée contre {demand} de demande",
+  noForecastYet: "Pas encore de prévision · {demand} de demande planifiée",
+  restOfMonth: "reste du mois",
+  runForecast: "Lancer la prévision",
+  forecastNoteOne: "Prévision à partir de {count} événement terminé ({daypart}).",
+  forecastNoteOther: "Prévision à partir de {count} événements terminés ({daypart}).",
+  daypartNight: "nuit",
+  daypartMorning: "matin",
+  daypartAfternoon: "après-midi",
+  daypartEvening: "soir",
+  usingFile: "Utilise {file}",
+  weatherLoaded: "Météo ✓",
+  weatherFile: "Fichier météo",
+  emissionsBreakdown: "{gross} brutes · {avoided} évitées",
+  carbonProfile: "Profil carbone",
+  cancelledOrFailed: "{count} annulés ou échoués",
+  siteTotalsOne: "{produced} produits · {consumed} consommés · {count} événement",
+  siteTotalsOther: "{produced} produits · {consumed} consommés · {count} événements",
+  viewSite: "Voir le site",
+  portfolio: "Portefeuille",
+  dismiss: "Masquer",
+  conflictsOne: "{count} conflit",
+  conflictsOther: "{count} conflits",
+  demandResponseWindowRate: "Fenêtre d'effacement · {rate}/kWh",
+  editEvent: "Modifier {title}",
+  recurring: "↻ Récurrent",
+  forecastBand: "Prévision {low}–{high} (80 %)",
+  meteredVsPlan: "Mesuré {energy} · {variance} par rapport au plan",
+  storageLimit: "Limite de stockage",
+  loadShiftSuggestions: "Suggestions de report de charge",
+  minimizeCost: "Minimiser le coût",
+  maximizeSelfConsumption: "Maximiser l'autoconsommation",
+  loadsInBestSlots: "Les charges flexibles occupent déjà leurs meilleurs créneaux ce mois-ci.",
+  moveTo: "Déplacer au {date} {start}–{end}.",
+  shiftSaves: "Économise {amount} ; autoconsommé {current} → {proposed}.",
+  soaksUpSurplus: "Absorbe {energy} de surplus de production sur site.",
+  runsInBand: "Tourne en heures « {band} ».",
+  runsAtStandardRate: "Tourne au tarif standard.",
+  shiftCosts: "Coûte {amount} ; autoconsommé {current} → {proposed}.",
+  accept: "Accepter",
+  demandResponseWindowsHeading: "Fenêtres d'effacement",
+  noProgramWindows: "Aucune fenêtre de programme ce mois-ci.",
+  drEarnings: "{earned} gagnés jusqu'ici ; {projected} prévus sur les fenêtres à venir.",
+  manageWindows: "Gérer les fenêtres",
+  automationsActive: "Automatisations · {count} actives",
+  noRuleChangedAnything: "Aucune règle n'a encore rien modifié.",
+  loggedRunsOne: "{count} exécution journalisée ; la plus récente en premier.",
+  loggedRunsOther: "{count} exécutions journalisées ; la plus récente en premier.",
+  runNow: "Exécuter maintenant",
+  manageRules: "Gérer les règles",
+  runFailed: "Échec : {error}",
+  undo: "Annuler",
+
+  // Schedule checks
+  endEqualsStart: "L'heure de fin doit différer de l'heure de début.",
+  runsOvernight: "Se poursuit la nuit et se termine à {time} le lendemain.",
+  skippedTime:
+    "{time} n'existe pas le {date} dans {zone} en raison du passage à l'heure d'été ; l'événement commence à {actual}.",
+  flexWindowTooShort: "La fenêtre flexible est plus courte que l'événement, qui ne pourra donc jamais y être déplacé.",
+  aboveRating: "Nécessite {power} en moyenne, au-delà de la puissance nominale de {rating} de {asset}.",
+  alreadyBooked: "{asset} est déjà réservé pour {title} ({start}–{end}).",
+  importWouldReach:
+    "Le soutirage de {site} atteindrait {power} à {hour}:00 le {date}, au-delà de sa limite de {limit}.",
+  exportWouldReach: "L'injection de {site} atteindrait {power} à {hour}:00 le {date}, au-delà de sa limite de {limit}.",
+  bothUse: "{first} et {second} utilisent tous deux {asset}",
+  importPeaksAt: "Pic de soutirage de {site} à {power} (limite {limit})",
+  exportPeaksAt: "Pic d'injection de {site} à {power} (limite {limit})",
+
+  // Recommendations
+  netLoadImbalance: "Déséquilibre de charge nette",
+  netLoadImbalanceDetail:
+    "La demande dépasse l'offre ce mois-ci. Décalez les charges flexibles (par ex. la recharge des VE) vers le petit matin ou augmentez la décharge du stockage.",
+  positiveNetBalance: "Bilan net positif",
+  positiveNetBalanceDetail:
+    "Vous produisez plus d'énergie que vous n'en consommez. Planifiez une fourniture pour injecter le surplus lors des prix de pointe de l'après-midi.",
+  demandPeaksForecasted: "Pics de demande prévus",
+  demandPeaksForecastedDetail:
+    "La demande prévue dépasse de 20 % la production sur site. Envisagez un effacement ou la mise en route d'une production de secours.",
+  improveEfficiencyScores: "Améliorer les scores d'efficacité",
+  improveEfficiencyScoresDetail: "Optimisez la planification de {titles} pour porter leur efficacité au-delà de 70 %.",
+  moveToLowCarbon: "Déplacer les charges vers les heures bas carbone",
+  moveToLowCarbonDetail:
+    "Démarrer {title} à {time} le fait tourner à {intensity} au lieu de {current} gCO2e/kWh, évitant environ {saved} kg CO2e.",
+  moveToLowCarbonMore: "{titles} pourraient aussi être déplacés.",
+
+  // Recurrence
+  everyDayOne: "Tous les jours",
+  everyDayOther: "Tous les {count} jours",
+  everyWeekOne: "Toutes les semaines",
+  everyWeekOther: "Toutes les {count} semaines",
+  everyMonthOne: "Tous les mois",
+  everyMonthOther: "Tous les {count} mois",
+  onWeekdays: "le {days}",
+  untilDate: "jusqu'au {date}",
+  timesOne: "{count} fois",
+  timesOther: "{count} fois",
+
+  // Event form
+  activityTitle: "Titre de l'activité",
+  activityTitlePlaceholder: "p. ex. Décaler le pré-refroidissement CVC",
+  category: "Catégorie",
+  status: "Statut",
+  date: "Date",
+  energyKwh: "Énergie (kWh)",
+  startTime: "Heure de début",
+  endTime: "Heure de fin",
+  timesLocalToSite: "Les heures sont celles du site ({zone}).",
+  notes: "Notes",
+  notesPlaceholder: "Ajoutez du contexte, des objectifs ou des #tags surveillés par les règles d'automatisation…",
+  asset: "Équipement",
+  noAsset: "Aucun équipement",
+  direction: "Sens",
+  charge: "Charge",
+  discharge: "Décharge",
+  flexibleLoad: "Charge flexible — laisser l'optimiseur proposer un meilleur créneau",
+  earliestStart: "Début au plus tôt",
+  latestEnd: "Fin au plus tard",
+  plusMinusDays: "± jours",
+  demandResponse: "Effacement",
+  notEnrolled: "Non inscrit",
+  removedWindow: "Fenêtre supprimée",
+  committedReductionKw: "Réduction engagée (kW)",
+  repeat: "Répéter",
+  doesNotRepeat: "Ne se répète pas",
+  daily: "Quotidien",
+  weekly: "Hebdomadaire",
+  monthly: "Mensuel",
+  everyDays: "Tous les … jours",
+  everyWeeks: "Toutes les … semaines",
+  everyMonths: "Tous les … mois",
+  onWeekdaysLabel: "Les jours",
+  ends: "Fin",
+  never: "Jamais",
+  onDate: "À une date",
+  afterOccurrences: "Après un nombre d'occurrences",
+  until: "Jusqu'au",
+  occurrences: "Occurrences",
+
+  // Event details
+  efficiencyScore: "Efficacité {score} %",
+  editedOccurrence: "Occurrence modifiée d'un événement récurrent",
+  createdBy: "Créé par {creator}",
+  createdAndChangedBy: "Créé par {creator}, modifié en dernier par {editor}",
+  closeEventDetails: "Fermer les détails de l'événement",
+  applyChangesTo: "Appliquer les modifications à",
+  thisOccurrence: "Cette occurrence",
+  wholeSeries: "Toute la série",
+  saveChanges: "Enregistrer les modifications",
+  markCompleted: "Marquer comme terminé",
+  history: "Historique",
+  deleteSeries: "Supprimer la série",
+  skipOccurrence: "Ignorer l'occurrence",
+  delete: "Supprimer",
+
+  // Event filters
+  search: "Recherche",
+  titleOrNotes: "Titre ou notes",
+  efficiencyPercent: "Efficacité %",
+  energyKwhRange: "Énergie kWh",
+  minimumOf: "{field} minimum",
+  maximumOf: "{field} maximum",
+  min: "min",
+  max: "max",
+  assets: "Équipements",
+  presets: "Préréglages",
+  applySavedFilter: "Appliquer un filtre enregistré",
+  savedFilters: "Filtres enregistrés…",
+  noSavedFilters: "Aucun filtre enregistré",
+  deletePreset: "Supprimer le préréglage",
+  presetName: "Nom du préréglage",
+  saveFilter: "Enregistrer le filtre",
+  summaryShowsFiltered: "Le résumé montre les événements filtrés",
+  eventsMatchingOne: "{matched} sur {count} événement",
+  eventsMatchingOther: "{matched} sur {count} événements",
+  clearFilters: "Effacer les filtres",
+  linkCopied: "Lien copié",
+  copyLink: "Copier le lien",
+
+  // Preferences
+  preferencesHint:
+    "Ces réglages ne s'appliquent qu'à votre compte. Les heures des événements sont toujours affichées dans le fuseau de leur site ; votre navigateur est sur {zone}.",
+  languageAndFormats: "Langue et formats",
+  weekStartsOn: "La semaine commence le",
+  energy: "Énergie",
+  power: "Puissance",
+  preferencesPreview: "Aperçu : {date} · {energy} · {power}. Les formulaires restent en kWh et kW.",
+  cancel: "Annuler",
+  savePreferences: "Enregistrer les préférences",
+
+  // Audit log
+  auditLogHint:
+    "Chaque modification du planning, son auteur et sa date. Les scores d'efficacité sont recalculés automatiquement et ne sont pas listés.",
+  automation: "Automatisation",
+  auditCreated: "Créé",
+  auditChanged: "Modifié",
+  auditDeleted: "Supprimé",
+  event: "Événement",
+  allEvents: "Tous les événements",
+  user: "Utilisateur",
+  everyone: "Tout le monde",
+  noChangesForFilter: "Aucune modification enregistrée pour ce filtre.",
+  noChangesYet: "Aucune modification enregistrée pour l'instant.",
+  when: "Quand",
+  who: "Qui",
+  what: "Quoi",
+  changes: "Modifications",
+  showOnlyThisEvent: "Afficher uniquement cet événement",
+  close: "Fermer",
+
+  // Sign in
+  signInHeading: "Connexion au calendrier de gestion de l'énergie",
+  signInHint:
+    "Les comptes sont gérés par un administrateur. Lors d'une nouvelle installation, le serveur doit être démarré avec {variable} défini ; connectez-vous en tant que {username} avec ce mot de passe, puis changez-le sous Utilisateurs.",
+  username: "Nom d'utilisateur",
+  password: "Mot de passe",
+  signingIn: "Connexion…",
+  signIn: "Se connecter",
+
+  // Users
+  roleViewer: "lecteur",
+  roleOperator: "opérateur",
+  roleAdmin: "administrateur",
+  roleViewerLabel: "Lecteur · lecture seule",
+  roleOperatorLabel: "Opérateur · planifie et termine les événements",
+  roleAdminLabel: "Administrateur · aussi les réglages et les utilisateurs",
+  usersHint:
+    "Les lecteurs consultent le planning, les rapports et le journal des modifications. Les opérateurs créent, modifient et terminent aussi les événements. Les administrateurs changent en plus les tarifs et autres réglages, et gèrent les utilisateurs. Laissez un mot de passe vide pour le conserver.",
+  name: "Nom",
+  role: "Rôle",
+  roleOf: "Rôle de {name}",
+  newUser: "Nouvel utilisateur",
+  newPassword: "Nouveau mot de passe",
+  unchanged: "Inchangé",
+  atLeastCharacters: "Au moins {count} caractères",
+  actions: "Actions",
+  save: "Enregistrer",
+  remove: "Retirer",
+  addUser: "Ajouter un utilisateur",
+
+  // Calendar import
+  importFile: "Importer {fileName}",
+  eventsFoundOne: "{count} événement trouvé.",
+  eventsFoundOther: "{count} événements trouvés.",
+  icalImportHint:
+    "Attribuez une catégorie et une quantité d'énergie aux lignes surlignées avant l'import ; les événements déjà présents dans le calendrier sont décochés. Les heures que le fichier donne en UTC ou dans un autre fuseau sont affichées dans le fuseau du site de chaque événement.",
+  include: "Inclure",
+  importTitle: "Importer {title}",
+  alreadyOnCalendar: "Déjà dans le calendrier.",
+  categoryFor: "Catégorie pour {title}",
+  choose: "Choisir…",
+  assetFor: "Équipement pour {title}",
+  energyFor: "Énergie pour {title}",
+  importing: "Import…",
+  rowsNeedCategoryOrKwhOne: "{count} ligne nécessite une catégorie ou des kWh",
+  rowsNeedCategoryOrKwhOther: "{count} lignes nécessitent une catégorie ou des kWh",
+  importEventsOne: "Importer {count} événement",
+  importEventsOther: "Importer {count} événements",
+  unsupportedRepeatRule: "Règle de répétition « {rule} » non prise en charge ; importé comme événement unique.",
+  unknownTimeZone: "Fuseau horaire « {zone} » inconnu ; les heures sont prises à l'heure locale du site.",
+  unknownCategory: "Catégorie « {category} » inconnue.",
+  noEnergyCategory: "Aucune catégorie d'énergie.",
+  noEnergyAmount: "Aucune quantité d'énergie.",
+  importedEvent: "Événement importé",
+
+  // Meter import
+  meteredActivity: "Activité mesurée",
+  reconcileMeterData: "Rapprocher les relevés · {fileName}",
+  rowsReadOne: "{count} ligne lue.",
+  rowsReadOther: "{count} lignes lues.",
+  meterImportHint:
+    "Associez les colonnes d'horodatage et d'énergie, puis prévisualisez la correspondance entre relevés et événements planifiés avant de les appliquer.",
+  timestampColumn: "Colonne d'horodatage",
+  kwhColumn: "Colonne kWh",
+  intervalLength: "Durée de l'intervalle",
+  hourly: "Horaire",
+  minutesCount: "{count} minutes",
+  timestampMarks: "L'horodatage marque",
+  intervalStart: "Le début de l'intervalle",
+  intervalEnd: "La fin de l'intervalle",
+  meterCategory: "Catégorie du compteur",
+  titleForUnmatched: "Titre des relevés non rapprochés",
+  meterMeasures: "Le compteur mesure",
+  wholeSiteMeter: "{site} — site entier",
+  rowsSkippedOne: "{count} ligne ignorée",
+  rowsSkippedOther: "{count} lignes ignorées",
+  unreadableMeterRow: "Ligne {row} : horodatage ou kWh illisible.",
+  planned: "Prévu",
+  metered: "Mesuré",
+  variance: "Écart",
+  intervalsToOne: "{count} intervalle → {status}",
+  intervalsToOther: "{count} intervalles → {status}",
+  newTitle: "Nouveau · {title}",
+  noReadingsOverlap: "Aucun relevé ne chevauche d'événement {type} et aucun ne contient d'énergie.",
+  applying: "Application…",
+  completeEventsOne: "Terminer {count} événement · en créer {created}",
+  completeEventsOther: "Terminer {count} événements · en créer {created}",
+  matching: "Rapprochement…",
+  previewIntervalsOne: "Prévisualiser {count} intervalle",
+  previewIntervalsOther: "Prévisualiser {count} intervalles",
+  createdFromIntervalsOne: "Créé à partir de {count} intervalle mesuré.",
+  createdFromIntervalsOther: "Créé à partir de {count} intervalles mesurés.",
+
+  // Tariff
+  newBand: "Nouvelle plage",
+  timeOfUseTariff: "Tarif horosaisonnier",
+  tariffHint:
+    "Les plages sont évaluées de haut en bas ; la première qui couvre une minute en fixe le prix. Les minutes hors de toute plage utilisent les tarifs par défaut. Les mois sont des nombres (6, 7, 8 pour juin–août) ; laissez vide pour toute l'année.",
+  currency: "Devise",
+  defaultImportPerKwh: "Soutirage par défaut / kWh",
+  defaultImportRate: "Tarif de soutirage par défaut",
+  defaultExportPerKwh: "Injection par défaut / kWh",
+  defaultExportRate: "Tarif d'injection par défaut",
+  demandChargePerPeakKw: "Prime de puissance / kW de pointe",
+  demandCharge: "Prime de puissance",
+  band: "Plage",
+  from: "De",
+  to: "À",
+  days: "Jours",
+  months: "Mois",
+  import: "Soutirage",
+  export: "Injection",
+  bandName: "Nom de la plage",
+  importRate: "tarif de soutirage",
+  exportRate: "tarif d'injection",
+  weekdays: "Jours ouvrés",
+  weekends: "Week-ends",
+  allYear: "Toute l'année",
+  addBand: "Ajouter une plage",
+  saveTariff: "Enregistrer le tarif",
+
+  // Carbon profile
+  loadedFileReview: "{fileName} chargé. Vérifiez les valeurs et enregistrez pour les appliquer.",
+  gridCarbonIntensity: "Intensité carbone du réseau",
+  carbonHint:
+    "gCO2e par kWh heure par heure, utilisés pour les émissions, les émissions évitées et les scores d'efficacité. Téléversez un tableau JSON de 24 valeurs ou un CSV d'heures (ou d'horodatages) et d'intensités ; les lignes horodatées sont moyennées par heure de la journée.",
+  uploadProfile: "Téléverser un profil",
+  resetToDefault: "Rétablir la valeur par défaut",
+  saveProfile: "Enregistrer le profil",
+
+  // Storage assets
+  storageAssets: "Équipements de stockage",
+  storageAssetsHint:
+    "Chaque mois est simulé à partir de l'état de charge initial. Le rendement aller-retour est une fraction (0,9 conserve 90 % de l'énergie chargée) ; les événements de stockage sans équipement utilisent le premier de la liste. Ajoutez ou retirez des équipements de stockage dans le registre des sites.",
+  capacityKwh: "Capacité kWh",
+  maxChargeKw: "Charge max. kW",
+  maxDischargeKw: "Décharge max. kW",
+  roundTrip: "Aller-retour",
+  minSocPercent: "SoC min. %",
+  startSocPercent: "SoC initial %",
+  assetName: "Nom de l'équipement",
+  saveAssets: "Enregistrer les équipements",
+
+  // Sites
+  newSite: "Nouveau site",
+  newAsset: "Nouvel équipement",
+  sitesAndAssets: "Sites et équipements",
+  sitesHint:
+    "Les événements liés à un équipement comptent pour son site. Un site ne peut être retiré qu'une fois sans équipement ; les événements d'un équipement retiré reviennent aux totaux du portefeuille. Les limites réseau plafonnent le soutirage et l'injection nets horaires du site ; laissez-les vides pour un raccordement sans plafond. Les heures des événements d'un site sont celles de son fuseau ; changer de fuseau garde les événements ponctuels au même instant et décale leur heure locale, tandis que les événements récurrents gardent leur heure locale.",
+  site: "Site",
+  location: "Emplacement",
+  timeZone: "Fuseau horaire",
+  importLimitKw: "Limite de soutirage kW",
+  exportLimitKw: "Limite d'injection kW",
+  siteName: "Nom du site",
+  noLimit: "Sans limite",
+  type: "Type",
+  ratedKw: "Puissance nominale kW",
+  sameAsSite: "Comme le site",
+  addSite: "Ajouter un site",
+  addAsset: "Ajouter un équipement",
+  saveRegistry: "Enregistrer le registre",
+
+  // Categories and statuses
+  addsToBalance: "Augmente le bilan",
+  drawsFromBalance: "Puise dans le bilan",
+  byDirection: "Selon le sens (stockage)",
+  lifecycleTentative: "Provisoire — ne réserve rien",
+  lifecyclePlanned: "Prévu",
+  lifecycleActive: "Actif",
+  lifecycleCompleted: "Terminé",
+  lifecycleVoid: "Nul — exclu des totaux",
+  categoriesAndStatusesHeading: "Catégories et statuts",
+  taxonomyHint:
+    "Les catégories fixent la couleur de chaque événement et s'il augmente ou réduit le bilan net, ce qui détermine aussi s'il est facturé en soutirage ou en injection. Le cycle de vie d'un statut détermine si les événements réservent leur équipement et comptent dans les totaux. Les entrées intégrées peuvent changer de couleur mais pas être retirées ; les entrées encore utilisées par des événements ou des équipements ne peuvent être ni retirées ni renommées.",
+  colour: "Couleur",
+  netBalanceColumn: "Bilan net",
+  categoryName: "Nom de la catégorie",
+  lifecycle: "Cycle de vie",
+  statusName: "Nom du statut",
+  newCategory: "Nouvelle catégorie",
+  addCategory: "Ajouter une catégorie",
+  newStatus: "Nouveau statut",
+  addStatus: "Ajouter un statut",
+  saveTaxonomy: "Enregistrer la taxonomie",
+
+  // Demand response windows
+  demandResponseEvent: "Événement d'effacement",
+  addedWindowsOne: "{count} fenêtre ajoutée depuis {fileName}. Vérifiez-la et enregistrez pour l'appliquer.",
+  addedWindowsOther: "{count} fenêtres ajoutées depuis {fileName}. Vérifiez-les et enregistrez pour les appliquer.",
+  demandResponseWindows: "Fenêtres d'effacement",
+  demandResponseHint:
+    "Périodes pendant lesquelles un programme du fournisseur rémunère la baisse de charge réseau, mesurée par rapport à une référence des jours précédents. Téléversez l'avis d'événement du fournisseur en CSV ou JSON avec les colonnes programme, date, début, fin et tarif (début et fin peuvent être des horodatages complets), ou ajoutez les fenêtres à la main. Les fenêtres sans site couvrent tout le portefeuille.",
+  program: "Programme",
+  start: "Début",
+  end: "Fin",
+  ratePerKwh: "Tarif par kWh",
+  allSitesOption: "Tous les sites",
+  uploadUtilityFile: "Téléverser le fichier du fournisseur",
+  addWindow: "Ajouter une fenêtre",
+  saveWindows: "Enregistrer les fenêtres",
+
+  // Automation rules
+  dailySurplusAbove: "Surplus journalier supérieur à (kWh)",
+  datePassesWhileStatus: "La date passe avec le statut",
+  notesMention: "Les notes mentionnent",
+  conditionDailySurplus: "le surplus d'une journée dépasse {kwh} kWh",
+  conditionOverdue: "la date d'un événement {status} est passée",
+  conditionNoteKeyword: "les notes d'un événement mentionnent « {keyword} »",
+  actionCreateEvent: "créer un événement {type} {status} {start}–{end}",
+  actionSetStatus: "passer son statut à {status}",
+  ruleSummary: "Quand {condition}, {action}.",
+  newRule: "Nouvelle règle",
+  exportSurplusToGrid: "Injecter le surplus sur le réseau",
+  automationRules: "Règles d'automatisation",
+  automationHint:
+    "Les règles actives s'exécutent dans l'ordre à chaque modification d'événement, ou à la demande depuis le planificateur. Les règles de surplus examinent le reste du mois, prévisions comprises, et créent au plus un événement par jour ; les règles de statut modifient les événements ponctuels du mois en cours. Testez une règle pour voir ce qu'elle ferait en {month} sans rien modifier.",
+  rule: "Règle",
+  on: "Active",
+  then: "Alors",
+  notify: "Notifier",
+  ruleName: "Nom de la règle",
+  enabled: "active",
+  condition: "condition",
+  surplusThreshold: "seuil de surplus",
+  overdueStatus: "statut en retard",
+  keyword: "mot-clé",
+  eventTitle: "titre de l'événement",
+  eventType: "type d'événement",
+  eventStatus: "statut de l'événement",
+  eventStart: "début de l'événement",
+  eventEnd: "fin de l'événement",
+  newStatusField: "nouveau statut",
+  notifies: "notifie",
+  dryRun: "Test à blanc",
+  nothingToDo: "Rien à faire : aucun jour ni événement ne correspond pour le moment.",
+  addRule: "Ajouter une règle",
+  saveRules: "Enregistrer les règles",
+  automationCreates: "Créer {title} le {date} pour un surplus de {energy}",
+  automationSetsStatus: "Passer {title} du {date} à {status}",
+  automationSkipped: "Ignoré : {effects}",
+  createdByRule: "Créé par l'automatisation « {rule} »",
+
+  // Efficiency
+  factorTariff: "Moment tarifaire",
+  factorProduction: "Recouvrement avec la production",
+  factorCarbon: "Intensité carbone",
+  factorPlan: "Prévu vs réel",
+  factorTariffShort: "Tarif",
+  factorProductionShort: "Solaire",
+  factorCarbonShort: "Carbone",
+  factorPlanShort: "Plan",
+  efficiencyBreakdown: "Détail de l'efficacité",
+  importRateDetail: "Tarif d'achat moyen {average}/{unit} pour {min}–{max} ce jour-là",
+  exportRateDetail: "Tarif de revente moyen {average}/{unit} pour {min}–{max} ce jour-là",
+  metByProductionDetail: "{percent} couvert par la production sur site",
+  usedOnSiteDetail: "{percent} consommé sur site",
+  carbonDetail: "Moyenne {average} {unit} pour {min}–{max} sur la journée",
+  planDetail: "Mesuré {variance} par rapport au plan",
+
+  // Live telemetry
+  liveSummary: "{delivered} sur {planned} livrés ; {expected} prévus à cette heure",
+  deliveredEnergy: "Énergie livrée",
+  liveEnergy: "En direct {energy}",
+  percentVsPlan: "{percent} % par rapport au plan",
+  justStarted: "vient de commencer",
+  noRecentReading: "aucun relevé récent",
+  powerNow: "{power} maintenant",
+
+  // Load shift preview
+  moving: "Déplacement de {title}",
+  dropToPreview: "Déposez sur un jour pour prévisualiser le report de charge.",
+  netBalanceShift: "Bilan net {from} → {to}",
+  recommendationsUnchanged: "Recommandations inchangées",
+
+  // Demand response settlement
+  dayAverageOne: "moyenne sur {count} jour",
+  dayAverageOther: "moyenne sur {count} jours",
+  bookedSchedule: "planning réservé",
+  baseline: "Référence",
+  actual: "Réel",
+  projected: "Prévu",
+  settlementChart: "{program} : référence {baseline}, charge {load}",
+  baselineVsActual: "Référence {baseline} ({source}) · réel {load}",
+  baselineVsProjected: "Référence {baseline} ({source}) · prévu {load}",
+  noEventsEnrolled: "Aucun événement inscrit",
+  enrolledOne: "{count} inscrit",
+  enrolledOther: "{count} inscrits",
+  committedReduced: "engagé {committed} · réduit {reduced}",
+  earnedFor: "{earnings} gagnés pour {energy} à {rate}/kWh",
+  projectedFor: "{earnings} prévus pour {energy} à {rate}/kWh",
+
+  // Charts
+  hourlyProfile: "Profil de puissance horaire par type d'énergie",
+  hourlyProfileHour: "{hour} · offre {supply} · demande {demand} · net {net}",
+  atMonthEnd: "{energy} en fin de mois",
+  eventCountOne: "{count} événement",
+  eventCountOther: "{count} événements",
+  stateOfChargeOverMonth: "État de charge de {name} sur le mois",
+  peakPower: "Pointe {power}",
+  demandResponseShort: "Eff.",
+  nextDaySuffix: "(+1 j)",
+
+  // Analytics
+  analyticsTitle: "Analyses énergétiques",
+  backToCalendar: "← Retour au calendrier",
+  analyticsSubtitle:
+    "Tendances mois par mois pour le planning du calendrier, avec une efficacité évaluée en direct selon le tarif et le profil carbone actuels.",
+  netBalanceTrend: "Tendance du bilan net",
+  efficiencyTrend: "Tendance de l'efficacité",
+  points: "{points} pts",
+  plannedVsActual: "Prévu vs réel",
+  meteredEventsInRangeOne: "{count} événement mesuré sur la période",
+  meteredEventsInRangeOther: "{count} événements mesurés sur la période",
+  monthlyEnergy: "Énergie mensuelle",
+  monthlyEnergyChart: "Consommation, production, stockage et bilan net par mois",
+  dailyBalance: "Bilan journalier · {month}",
+  dailyBalanceChart: "Bilan énergétique net par jour ce mois-ci",
+  efficiencyDistribution: "Répartition de l'efficacité",
+  distributionEntry: "{type} ({count} · moy. {average} %)",
+  eventsUnit: "événements",
+  efficiencyDistributionChart: "Événements par tranche de score d'efficacité et type d'énergie",
+  plannedVsMeteredChart: "Énergie prévue et mesurée par mois pour les événements rapprochés",
+
+  // Monthly report
+  reportTitle: "Rapport énergétique · {month} · {scope}",
+  reportGenerated: "Généré le {time}",
+  reportSummary: "Synthèse",
+  storageBuffer: "Tampon de stockage",
+  averageEfficiency: "Efficacité moyenne",
+  completionRate: "Taux de réalisation",
+  completionOf: "{percent} ({completed} sur {total})",
+  peakDemand: "Pointe de puissance",
+  reportByType: "Par type d'énergie",
+  reportRecommendations: "Recommandations",
+  lowEfficiencyBelow: "Événements peu efficaces (sous {threshold})",
+  noneThisMonth: "Aucun ce mois-ci.",
+  reportEvents: "Événements",
+  eventsColumn: "Évén.",
+  completedColumn: "Terminés",
+  efficiencyColumn: "Efficacité",
+  efficiencyShort: "Eff",
+  timeColumn: "Heure",
+  titleColumn: "Titre",
+  plannedKwhColumn: "kWh prévus",
+  actualKwhColumn: "kWh réels",
+  reportColumn: "Rapport",
+  generatedColumn: "Généré le",
+  recommendationColumn: "Recommandation",
+  detailColumn: "Détail",
+  lowEfficiencyEventColumn: "Événement peu efficace"
+};
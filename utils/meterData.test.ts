@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { guessMapping, parseMeterFile, reconcileIntervals, tableToIntervals } from "./meterData";
+import type { MeterInterval } from "./meterData";
+import { defaultSiteRegistry } from "./sites";
+import type { EnergyEvent } from "./types";
+import { validateEvent } from "./validation";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "solar",
+  title: "Solar output",
+  type: "Production",
+  date: "2024-06-03",
+  startTime: "10:00",
+  endTime: "12:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  assetId: "solar-array",
+  ...overrides
+});
+
+const hourly = (date: string, fromHour: number, toHour: number, kwh = 10): MeterInterval[] =>
+  Array.from({ length: toHour - fromHour }, (_unused, index) => ({
+    start: `${date}T${String(fromHour + index).padStart(2, "0")}:00`,
+    minutes: 60,
+    kwh
+  }));
+
+const options = { type: "Production", newEventTitle: "Metered output" };
+
+describe("parseMeterFile", () => {
+  it("reads CSV with quoted cells and the delimiter the header uses", () => {
+    const table = parseMeterFile('time;kWh\n"2024-06-03 10:00";"1,5"\n2024-06-03 11:00;2\n', "meter.csv");
+    assert.deepEqual(table.columns, ["time", "kWh"]);
+    assert.deepEqual(table.rows[0], { time: "2024-06-03 10:00", kWh: "1,5" });
+  });
+
+  it("reads JSON arrays and `{ readings }` objects", () => {
+    const rows = [{ timestamp: "2024-06-03T10:00", energy: 1.5, note: null }];
+    assert.deepEqual(parseMeterFile(JSON.stringify(rows), "meter.json").rows, [
+      { timestamp: "2024-06-03T10:00", energy: "1.5", note: "" }
+    ]);
+    assert.equal(parseMeterFile(JSON.stringify({ readings: rows }), "export").rows.length, 1);
+  });
+});
+
+describe("guessMapping", () => {
+  it("picks the timestamp and energy columns and the median gap as the interval", () => {
+    const table = parseMeterFile(
+      "meter,period,energy_kwh\nA,2024-06-03 10:00,1\nA,2024-06-03 10:15,1\nA,2024-06-03 10:30,1\n",
+      "meter.csv"
+    );
+    assert.deepEqual(guessMapping(table), {
+      timestampColumn: "period",
+      kwhColumn: "energy_kwh",
+      intervalMinutes: 15,
+      timestampMarks: "start"
+    });
+  });
+});
+
+describe("tableToIntervals", () => {
+  it("moves end-stamped readings back by one interval and reports unreadable rows", () => {
+    const table = parseMeterFile("time,kwh\n2024-06-03 11:00,4\nnot a time,3\n", "meter.csv");
+    const { intervals, errors } = tableToIntervals(table, {
+      timestampColumn: "time",
+      kwhColumn: "kwh",
+      intervalMinutes: 60,
+      timestampMarks: "end"
+    });
+    assert.deepEqual(intervals, [{ start: "2024-06-03T10:00", minutes: 60, kwh: 4 }]);
+    assert.deepEqual(errors, ["Row 3: could not read timestamp or kWh."]);
+  });
+});
+
+describe("reconcileIntervals", () => {
+  it("credits each event with the readings it overlaps, pro rata for partial intervals", () => {
+    const plan = reconcileIntervals([event({ startTime: "10:30" })], hourly("2024-06-03", 10, 12), options);
+    assert.deepEqual(
+      plan.matches.map(({ event: matched, actualKwh, intervalCount }) => [matched.id, actualKwh, intervalCount]),
+      [["solar", 15, 2]]
+    );
+    assert.deepEqual(plan.newEvents, []);
+  });
+
+  it("splits a reading between events running at the same time instead of counting it twice", () => {
+    const plan = reconcileIntervals(
+      [event(), event({ id: "solar-2", startTime: "11:00" })],
+      hourly("2024-06-03", 10, 12),
+      options
+    );
+    assert.deepEqual(
+      plan.matches.map(({ event: matched, actualKwh }) => [matched.id, actualKwh]),
+      [
+        ["solar", 15],
+        ["solar-2", 5]
+      ]
+    );
+    assert.equal(
+      plan.matches.reduce((acc, match) => acc + match.actualKwh, 0),
+      plan.totalKwh
+    );
+  });
+
+  it("only matches events at the meter's site or on its asset", () => {
+    const wind = event({ id: "wind", assetId: "wind-turbine" });
+    const intervals = hourly("2024-06-03", 10, 12);
+    const atRiverside = reconcileIntervals(
+      [event(), wind],
+      intervals,
+      { ...options, siteId: "riverside-microgrid" },
+      undefined,
+      defaultSiteRegistry
+    );
+    assert.deepEqual(
+      atRiverside.matches.map(({ event: matched }) => matched.id),
+      ["wind"]
+    );
+    const onSolar = reconcileIntervals([event(), wind], intervals, { ...options, assetId: "solar-array" });
+    assert.deepEqual(
+      onSolar.matches.map(({ event: matched }) => matched.id),
+      ["solar"]
+    );
+  });
+
+  it("creates completed events per contiguous run of unmatched readings, on the meter's asset", () => {
+    const plan = reconcileIntervals(
+      [],
+      [...hourly("2024-06-03", 8, 10), ...hourly("2024-06-03", 14, 15, 0), ...hourly("2024-06-03", 16, 17, 2.25)],
+      { ...options, assetId: "solar-array" }
+    );
+    assert.deepEqual(
+      plan.newEvents.map(({ startTime, endTime, energyKwh, status, assetId, notes }) => [
+        startTime,
+        endTime,
+        energyKwh,
+        status,
+        assetId,
+        notes
+      ]),
+      [
+        ["08:00", "10:00", 20, "Completed", "solar-array", "Created from 2 metered intervals."],
+        ["16:00", "17:00", 2.3, "Completed", "solar-array", "Created from 1 metered interval."]
+      ]
+    );
+  });
+
+  it("never creates an event that ends where it starts from a full day of readings", () => {
+    const plan = reconcileIntervals([], hourly("2024-06-03", 0, 24), options);
+    assert.equal(plan.newEvents.length, 1);
+    const [created] = plan.newEvents;
+    assert.deepEqual(
+      [created.date, created.startTime, created.endTime, created.energyKwh],
+      ["2024-06-03", "00:00", "23:59", 240]
+    );
+    const stored = { ...created, id: "metered", efficiencyScore: 0 };
+    assert.deepEqual(
+      validateEvent(stored, [stored], defaultSiteRegistry).filter((issue) => issue.severity === "error"),
+      []
+    );
+  });
+
+  it("starts a new event at midnight", () => {
+    const plan = reconcileIntervals([], [...hourly("2024-06-03", 22, 24), ...hourly("2024-06-04", 0, 2)], options);
+    assert.deepEqual(
+      plan.newEvents.map(({ date, startTime, endTime }) => [date, startTime, endTime]),
+      [
+        ["2024-06-03", "22:00", "00:00"],
+        ["2024-06-04", "00:00", "02:00"]
+      ]
+    );
+  });
+});
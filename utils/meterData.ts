@@ -0,0 +1,290 @@
+import { addMinutes, format, isValid, parse, parseISO } from "date-fns";
+import { translate, translateCount } from "./i18n";
+import type { Locale } from "./i18n";
+import { eventSegments } from "./profile";
+import { fromMinutes, toMinutes } from "./schedule";
+import { defaultSiteRegistry, siteIdOf } from "./sites";
+import type { SiteRegistry } from "./sites";
+import { defaultTaxonomy, statusWithLifecycle } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyEventInput, EnergyType } from "./types";
+
+/** One metered reading: `kwh` delivered during the `minutes` starting at local time `start` (yyyy-MM-ddTHH:mm). */
+export type MeterInterval = {
+  start: string;
+  minutes: number;
+  kwh: number;
+};
+
+export type MeterTable = {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+};
+
+export type MeterColumnMapping = {
+  timestampColumn: string;
+  kwhColumn: string;
+  intervalMinutes: number;
+  /** Many meters label each reading with the end of its interval rather than the start. */
+  timestampMarks: "start" | "end";
+};
+
+export type ReconcileOptions = {
+  type: EnergyType;
+  newEventTitle: string;
+  /** The site the meter measures; only that site's events are matched. */
+  siteId?: string;
+  /** The asset a sub-meter measures; only its events are matched, and unmatched readings become events on it. */
+  assetId?: string;
+};
+
+export type ReconciledMatch = {
+  event: EnergyEvent;
+  actualKwh: number;
+  intervalCount: number;
+};
+
+export type ReconciliationPlan = {
+  matches: ReconciledMatch[];
+  newEvents: EnergyEventInput[];
+  intervalCount: number;
+  totalKwh: number;
+};
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseCsv = (text: string): MeterTable => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    return { columns: [], rows: [] };
+  }
+  const delimiter = [";", "\t", ","].find((candidate) => lines[0].includes(candidate)) ?? ",";
+  const columns = splitCsvLine(lines[0], delimiter);
+  const rows = lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return columns.reduce<Record<string, string>>((acc, column, index) => {
+      acc[column] = cells[index] ?? "";
+      return acc;
+    }, {});
+  });
+  return { columns, rows };
+};
+
+const parseJson = (text: string): MeterTable => {
+  const data = JSON.parse(text);
+  const records: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.readings) ? data.readings : [];
+  const rows = records
+    .filter((record): record is Record<string, unknown> => Boolean(record) && typeof record === "object")
+    .map((record) =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [key, value === null ? "" : String(value)]))
+    );
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return { columns, rows };
+};
+
+/** Reads a CSV or JSON meter export into a flat table; JSON may be an array or `{ readings: [...] }`. */
+export const parseMeterFile = (text: string, fileName: string): MeterTable =>
+  fileName.toLowerCase().endsWith(".json") || text.trim().startsWith("[") || text.trim().startsWith("{")
+    ? parseJson(text)
+    : parseCsv(text);
+
+const timestampFormats = ["yyyy-MM-dd HH:mm:ss", "yyyy-MM-dd HH:mm", "dd/MM/yyyy HH:mm", "MM/dd/yyyy HH:mm"];
+
+export const parseTimestamp = (value: string) => {
+  const iso = parseISO(value.trim());
+  if (isValid(iso)) {
+    return iso;
+  }
+  for (const pattern of timestampFormats) {
+    const parsed = parse(value.trim(), pattern, new Date());
+    if (isValid(parsed)) {
+      return parsed;
+    }
+  }
+  return null;
+};
+
+/** Picks the columns whose names look like a timestamp and an energy reading. */
+export const guessMapping = (table: MeterTable): MeterColumnMapping => {
+  const find = (pattern: RegExp, fallback: number) =>
+    table.columns.find((column) => pattern.test(column)) ?? table.columns[fallback] ?? "";
+  const mapping: MeterColumnMapping = {
+    timestampColumn: find(/time|date|interval|period/i, 0),
+    kwhColumn: find(/kwh|energy|value|reading/i, 1),
+    intervalMinutes: 60,
+    timestampMarks: "start"
+  };
+  const stamps = table.rows
+    .slice(0, 50)
+    .map((row) => parseTimestamp(row[mapping.timestampColumn] ?? ""))
+    .filter((stamp): stamp is Date => stamp !== null);
+  const gaps = stamps
+    .slice(1)
+    .map((stamp, index) => Math.round((stamp.getTime() - stamps[index].getTime()) / 60000))
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length > 0) {
+    mapping.intervalMinutes = gaps[Math.floor(gaps.length / 2)];
+  }
+  return mapping;
+};
+
+export const tableToIntervals = (table: MeterTable, mapping: MeterColumnMapping, locale: Locale = "en-US") => {
+  const intervals: MeterInterval[] = [];
+  const errors: string[] = [];
+  table.rows.forEach((row, index) => {
+    const stamp = parseTimestamp(row[mapping.timestampColumn] ?? "");
+    const kwh = Number((row[mapping.kwhColumn] ?? "").replace(",", "."));
+    if (!stamp || Number.isNaN(kwh)) {
+      errors.push(translate(locale, "unreadableMeterRow", { row: index + 2 }));
+      return;
+    }
+    const start = mapping.timestampMarks === "end" ? addMinutes(stamp, -mapping.intervalMinutes) : stamp;
+    intervals.push({ start: format(start, "yyyy-MM-dd'T'HH:mm"), minutes: mapping.intervalMinutes, kwh });
+  });
+  return { intervals, errors };
+};
+
+const toInstant = (date: string, minute: number) => addMinutes(parseISO(date), minute).getTime();
+
+const eventWindows = (event: EnergyEvent) =>
+  eventSegments(event).map((segment) => ({
+    from: toInstant(segment.date, segment.startMinute),
+    to: toInstant(segment.date, segment.endMinute)
+  }));
+
+/** Whether the meter described by `options` measures the event: same category, and its asset or site if set. */
+const isMetered = (event: EnergyEvent, options: ReconcileOptions, registry: SiteRegistry) =>
+  event.type === options.type &&
+  (options.assetId
+    ? event.assetId === options.assetId
+    : !options.siteId || siteIdOf(event, registry) === options.siteId);
+
+/**
+ * Matches meter intervals against the events the meter measures. Each interval's energy is
+ * shared between overlapping events in proportion to their overlap, so no reading is counted
+ * twice; runs of readings that overlap no event are grouped per day into new events with the
+ * taxonomy's completed status and a note in `locale`.
+ */
+export const reconcileIntervals = (
+  events: EnergyEvent[],
+  intervals: MeterInterval[],
+  options: ReconcileOptions,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  registry: SiteRegistry = defaultSiteRegistry,
+  locale: Locale = "en-US"
+): ReconciliationPlan => {
+  const completed = statusWithLifecycle(taxonomy, "completed") ?? "Completed";
+  const candidates = events
+    .filter((event) => isMetered(event, options, registry))
+    .map((event) => ({ event, windows: eventWindows(event), actualKwh: 0, intervalCount: 0 }));
+  const unmatched: MeterInterval[] = [];
+
+  for (const interval of [...intervals].sort((a, b) => a.start.localeCompare(b.start))) {
+    const from = parseISO(interval.start).getTime();
+    const to = from + interval.minutes * 60000;
+    const overlaps = candidates.map((candidate) =>
+      candidate.windows.reduce(
+        (acc, window) => acc + Math.max(0, Math.min(to, window.to) - Math.max(from, window.from)),
+        0
+      )
+    );
+    // Events running side by side share the reading; one event covering part of it gets that part.
+    const share = Math.max(
+      to - from,
+      overlaps.reduce((acc, overlap) => acc + overlap, 0)
+    );
+    candidates.forEach((candidate, index) => {
+      if (overlaps[index] > 0) {
+        candidate.actualKwh += (interval.kwh * overlaps[index]) / share;
+        candidate.intervalCount += 1;
+      }
+    });
+    if (overlaps.every((overlap) => overlap === 0) && interval.kwh > 0) {
+      unmatched.push(interval);
+    }
+  }
+
+  const newEvents: EnergyEventInput[] = [];
+  let run: MeterInterval[] = [];
+  const flush = () => {
+    if (run.length === 0) {
+      return;
+    }
+    const first = parseISO(run[0].start);
+    const last = addMinutes(parseISO(run[run.length - 1].start), run[run.length - 1].minutes);
+    const kwh = Math.round(run.reduce((acc, interval) => acc + interval.kwh, 0) * 10) / 10;
+    const startTime = format(first, "HH:mm");
+    const endTime = format(last, "HH:mm");
+    newEvents.push({
+      title: options.newEventTitle,
+      type: options.type,
+      date: format(first, "yyyy-MM-dd"),
+      startTime,
+      // A run covering a whole day would end where it starts, which reads as an empty event.
+      endTime: endTime === startTime ? fromMinutes(toMinutes(startTime) - 1) : endTime,
+      ...(options.assetId ? { assetId: options.assetId } : {}),
+      energyKwh: kwh,
+      actualKwh: kwh,
+      status: completed,
+      notes: translateCount(locale, "createdFromIntervals", run.length)
+    });
+    run = [];
+  };
+  for (const interval of unmatched) {
+    const previous = run[run.length - 1];
+    const contiguous =
+      previous &&
+      addMinutes(parseISO(previous.start), previous.minutes).getTime() === parseISO(interval.start).getTime() &&
+      previous.start.slice(0, 10) === interval.start.slice(0, 10);
+    if (!contiguous) {
+      flush();
+    }
+    run.push(interval);
+  }
+  flush();
+
+  return {
+    matches: candidates
+      .filter((candidate) => candidate.intervalCount > 0)
+      .map(({ event, actualKwh, intervalCount }) => ({
+        event,
+        actualKwh: Math.round(actualKwh * 10) / 10,
+        intervalCount
+      })),
+    newEvents,
+    intervalCount: intervals.length,
+    totalKwh: intervals.reduce((acc, interval) => acc + interval.kwh, 0)
+  };
+};
+
+export const intervalDateRange = (intervals: MeterInterval[]) => {
+  const starts = intervals.map((interval) => interval.start.slice(0, 10)).sort();
+  return { start: starts[0], end: starts[starts.length - 1] };
+};
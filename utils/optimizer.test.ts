@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isFlexibleEvent, suggestLoadShifts } from "./optimizer";
+import { defaultPreferences } from "./preferences";
+import { defaultTariff, eventCost } from "./tariff";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "ev-charging",
+  title: "Fleet charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "17:00",
+  endTime: "19:00",
+  energyKwh: 200,
+  status: "Scheduled",
+  efficiencyScore: 50,
+  flexibility: { earliestStart: "00:00", latestEnd: "23:59", dayRange: 0 },
+  ...overrides
+});
+
+const june = new Date(2024, 5, 1);
+
+describe("isFlexibleEvent", () => {
+  it("needs a window, a load type and a planned status", () => {
+    assert.ok(isFlexibleEvent(event()));
+    assert.ok(!isFlexibleEvent(event({ flexibility: undefined })));
+    assert.ok(!isFlexibleEvent(event({ type: "Production" })));
+    assert.ok(!isFlexibleEvent(event({ status: "Opportunity" })));
+    assert.ok(!isFlexibleEvent(event({ type: "Storage", storageDirection: "discharge" })));
+  });
+});
+
+describe("suggestLoadShifts", () => {
+  it("gives its reasons in the preferred locale and energy unit", () => {
+    const solar = event({
+      id: "solar",
+      type: "Production",
+      startTime: "10:00",
+      endTime: "14:00",
+      energyKwh: 4000,
+      flexibility: undefined
+    });
+    const preferences = { ...defaultPreferences, locale: "de-DE" as const, energyUnit: "MWh" as const };
+    const [suggestion] = suggestLoadShifts(
+      [event(), solar],
+      june,
+      defaultTariff,
+      "selfConsumption",
+      undefined,
+      undefined,
+      preferences
+    );
+    assert.equal(suggestion.reason, "Nimmt 0,20 MWh Überschuss der eigenen Erzeugung auf.");
+  });
+  it("moves a peak load to off-peak hours and reports the bill's change as savings", () => {
+    const load = event();
+    const [suggestion] = suggestLoadShifts([load], june, defaultTariff, "cost");
+    assert.equal(suggestion.date, "2024-06-03");
+    assert.ok(suggestion.startTime < "07:00", suggestion.startTime);
+    const moved = { ...load, date: suggestion.date, startTime: suggestion.startTime, endTime: suggestion.endTime };
+    assert.equal(suggestion.currentCost, eventCost(load, defaultTariff).net);
+    assert.equal(suggestion.proposedCost, eventCost(moved, defaultTariff).net);
+    assert.equal(suggestion.savings, Math.round((suggestion.currentCost - suggestion.proposedCost) * 100) / 100);
+  });
+
+  it("keeps to the flexibility window", () => {
+    const load = event({ flexibility: { earliestStart: "12:00", latestEnd: "17:00", dayRange: 0 } });
+    const [suggestion] = suggestLoadShifts([load], june, defaultTariff, "cost");
+    assert.ok(suggestion.startTime >= "12:00" && suggestion.endTime <= "17:00", JSON.stringify(suggestion));
+  });
+
+  it("chases solar surplus for self-consumption, without promising it twice", () => {
+    const solar: EnergyEvent = {
+      ...event({ id: "solar", type: "Production", startTime: "10:00", endTime: "14:00", energyKwh: 400 }),
+      flexibility: undefined
+    };
+    const first = event({ id: "first", energyKwh: 300, startTime: "18:00", endTime: "21:00" });
+    const second = event({ id: "second", energyKwh: 100, startTime: "18:00", endTime: "19:00" });
+    const suggestions = suggestLoadShifts([solar, first, second], june, defaultTariff, "selfConsumption");
+    const absorbed = suggestions.reduce((acc, suggestion) => acc + suggestion.proposedSelfConsumedKwh, 0);
+    assert.ok(suggestions.length > 0);
+    assert.ok(absorbed <= 400 + 1e-9, String(absorbed));
+  });
+
+  it("proposes nothing when no slot gains enough", () => {
+    const load = event({ startTime: "01:00", endTime: "03:00" });
+    assert.deepEqual(suggestLoadShifts([load], june, defaultTariff, "cost"), []);
+  });
+});
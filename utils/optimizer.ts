@@ -0,0 +1,187 @@
+import { addDays, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { translatorFor } from "./i18n";
+import { defaultPreferences, formatEnergy } from "./preferences";
+import type { Preferences } from "./preferences";
+import { hourlyProfile, hourlySlices, totalKw } from "./profile";
+import { durationMinutes, fromMinutes, minutesPerDay, shiftEvent, toMinutes } from "./schedule";
+import { storageDirectionOf } from "./storage";
+import { eventCost, rateAt } from "./tariff";
+import type { Tariff } from "./tariff";
+import {
+  balanceOf,
+  countsTowardTotals,
+  defaultTaxonomy,
+  isFlexibleType,
+  lifecycleOf,
+  typesWithBalance
+} from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+export type OptimizerObjective = "cost" | "selfConsumption";
+
+export type LoadShiftSuggestion = {
+  event: EnergyEvent;
+  date: string;
+  startTime: string;
+  endTime: string;
+  currentCost: number;
+  proposedCost: number;
+  savings: number;
+  currentSelfConsumedKwh: number;
+  proposedSelfConsumedKwh: number;
+  reason: string;
+};
+
+type Placement = Pick<EnergyEvent, "date" | "startTime" | "endTime">;
+
+type PlacementScore = {
+  cost: number;
+  selfConsumedKwh: number;
+};
+
+/** Candidate start times are tried on this grid, matching the timeline's drag snapping. */
+const slotMinutes = 15;
+
+/** Shifts that gain less than this (currency units or kWh, depending on the objective) are not worth proposing. */
+const minimumGain = 1;
+
+const round = (value: number, step = 100) => Math.round(value * step) / step;
+
+export const isFlexibleEvent = (event: EnergyEvent, taxonomy: Taxonomy = defaultTaxonomy) =>
+  Boolean(event.flexibility) &&
+  isFlexibleType(taxonomy, event.type) &&
+  (balanceOf(taxonomy, event.type) !== "storage" || storageDirectionOf(event) === "charge") &&
+  lifecycleOf(taxonomy, event.status) === "planned";
+
+/**
+ * Every placement the event's flexibility window allows: each day within `dayRange` of its date,
+ * every slot from the earliest start up to the last start that still ends by `latestEnd`.
+ */
+const candidatePlacements = (event: EnergyEvent, earliestDate: string, latestDate: string): Placement[] => {
+  const flexibility = event.flexibility;
+  if (!flexibility) {
+    return [];
+  }
+  const duration = durationMinutes(event.startTime, event.endTime);
+  const windowStart = toMinutes(flexibility.earliestStart);
+  let windowEnd = toMinutes(flexibility.latestEnd);
+  if (windowEnd <= windowStart) {
+    windowEnd += minutesPerDay;
+  }
+  const placements: Placement[] = [];
+  for (let offset = -flexibility.dayRange; offset <= flexibility.dayRange; offset += 1) {
+    const anchor = addDays(parseISO(event.date), offset);
+    for (let start = windowStart; start + duration <= windowEnd; start += slotMinutes) {
+      const date = format(addDays(anchor, Math.floor(start / minutesPerDay)), "yyyy-MM-dd");
+      if (date < earliestDate || date > latestDate) {
+        continue;
+      }
+      placements.push(shiftEvent(event, date, fromMinutes(start)));
+    }
+  }
+  return placements;
+};
+
+/**
+ * Suggests new slots for flexible loads and Storage charging events in `month`. Placements are
+ * costed with `eventCost`, so the savings shown are what the bill changes by once a move is
+ * accepted. Supply left over after fixed consumption is the surplus a load can soak up; events are
+ * placed largest first and each placement consumes the surplus it uses, so two loads are never both
+ * promised the same solar hour. Demand charges are not modelled. Reasons are in the
+ * `preferences` locale and energy unit.
+ */
+export const suggestLoadShifts = (
+  events: EnergyEvent[],
+  month: Date,
+  tariff: Tariff,
+  objective: OptimizerObjective,
+  earliestDate = format(startOfMonth(month), "yyyy-MM-dd"),
+  taxonomy: Taxonomy = defaultTaxonomy,
+  preferences: Preferences = defaultPreferences
+): LoadShiftSuggestion[] => {
+  const { t } = translatorFor(preferences.locale);
+  const monthStart = format(startOfMonth(month), "yyyy-MM-dd");
+  const latestDate = format(endOfMonth(month), "yyyy-MM-dd");
+  const firstDate = earliestDate > monthStart ? earliestDate : monthStart;
+  const flexible = events.filter((event) => isFlexibleEvent(event, taxonomy)).sort((a, b) => b.energyKwh - a.energyKwh);
+  const fixed = events.filter((event) => !flexible.includes(event) && countsTowardTotals(taxonomy, event));
+
+  const supplyTypes = typesWithBalance(taxonomy, "supply");
+  const demandTypes = typesWithBalance(taxonomy, "consumption");
+  const surplus = new Map<string, number[]>();
+  const surplusFor = (date: string) => {
+    let hours = surplus.get(date);
+    if (!hours) {
+      hours = hourlyProfile(fixed, date).map((load) =>
+        Math.max(0, totalKw(load, supplyTypes) - totalKw(load, demandTypes))
+      );
+      surplus.set(date, hours);
+    }
+    return hours;
+  };
+
+  const score = (event: EnergyEvent, placement: Placement): PlacementScore => {
+    let selfConsumedKwh = 0;
+    for (const slice of hourlySlices({ ...event, ...placement })) {
+      selfConsumedKwh += Math.min(slice.kwh, surplusFor(slice.date)[slice.hour]);
+    }
+    return { cost: eventCost({ ...event, ...placement }, tariff, taxonomy).net, selfConsumedKwh };
+  };
+
+  const gain = (from: PlacementScore, to: PlacementScore) =>
+    objective === "cost" ? from.cost - to.cost : to.selfConsumedKwh - from.selfConsumedKwh;
+
+  const isBetter = (candidate: PlacementScore, best: PlacementScore) => {
+    const difference = gain(best, candidate);
+    if (Math.abs(difference) > 1e-9) {
+      return difference > 0;
+    }
+    return objective === "cost" ? candidate.selfConsumedKwh > best.selfConsumedKwh : candidate.cost < best.cost;
+  };
+
+  const consume = (event: EnergyEvent, placement: Placement) => {
+    for (const slice of hourlySlices({ ...event, ...placement })) {
+      const hours = surplusFor(slice.date);
+      hours[slice.hour] = Math.max(0, hours[slice.hour] - slice.kwh);
+    }
+  };
+
+  const suggestions: LoadShiftSuggestion[] = [];
+  for (const event of flexible) {
+    const current: Placement = { date: event.date, startTime: event.startTime, endTime: event.endTime };
+    const currentScore = score(event, current);
+    let best = current;
+    let bestScore = currentScore;
+    for (const placement of candidatePlacements(event, firstDate, latestDate)) {
+      const candidateScore = score(event, placement);
+      if (isBetter(candidateScore, bestScore)) {
+        best = placement;
+        bestScore = candidateScore;
+      }
+    }
+    if (best === current || gain(currentScore, bestScore) < minimumGain) {
+      consume(event, current);
+      continue;
+    }
+    consume(event, best);
+    const band = rateAt(tariff, best.date, toMinutes(best.startTime)).band;
+    const absorbed = bestScore.selfConsumedKwh - currentScore.selfConsumedKwh;
+    suggestions.push({
+      event,
+      ...best,
+      currentCost: round(currentScore.cost),
+      proposedCost: round(bestScore.cost),
+      savings: round(currentScore.cost - bestScore.cost),
+      currentSelfConsumedKwh: round(currentScore.selfConsumedKwh, 10),
+      proposedSelfConsumedKwh: round(bestScore.selfConsumedKwh, 10),
+      reason:
+        absorbed >= minimumGain
+          ? t("soaksUpSurplus", { energy: formatEnergy(Math.round(absorbed), preferences) })
+          : band
+            ? t("runsInBand", { band: band.name.toLowerCase() })
+            : t("runsAtStandardRate")
+    });
+  }
+  return suggestions.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+};
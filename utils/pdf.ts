@@ -0,0 +1,127 @@
+export type PdfFont = "regular" | "bold" | "mono";
+
+export type PdfLine = {
+  text: string;
+  size?: number;
+  font?: PdfFont;
+  /** Extra space above the line, in points. */
+  gapBefore?: number;
+};
+
+const pageWidth = 595;
+const pageHeight = 842;
+const margin = 50;
+
+const fontNames: Record<PdfFont, string> = { regular: "F1", bold: "F2", mono: "F3" };
+
+const baseFonts: Record<PdfFont, string> = { regular: "Helvetica", bold: "Helvetica-Bold", mono: "Courier" };
+
+/** Characters outside Latin-1 that the standard fonts' WinAnsi encoding can still draw. */
+const winAnsiExtras: Record<string, string> = {
+  "€": "\x80",
+  "…": "\x85",
+  "‘": "\x91",
+  "’": "\x92",
+  "“": "\x93",
+  "”": "\x94",
+  "•": "\x95",
+  "–": "\x96",
+  "—": "\x97",
+  "→": "->",
+  "₂": "2",
+  "\u202f": " "
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text)
+    .map((char) => winAnsiExtras[char] ?? (char.charCodeAt(0) < 256 ? char : "?"))
+    .join("");
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+
+/** Rough glyph width: Courier is exactly 0.6em, Helvetica averages a little over 0.5em. */
+const wrap = (line: PdfLine): PdfLine[] => {
+  const size = line.size ?? 10;
+  const maxChars = Math.floor((pageWidth - margin * 2) / (size * (line.font === "mono" ? 0.6 : 0.52)));
+  if (line.text.length <= maxChars) {
+    return [line];
+  }
+  const wrapped: PdfLine[] = [];
+  let current = "";
+  for (const word of line.text.split(" ")) {
+    if (current && `${current} ${word}`.length > maxChars) {
+      wrapped.push({ ...line, text: current, gapBefore: wrapped.length === 0 ? line.gapBefore : 0 });
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  wrapped.push({ ...line, text: current, gapBefore: wrapped.length === 0 ? line.gapBefore : 0 });
+  return wrapped;
+};
+
+const paginate = (lines: PdfLine[]) => {
+  const pages: string[][] = [[]];
+  let y = pageHeight - margin;
+  for (const line of lines.flatMap(wrap)) {
+    const size = line.size ?? 10;
+    const advance = size * 1.35 + (line.gapBefore ?? 0);
+    if (y - advance < margin && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = pageHeight - margin;
+    }
+    y -= pages[pages.length - 1].length === 0 ? size : advance;
+    pages[pages.length - 1].push(
+      `BT /${fontNames[line.font ?? "regular"]} ${size} Tf ${margin} ${y.toFixed(1)} Td (${escapeText(line.text)}) Tj ET`
+    );
+  }
+  return pages;
+};
+
+/**
+ * Renders lines of text to a minimal A4 PDF using the standard Type 1 fonts, so reports can be
+ * generated server-side without a rendering engine. Long lines wrap and overflow onto new pages.
+ */
+export const renderPdf = (lines: PdfLine[], title: string) => {
+  const pages = paginate(lines);
+  const fonts = Object.keys(fontNames) as PdfFont[];
+  const fontIds = fonts.map((_font, index) => 4 + index);
+  const firstPageId = 4 + fonts.length;
+  const pageIds = pages.map((_page, index) => firstPageId + index * 2);
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title (${escapeText(title)}) /Producer (Energy Management Calendar) >>`,
+    ...fonts.map(
+      (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFonts[font]} /Encoding /WinAnsiEncoding >>`
+    ),
+    ...pages.flatMap((commands, index) => {
+      const stream = commands.join("\n");
+      const fontResources = fonts.map((font, fontIndex) => `/${fontNames[font]} ${fontIds[fontIndex]} 0 R`).join(" ");
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+          `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      ];
+    })
+  ];
+
+  // Every character is a single byte after WinAnsi encoding, so string offsets are byte offsets.
+  let body = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = body.length;
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  const bytes = new Uint8Array(body.length);
+  for (let index = 0; index < body.length; index += 1) {
+    bytes[index] = body.charCodeAt(index);
+  }
+  return bytes;
+};
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultPreferences, formatEnergy, formatPower, parsePreferences } from "./preferences";
+import type { Preferences } from "./preferences";
+
+const german: Preferences = { locale: "de-DE", weekStartsOn: 1, energyUnit: "MWh", powerUnit: "MW" };
+
+describe("formatEnergy and formatPower", () => {
+  it("show whole kWh and kW by default", () => {
+    assert.equal(formatEnergy(1234.4, defaultPreferences), "1,234 kWh");
+    assert.equal(formatPower(-80, defaultPreferences, { signed: true }), "-80 kW");
+  });
+
+  it("convert to MWh and MW with two more decimals, in the locale's notation", () => {
+    assert.equal(formatEnergy(1234.5, german), "1,23 MWh");
+    assert.equal(formatEnergy(1234.5, german, { fractionDigits: 1 }), "1,235 MWh");
+    assert.equal(formatPower(500, { ...defaultPreferences, powerUnit: "MW" }, { signed: true }), "+0.50 MW");
+  });
+});
+
+describe("parsePreferences", () => {
+  it("accepts known locales, week starts and units only", () => {
+    assert.deepEqual(parsePreferences(german), { ok: true, value: german });
+    assert.deepEqual(parsePreferences({ ...german, locale: "nl-NL" }), {
+      ok: false,
+      error: "locale must be one of en-US, en-GB, de-DE, fr-FR, es-ES."
+    });
+    assert.ok(!parsePreferences({ ...german, weekStartsOn: 3 }).ok);
+    assert.ok(!parsePreferences({ ...german, energyUnit: "GWh" }).ok);
+  });
+});
@@ -0,0 +1,75 @@
+import type { ParseResult } from "./events";
+import { isLocale, locales } from "./i18n";
+import type { Locale } from "./i18n";
+
+export type EnergyUnit = "kWh" | "MWh";
+
+export type PowerUnit = "kW" | "MW";
+
+/** Sunday, Monday or Saturday, as date-fns counts weekdays. */
+export type WeekStart = 0 | 1 | 6;
+
+/** Per-user display settings. Values are always stored and sent in kWh and kW; units only change what is shown. */
+export type Preferences = {
+  locale: Locale;
+  weekStartsOn: WeekStart;
+  energyUnit: EnergyUnit;
+  powerUnit: PowerUnit;
+};
+
+export const energyUnits: EnergyUnit[] = ["kWh", "MWh"];
+
+export const powerUnits: PowerUnit[] = ["kW", "MW"];
+
+export const weekStarts: WeekStart[] = [0, 1, 6];
+
+export const defaultPreferences: Preferences = { locale: "en-US", weekStartsOn: 0, energyUnit: "kWh", powerUnit: "kW" };
+
+type FormatOptions = {
+  /** Always show the sign, e.g. for balances. */
+  signed?: boolean;
+  /** Defaults to whole kWh or kW, and to two decimals in MWh or MW. */
+  fractionDigits?: number;
+};
+
+const formatQuantity = (value: number, unit: string, locale: Locale, digits: number, signed = false) =>
+  `${new Intl.NumberFormat(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    signDisplay: signed ? "always" : "auto"
+  }).format(value)} ${unit}`;
+
+export const formatEnergy = (kwh: number, preferences: Preferences, options: FormatOptions = {}) =>
+  preferences.energyUnit === "MWh"
+    ? formatQuantity(kwh / 1000, "MWh", preferences.locale, (options.fractionDigits ?? 0) + 2, options.signed)
+    : formatQuantity(kwh, "kWh", preferences.locale, options.fractionDigits ?? 0, options.signed);
+
+export const formatPower = (kw: number, preferences: Preferences, options: FormatOptions = {}) =>
+  preferences.powerUnit === "MW"
+    ? formatQuantity(kw / 1000, "MW", preferences.locale, (options.fractionDigits ?? 0) + 2, options.signed)
+    : formatQuantity(kw, "kW", preferences.locale, options.fractionDigits ?? 0, options.signed);
+
+export const parsePreferences = (payload: unknown): ParseResult<Preferences> => {
+  const source = (payload ?? {}) as Record<string, unknown>;
+  if (!isLocale(source.locale)) {
+    return { ok: false, error: `locale must be one of ${locales.join(", ")}.` };
+  }
+  if (!weekStarts.includes(source.weekStartsOn as WeekStart)) {
+    return { ok: false, error: "weekStartsOn must be 0 (Sunday), 1 (Monday) or 6 (Saturday)." };
+  }
+  if (!energyUnits.includes(source.energyUnit as EnergyUnit)) {
+    return { ok: false, error: `energyUnit must be one of ${energyUnits.join(", ")}.` };
+  }
+  if (!powerUnits.includes(source.powerUnit as PowerUnit)) {
+    return { ok: false, error: `powerUnit must be one of ${powerUnits.join(", ")}.` };
+  }
+  return {
+    ok: true,
+    value: {
+      locale: source.locale,
+      weekStartsOn: source.weekStartsOn as WeekStart,
+      energyUnit: source.energyUnit as EnergyUnit,
+      powerUnit: source.powerUnit as PowerUnit
+    }
+  };
+};
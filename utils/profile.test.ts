@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { eventSegments, hourlyProfile, hourlySlices, layoutSegments, segmentsForDate, totalKw } from "./profile";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "night-charging",
+  title: "Night charging",
+  type: "Storage",
+  date: "2024-06-03",
+  startTime: "22:00",
+  endTime: "02:00",
+  energyKwh: 240,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  ...overrides
+});
+
+const spans = (segments: ReturnType<typeof eventSegments>) =>
+  segments.map(({ date, startMinute, endMinute }) => [date, startMinute, endMinute]);
+
+describe("eventSegments", () => {
+  it("splits an event running past midnight into one segment per day", () => {
+    const segments = eventSegments(event());
+    assert.deepEqual(spans(segments), [
+      ["2024-06-03", 1320, 1440],
+      ["2024-06-04", 0, 120]
+    ]);
+    assert.deepEqual(
+      segments.map(({ continuesFromPreviousDay, continuesToNextDay }) => [
+        continuesFromPreviousDay,
+        continuesToNextDay
+      ]),
+      [
+        [false, true],
+        [true, false]
+      ]
+    );
+  });
+
+  it("keeps an event ending at 00:00 on its own day, without an empty segment after midnight", () => {
+    const segments = eventSegments(event({ endTime: "00:00" }));
+    assert.deepEqual(spans(segments), [["2024-06-03", 1320, 1440]]);
+    assert.equal(segments[0].continuesToNextDay, false);
+    assert.deepEqual(segmentsForDate([event({ endTime: "00:00" })], "2024-06-04"), []);
+  });
+
+  it("crosses into the next month and year", () => {
+    assert.deepEqual(spans(eventSegments(event({ date: "2024-12-31" }))), [
+      ["2024-12-31", 1320, 1440],
+      ["2025-01-01", 0, 120]
+    ]);
+  });
+});
+
+describe("hourlyProfile", () => {
+  it("spreads the energy evenly over both days, so each hour's kWh is its average kW", () => {
+    const overnight = event();
+    const first = hourlyProfile([overnight], "2024-06-03");
+    const second = hourlyProfile([overnight], "2024-06-04");
+    assert.deepEqual(
+      [
+        first[21].Storage,
+        first[22].Storage,
+        first[23].Storage,
+        second[0].Storage,
+        second[1].Storage,
+        second[2].Storage
+      ],
+      [0, 60, 60, 60, 60, 0]
+    );
+  });
+
+  it("counts partial hours and adds up events of different types", () => {
+    const hours = hourlyProfile(
+      [
+        event({ endTime: "00:00", energyKwh: 90, startTime: "22:30" }),
+        event({ id: "solar", type: "Production", startTime: "23:00", endTime: "23:30", energyKwh: 20 })
+      ],
+      "2024-06-03"
+    );
+    assert.equal(hours[22].Storage, 30);
+    assert.equal(hours[23].Storage, 60);
+    assert.equal(totalKw(hours[23], ["Storage", "Production"]), 80);
+  });
+
+  it("skips events without a duration", () => {
+    const hours = hourlyProfile([event({ startTime: "09:00", endTime: "09:00" })], "2024-06-03");
+    assert.equal(
+      hours.reduce((acc, load) => acc + load.Storage, 0),
+      0
+    );
+  });
+});
+
+describe("hourlySlices", () => {
+  it("dates each clock hour of an overnight event and loses no energy", () => {
+    const slices = hourlySlices(event({ startTime: "23:30", endTime: "01:00", energyKwh: 90 }));
+    assert.deepEqual(slices, [
+      { date: "2024-06-03", hour: 23, kwh: 30 },
+      { date: "2024-06-04", hour: 0, kwh: 60 }
+    ]);
+  });
+});
+
+describe("layoutSegments", () => {
+  it("puts overlapping segments in side-by-side lanes and reuses a lane once it frees up", () => {
+    const segments = segmentsForDate(
+      [
+        event({ id: "a", startTime: "08:00", endTime: "10:00" }),
+        event({ id: "b", startTime: "09:00", endTime: "11:00" }),
+        event({ id: "c", startTime: "10:00", endTime: "12:00" })
+      ],
+      "2024-06-03"
+    );
+    const { placed, laneCount } = layoutSegments(segments);
+    assert.deepEqual(
+      placed.map(({ segment, lane }) => [segment.event.id, lane]),
+      [
+        ["a", 0],
+        ["b", 1],
+        ["c", 0]
+      ]
+    );
+    assert.equal(laneCount, 2);
+  });
+});
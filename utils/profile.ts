@@ -0,0 +1,128 @@
+import { addDays, format, parseISO } from "date-fns";
+import { durationMinutes, minutesPerDay, toMinutes } from "./schedule";
+import { builtInEnergyTypes } from "./types";
+import type { EnergyEvent, EnergyType } from "./types";
+
+export type EventSegment = {
+  event: EnergyEvent;
+  date: string;
+  startMinute: number;
+  endMinute: number;
+  continuesFromPreviousDay: boolean;
+  continuesToNextDay: boolean;
+};
+
+/** kW per type; the built-in types are always present, custom categories only once an event of theirs runs. */
+export type HourlyLoad = Record<EnergyType, number>;
+
+const nextDate = (date: string) => format(addDays(parseISO(date), 1), "yyyy-MM-dd");
+
+/**
+ * Splits an event into the parts that fall on each calendar day. Events whose end time is
+ * earlier than their start time run past midnight and produce a second segment on the next day.
+ */
+export const eventSegments = (event: EnergyEvent): EventSegment[] => {
+  const start = toMinutes(event.startTime);
+  const end = start + durationMinutes(event.startTime, event.endTime);
+  if (end <= minutesPerDay) {
+    return [
+      {
+        event,
+        date: event.date,
+        startMinute: start,
+        endMinute: end,
+        continuesFromPreviousDay: false,
+        continuesToNextDay: false
+      }
+    ];
+  }
+  return [
+    {
+      event,
+      date: event.date,
+      startMinute: start,
+      endMinute: minutesPerDay,
+      continuesFromPreviousDay: false,
+      continuesToNextDay: true
+    },
+    {
+      event,
+      date: nextDate(event.date),
+      startMinute: 0,
+      endMinute: end - minutesPerDay,
+      continuesFromPreviousDay: true,
+      continuesToNextDay: false
+    }
+  ];
+};
+
+export const segmentsForDate = (events: EnergyEvent[], date: string) =>
+  events.flatMap(eventSegments).filter((segment) => segment.date === date);
+
+/** Assigns overlapping segments to side-by-side lanes so none of them hide each other. */
+export const layoutSegments = (segments: EventSegment[]) => {
+  const sorted = [...segments].sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+  const laneEnds: number[] = [];
+  const placed = sorted.map((segment) => {
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= segment.startMinute);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = segment.endMinute;
+    return { segment, lane };
+  });
+  return { placed, laneCount: Math.max(1, laneEnds.length) };
+};
+
+const emptyLoad = (): HourlyLoad => builtInEnergyTypes.reduce((acc, type) => ({ ...acc, [type]: 0 }), {} as HourlyLoad);
+
+/**
+ * Average power (kW) per type for each of the 24 hours of `date`. Each event's energy is spread
+ * evenly over its duration, so the kWh falling inside an hour equals that hour's average kW.
+ */
+export const hourlyProfile = (events: EnergyEvent[], date: string): HourlyLoad[] => {
+  const hours = Array.from({ length: 24 }, emptyLoad);
+  for (const segment of segmentsForDate(events, date)) {
+    const totalMinutes = durationMinutes(segment.event.startTime, segment.event.endTime);
+    if (totalMinutes === 0) {
+      continue;
+    }
+    const kwhPerMinute = segment.event.energyKwh / totalMinutes;
+    for (let hour = Math.floor(segment.startMinute / 60); hour * 60 < segment.endMinute; hour += 1) {
+      const overlap = Math.min(segment.endMinute, (hour + 1) * 60) - Math.max(segment.startMinute, hour * 60);
+      if (overlap > 0) {
+        hours[hour][segment.event.type] = (hours[hour][segment.event.type] ?? 0) + overlap * kwhPerMinute;
+      }
+    }
+  }
+  return hours;
+};
+
+/** Total kW of `types` in one hour of a profile, e.g. all supply categories. */
+export const totalKw = (load: HourlyLoad, types: EnergyType[]) =>
+  types.reduce((acc, type) => acc + (load[type] ?? 0), 0);
+
+export type HourSlice = {
+  date: string;
+  hour: number;
+  kwh: number;
+};
+
+/** The kWh an event puts through each clock hour it touches, spread evenly over its duration. */
+export const hourlySlices = (event: EnergyEvent): HourSlice[] => {
+  const totalMinutes = durationMinutes(event.startTime, event.endTime);
+  if (totalMinutes === 0) {
+    return [];
+  }
+  const kwhPerMinute = event.energyKwh / totalMinutes;
+  return eventSegments(event).flatMap((segment) => {
+    const slices: HourSlice[] = [];
+    for (let hour = Math.floor(segment.startMinute / 60); hour * 60 < segment.endMinute; hour += 1) {
+      const overlap = Math.min(segment.endMinute, (hour + 1) * 60) - Math.max(segment.startMinute, hour * 60);
+      if (overlap > 0) {
+        slices.push({ date: segment.date, hour, kwh: overlap * kwhPerMinute });
+      }
+    }
+    return slices;
+  });
+};
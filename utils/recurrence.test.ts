@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeRecurrence, expandRecurrences, monthRange, occurrenceDates } from "./recurrence";
+import type { EnergyEvent, Recurrence } from "./types";
+
+const series = (recurrence: Recurrence, date = "2024-06-03"): EnergyEvent => ({
+  id: "series",
+  title: "Night charge",
+  type: "Storage",
+  date,
+  startTime: "01:00",
+  endTime: "04:00",
+  energyKwh: 120,
+  status: "Scheduled",
+  efficiencyScore: 70,
+  recurrence
+});
+
+describe("occurrenceDates", () => {
+  it("returns a one-off event's date only when it is in range", () => {
+    const { recurrence: _recurrence, ...event } = series({ frequency: "daily", interval: 1 });
+    assert.deepEqual(occurrenceDates(event, "2024-06-01", "2024-06-30"), ["2024-06-03"]);
+    assert.deepEqual(occurrenceDates(event, "2024-07-01", "2024-07-31"), []);
+  });
+
+  it("steps daily rules by their interval", () => {
+    assert.deepEqual(occurrenceDates(series({ frequency: "daily", interval: 2 }), "2024-06-03", "2024-06-10"), [
+      "2024-06-03",
+      "2024-06-05",
+      "2024-06-07",
+      "2024-06-09"
+    ]);
+  });
+
+  it("repeats weekly rules on the chosen weekdays", () => {
+    // 2024-06-03 is a Monday.
+    const dates = occurrenceDates(
+      series({ frequency: "weekly", interval: 1, byWeekday: [1, 3] }),
+      "2024-06-01",
+      "2024-06-14"
+    );
+    assert.deepEqual(dates, ["2024-06-03", "2024-06-05", "2024-06-10", "2024-06-12"]);
+  });
+
+  it("repeats monthly rules on the same day of the month", () => {
+    assert.deepEqual(
+      occurrenceDates(series({ frequency: "monthly", interval: 1 }, "2024-01-15"), "2024-01-01", "2024-04-30"),
+      ["2024-01-15", "2024-02-15", "2024-03-15", "2024-04-15"]
+    );
+  });
+
+  it("counts skipped exceptions toward COUNT, as RFC 5545 does", () => {
+    const rule: Recurrence = { frequency: "daily", interval: 1, count: 3, exceptions: ["2024-06-04"] };
+    assert.deepEqual(occurrenceDates(series(rule), "2024-06-01", "2024-06-30"), ["2024-06-03", "2024-06-05"]);
+  });
+
+  it("stops at UNTIL even when the range runs on", () => {
+    const rule: Recurrence = { frequency: "daily", interval: 1, until: "2024-06-05" };
+    assert.deepEqual(occurrenceDates(series(rule), "2024-06-04", "2024-06-30"), ["2024-06-04", "2024-06-05"]);
+  });
+});
+
+describe("expandRecurrences", () => {
+  it("replaces a series with virtual occurrences that point back at it", () => {
+    const stored = { ...series({ frequency: "daily", interval: 1, count: 2 }), startsAt: "x", endsAt: "y" };
+    const expanded = expandRecurrences([stored], "2024-06-01", "2024-06-30");
+    assert.deepEqual(
+      expanded.map((event) => [event.id, event.date, event.seriesId, event.occurrenceDate]),
+      [
+        ["series@2024-06-03", "2024-06-03", "series", "2024-06-03"],
+        ["series@2024-06-04", "2024-06-04", "series", "2024-06-04"]
+      ]
+    );
+    assert.equal(expanded[0].startsAt, undefined);
+  });
+});
+
+describe("monthRange", () => {
+  it("covers the whole month, leap days included", () => {
+    assert.deepEqual(monthRange("2024-02"), { start: "2024-02-01", end: "2024-02-29" });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("summarises interval, weekdays and end", () => {
+    assert.equal(
+      describeRecurrence({ frequency: "weekly", interval: 2, byWeekday: [1, 5], until: "2024-12-31" }),
+      "Every 2 weeks on Mon, Fri until 2024-12-31"
+    );
+  });
+
+  it("words the summary in the given locale", () => {
+    assert.equal(
+      describeRecurrence({ frequency: "weekly", interval: 1, byWeekday: [1, 5], count: 1 }, "de-DE"),
+      "Jede Woche am Mo, Fr · 1-mal"
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfMonth,
+  format,
+  getDate,
+  getDay,
+  parseISO,
+  startOfMonth
+} from "date-fns";
+import { translatorFor, weekdayNames } from "./i18n";
+import type { Locale } from "./i18n";
+import type { EnergyEvent, Recurrence } from "./types";
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const occurrenceId = (seriesId: string, date: string) => `${seriesId}@${date}`;
+
+export const isVirtualOccurrence = (event: EnergyEvent) => Boolean(event.seriesId && event.occurrenceDate);
+
+const matchesRule = (rule: Recurrence, start: Date, day: Date) => {
+  const interval = Math.max(1, rule.interval);
+  const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : null;
+  switch (rule.frequency) {
+    case "daily":
+      return differenceInCalendarDays(day, start) % interval === 0 && (!weekdays || weekdays.includes(getDay(day)));
+    case "weekly":
+      return (
+        differenceInCalendarWeeks(day, start) % interval === 0 && (weekdays ?? [getDay(start)]).includes(getDay(day))
+      );
+    case "monthly":
+      return differenceInCalendarMonths(day, start) % interval === 0 && getDate(day) === getDate(start);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Dates (yyyy-MM-dd) on which a recurring event occurs between `rangeStart` and `rangeEnd`,
+ * inclusive. `count` is applied from the first occurrence, so exceptions still use up a slot,
+ * matching RFC 5545 COUNT/EXDATE semantics.
+ */
+export const occurrenceDates = (event: EnergyEvent, rangeStart: string, rangeEnd: string): string[] => {
+  const rule = event.recurrence;
+  if (!rule) {
+    return event.date >= rangeStart && event.date <= rangeEnd ? [event.date] : [];
+  }
+  const start = parseISO(event.date);
+  const last = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+  const exceptions = new Set(rule.exceptions ?? []);
+  const dates: string[] = [];
+  let seen = 0;
+  for (let day = start; toKey(day) <= last; day = addDays(day, 1)) {
+    if (!matchesRule(rule, start, day)) {
+      continue;
+    }
+    seen += 1;
+    if (rule.count !== undefined && seen > rule.count) {
+      break;
+    }
+    const key = toKey(day);
+    if (key >= rangeStart && !exceptions.has(key)) {
+      dates.push(key);
+    }
+  }
+  return dates;
+};
+
+/**
+ * Replaces each recurring event with one virtual event per occurrence in the range. A series'
+ * UTC instants describe its first occurrence, so occurrences go without them.
+ */
+export const expandRecurrences = (events: EnergyEvent[], rangeStart: string, rangeEnd: string): EnergyEvent[] =>
+  events.flatMap((event) => {
+    if (!event.recurrence) {
+      return [event];
+    }
+    const series: EnergyEvent = { ...event };
+    delete series.startsAt;
+    delete series.endsAt;
+    return occurrenceDates(event, rangeStart, rangeEnd).map((date) => ({
+      ...series,
+      id: occurrenceId(event.id, date),
+      date,
+      seriesId: event.id,
+      occurrenceDate: date
+    }));
+  });
+
+export const monthRange = (month: string) => {
+  const first = parseISO(`${month}-01`);
+  return { start: toKey(startOfMonth(first)), end: toKey(endOfMonth(first)) };
+};
+
+export const describeRecurrence = (rule: Recurrence, locale: Locale = "en-US") => {
+  const { t, tn } = translatorFor(locale);
+  const every = tn(
+    ({ daily: "everyDay", weekly: "everyWeek", monthly: "everyMonth" } as const)[rule.frequency],
+    rule.interval
+  );
+  const names = weekdayNames(locale);
+  const days =
+    rule.byWeekday && rule.byWeekday.length > 0 && rule.frequency !== "monthly"
+      ? ` ${t("onWeekdays", { days: rule.byWeekday.map((day) => names[day]).join(", ") })}`
+      : "";
+  const end = rule.until
+    ? ` ${t("untilDate", { date: rule.until })}`
+    : rule.count
+      ? ` · ${tn("times", rule.count)}`
+      : "";
+  return `${every}${days}${end}`;
+};
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultCarbonProfile } from "./carbon";
+import type { Preferences } from "./preferences";
+import { buildMonthlyReport, reportToCsv, reportToPdf } from "./report";
+import { defaultSiteRegistry } from "./sites";
+import { defaultTariff } from "./tariff";
+import { defaultTaxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "chiller",
+  title: "Chiller",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "15:00",
+  endTime: "17:00",
+  energyKwh: 120,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  assetId: "data-center",
+  ...overrides
+});
+
+const context = {
+  tariff: defaultTariff,
+  carbon: defaultCarbonProfile,
+  registry: defaultSiteRegistry,
+  taxonomy: defaultTaxonomy
+};
+
+const german: Preferences = { locale: "de-DE", weekStartsOn: 1, energyUnit: "MWh", powerUnit: "kW" };
+
+const reportOf = (events: EnergyEvent[], preferences?: Preferences) =>
+  buildMonthlyReport(events, { month: "2024-06", siteId: null }, context, new Date(2024, 5, 30, 18), preferences);
+
+/** The text drawn on the PDF's pages, one entry per line, with PDF string escapes undone. */
+const pdfText = (pdf: Uint8Array) =>
+  Array.from(
+    Buffer.from(pdf)
+      .toString("latin1")
+      .matchAll(/\((.*)\) Tj ET/g),
+    ([, text]) => text.replace(/\\([\\()])/g, "$1")
+  );
+
+describe("reportToCsv", () => {
+  it("quotes cells holding commas, quotes or line breaks and leaves the rest bare", () => {
+    const csv = reportToCsv(
+      reportOf([
+        event({ title: 'Chiller "B", roof' }),
+        event({ id: "pump", title: "Pump\nnorth", startTime: "18:00", endTime: "19:00" })
+      ]),
+      defaultSiteRegistry
+    );
+    const rows = csv.split("\r\n");
+    assert.equal(rows[0], "Date,Start,End,Title,Type,Status,Asset,Planned kWh,Actual kWh,Efficiency");
+    assert.ok(rows[1].startsWith('2024-06-03,15:00,17:00,"Chiller ""B"", roof",Demand,Scheduled,Data Center,120,,'));
+    assert.ok(rows[2].startsWith('2024-06-03,18:00,19:00,"Pump\nnorth",Demand,'));
+    assert.ok(csv.endsWith("\r\n"));
+  });
+
+  it("labels the sections in the caller's locale but keeps plain kWh in the tables", () => {
+    const rows = reportToCsv(reportOf([event()], german), defaultSiteRegistry, german).split("\r\n");
+    assert.equal(rows[0], "Datum,Start,Ende,Titel,Typ,Status,Anlage,Geplant kWh,Ist kWh,Effizienz");
+    assert.ok(rows[1].includes(",120,,"));
+    assert.ok(rows.includes('Verbrauch,"0,12 MWh"'));
+    assert.ok(rows.includes("Typ,Ereign.,kWh,Abgeschl.,Durchschnittliche Effizienz"));
+  });
+});
+
+describe("reportToPdf", () => {
+  it("draws the title, summary and sections in order", () => {
+    const pdf = reportToPdf(reportOf([event()]), defaultSiteRegistry);
+    const source = Buffer.from(pdf).toString("latin1");
+    assert.ok(source.startsWith("%PDF-1.4\n"));
+    const startxref = Number(source.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    assert.equal(source.slice(startxref, startxref + 4), "xref");
+
+    const lines = pdfText(pdf);
+    assert.deepEqual(lines.slice(0, 3), [
+      "Energy report · June 2024 · All sites",
+      "Generated Jun 30, 2024 18:00",
+      "Summary"
+    ]);
+    const headings = ["Summary", "By energy type", "Recommendations", "Low-efficiency events (below 70%)", "Events"];
+    const positions = headings.map((heading) => lines.indexOf(heading));
+    assert.ok(
+      positions.every((position, index) => position > (positions[index - 1] ?? -1)),
+      String(positions)
+    );
+    // Labels are padded to "Average efficiency", the longest in English.
+    assert.ok(lines.includes(`${"Consumption".padEnd(18)} 120 kWh`));
+    // Parentheses are escaped in the content stream, not dropped.
+    assert.ok(source.includes(`(${"Completion rate".padEnd(18)} 0% \\(0 of 1\\)) Tj`));
+  });
+
+  it("pads table columns to fixed widths and cuts cells that do not fit", () => {
+    const title = "Chiller plant overnight pre-cooling run";
+    const lines = pdfText(reportToPdf(reportOf([event({ title })]), defaultSiteRegistry));
+    const header = lines[lines.indexOf("Events") + 1];
+    const row = lines[lines.indexOf("Events") + 2];
+    // Date 8, time 11, title 26, type 14, status 11, energy 9, efficiency 4; one space between.
+    assert.equal(header.slice(0, 21), "Date     Time        ");
+    // The en dash is drawn as its WinAnsi byte.
+    assert.equal(row.slice(0, 21), "3 Jun    15:00\x9617:00 ");
+    assert.equal(row.slice(21, 48), `${`${title} @ Data Center`.slice(0, 26)} `);
+    assert.equal(header.indexOf("kWh"), 75);
+    assert.equal(row.slice(75, 84).trim(), "120");
+  });
+
+  it("widens the summary labels to the longest one in the caller's locale", () => {
+    const lines = pdfText(reportToPdf(reportOf([event()], german), defaultSiteRegistry, german));
+    assert.equal(lines[0], "Energiebericht · Juni 2024 · Alle Standorte");
+    assert.ok(lines.some((line) => line.startsWith("Durchschnittliche Effizienz ")));
+    assert.ok(lines.includes(`${"Verbrauch".padEnd(27)} 0,12 MWh`));
+  });
+});
@@ -0,0 +1,344 @@
+import { format, parseISO } from "date-fns";
+import { scoredMonthEvents } from "./analytics";
+import { summarizeEmissions } from "./carbon";
+import type { CarbonProfile, MonthlyEmissions } from "./carbon";
+import { compareEvents } from "./events";
+import type { ParseResult } from "./events";
+import { dateLocales, translate, translatorFor } from "./i18n";
+import type { Locale } from "./i18n";
+import { renderPdf } from "./pdf";
+import type { PdfLine } from "./pdf";
+import { defaultPreferences, formatEnergy, formatPower } from "./preferences";
+import type { Preferences } from "./preferences";
+import { eventsForSite, findAsset } from "./sites";
+import type { SiteRegistry } from "./sites";
+import { buildRecommendations, summarizeMonth } from "./summary";
+import type { MonthSummary, Recommendation } from "./summary";
+import { formatMoney, summarizeBill } from "./tariff";
+import type { MonthlyBill, Tariff } from "./tariff";
+import { countsTowardTotals, lifecycleOf } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyType } from "./types";
+
+export type ReportFormat = "pdf" | "csv";
+
+export type ReportRequest = {
+  month: string;
+  format: ReportFormat;
+  /** Limits the report to one site; null covers the whole portfolio. */
+  siteId: string | null;
+};
+
+export type TypeBreakdown = {
+  type: EnergyType;
+  count: number;
+  energyKwh: number;
+  completedCount: number;
+  averageEfficiency: number;
+};
+
+export type MonthlyReport = {
+  month: string;
+  siteId: string | null;
+  /** The site name, or "All sites" in the report's locale for the portfolio. */
+  scope: string;
+  generatedAt: Date;
+  currency: string;
+  summary: MonthSummary;
+  bill: MonthlyBill;
+  emissions: MonthlyEmissions;
+  byType: TypeBreakdown[];
+  /** Share of the month's counted events that are completed, 0–100. */
+  completionRate: number;
+  recommendations: Recommendation[];
+  lowEfficiencyEvents: EnergyEvent[];
+  events: EnergyEvent[];
+};
+
+/** Events scoring below this are listed for follow-up, matching the "Improve Efficiency Scores" recommendation. */
+export const lowEfficiencyThreshold = 70;
+
+const monthPattern = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const parseReportRequest = (params: URLSearchParams): ParseResult<ReportRequest> => {
+  const month = params.get("month");
+  if (!month || !monthPattern.test(month)) {
+    return { ok: false, error: "month is required and must use the yyyy-MM format." };
+  }
+  const reportFormat = params.get("format") ?? "pdf";
+  if (reportFormat !== "pdf" && reportFormat !== "csv") {
+    return { ok: false, error: "format must be pdf or csv." };
+  }
+  return { ok: true, value: { month, format: reportFormat, siteId: params.get("site") || null } };
+};
+
+/**
+ * Collects everything the month's summary cards and insights show into one snapshot, scoring
+ * events live against the current tariff and carbon profile as the calendar does. The scope and
+ * recommendations are in the `preferences` locale.
+ */
+export const buildMonthlyReport = (
+  events: EnergyEvent[],
+  request: Omit<ReportRequest, "format">,
+  context: { tariff: Tariff; carbon: CarbonProfile; registry: SiteRegistry; taxonomy: Taxonomy },
+  generatedAt = new Date(),
+  preferences: Preferences = defaultPreferences
+): MonthlyReport => {
+  const { tariff, carbon, registry, taxonomy } = context;
+  const monthDate = parseISO(`${request.month}-01`);
+  const monthEvents = eventsForSite(
+    scoredMonthEvents(events, request.month, tariff, carbon, taxonomy, registry),
+    registry,
+    request.siteId
+  )
+    .filter((event) => event.date.startsWith(request.month))
+    .sort(compareEvents);
+  const summary = summarizeMonth(monthEvents, monthDate, taxonomy);
+  const byType = taxonomy.categories.map(({ name: type }) => {
+    const ofType = monthEvents.filter((event) => event.type === type && countsTowardTotals(taxonomy, event));
+    return {
+      type,
+      count: ofType.length,
+      energyKwh: summary.totalsByType[type],
+      completedCount: ofType.filter((event) => lifecycleOf(taxonomy, event.status) === "completed").length,
+      averageEfficiency:
+        ofType.length > 0
+          ? Math.round(ofType.reduce((acc, event) => acc + event.efficiencyScore, 0) / ofType.length)
+          : 0
+    };
+  });
+  const site = registry.sites.find((entry) => entry.id === request.siteId);
+  return {
+    month: request.month,
+    siteId: request.siteId,
+    scope: site?.name ?? translate(preferences.locale, "allSitesOption"),
+    generatedAt,
+    currency: tariff.currency,
+    summary,
+    bill: summarizeBill(monthEvents, monthDate, tariff, taxonomy),
+    emissions: summarizeEmissions(monthEvents, monthDate, carbon, taxonomy),
+    byType,
+    completionRate: summary.totalEvents > 0 ? Math.round((summary.completedCount / summary.totalEvents) * 100) : 0,
+    recommendations: buildRecommendations(summary, monthEvents, carbon, taxonomy, preferences),
+    lowEfficiencyEvents: monthEvents
+      .filter((event) => event.efficiencyScore < lowEfficiencyThreshold && countsTowardTotals(taxonomy, event))
+      .sort((a, b) => a.efficiencyScore - b.efficiencyScore),
+    events: monthEvents
+  };
+};
+
+export const reportFileName = (report: MonthlyReport, reportFormat: ReportFormat) =>
+  `${["energy-report", report.month, report.siteId].filter(Boolean).join("-")}.${reportFormat}`;
+
+const reportTitle = (report: MonthlyReport, preferences: Preferences) =>
+  translate(preferences.locale, "reportTitle", {
+    month: format(parseISO(`${report.month}-01`), "LLLL yyyy", { locale: dateLocales[preferences.locale] }),
+    scope: report.scope
+  });
+
+const percent = (value: number, locale: Locale) =>
+  new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 }).format(value / 100);
+
+/** An energy figure without its unit, for table columns headed by the unit. */
+const energyAmount = (kwh: number, preferences: Preferences) =>
+  new Intl.NumberFormat(preferences.locale, {
+    minimumFractionDigits: preferences.energyUnit === "MWh" ? 2 : 0,
+    maximumFractionDigits: preferences.energyUnit === "MWh" ? 2 : 0
+  }).format(preferences.energyUnit === "MWh" ? kwh / 1000 : kwh);
+
+const assetName = (event: EnergyEvent, registry: SiteRegistry) => findAsset(registry, event.assetId)?.name ?? "";
+
+/** The summary figures as label/value pairs, shared by both formats so they always agree. */
+const totalsOf = (report: MonthlyReport, preferences: Preferences): [string, string][] => {
+  const { locale } = preferences;
+  const { t } = translatorFor(locale);
+  const { summary, bill, emissions } = report;
+  return [
+    [t("netBalanceColumn"), formatEnergy(summary.netBalance, preferences, { signed: true })],
+    [t("production"), formatEnergy(summary.totalProduction, preferences)],
+    [t("consumption"), formatEnergy(summary.totalConsumption, preferences)],
+    [t("storageBuffer"), formatEnergy(summary.storageBuffer, preferences, { signed: true })],
+    [t("averageEfficiency"), percent(summary.averageEfficiency, locale)],
+    [
+      t("completionRate"),
+      t("completionOf", {
+        percent: percent(report.completionRate, locale),
+        completed: summary.completedCount,
+        total: summary.totalEvents
+      })
+    ],
+    [t("netBill"), formatMoney(bill.netBill, report.currency, 2, locale)],
+    [t("exportRevenue"), formatMoney(bill.exportRevenue, report.currency, 2, locale)],
+    [t("peakDemand"), formatPower(bill.peakDemandKw, preferences)],
+    [
+      t("netEmissions"),
+      `${new Intl.NumberFormat(locale, { minimumFractionDigits: 3, maximumFractionDigits: 3 }).format(emissions.netTonnes)} tCO2e`
+    ]
+  ];
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: (string | number)[]) => cells.map(csvCell).join(",");
+
+/**
+ * One CSV with the event list first, so it opens as a plain table, followed by the totals,
+ * per-type breakdown, recommendations and low-efficiency events as labelled sections. Labels are
+ * in the `preferences` locale; the event and type tables keep plain kWh so they stay machine-readable.
+ */
+export const reportToCsv = (
+  report: MonthlyReport,
+  registry: SiteRegistry,
+  preferences: Preferences = defaultPreferences
+) => {
+  const { t } = translatorFor(preferences.locale);
+  const rows = [
+    csvRow([
+      t("date"),
+      t("start"),
+      t("end"),
+      t("titleColumn"),
+      t("type"),
+      t("status"),
+      t("asset"),
+      t("plannedKwhColumn"),
+      t("actualKwhColumn"),
+      t("efficiencyColumn")
+    ]),
+    ...report.events.map((event) =>
+      csvRow([
+        event.date,
+        event.startTime,
+        event.endTime,
+        event.title,
+        event.type,
+        event.status,
+        assetName(event, registry),
+        event.energyKwh,
+        event.actualKwh ?? "",
+        event.efficiencyScore
+      ])
+    ),
+    "",
+    csvRow([t("reportColumn"), reportTitle(report, preferences)]),
+    csvRow([t("generatedColumn"), report.generatedAt.toISOString()]),
+    ...totalsOf(report, preferences).map(([label, value]) => csvRow([label, value])),
+    "",
+    csvRow([t("type"), t("eventsColumn"), "kWh", t("completedColumn"), t("averageEfficiency")]),
+    ...report.byType.map((entry) =>
+      csvRow([entry.type, entry.count, entry.energyKwh, entry.completedCount, entry.averageEfficiency])
+    ),
+    "",
+    csvRow([t("recommendationColumn"), t("detailColumn")]),
+    ...report.recommendations.map((recommendation) => csvRow([recommendation.title, recommendation.detail])),
+    "",
+    csvRow([t("lowEfficiencyEventColumn"), t("date"), t("efficiencyColumn")]),
+    ...report.lowEfficiencyEvents.map((event) => csvRow([event.title, event.date, event.efficiencyScore]))
+  ];
+  return `${rows.join("\r\n")}\r\n`;
+};
+
+const heading = (text: string): PdfLine => ({ text, size: 13, font: "bold", gapBefore: 12 });
+
+const columns = (cells: string[], widths: number[]) =>
+  cells
+    .map((cell, index) => cell.slice(0, widths[index]).padEnd(widths[index]))
+    .join(" ")
+    .trimEnd();
+
+/** The report for people to read, in the locale and energy unit of `preferences`. */
+export const reportToPdf = (
+  report: MonthlyReport,
+  registry: SiteRegistry,
+  preferences: Preferences = defaultPreferences
+) => {
+  const { locale } = preferences;
+  const { t } = translatorFor(locale);
+  const dateLocale = dateLocales[locale];
+  const title = reportTitle(report, preferences);
+  const totals = totalsOf(report, preferences);
+  // Labels are as wide as the longest one in the locale, so none is cut off.
+  const labelWidth = Math.max(...totals.map(([label]) => label.length));
+  const typeWidths = [18, 7, 11, 10, 11];
+  const eventWidths = [8, 11, 26, 14, 11, 9, 4];
+  const lines: PdfLine[] = [
+    { text: title, size: 18, font: "bold" },
+    {
+      text: t("reportGenerated", { time: format(report.generatedAt, "PP HH:mm", { locale: dateLocale }) }),
+      size: 9
+    },
+    heading(t("reportSummary")),
+    ...totals.map(([label, value]) => ({ text: columns([label, value], [labelWidth, 40]), font: "mono" as const })),
+    heading(t("reportByType")),
+    {
+      text: columns(
+        [t("type"), t("eventsColumn"), preferences.energyUnit, t("completedColumn"), t("efficiencyColumn")],
+        typeWidths
+      ),
+      font: "mono",
+      size: 9
+    },
+    ...report.byType.map((entry) => ({
+      text: columns(
+        [
+          entry.type,
+          String(entry.count),
+          energyAmount(entry.energyKwh, preferences),
+          String(entry.completedCount),
+          entry.count > 0 ? percent(entry.averageEfficiency, locale) : "–"
+        ],
+        typeWidths
+      ),
+      font: "mono" as const,
+      size: 9
+    })),
+    heading(t("reportRecommendations")),
+    ...report.recommendations.flatMap((recommendation): PdfLine[] => [
+      { text: recommendation.title, font: "bold", gapBefore: 4 },
+      { text: recommendation.detail }
+    ]),
+    heading(t("lowEfficiencyBelow", { threshold: percent(lowEfficiencyThreshold, locale) })),
+    ...(report.lowEfficiencyEvents.length > 0
+      ? report.lowEfficiencyEvents.map((event) => ({
+          text: `• ${event.title} — ${format(parseISO(event.date), "d MMM", { locale: dateLocale })} ${event.startTime}, ${percent(event.efficiencyScore, locale)}`
+        }))
+      : [{ text: t("noneThisMonth") }]),
+    heading(t("reportEvents")),
+    {
+      text: columns(
+        [
+          t("date"),
+          t("timeColumn"),
+          t("titleColumn"),
+          t("type"),
+          t("status"),
+          preferences.energyUnit,
+          t("efficiencyShort")
+        ],
+        eventWidths
+      ),
+      font: "mono",
+      size: 8
+    },
+    ...report.events.map((event) => ({
+      text: columns(
+        [
+          format(parseISO(event.date), "d MMM", { locale: dateLocale }),
+          `${event.startTime}–${event.endTime}`,
+          [event.title, assetName(event, registry)].filter(Boolean).join(" @ "),
+          event.type,
+          event.status,
+          energyAmount(event.energyKwh, preferences),
+          String(event.efficiencyScore)
+        ],
+        eventWidths
+      ),
+      font: "mono" as const,
+      size: 8
+    }))
+  ];
+  return renderPdf(lines, title);
+};
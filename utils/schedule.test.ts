@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyShift, durationMinutes, endDateOf, fromMinutes, shiftEvent, spanOf } from "./schedule";
+import { summarizeMonth } from "./summary";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "ev-charging",
+  title: "EV charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "22:00",
+  endTime: "00:00",
+  energyKwh: 120,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  ...overrides
+});
+
+describe("durationMinutes and endDateOf", () => {
+  it("read an end at or before the start as the next day, so 00:00 ends at midnight", () => {
+    assert.equal(durationMinutes("22:00", "00:00"), 120);
+    assert.equal(durationMinutes("22:00", "02:30"), 270);
+    assert.equal(durationMinutes("09:00", "09:00"), 0);
+    assert.equal(endDateOf(event()), "2024-06-04");
+    assert.equal(endDateOf(event({ startTime: "08:00", endTime: "10:00" })), "2024-06-03");
+  });
+
+  it("span the night in local time", () => {
+    const { start, end } = spanOf(event({ endTime: "01:00" }));
+    assert.equal(end - start, 3 * 60 * 60_000);
+    assert.equal(new Date(end).getDate(), 4);
+  });
+});
+
+describe("fromMinutes", () => {
+  it("wraps past midnight in either direction", () => {
+    assert.equal(fromMinutes(25 * 60 + 15), "01:15");
+    assert.equal(fromMinutes(-30), "23:30");
+    assert.equal(fromMinutes(24 * 60), "00:00");
+  });
+});
+
+describe("shiftEvent", () => {
+  it("keeps the duration when an event is dropped on another day", () => {
+    assert.deepEqual(shiftEvent(event({ startTime: "09:00", endTime: "11:30" }), "2024-06-10"), {
+      date: "2024-06-10",
+      startTime: "09:00",
+      endTime: "11:30"
+    });
+  });
+
+  it("lets a new start time carry the end over or back across midnight", () => {
+    assert.deepEqual(shiftEvent(event(), "2024-06-05", "23:00"), {
+      date: "2024-06-05",
+      startTime: "23:00",
+      endTime: "01:00"
+    });
+    assert.deepEqual(shiftEvent(event(), "2024-06-05", "20:00"), {
+      date: "2024-06-05",
+      startTime: "20:00",
+      endTime: "22:00"
+    });
+    assert.deepEqual(shiftEvent(event({ endTime: "01:00" }), "2024-06-05", "21:00"), {
+      date: "2024-06-05",
+      startTime: "21:00",
+      endTime: "00:00"
+    });
+  });
+});
+
+describe("applyShift", () => {
+  it("moves only the dragged event, so the month can be previewed without it", () => {
+    const solar = event({ id: "solar", type: "Production", startTime: "10:00", endTime: "14:00", energyKwh: 200 });
+    const events = [event(), solar];
+    const moved = applyShift(events, "ev-charging", "2024-07-01");
+    assert.deepEqual(moved[0], { ...events[0], date: "2024-07-01" });
+    assert.equal(moved[1], solar);
+    const june = new Date(2024, 5, 1);
+    assert.equal(summarizeMonth(events, june).netBalance, 80);
+    assert.equal(summarizeMonth(moved, june).netBalance, 200);
+  });
+});
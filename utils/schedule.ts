@@ -0,0 +1,46 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { EnergyEvent } from "./types";
+
+export const minutesPerDay = 24 * 60;
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (totalMinutes: number) => {
+  const wrapped = ((Math.round(totalMinutes) % minutesPerDay) + minutesPerDay) % minutesPerDay;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+};
+
+/** Duration in minutes; an end time before the start time means the event runs past midnight. */
+export const durationMinutes = (startTime: string, endTime: string) => {
+  const span = toMinutes(endTime) - toMinutes(startTime);
+  return span >= 0 ? span : span + minutesPerDay;
+};
+
+/** Events whose end time is before their start time finish on the following day. */
+export const endDateOf = (event: Pick<EnergyEvent, "date" | "startTime" | "endTime">) =>
+  toMinutes(event.endTime) < toMinutes(event.startTime)
+    ? format(addDays(parseISO(event.date), 1), "yyyy-MM-dd")
+    : event.date;
+
+/** The event's local start and end as epoch milliseconds; the end may fall on the next day. */
+export const spanOf = (event: EnergyEvent) => {
+  const start = parseISO(event.date).getTime() + toMinutes(event.startTime) * 60_000;
+  return { start, end: start + durationMinutes(event.startTime, event.endTime) * 60_000 };
+};
+
+/** Moves an event to a new date (and optionally start time) while keeping its duration. */
+export const shiftEvent = (
+  event: EnergyEvent,
+  date: string,
+  startTime: string = event.startTime
+): Pick<EnergyEvent, "date" | "startTime" | "endTime"> => ({
+  date,
+  startTime,
+  endTime: fromMinutes(toMinutes(startTime) + durationMinutes(event.startTime, event.endTime))
+});
+
+export const applyShift = (events: EnergyEvent[], id: string, date: string, startTime?: string) =>
+  events.map((event) => (event.id === id ? { ...event, ...shiftEvent(event, date, startTime) } : event));
@@ -0,0 +1,102 @@
+import { format } from "date-fns";
+import type { EnergyEvent } from "./types";
+
+/** Demo schedule written to a fresh store, pinned to the month the store is first created in. */
+export const createSeedEvents = (reference = new Date()): EnergyEvent[] => [
+  {
+    id: "event-1",
+    title: "EV Fleet Charging",
+    type: "Demand",
+    date: format(reference, "yyyy-MM-05"),
+    startTime: "19:00",
+    endTime: "22:30",
+    energyKwh: 420,
+    status: "Scheduled",
+    efficiencyScore: 68,
+    notes: "Aligned with evening time-of-use incentives.",
+    flexibility: { earliestStart: "18:00", latestEnd: "07:00", dayRange: 0 },
+    assetId: "ev-fleet"
+  },
+  {
+    id: "event-2",
+    title: "Solar Array Generation",
+    type: "Production",
+    date: format(reference, "yyyy-MM-06"),
+    startTime: "07:30",
+    endTime: "17:30",
+    energyKwh: 560,
+    status: "Completed",
+    efficiencyScore: 92,
+    notes: "Exceeded forecast by 8% due to clear skies.",
+    assetId: "solar-array"
+  },
+  {
+    id: "event-3",
+    title: "Battery Reserve Charge",
+    type: "Storage",
+    date: format(reference, "yyyy-MM-08"),
+    startTime: "00:30",
+    endTime: "02:00",
+    energyKwh: 135,
+    status: "Scheduled",
+    efficiencyScore: 83,
+    notes: "Nighttime charging to prep for peak shifting.",
+    flexibility: { earliestStart: "22:00", latestEnd: "06:00", dayRange: 0 },
+    storageDirection: "charge",
+    assetId: "battery-1"
+  },
+  {
+    id: "event-4",
+    title: "Community Energy Share",
+    type: "Provision",
+    date: format(reference, "yyyy-MM-10"),
+    startTime: "14:00",
+    endTime: "16:00",
+    energyKwh: 220,
+    status: "Completed",
+    efficiencyScore: 88,
+    notes: "Delivered surplus to adjacent microgrid.",
+    assetId: "community-feeder"
+  },
+  {
+    id: "event-5",
+    title: "Data Center Load Test",
+    type: "Demand",
+    date: format(reference, "yyyy-MM-15"),
+    startTime: "13:00",
+    endTime: "15:00",
+    energyKwh: 315,
+    status: "Scheduled",
+    efficiencyScore: 54,
+    notes: "Consider shifting to weekend window.",
+    flexibility: { earliestStart: "08:00", latestEnd: "18:00", dayRange: 3 },
+    assetId: "data-center"
+  },
+  {
+    id: "event-6",
+    title: "Wind Turbine Peak",
+    type: "Production",
+    date: format(reference, "yyyy-MM-17"),
+    startTime: "02:00",
+    endTime: "05:00",
+    energyKwh: 410,
+    status: "Completed",
+    efficiencyScore: 79,
+    notes: "Met forecast; turbulence reduced output by 5%.",
+    assetId: "wind-turbine"
+  },
+  {
+    id: "event-7",
+    title: "Thermal Storage Discharge",
+    type: "Storage",
+    date: format(reference, "yyyy-MM-22"),
+    startTime: "16:30",
+    endTime: "19:00",
+    energyKwh: 190,
+    status: "Opportunity",
+    efficiencyScore: 72,
+    notes: "Dispatch to cover peak pricing interval.",
+    storageDirection: "discharge",
+    assetId: "thermal-1"
+  }
+];
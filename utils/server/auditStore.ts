@@ -0,0 +1,15 @@
+import { matchesAuditQuery } from "../audit";
+import type { AuditEntry, AuditQuery } from "../audit";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<AuditEntry[]>("audit-log.json", () => []);
+
+/** Old entries are dropped once the log grows past this. */
+const maxEntries = 5000;
+
+/** Entries newest first, optionally for one event or one user. */
+export const getAuditLog = async (query: AuditQuery = {}) =>
+  (await store.read()).filter((entry) => matchesAuditQuery(entry, query));
+
+export const appendAuditEntries = (entries: AuditEntry[]) =>
+  store.update((log) => ({ next: [...entries.slice().reverse(), ...log].slice(0, maxEntries), result: entries }));
@@ -0,0 +1,43 @@
+import { can } from "../auth";
+import type { Permission, User } from "../auth";
+import type { AuditActor } from "../audit";
+import { userForSession } from "./userStore";
+
+export const sessionCookieName = "energy_session";
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/"
+};
+
+export type AuthResult = { ok: true; user: User } | { ok: false; status: 401 | 403; error: string };
+
+export const sessionTokenOf = (request: Request) =>
+  request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([name]) => name === sessionCookieName)?.[1] ?? null;
+
+export const requirePermission = (user: User, permission: Permission): AuthResult =>
+  can(user, permission)
+    ? { ok: true, user }
+    : { ok: false, status: 403, error: `Your ${user.role} role does not allow this (${permission}).` };
+
+/**
+ * The signed-in user behind a request, checked against `permission` when one is given. Any
+ * signed-in user may read; routes that change something name the permission they need.
+ */
+export const authorize = async (request: Request, permission?: Permission): Promise<AuthResult> => {
+  const token = sessionTokenOf(request);
+  const user = token ? await userForSession(token) : null;
+  if (!user) {
+    return { ok: false, status: 401, error: "Sign in to continue." };
+  }
+  return permission ? requirePermission(user, permission) : { ok: true, user };
+};
+
+/** The audit actor for a user's own edits; `via` explains edits made through an import or tool. */
+export const actorOf = (user: User, via?: string): AuditActor => ({ username: user.username, ...(via ? { via } : {}) });
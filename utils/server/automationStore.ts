@@ -0,0 +1,45 @@
+import { format } from "date-fns";
+import { createSeedRules } from "../automation";
+import type { AutomationRule, AutomationRun } from "../automation";
+import { createJsonStore } from "./jsonStore";
+
+const rulesStore = createJsonStore<AutomationRule[]>("automation-rules.json", () => createSeedRules());
+
+const logStore = createJsonStore<AutomationRun[]>("automation-log.json", () => []);
+
+/** `handledKey`s of the days surplus rules have created events for. */
+const handledStore = createJsonStore<string[]>("automation-handled.json", () => []);
+
+/** The run log keeps the most recent entries only. */
+const maxLogEntries = 200;
+
+export const getAutomationRules = () => rulesStore.read();
+
+export const saveAutomationRules = (rules: AutomationRule[]) =>
+  rulesStore.update(() => ({ next: rules, result: rules }));
+
+/** Logged runs, newest first; `since` (an ISO timestamp) keeps only later ones. */
+export const getAutomationLog = async (since?: string) =>
+  (await logStore.read()).filter((run) => !since || run.ranAt > since);
+
+/** Adds runs that changed something or failed to the log; dry runs are never logged. */
+export const appendAutomationRuns = async (runs: AutomationRun[]) => {
+  const logged = runs.filter((run) => !run.dryRun && (run.messages.length > 0 || run.error));
+  if (logged.length > 0) {
+    await logStore.update((log) => ({ next: [...logged, ...log].slice(0, maxLogEntries), result: null }));
+  }
+};
+
+export const getHandledDays = async () => new Set(await handledStore.read());
+
+/** Records newly handled days; days already past are dropped, as surplus rules never look back. */
+export const addHandledDays = async (keys: string[], now: Date) => {
+  if (keys.length === 0) {
+    return;
+  }
+  const today = format(now, "yyyy-MM-dd");
+  await handledStore.update((handled) => ({
+    next: Array.from(new Set([...handled, ...keys])).filter((key) => key.slice(key.lastIndexOf("|") + 1) >= today),
+    result: null
+  }));
+};
@@ -0,0 +1,9 @@
+import { defaultCarbonProfile } from "../carbon";
+import type { CarbonProfile } from "../carbon";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<CarbonProfile>("carbon-profile.json", () => defaultCarbonProfile);
+
+export const getCarbonProfile = () => store.read();
+
+export const saveCarbonProfile = (profile: CarbonProfile) => store.update(() => ({ next: profile, result: profile }));
@@ -0,0 +1,10 @@
+import { createSeedWindows } from "../demandResponse";
+import type { DemandResponseWindow } from "../demandResponse";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<DemandResponseWindow[]>("demand-response.json", () => createSeedWindows());
+
+export const getDemandResponseWindows = () => store.read();
+
+export const saveDemandResponseWindows = (windows: DemandResponseWindow[]) =>
+  store.update(() => ({ next: windows, result: windows }));
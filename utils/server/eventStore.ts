@@ -0,0 +1,527 @@
+import { compareEvents, createEventId, matchesQuery } from "../events";
+import { addDays, format, parseISO } from "date-fns";
+import { auditChanges, automationActor } from "../audit";
+import type { AuditActor, AuditEntry } from "../audit";
+import { applyRule, touchedMonths } from "../automation";
+import type { AutomationRule, AutomationRun } from "../automation";
+import type { CarbonProfile } from "../carbon";
+import { createEfficiencyScorer } from "../efficiency";
+import type { EfficiencyBreakdown } from "../efficiency";
+import { isReplaceableForecast } from "../forecast";
+import type { Locale } from "../i18n";
+import { intervalDateRange, reconcileIntervals } from "../meterData";
+import type { MeterInterval, ReconcileOptions } from "../meterData";
+import { defaultPreferences } from "../preferences";
+import type { Preferences } from "../preferences";
+import { expandRecurrences, isVirtualOccurrence, monthRange } from "../recurrence";
+import { createSeedEvents } from "../seedEvents";
+import { timeZoneOf } from "../sites";
+import type { SiteRegistry } from "../sites";
+import type { EnergyEvent, EnergyEventChanges, EnergyEventInput, EventQuery, StoredEvent } from "../types";
+import type { Tariff } from "../tariff";
+import { statusWithLifecycle } from "../taxonomy";
+import type { Taxonomy } from "../taxonomy";
+import { fromStoredEvent, isUnpinned, pinInstants, toStoredEvent, utcInstantsOf, withInstants } from "../timeZones";
+import { validateEvent } from "../validation";
+import { appendAuditEntries } from "./auditStore";
+import { addHandledDays, appendAutomationRuns, getAutomationRules, getHandledDays } from "./automationStore";
+import { getCarbonProfile } from "./carbonStore";
+import { createJsonStore } from "./jsonStore";
+import { getPreferences } from "./preferenceStore";
+import { getSiteRegistry } from "./siteStore";
+import { getTariff } from "./tariffStore";
+import { getTaxonomy } from "./taxonomyStore";
+import { listUsers } from "./userStore";
+
+const store = createJsonStore<StoredEvent[]>("events.json", () => createSeedEvents());
+
+const fromStored = (stored: StoredEvent[], registry: SiteRegistry) =>
+  stored.map((event) => fromStoredEvent(event, timeZoneOf(event, registry)));
+
+/**
+ * The stored events, pinning one-off events without UTC instants to them the first time they are
+ * read, so the store never mixes events that follow a site's zone changes with ones that do not.
+ */
+const readStored = async (registry: SiteRegistry) => {
+  const stored = await store.read();
+  if (!stored.some(isUnpinned)) {
+    return stored;
+  }
+  return store.update((current) => {
+    const next = pinInstants(current, (event) => timeZoneOf(event, registry));
+    return { next, result: next };
+  });
+};
+
+const readEvents = async () => {
+  const registry = await getSiteRegistry();
+  return fromStored(await readStored(registry), registry);
+};
+
+export const listEvents = async (query: EventQuery = {}) => {
+  const registry = await getSiteRegistry();
+  const events = fromStored(await readStored(registry), registry).filter((event) => matchesQuery(event, query));
+  if (query.expand && query.month) {
+    const { start, end } = monthRange(query.month);
+    return expandRecurrences(events, start, end)
+      .map((event) =>
+        isVirtualOccurrence(event) ? { ...event, ...utcInstantsOf(event, timeZoneOf(event, registry)) } : event
+      )
+      .sort(compareEvents);
+  }
+  return events.sort(compareEvents);
+};
+
+export const getEvent = async (id: string) => (await readEvents()).find((event) => event.id === id) ?? null;
+
+/** The settings events are scored against, loaded once per write. */
+type ScoringContext = { tariff: Tariff; carbon: CarbonProfile; taxonomy: Taxonomy; registry: SiteRegistry };
+
+const loadScoringContext = async (): Promise<ScoringContext> => {
+  const [tariff, carbon, taxonomy, registry] = await Promise.all([
+    getTariff(),
+    getCarbonProfile(),
+    getTaxonomy(),
+    getSiteRegistry()
+  ]);
+  return { tariff, carbon, taxonomy, registry };
+};
+
+/**
+ * Stores a fresh efficiency score on the events with the given ids, each rated against the
+ * rest of its month. Scores shown in the calendar are recomputed live; this keeps the stored
+ * value meaningful for exports and API clients.
+ */
+const rescore = (events: EnergyEvent[], ids: string[], { tariff, carbon, taxonomy, registry }: ScoringContext) => {
+  const scorers = new Map<string, (event: EnergyEvent) => EfficiencyBreakdown>();
+  return events.map((event) => {
+    if (!ids.includes(event.id)) {
+      return event;
+    }
+    const month = event.date.slice(0, 7);
+    let score = scorers.get(month);
+    if (!score) {
+      const { start, end } = monthRange(month);
+      score = createEfficiencyScorer(expandRecurrences(events, start, end), tariff, carbon, taxonomy, registry);
+      scorers.set(month, score);
+    }
+    return { ...event, efficiencyScore: score(event).score };
+  });
+};
+
+/** What a write resolves to; a failure carries the status a route should answer with. */
+export type WriteResult<T> = { ok: true; value: T } | { ok: false; status: 400 | 404 | 409; error: string };
+
+type WriteFailure = Extract<WriteResult<unknown>, { ok: false }>;
+
+const notFound = (message: string): WriteFailure => ({ ok: false, status: 404, error: message });
+
+/**
+ * The first blocking schedule issue among `changed`, checked against the schedule they would be
+ * saved into. Issues with the event's own timing are bad input (400); clashes with other bookings,
+ * site limits or asset ratings are conflicts (409).
+ */
+const scheduleFailure = (
+  changed: EnergyEvent[],
+  next: EnergyEvent[],
+  { registry, taxonomy }: ScoringContext
+): WriteFailure | null => {
+  for (const event of changed) {
+    const issue = validateEvent(event, next, registry, taxonomy).find((entry) => entry.severity === "error");
+    if (issue) {
+      const status = issue.field === "endTime" || issue.field === "flexLatest" ? 400 : 409;
+      return { ok: false, status, error: `${event.title} on ${event.date}: ${issue.message}` };
+    }
+  }
+  return null;
+};
+
+/** Gives events touched by `entries` their author stamps and the UTC instants they are stored as, in place. */
+const stamp = (entries: AuditEntry[], events: EnergyEvent[], actor: AuditActor, registry: SiteRegistry) => {
+  const byId = new Map(events.map((event) => [event.id, event]));
+  entries.forEach((entry) => {
+    const event = byId.get(entry.eventId);
+    if (event && entry.action === "created") {
+      event.createdBy = actor.username;
+    }
+    if (event) {
+      event.updatedBy = actor.username;
+      delete event.startsAt;
+      delete event.endsAt;
+      Object.assign(event, withInstants(event, timeZoneOf(event, registry)));
+    }
+  });
+};
+
+type AutomationPass = { events: EnergyEvent[]; entries: AuditEntry[]; runs: AutomationRun[]; handled: string[] };
+
+/**
+ * Runs `rules` in order over each of `months`, each rule seeing the changes of the ones before it.
+ * Every rule writes as its own actor, so the audit log tells automated changes apart.
+ */
+const runRules = (
+  events: EnergyEvent[],
+  rules: AutomationRule[],
+  months: string[],
+  {
+    now,
+    dryRun,
+    context,
+    handled,
+    preferences
+  }: { now: Date; dryRun: boolean; context: ScoringContext; handled: Set<string>; preferences: Preferences }
+): AutomationPass => {
+  const pass: AutomationPass = { events, entries: [], runs: [], handled: [] };
+  for (const month of months) {
+    for (const rule of rules) {
+      const ruled = applyRule(rule, pass.events, month, { ...context, now, dryRun, handled, preferences });
+      const actor = { username: automationActor, via: rule.name };
+      const next = rescore(ruled.events, ruled.run.eventIds, context);
+      const entries = auditChanges(pass.events, next, actor, now.toISOString());
+      stamp(entries, next, actor, context.registry);
+      ruled.handled.forEach((key) => handled.add(key));
+      pass.events = next;
+      pass.entries.push(...entries);
+      pass.runs.push(ruled.run);
+      pass.handled.push(...ruled.handled);
+    }
+  }
+  return pass;
+};
+
+const recordAutomationPass = async (pass: AutomationPass, now: Date) => {
+  await Promise.all([appendAutomationRuns(pass.runs), addHandledDays(pass.handled, now)]);
+};
+
+/** Runs a write sets off are described in the locale and units of whoever made the write. */
+const preferencesOf = async (actor: AuditActor) => {
+  const user = (await listUsers()).find(({ username }) => username === actor.username);
+  return user ? getPreferences(user.id) : defaultPreferences;
+};
+
+let transactions: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs writes one at a time, so the automation rules and handled days a write reads are still
+ * current when its audit entries, run log and handled days are recorded.
+ */
+const serialize = <R>(task: () => Promise<R>) => {
+  const run = transactions.then(task, task);
+  transactions = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Applies a mutation on behalf of `actor`: events it creates get `createdBy`, events it changes
+ * get `updatedBy` and fresh UTC instants, and every difference lands in the audit log. Stamping
+ * happens in place, as changed events are always fresh objects, so whatever the mutation returns
+ * carries the stamps. Created and changed events, or just the `checked` ids when given, must
+ * pass the blocking schedule checks or nothing is written; `apply` can also refuse the write
+ * itself by returning a failure. The enabled automation rules then run over every month the
+ * mutation touched, in the same write, so no other request sees the schedule in between.
+ */
+const mutate = <R>(
+  actor: AuditActor,
+  apply: (
+    events: EnergyEvent[],
+    context: ScoringContext
+  ) => { next: EnergyEvent[]; result: R; checked?: string[] } | WriteFailure
+): Promise<WriteResult<R>> =>
+  serialize(async () => {
+    const [context, rules, handled, preferences] = await Promise.all([
+      loadScoringContext(),
+      getAutomationRules(),
+      getHandledDays(),
+      preferencesOf(actor)
+    ]);
+    const now = new Date();
+    type Outcome = { written: WriteResult<R>; entries: AuditEntry[]; pass: AutomationPass | null };
+    const { written, entries, pass } = await store.update<Outcome>((stored) => {
+      const events = fromStored(stored, context.registry);
+      const applied = apply(events, context);
+      if ("ok" in applied) {
+        return { next: stored, result: { written: applied, entries: [], pass: null } };
+      }
+      const entries = auditChanges(events, applied.next, actor, now.toISOString());
+      const changed = new Map(applied.next.map((event) => [event.id, event]));
+      const checked = applied.checked ?? entries.map((entry) => entry.eventId);
+      const failure = scheduleFailure(
+        checked.flatMap((id) => changed.get(id) ?? []),
+        applied.next,
+        context
+      );
+      if (failure) {
+        return { next: stored, result: { written: failure, entries: [], pass: null } };
+      }
+      stamp(entries, applied.next, actor, context.registry);
+      const previous = new Map(events.map((event) => [event.id, event]));
+      const touched = entries.flatMap((entry) =>
+        [previous.get(entry.eventId), changed.get(entry.eventId)].filter((event): event is EnergyEvent => !!event)
+      );
+      const pass = runRules(
+        applied.next,
+        rules.filter((rule) => rule.enabled),
+        touchedMonths(touched, now),
+        { now, dryRun: false, context, handled, preferences }
+      );
+      return {
+        next: pass.events.map(toStoredEvent),
+        result: { written: { ok: true, value: applied.result }, entries, pass }
+      };
+    });
+    const allEntries = [...entries, ...(pass?.entries ?? [])];
+    if (allEntries.length > 0) {
+      await appendAuditEntries(allEntries);
+    }
+    if (pass) {
+      await recordAutomationPass(pass, now);
+    }
+    return written;
+  });
+
+type RunOptions = {
+  /** yyyy-MM; defaults to the month of `now`. */
+  month?: string;
+  /** Rules to evaluate instead of the saved, enabled ones, e.g. an unsaved rule being dry-run. */
+  rules?: AutomationRule[];
+  dryRun?: boolean;
+  now?: Date;
+  /** Whose locale and units the runs are described in; English in kWh by default. */
+  preferences?: Preferences;
+};
+
+/**
+ * Evaluates rules against the stored events on request and, unless it is a dry run, applies their
+ * effects in one write. Runs that changed something or failed are added to the log.
+ */
+export const runAutomations = ({
+  month,
+  rules,
+  dryRun = false,
+  now = new Date(),
+  preferences = defaultPreferences
+}: RunOptions = {}) =>
+  serialize(async () => {
+    const [context, savedRules, handled] = await Promise.all([
+      loadScoringContext(),
+      rules ?? getAutomationRules(),
+      getHandledDays()
+    ]);
+    const months = [month ?? format(now, "yyyy-MM")];
+    const options = { now, dryRun, context, handled, preferences };
+    const selected = rules ? savedRules : savedRules.filter((rule) => rule.enabled);
+    if (dryRun) {
+      return runRules(fromStored(await readStored(context.registry), context.registry), selected, months, options).runs;
+    }
+    const pass = await store.update((stored) => {
+      const automated = runRules(fromStored(stored, context.registry), selected, months, options);
+      return { next: automated.events.map(toStoredEvent), result: automated };
+    });
+    if (pass.entries.length > 0) {
+      await appendAuditEntries(pass.entries);
+    }
+    await recordAutomationPass(pass, now);
+    return pass.runs;
+  });
+
+const applyChanges = (event: EnergyEvent, changes: EnergyEventChanges): EnergyEvent => {
+  const { recurrence, flexibility, demandResponse, ...rest } = changes;
+  const updated: EnergyEvent = { ...event, ...rest, id: event.id };
+  if (recurrence === null) {
+    delete updated.recurrence;
+  } else if (recurrence) {
+    updated.recurrence = recurrence;
+  }
+  if (flexibility === null) {
+    delete updated.flexibility;
+  } else if (flexibility) {
+    updated.flexibility = flexibility;
+  }
+  if (demandResponse === null) {
+    delete updated.demandResponse;
+  } else if (demandResponse) {
+    updated.demandResponse = demandResponse;
+  }
+  return updated;
+};
+
+/**
+ * Inserts a new event. Passing an `id` re-inserts a previously deleted event under its old
+ * identity (used by undo); the write fails with a 409 when that id is already taken.
+ */
+export const createEvent = (input: EnergyEventInput, actor: AuditActor, id?: string) =>
+  mutate(actor, (events, context) => {
+    if (id && events.some((event) => event.id === id)) {
+      return { ok: false, status: 409, error: `Event ${id} already exists.` };
+    }
+    const created: EnergyEvent = { ...input, id: id ?? createEventId(), efficiencyScore: input.efficiencyScore ?? 0 };
+    let next = [...events, created];
+    if (input.efficiencyScore === undefined) {
+      next = rescore(next, [created.id], context);
+    }
+    return { next, result: next[next.length - 1] };
+  });
+
+export const createEvents = (inputs: EnergyEventInput[], actor: AuditActor) =>
+  mutate(actor, (events, context) => {
+    const created = inputs.map<EnergyEvent>((input) => ({
+      ...input,
+      id: createEventId(),
+      efficiencyScore: input.efficiencyScore ?? 0
+    }));
+    const unscored = created.filter((_event, index) => inputs[index].efficiencyScore === undefined);
+    const next = rescore(
+      [...events, ...created],
+      unscored.map((event) => event.id),
+      context
+    );
+    return { next, result: next.slice(events.length) };
+  });
+
+/** Changes that do not set a score explicitly re-rate the event, since its timing or energy may have moved. */
+export const updateEvent = (id: string, changes: EnergyEventChanges, actor: AuditActor) =>
+  mutate(actor, (events, context) => {
+    const index = events.findIndex((event) => event.id === id);
+    if (index === -1) {
+      return notFound(`Event ${id} not found.`);
+    }
+    let next = [...events];
+    next[index] = applyChanges(events[index], changes);
+    if (changes.efficiencyScore === undefined) {
+      next = rescore(next, [id], context);
+    }
+    return { next, result: next[index] };
+  });
+
+/**
+ * Swaps the month's untouched forecasts from `from` onwards for a fresh set. Forecasts a user
+ * has already scheduled or completed are kept.
+ */
+export const replaceForecasts = (month: string, from: string, inputs: EnergyEventInput[], actor: AuditActor) =>
+  mutate(actor, (events, context) => {
+    const isStale = (event: EnergyEvent) =>
+      isReplaceableForecast(event, context.taxonomy) && event.date.startsWith(month) && event.date >= from;
+    const removedIds = events.filter(isStale).map((event) => event.id);
+    const created = inputs.map<EnergyEvent>((input) => ({ ...input, id: createEventId(), efficiencyScore: 0 }));
+    const next = rescore(
+      [...events.filter((event) => !isStale(event)), ...created],
+      created.map((event) => event.id),
+      context
+    );
+    return { next, result: { removedIds, events: next.slice(next.length - created.length) } };
+  });
+
+export const deleteEvent = (id: string, actor: AuditActor) =>
+  mutate(actor, (events) => {
+    const removed = events.find((event) => event.id === id);
+    return removed
+      ? { next: events.filter((event) => event.id !== id), result: removed }
+      : notFound(`Event ${id} not found.`);
+  });
+
+const withException = (series: EnergyEvent, date: string): EnergyEvent => ({
+  ...series,
+  recurrence: series.recurrence && {
+    ...series.recurrence,
+    exceptions: Array.from(new Set([...(series.recurrence.exceptions ?? []), date])).sort()
+  }
+});
+
+/**
+ * Edits a single occurrence of a series: the date is added to the series exceptions and a
+ * standalone event carrying the changes takes its place. Only the new event is checked, as the
+ * series itself just loses a date.
+ */
+export const detachOccurrence = (seriesId: string, date: string, changes: EnergyEventChanges, actor: AuditActor) =>
+  mutate(actor, (events, context) => {
+    const series = events.find((event) => event.id === seriesId);
+    if (!series?.recurrence) {
+      return notFound(`Recurring event ${seriesId} not found.`);
+    }
+    const updatedSeries = withException(series, date);
+    const detached = applyChanges(
+      { ...series, id: createEventId(), date, seriesId, recurrence: undefined },
+      { ...changes, recurrence: null }
+    );
+    const next = rescore(
+      [...events.map((event) => (event.id === seriesId ? updatedSeries : event)), detached],
+      [detached.id],
+      context
+    );
+    return { next, result: { series: updatedSeries, event: next[next.length - 1] }, checked: [detached.id] };
+  });
+
+export const skipOccurrence = (seriesId: string, date: string, actor: AuditActor) =>
+  mutate(actor, (events) => {
+    const series = events.find((event) => event.id === seriesId);
+    if (!series?.recurrence) {
+      return notFound(`Recurring event ${seriesId} not found.`);
+    }
+    const updatedSeries = withException(series, date);
+    return {
+      next: events.map((event) => (event.id === seriesId ? updatedSeries : event)),
+      result: updatedSeries,
+      checked: []
+    };
+  });
+
+const planReconciliation = (
+  events: EnergyEvent[],
+  intervals: MeterInterval[],
+  options: ReconcileOptions,
+  { taxonomy, registry }: Pick<ScoringContext, "taxonomy" | "registry">,
+  locale: Locale
+) => {
+  const { start, end } = intervalDateRange(intervals);
+  // Start a day early so events running past midnight into the data range are matched too.
+  const rangeStart = format(addDays(parseISO(start), -1), "yyyy-MM-dd");
+  return reconcileIntervals(expandRecurrences(events, rangeStart, end), intervals, options, taxonomy, registry, locale);
+};
+
+export const previewMeterReconciliation = async (
+  intervals: MeterInterval[],
+  options: ReconcileOptions,
+  locale: Locale = "en-US"
+) => {
+  const [events, taxonomy, registry] = await Promise.all([readEvents(), getTaxonomy(), getSiteRegistry()]);
+  return planReconciliation(events, intervals, options, { taxonomy, registry }, locale);
+};
+
+/**
+ * Writes a reconciliation: matched events get their metered kWh and a completed status (occurrences
+ * of a series are detached first), and unmatched readings are stored as new events with notes in `locale`.
+ */
+export const applyMeterReconciliation = (
+  intervals: MeterInterval[],
+  options: ReconcileOptions,
+  actor: AuditActor,
+  locale: Locale = "en-US"
+) =>
+  mutate(actor, (events, context) => {
+    const plan = planReconciliation(events, intervals, options, context, locale);
+    const completed = statusWithLifecycle(context.taxonomy, "completed") ?? "Completed";
+    let next = [...events];
+    const touched: string[] = [];
+    for (const { event, actualKwh } of plan.matches) {
+      if (isVirtualOccurrence(event)) {
+        const seriesId = event.seriesId as string;
+        next = next.map((stored) =>
+          stored.id === seriesId ? withException(stored, event.occurrenceDate as string) : stored
+        );
+        const { occurrenceDate: _occurrenceDate, recurrence: _recurrence, ...occurrence } = event;
+        const detached = { ...occurrence, id: createEventId(), seriesId, actualKwh, status: completed };
+        next.push(detached);
+        touched.push(detached.id);
+      } else {
+        next = next.map((stored) => (stored.id === event.id ? { ...stored, actualKwh, status: completed } : stored));
+        touched.push(event.id);
+      }
+    }
+    const created = plan.newEvents.map<EnergyEvent>((input) => ({
+      ...input,
+      id: createEventId(),
+      efficiencyScore: input.efficiencyScore ?? 0
+    }));
+    next = rescore([...next, ...created], [...touched, ...created.map((event) => event.id)], context);
+    return { next, result: { plan, events: next } };
+  });
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { Role } from "../auth";
+
+// Stores read the data directory when they load, so point it at a scratch one before importing them.
+const dataDirectory = mkdtempSync(path.join(tmpdir(), "energy-presets-"));
+process.env.ENERGY_DATA_DIR = dataDirectory;
+
+type PresetRoute = typeof import("../../app/api/filter-presets/[id]/route");
+type UserStore = typeof import("./userStore");
+
+let route: PresetRoute;
+let users: UserStore;
+
+/** A request to `/api/filter-presets/:id` signed in as a new user with `role`. */
+const requestAs = async (role: Role, method: string, body?: unknown) => {
+  const user = await users.createUser({ username: `${role}-${method}`, name: role, role, password: "long-enough" });
+  const token = await users.createSession(user?.id ?? "");
+  return new Request("http://localhost/api/filter-presets/peaks", {
+    method,
+    headers: { cookie: `energy_session=${token}`, "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+};
+
+const context = { params: { id: "peaks" } };
+
+describe("filter preset routes", () => {
+  before(async () => {
+    route = await import("../../app/api/filter-presets/[id]/route");
+    users = await import("./userStore");
+  });
+
+  after(() => rmSync(dataDirectory, { recursive: true, force: true }));
+
+  it("let only roles that may edit events save or delete shared presets", async () => {
+    const saved = await route.PUT(await requestAs("viewer", "PUT", { name: "Peaks", query: "type=Demand" }), context);
+    assert.equal(saved.status, 403);
+    assert.deepEqual(await saved.json(), { error: "Your viewer role does not allow this (events:edit)." });
+    const deleted = await route.DELETE(await requestAs("viewer", "DELETE"), context);
+    assert.equal(deleted.status, 403);
+  });
+
+  it("refuse requests without a session", async () => {
+    const response = await route.PUT(
+      new Request("http://localhost/api/filter-presets/peaks", { method: "PUT" }),
+      context
+    );
+    assert.equal(response.status, 401);
+  });
+
+  it("store the preset under the id in the URL, replace it by id, and delete it once", async () => {
+    const created = await route.PUT(
+      await requestAs("operator", "PUT", { id: "ignored", name: " Peaks ", query: "q=peak&type=Demand" }),
+      context
+    );
+    assert.deepEqual(await created.json(), { presets: [{ id: "peaks", name: "Peaks", query: "type=Demand&q=peak" }] });
+    const replaced = await route.PUT(
+      await requestAs("admin", "PUT", { name: "Storage", query: "type=Storage" }),
+      context
+    );
+    assert.deepEqual(await replaced.json(), { presets: [{ id: "peaks", name: "Storage", query: "type=Storage" }] });
+
+    const removed = await route.DELETE(await requestAs("operator", "DELETE"), context);
+    assert.deepEqual(await removed.json(), { presets: [] });
+    const missing = await route.DELETE(await requestAs("admin", "DELETE"), context);
+    assert.equal(missing.status, 404);
+  });
+});
@@ -0,0 +1,22 @@
+import type { FilterPreset } from "../filters";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<FilterPreset[]>("filter-presets.json", () => []);
+
+export const getFilterPresets = () => store.read();
+
+/** Adds the preset, or replaces the one with its id; other presets are left as they are on disk. */
+export const saveFilterPreset = (preset: FilterPreset) =>
+  store.update((presets) => {
+    const next = presets.some((existing) => existing.id === preset.id)
+      ? presets.map((existing) => (existing.id === preset.id ? preset : existing))
+      : [...presets, preset];
+    return { next, result: next };
+  });
+
+/** Null when no preset has the id. */
+export const deleteFilterPreset = (id: string) =>
+  store.update((presets) => {
+    const next = presets.filter((preset) => preset.id !== id);
+    return next.length < presets.length ? { next, result: next } : { next: presets, result: null };
+  });
@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+const dataDirectory = process.env.ENERGY_DATA_DIR ?? path.join(process.cwd(), "data");
+
+export type JsonStore<T> = {
+  read: () => Promise<T>;
+  update: <R>(mutate: (current: T) => { next: T; result: R }) => Promise<R>;
+};
+
+/**
+ * A JSON document on local disk. Writes are serialized through a promise chain so concurrent
+ * requests in the same server process never interleave, and each write goes through a temp
+ * file + rename so a crash cannot leave half a document behind.
+ */
+export const createJsonStore = <T>(fileName: string, seed: () => T): JsonStore<T> => {
+  const filePath = path.join(dataDirectory, fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const write = async (value: T) => {
+    await fs.mkdir(dataDirectory, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  };
+
+  const load = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      const initial = seed();
+      await write(initial);
+      return initial;
+    }
+  };
+
+  const enqueue = <R>(task: () => Promise<R>) => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    read: () => enqueue(load),
+    update: (mutate) =>
+      enqueue(async () => {
+        const { next, result } = mutate(await load());
+        await write(next);
+        return result;
+      })
+  };
+};
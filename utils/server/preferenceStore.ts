@@ -0,0 +1,11 @@
+import { defaultPreferences } from "../preferences";
+import type { Preferences } from "../preferences";
+import { createJsonStore } from "./jsonStore";
+
+/** Keyed by user id; users who never saved preferences get the defaults. */
+const store = createJsonStore<Record<string, Preferences>>("preferences.json", () => ({}));
+
+export const getPreferences = async (userId: string) => (await store.read())[userId] ?? defaultPreferences;
+
+export const savePreferences = (userId: string, preferences: Preferences) =>
+  store.update((all) => ({ next: { ...all, [userId]: preferences }, result: preferences }));
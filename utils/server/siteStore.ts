@@ -0,0 +1,9 @@
+import { defaultSiteRegistry } from "../sites";
+import type { SiteRegistry } from "../sites";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<SiteRegistry>("sites.json", () => defaultSiteRegistry);
+
+export const getSiteRegistry = () => store.read();
+
+export const saveSiteRegistry = (registry: SiteRegistry) => store.update(() => ({ next: registry, result: registry }));
@@ -0,0 +1,9 @@
+import { defaultTariff } from "../tariff";
+import type { Tariff } from "../tariff";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<Tariff>("tariff.json", () => defaultTariff);
+
+export const getTariff = () => store.read();
+
+export const saveTariff = (tariff: Tariff) => store.update(() => ({ next: tariff, result: tariff }));
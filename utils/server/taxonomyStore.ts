@@ -0,0 +1,9 @@
+import { defaultTaxonomy } from "../taxonomy";
+import type { Taxonomy } from "../taxonomy";
+import { createJsonStore } from "./jsonStore";
+
+const store = createJsonStore<Taxonomy>("taxonomy.json", () => defaultTaxonomy);
+
+export const getTaxonomy = () => store.read();
+
+export const saveTaxonomy = (taxonomy: Taxonomy) => store.update(() => ({ next: taxonomy, result: taxonomy }));
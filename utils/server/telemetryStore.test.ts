@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TelemetryReading } from "../telemetry";
+import { isTelemetryDevice, recentReadings, recordReadings, subscribeToReadings } from "./telemetryStore";
+
+const now = new Date("2024-06-03T12:00:00Z");
+
+const reading = (minutesAgo: number, overrides: Partial<TelemetryReading> = {}): TelemetryReading => ({
+  assetId: "solar-array",
+  at: new Date(now.getTime() - minutesAgo * 60_000).toISOString(),
+  kw: 120,
+  ...overrides
+});
+
+const pushed = (authorization?: string) =>
+  new Request("http://localhost/api/telemetry", {
+    method: "POST",
+    headers: authorization ? { authorization } : {}
+  });
+
+describe("isTelemetryDevice", () => {
+  it("accepts only the configured bearer token", () => {
+    assert.ok(isTelemetryDevice(pushed("Bearer s3cret"), "s3cret"));
+    assert.ok(!isTelemetryDevice(pushed("Bearer wrong"), "s3cret"));
+    assert.ok(!isTelemetryDevice(pushed("s3cret"), "s3cret"));
+    assert.ok(!isTelemetryDevice(pushed(), "s3cret"));
+  });
+
+  it("lets no request through as a device when no token is configured", () => {
+    assert.ok(!isTelemetryDevice(pushed("Bearer "), ""));
+    assert.ok(!isTelemetryDevice(pushed("Bearer undefined"), undefined));
+  });
+});
+
+// The buffer is shared by the whole process, so these run in order on one timeline.
+describe("telemetry buffer", () => {
+  it("keeps readings oldest first across batches and drops ones older than a day", () => {
+    recordReadings([reading(10), reading(25 * 60, { assetId: "wind-turbine" })], now);
+    recordReadings([reading(30, { assetId: "ev-fleet" })], now);
+    assert.deepEqual(
+      recentReadings().map(({ assetId }) => assetId),
+      ["ev-fleet", "solar-array"]
+    );
+    assert.deepEqual(
+      recentReadings(reading(20).at).map(({ assetId }) => assetId),
+      ["solar-array"]
+    );
+  });
+
+  it("pushes each new batch to subscribers until they unsubscribe", () => {
+    const batches: TelemetryReading[][] = [];
+    const unsubscribe = subscribeToReadings((readings) => batches.push(readings));
+    const batch = [reading(5)];
+    recordReadings(batch, now);
+    unsubscribe();
+    recordReadings([reading(4)], now);
+    assert.deepEqual(batches, [batch]);
+  });
+
+  it("holds at most 50,000 readings, dropping the oldest", () => {
+    const start = now.getTime() - 60 * 60_000;
+    const flood = Array.from({ length: 50_001 }, (_unused, index) => ({
+      assetId: "ev-fleet",
+      at: new Date(start + index * 50).toISOString(),
+      kw: 10
+    }));
+    recordReadings(flood, now);
+    const buffered = recentReadings();
+    assert.equal(buffered.length, 50_000);
+    // The four readings from the earlier tests are newer than the flood, so its five oldest go.
+    assert.equal(buffered[0].at, flood[5].at);
+    assert.equal(buffered[buffered.length - 1].at, reading(4).at);
+  });
+});
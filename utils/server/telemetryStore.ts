@@ -0,0 +1,51 @@
+import { retentionMs } from "../telemetry";
+import type { TelemetryReading } from "../telemetry";
+
+type TelemetryListener = (readings: TelemetryReading[]) => void;
+
+type TelemetryBuffer = {
+  readings: TelemetryReading[];
+  listeners: Set<TelemetryListener>;
+};
+
+/** Caps memory when many assets report every few seconds. */
+const maxBufferedReadings = 50_000;
+
+/**
+ * Readings live in memory rather than a JSON store: they arrive every few seconds, only matter
+ * while events are in flight, and settled totals come from meter imports. The buffer hangs off
+ * `globalThis` so every route module in the server process, and dev-mode reloads, share it.
+ */
+const globalBuffer = globalThis as typeof globalThis & { telemetryBuffer?: TelemetryBuffer };
+
+const buffer = (globalBuffer.telemetryBuffer ??= { readings: [], listeners: new Set() });
+
+/** Buffers readings, drops ones older than a day and pushes the new batch to every open stream. */
+export const recordReadings = (readings: TelemetryReading[], now = new Date()) => {
+  const cutoff = new Date(now.getTime() - retentionMs).toISOString();
+  buffer.readings = [...buffer.readings, ...readings]
+    .filter((reading) => reading.at >= cutoff)
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .slice(-maxBufferedReadings);
+  buffer.listeners.forEach((listener) => listener(readings));
+  return readings;
+};
+
+/** Buffered readings, oldest first; `since` (ISO timestamp) keeps only later ones. */
+export const recentReadings = (since?: string) =>
+  since ? buffer.readings.filter((reading) => reading.at > since) : buffer.readings;
+
+/**
+ * Field devices cannot sign in; they send `Authorization: Bearer <ENERGY_TELEMETRY_TOKEN>` instead.
+ * Without a configured token no request passes as a device.
+ */
+export const isTelemetryDevice = (request: Request, token = process.env.ENERGY_TELEMETRY_TOKEN) =>
+  Boolean(token) && request.headers.get("authorization") === `Bearer ${token}`;
+
+/** Calls `listener` with each new batch of readings; returns the unsubscribe function. */
+export const subscribeToReadings = (listener: TelemetryListener) => {
+  buffer.listeners.add(listener);
+  return () => {
+    buffer.listeners.delete(listener);
+  };
+};
@@ -0,0 +1,197 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { createUserId, minPasswordLength } from "../auth";
+import type { User, UserInput } from "../auth";
+import { createJsonStore } from "./jsonStore";
+
+type StoredUser = User & {
+  /** scrypt hash and salt, both hex. */
+  passwordHash: string;
+  salt: string;
+};
+
+type Session = {
+  /** SHA-256 of the cookie token, so a leaked sessions file cannot be replayed. */
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+};
+
+export const sessionMaxAgeSeconds = 7 * 24 * 60 * 60;
+
+const derive = promisify(scrypt) as (password: string, salt: string, length: number) => Promise<Buffer>;
+
+const hashPassword = async (password: string, salt = randomBytes(16).toString("hex")) => ({
+  salt,
+  passwordHash: (await derive(password, salt, 64)).toString("hex")
+});
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+/**
+ * The first admin's password. There is no fallback: without ENERGY_ADMIN_PASSWORD (of at least
+ * `minPasswordLength` characters) no admin is seeded and nobody can sign in.
+ */
+const seedAdminPassword = () => {
+  const password = process.env.ENERGY_ADMIN_PASSWORD;
+  return password && password.length >= minPasswordLength ? password : null;
+};
+
+const usersStore = createJsonStore<StoredUser[]>("users.json", () => []);
+
+const sessionsStore = createJsonStore<Session[]>("sessions.json", () => []);
+
+const publicUser = ({ id, username, name, role }: StoredUser): User => ({ id, username, name, role });
+
+/** Users are seeded lazily, as hashing is asynchronous and `createJsonStore` seeds synchronously. */
+const readUsers = async () => {
+  const users = await usersStore.read();
+  const password = seedAdminPassword();
+  if (users.length > 0 || !password) {
+    return users;
+  }
+  const admin: StoredUser = {
+    id: "user-admin",
+    username: "admin",
+    name: "Administrator",
+    role: "admin",
+    ...(await hashPassword(password))
+  };
+  return usersStore.update((current) =>
+    current.length > 0 ? { next: current, result: current } : { next: [admin], result: [admin] }
+  );
+};
+
+export const listUsers = async () => (await readUsers()).map(publicUser);
+
+/** False until an admin has been seeded from ENERGY_ADMIN_PASSWORD. */
+export const hasUsers = async () => (await readUsers()).length > 0;
+
+const endUserSessions = (userId: string) =>
+  sessionsStore.update((sessions) => ({
+    next: sessions.filter((session) => session.userId !== userId),
+    result: null
+  }));
+
+export const verifyCredentials = async (username: string, password: string) => {
+  const user = (await readUsers()).find((candidate) => candidate.username === username);
+  // Hash even for unknown users so response times do not reveal which usernames exist.
+  const { passwordHash } = await hashPassword(password, user?.salt);
+  if (!user || !timingSafeEqual(Buffer.from(passwordHash, "hex"), Buffer.from(user.passwordHash, "hex"))) {
+    return null;
+  }
+  return publicUser(user);
+};
+
+const remainingAdmins = (users: StoredUser[], exceptId: string) =>
+  users.filter((user) => user.role === "admin" && user.id !== exceptId).length;
+
+/** Null when the username is taken. */
+export const createUser = async (input: UserInput) => {
+  await readUsers();
+  const hashed = await hashPassword(input.password ?? randomBytes(16).toString("hex"));
+  return usersStore.update((users) => {
+    if (users.some((user) => user.username === input.username)) {
+      return { next: users, result: null };
+    }
+    const created: StoredUser = {
+      id: createUserId(),
+      username: input.username,
+      name: input.name,
+      role: input.role,
+      ...hashed
+    };
+    return { next: [...users, created], result: publicUser(created) };
+  });
+};
+
+export type UserUpdateResult = { ok: true; user: User } | { ok: false; status: 404 | 409; error: string };
+
+/**
+ * Changes a user's details, and their password when one is given, which also signs them out everywhere;
+ * the last admin cannot be demoted.
+ */
+export const updateUser = async (id: string, input: UserInput): Promise<UserUpdateResult> => {
+  await readUsers();
+  const hashed = input.password ? await hashPassword(input.password) : null;
+  const result = await usersStore.update<UserUpdateResult>((users) => {
+    const existing = users.find((user) => user.id === id);
+    if (!existing) {
+      return { next: users, result: { ok: false, status: 404, error: `User ${id} not found.` } };
+    }
+    if (users.some((user) => user.username === input.username && user.id !== id)) {
+      return { next: users, result: { ok: false, status: 409, error: `Username ${input.username} is taken.` } };
+    }
+    if (existing.role === "admin" && input.role !== "admin" && remainingAdmins(users, id) === 0) {
+      return { next: users, result: { ok: false, status: 409, error: "The last admin cannot lose the admin role." } };
+    }
+    const updated: StoredUser = {
+      ...existing,
+      username: input.username,
+      name: input.name,
+      role: input.role,
+      ...(hashed ?? {})
+    };
+    return {
+      next: users.map((user) => (user.id === id ? updated : user)),
+      result: { ok: true, user: publicUser(updated) }
+    };
+  });
+  if (result.ok && hashed) {
+    await endUserSessions(id);
+  }
+  return result;
+};
+
+export const deleteUser = async (id: string): Promise<UserUpdateResult> => {
+  await readUsers();
+  const result = await usersStore.update<UserUpdateResult>((users) => {
+    const existing = users.find((user) => user.id === id);
+    if (!existing) {
+      return { next: users, result: { ok: false, status: 404, error: `User ${id} not found.` } };
+    }
+    if (existing.role === "admin" && remainingAdmins(users, id) === 0) {
+      return { next: users, result: { ok: false, status: 409, error: "The last admin cannot be removed." } };
+    }
+    return { next: users.filter((user) => user.id !== id), result: { ok: true, user: publicUser(existing) } };
+  });
+  if (result.ok) {
+    await endUserSessions(id);
+  }
+  return result;
+};
+
+/** Starts a session and returns the token for the session cookie; expired sessions are pruned on the way. */
+export const createSession = async (userId: string, now = new Date()) => {
+  const token = randomBytes(32).toString("base64url");
+  const session: Session = {
+    tokenHash: hashToken(token),
+    userId,
+    expiresAt: new Date(now.getTime() + sessionMaxAgeSeconds * 1000).toISOString()
+  };
+  await sessionsStore.update((sessions) => ({
+    next: [...sessions.filter((existing) => existing.expiresAt > now.toISOString()), session],
+    result: null
+  }));
+  return token;
+};
+
+export const userForSession = async (token: string, now = new Date()) => {
+  const tokenHash = hashToken(token);
+  const session = (await sessionsStore.read()).find(
+    (candidate) => candidate.tokenHash === tokenHash && candidate.expiresAt > now.toISOString()
+  );
+  if (!session) {
+    return null;
+  }
+  const user = (await readUsers()).find((candidate) => candidate.id === session.userId);
+  return user ? publicUser(user) : null;
+};
+
+export const endSession = (token: string) => {
+  const tokenHash = hashToken(token);
+  return sessionsStore.update((sessions) => ({
+    next: sessions.filter((session) => session.tokenHash !== tokenHash),
+    result: null
+  }));
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultSiteRegistry, eventsForSite, siteIdOf, storageAssetsOf, summarizeSites } from "./sites";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "solar",
+  title: "Solar output",
+  type: "Production",
+  date: "2024-06-03",
+  startTime: "10:00",
+  endTime: "14:00",
+  energyKwh: 300,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  assetId: "solar-array",
+  ...overrides
+});
+
+const events = [
+  event(),
+  event({ id: "chargers", type: "Demand", assetId: "ev-fleet", energyKwh: 120 }),
+  event({ id: "wind", assetId: "wind-turbine", energyKwh: 500 }),
+  // Runs past midnight into July but counts in June, where it starts.
+  event({
+    id: "thermal",
+    type: "Demand",
+    assetId: "thermal-1",
+    date: "2024-06-30",
+    startTime: "22:00",
+    endTime: "02:00",
+    energyKwh: 80
+  }),
+  event({ id: "unknown-asset", type: "Demand", assetId: "retired-pump", energyKwh: 40 }),
+  event({ id: "no-asset", type: "Demand", assetId: undefined, energyKwh: 60 })
+];
+
+const ids = (list: EnergyEvent[]) => list.map(({ id }) => id);
+
+describe("eventsForSite", () => {
+  it("keeps the events whose asset is at the site", () => {
+    assert.deepEqual(ids(eventsForSite(events, defaultSiteRegistry, "north-campus")), ["solar", "chargers"]);
+    assert.deepEqual(ids(eventsForSite(events, defaultSiteRegistry, "riverside-microgrid")), ["wind", "thermal"]);
+  });
+
+  it("leaves events without a registered asset to the portfolio", () => {
+    assert.equal(siteIdOf(events[4], defaultSiteRegistry), null);
+    assert.equal(eventsForSite(events, defaultSiteRegistry, null).length, events.length);
+  });
+});
+
+describe("summarizeSites", () => {
+  it("totals each site's month and adds a card for events without a site", () => {
+    const summaries = summarizeSites(events, new Date(2024, 5, 1), defaultSiteRegistry);
+    assert.deepEqual(
+      summaries.map(({ site, summary }) => [site?.id ?? null, summary.totalProduction, summary.totalConsumption]),
+      [
+        ["north-campus", 300, 120],
+        ["riverside-microgrid", 500, 80],
+        [null, 0, 100]
+      ]
+    );
+  });
+
+  it("leaves out the card for events without a site when none fall in the month", () => {
+    const summaries = summarizeSites(events, new Date(2024, 6, 1), defaultSiteRegistry);
+    assert.deepEqual(
+      summaries.map(({ site, summary }) => [site?.id, summary.totalEvents]),
+      [
+        ["north-campus", 0],
+        ["riverside-microgrid", 0]
+      ]
+    );
+  });
+});
+
+describe("storageAssetsOf", () => {
+  it("lists the storage assets of one site, or of the whole portfolio", () => {
+    assert.deepEqual(
+      storageAssetsOf(defaultSiteRegistry, "north-campus").map(({ id }) => id),
+      ["battery-1"]
+    );
+    assert.deepEqual(
+      storageAssetsOf(defaultSiteRegistry).map(({ id }) => id),
+      ["battery-1", "thermal-1"]
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import { format } from "date-fns";
+import { parseStorageSpec } from "./storage";
+import type { StorageAsset, StorageSpec } from "./storage";
+import { summarizeMonth } from "./summary";
+import type { MonthSummary } from "./summary";
+import { defaultTaxonomy, isEnergyType } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import { isValidTimeZone, runtimeTimeZone } from "./timeZones";
+import type { EnergyEvent, EnergyType } from "./types";
+import type { ParseResult } from "./events";
+
+export type Site = {
+  id: string;
+  name: string;
+  location: string;
+  /** IANA zone such as "Europe/Berlin"; the site's event times are wall-clock times in it. */
+  timeZone?: string;
+  /** Grid connection caps in kW for net import and net export; omitted means uncapped. */
+  importLimitKw?: number;
+  exportLimitKw?: number;
+};
+
+/** A building, device or feeder that events run on. Storage assets also carry battery parameters. */
+export type Asset = {
+  id: string;
+  siteId: string;
+  name: string;
+  type: EnergyType;
+  ratedKw: number;
+  location?: string;
+  storage?: StorageSpec;
+};
+
+export type SiteRegistry = {
+  sites: Site[];
+  assets: Asset[];
+};
+
+/** Per-site totals; `site` is null for events that are not linked to any asset. */
+export type SiteSummary = {
+  site: Site | null;
+  summary: MonthSummary;
+};
+
+export const defaultSiteRegistry: SiteRegistry = {
+  sites: [
+    {
+      id: "north-campus",
+      name: "North Campus",
+      location: "Buildings A–D, 1200 Grid Avenue",
+      timeZone: "America/New_York",
+      importLimitKw: 400,
+      exportLimitKw: 250
+    },
+    {
+      id: "riverside-microgrid",
+      name: "Riverside Microgrid",
+      location: "Riverside industrial park",
+      timeZone: "America/Chicago",
+      importLimitKw: 250,
+      exportLimitKw: 400
+    }
+  ],
+  assets: [
+    {
+      id: "ev-fleet",
+      siteId: "north-campus",
+      name: "EV Fleet Chargers",
+      type: "Demand",
+      ratedKw: 150,
+      location: "Depot"
+    },
+    {
+      id: "solar-array",
+      siteId: "north-campus",
+      name: "Rooftop Solar Array",
+      type: "Production",
+      ratedKw: 250,
+      location: "Building B roof"
+    },
+    {
+      id: "data-center",
+      siteId: "north-campus",
+      name: "Data Center",
+      type: "Demand",
+      ratedKw: 200,
+      location: "Building D"
+    },
+    {
+      id: "battery-1",
+      siteId: "north-campus",
+      name: "Site Battery",
+      type: "Storage",
+      ratedKw: 150,
+      location: "Depot",
+      storage: {
+        capacityKwh: 400,
+        maxChargeKw: 150,
+        maxDischargeKw: 150,
+        roundTripEfficiency: 0.9,
+        minSocPercent: 10,
+        initialSocPercent: 50
+      }
+    },
+    { id: "wind-turbine", siteId: "riverside-microgrid", name: "Wind Turbine", type: "Production", ratedKw: 300 },
+    {
+      id: "thermal-1",
+      siteId: "riverside-microgrid",
+      name: "Thermal Store",
+      type: "Storage",
+      ratedKw: 120,
+      storage: {
+        capacityKwh: 300,
+        maxChargeKw: 80,
+        maxDischargeKw: 120,
+        roundTripEfficiency: 0.8,
+        minSocPercent: 5,
+        initialSocPercent: 80
+      }
+    },
+    {
+      id: "community-feeder",
+      siteId: "riverside-microgrid",
+      name: "Community Feeder",
+      type: "Provision",
+      ratedKw: 200,
+      location: "Substation 4"
+    }
+  ]
+};
+
+export const findAsset = (registry: SiteRegistry, assetId: string | undefined) =>
+  assetId ? (registry.assets.find((asset) => asset.id === assetId) ?? null) : null;
+
+export const siteIdOf = (event: Pick<EnergyEvent, "assetId">, registry: SiteRegistry) =>
+  findAsset(registry, event.assetId)?.siteId ?? null;
+
+/** The zone configured for the event's site, if any. */
+export const siteTimeZoneOf = (event: Pick<EnergyEvent, "assetId">, registry: SiteRegistry) => {
+  const siteId = siteIdOf(event, registry);
+  return registry.sites.find((site) => site.id === siteId)?.timeZone ?? null;
+};
+
+/** The zone an event's wall-clock times are read in: its site's, or the runtime's without one. */
+export const timeZoneOf = (event: Pick<EnergyEvent, "assetId">, registry: SiteRegistry) =>
+  siteTimeZoneOf(event, registry) ?? runtimeTimeZone;
+
+/** A null site means the whole portfolio, including events without an asset. */
+export const eventsForSite = (events: EnergyEvent[], registry: SiteRegistry, siteId: string | null) =>
+  siteId === null ? events : events.filter((event) => siteIdOf(event, registry) === siteId);
+
+export const storageAssetsOf = (registry: SiteRegistry, siteId: string | null = null): StorageAsset[] =>
+  registry.assets.flatMap((asset) =>
+    asset.storage && (siteId === null || asset.siteId === siteId)
+      ? [{ id: asset.id, name: asset.name, ...asset.storage }]
+      : []
+  );
+
+export const summarizeSites = (
+  events: EnergyEvent[],
+  month: Date,
+  registry: SiteRegistry,
+  taxonomy: Taxonomy = defaultTaxonomy
+): SiteSummary[] => {
+  const monthKey = format(month, "yyyy-MM");
+  const summaries: SiteSummary[] = registry.sites.map((site) => ({
+    site,
+    summary: summarizeMonth(eventsForSite(events, registry, site.id), month, taxonomy)
+  }));
+  const unassigned = events.filter((event) => siteIdOf(event, registry) === null);
+  if (unassigned.some((event) => event.date.startsWith(monthKey))) {
+    summaries.push({ site: null, summary: summarizeMonth(unassigned, month, taxonomy) });
+  }
+  return summaries;
+};
+
+const requireText = (value: unknown, label: string): ParseResult<string> =>
+  typeof value === "string" && value.trim()
+    ? { ok: true, value: value.trim() }
+    : { ok: false, error: `${label} is required.` };
+
+/** Asset types must exist in `taxonomy`. */
+export const parseSiteRegistry = (
+  payload: unknown,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<SiteRegistry> => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Site registry must be a JSON object." };
+  }
+  const source = payload as Record<string, unknown>;
+  if (!Array.isArray(source.sites) || !Array.isArray(source.assets)) {
+    return { ok: false, error: "sites and assets must be arrays." };
+  }
+  const sites: Site[] = [];
+  for (const [index, raw] of (source.sites as unknown[]).entries()) {
+    const site = (raw ?? {}) as Record<string, unknown>;
+    const label = `sites[${index}]`;
+    const id = requireText(site.id, `${label}.id`);
+    if (!id.ok) {
+      return id;
+    }
+    const name = requireText(site.name, `${label}.name`);
+    if (!name.ok) {
+      return name;
+    }
+    if (sites.some((existing) => existing.id === id.value)) {
+      return { ok: false, error: `${label}.id "${id.value}" is used twice.` };
+    }
+    const parsed: Site = {
+      id: id.value,
+      name: name.value,
+      location: typeof site.location === "string" ? site.location.trim() : ""
+    };
+    if (typeof site.timeZone === "string" && site.timeZone.trim()) {
+      if (!isValidTimeZone(site.timeZone.trim())) {
+        return { ok: false, error: `${label}.timeZone "${site.timeZone}" is not a known IANA time zone.` };
+      }
+      parsed.timeZone = site.timeZone.trim();
+    } else if (site.timeZone !== undefined && site.timeZone !== null && site.timeZone !== "") {
+      return { ok: false, error: `${label}.timeZone must be an IANA time zone name.` };
+    }
+    for (const key of ["importLimitKw", "exportLimitKw"] as const) {
+      const limit = site[key];
+      if (limit === undefined || limit === null) {
+        continue;
+      }
+      if (typeof limit !== "number" || !Number.isFinite(limit) || limit <= 0) {
+        return { ok: false, error: `${label}.${key} must be a positive number.` };
+      }
+      parsed[key] = limit;
+    }
+    sites.push(parsed);
+  }
+  const assets: Asset[] = [];
+  for (const [index, raw] of (source.assets as unknown[]).entries()) {
+    const asset = (raw ?? {}) as Record<string, unknown>;
+    const label = `assets[${index}]`;
+    const id = requireText(asset.id, `${label}.id`);
+    if (!id.ok) {
+      return id;
+    }
+    const name = requireText(asset.name, `${label}.name`);
+    if (!name.ok) {
+      return name;
+    }
+    if (assets.some((existing) => existing.id === id.value)) {
+      return { ok: false, error: `${label}.id "${id.value}" is used twice.` };
+    }
+    if (!sites.some((site) => site.id === asset.siteId)) {
+      return { ok: false, error: `${label}.siteId must name one of the sites.` };
+    }
+    if (!isEnergyType(taxonomy, asset.type)) {
+      return {
+        ok: false,
+        error: `${label}.type must be one of ${taxonomy.categories.map(({ name }) => name).join(", ")}.`
+      };
+    }
+    if (typeof asset.ratedKw !== "number" || !Number.isFinite(asset.ratedKw) || asset.ratedKw <= 0) {
+      return { ok: false, error: `${label}.ratedKw must be a positive number.` };
+    }
+    const parsed: Asset = {
+      id: id.value,
+      siteId: asset.siteId as string,
+      name: name.value,
+      type: asset.type,
+      ratedKw: asset.ratedKw
+    };
+    if (typeof asset.location === "string" && asset.location.trim()) {
+      parsed.location = asset.location.trim();
+    }
+    if (parsed.type === "Storage") {
+      const storage = parseStorageSpec(asset.storage, `${label}.storage`);
+      if (!storage.ok) {
+        return storage;
+      }
+      parsed.storage = storage.value;
+    }
+    assets.push(parsed);
+  }
+  return { ok: true, value: { sites, assets } };
+};
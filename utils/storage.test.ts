@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultStorageSpec, parseStorageSpec, simulateStorage, storageDirectionOf } from "./storage";
+import type { StorageAsset } from "./storage";
+import type { EnergyEvent } from "./types";
+
+const battery: StorageAsset = { ...defaultStorageSpec, id: "battery-1", name: "Battery 1", roundTripEfficiency: 1 };
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "charge",
+  title: "Night charge",
+  type: "Storage",
+  date: "2024-06-03",
+  startTime: "01:00",
+  endTime: "02:00",
+  energyKwh: 50,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  storageDirection: "charge",
+  assetId: "battery-1",
+  ...overrides
+});
+
+const june = new Date(2024, 5, 1);
+
+describe("storageDirectionOf", () => {
+  it("falls back to the title for events saved before directions existed", () => {
+    assert.equal(storageDirectionOf(event({ storageDirection: undefined, title: "Evening discharge" })), "discharge");
+    assert.equal(storageDirectionOf(event({ storageDirection: undefined })), "charge");
+  });
+});
+
+describe("simulateStorage", () => {
+  it("charges and discharges from the initial state of charge", () => {
+    const [simulation] = simulateStorage(
+      [event(), event({ id: "discharge", storageDirection: "discharge", startTime: "18:00", endTime: "19:00" })],
+      june,
+      [battery]
+    );
+    assert.deepEqual(
+      simulation.results.map((result) => [result.event.id, result.feasibleKwh, result.issue]),
+      [
+        ["charge", 50, null],
+        ["discharge", 50, null]
+      ]
+    );
+    assert.equal(simulation.points[simulation.points.length - 1].socKwh, 100);
+  });
+
+  it("reports events the power rating cannot fit in their window", () => {
+    const [simulation] = simulateStorage([event({ energyKwh: 90, endTime: "01:30" })], june, [battery]);
+    assert.equal(simulation.results[0].feasibleKwh, 50);
+    assert.equal(
+      simulation.results[0].issue,
+      "Battery 1 can only charge at 100 kW, so just 50 of 90 kWh fit the window."
+    );
+  });
+
+  it("stops at full capacity and at the minimum state of charge", () => {
+    const [full] = simulateStorage([event({ energyKwh: 150, endTime: "03:00" })], june, [battery]);
+    assert.equal(full.results[0].issue, "Battery 1 is full after 100 of 150 kWh.");
+    const [empty] = simulateStorage(
+      [event({ storageDirection: "discharge", energyKwh: 150, endTime: "03:00" })],
+      june,
+      [battery]
+    );
+    assert.equal(empty.results[0].issue, "Battery 1 reaches its 10% minimum after 80 of 150 kWh.");
+  });
+
+  it("loses energy on both legs of the round trip", () => {
+    const lossy = { ...battery, roundTripEfficiency: 0.81 };
+    const [simulation] = simulateStorage([event({ energyKwh: 10 })], june, [lossy]);
+    assert.equal(Math.round(simulation.points[simulation.points.length - 1].socKwh * 10) / 10, 109);
+  });
+
+  it("keeps events on the asset they name", () => {
+    const other: StorageAsset = { ...battery, id: "battery-2", name: "Battery 2" };
+    const [first, second] = simulateStorage([event({ assetId: "battery-2" })], june, [battery, other]);
+    assert.equal(first.results.length, 0);
+    assert.equal(second.results.length, 1);
+  });
+});
+
+describe("parseStorageSpec", () => {
+  it("rejects an initial charge below the minimum", () => {
+    assert.deepEqual(parseStorageSpec({ ...defaultStorageSpec, initialSocPercent: 5 }, "spec"), {
+      ok: false,
+      error: "spec.initialSocPercent cannot be below minSocPercent."
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { differenceInMinutes, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { durationMinutes } from "./schedule";
+import type { ParseResult } from "./events";
+import type { EnergyEvent, StorageDirection } from "./types";
+
+/** Battery parameters carried by Storage assets in the site registry. */
+export type StorageSpec = {
+  capacityKwh: number;
+  maxChargeKw: number;
+  maxDischargeKw: number;
+  /** Share (0–1] of the energy put in that can be taken out again; losses are split evenly between charge and discharge. */
+  roundTripEfficiency: number;
+  minSocPercent: number;
+  /** State of charge at the start of each simulated month. */
+  initialSocPercent: number;
+};
+
+export type StorageAsset = StorageSpec & {
+  id: string;
+  name: string;
+};
+
+/** State of charge at `minute` minutes after the start of the simulated month. */
+export type SocPoint = {
+  minute: number;
+  socKwh: number;
+};
+
+export type StorageEventResult = {
+  event: EnergyEvent;
+  direction: StorageDirection;
+  requestedKwh: number;
+  /** Energy the asset can actually absorb (charge) or deliver (discharge) within its limits. */
+  feasibleKwh: number;
+  issue: string | null;
+};
+
+export type StorageSimulation = {
+  asset: StorageAsset;
+  points: SocPoint[];
+  results: StorageEventResult[];
+  monthMinutes: number;
+};
+
+export const defaultStorageSpec: StorageSpec = {
+  capacityKwh: 200,
+  maxChargeKw: 100,
+  maxDischargeKw: 100,
+  roundTripEfficiency: 0.9,
+  minSocPercent: 10,
+  initialSocPercent: 50
+};
+
+/** Simulation step; events are walked in slices this long so a limit is hit at the right moment. */
+const stepMinutes = 15;
+
+/** Shortfalls smaller than this are rounding, not an infeasible event. */
+const toleranceKwh = 0.5;
+
+/** Events saved before directions existed fall back to their title: "…Discharge" discharges, anything else charges. */
+export const storageDirectionOf = (event: EnergyEvent): StorageDirection =>
+  event.storageDirection ?? (/discharg/i.test(event.title) ? "discharge" : "charge");
+
+/** The asset a Storage event runs on: its own `assetId` when known, otherwise the first asset. */
+export const storageAssetFor = (event: EnergyEvent, assets: StorageAsset[]) =>
+  assets.find((asset) => asset.id === event.assetId) ?? assets[0] ?? null;
+
+const describeShortfall = (
+  asset: StorageAsset,
+  direction: StorageDirection,
+  requestedKwh: number,
+  feasibleKwh: number,
+  hitSocLimit: boolean
+) => {
+  const done = `${Math.round(feasibleKwh)} of ${Math.round(requestedKwh)} kWh`;
+  if (hitSocLimit) {
+    return direction === "charge"
+      ? `${asset.name} is full after ${done}.`
+      : `${asset.name} reaches its ${asset.minSocPercent}% minimum after ${done}.`;
+  }
+  const limit = direction === "charge" ? asset.maxChargeKw : asset.maxDischargeKw;
+  return `${asset.name} can only ${direction} at ${limit} kW, so just ${done} fit the window.`;
+};
+
+/**
+ * Runs each storage asset through the month's Storage events in start order, starting from its
+ * initial state of charge. Every event is limited by the asset's power rating, its capacity and its
+ * minimum state of charge; any shortfall against the planned (or metered) energy is reported as an issue.
+ * Overlapping events on one asset are applied one after the other.
+ */
+export const simulateStorage = (events: EnergyEvent[], month: Date, assets: StorageAsset[]): StorageSimulation[] => {
+  const monthStart = startOfMonth(month);
+  const monthKey = format(month, "yyyy-MM");
+  const monthMinutes = differenceInMinutes(endOfMonth(month), monthStart) + 1;
+  const storageEvents = events
+    .filter((event) => event.type === "Storage" && event.date.startsWith(monthKey))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+  return assets.map((asset) => {
+    const minSoc = (asset.capacityKwh * asset.minSocPercent) / 100;
+    const oneWayEfficiency = Math.sqrt(asset.roundTripEfficiency);
+    let soc = (asset.capacityKwh * asset.initialSocPercent) / 100;
+    const points: SocPoint[] = [{ minute: 0, socKwh: soc }];
+    const results: StorageEventResult[] = [];
+
+    for (const event of storageEvents.filter((candidate) => storageAssetFor(candidate, assets)?.id === asset.id)) {
+      const direction = storageDirectionOf(event);
+      const requestedKwh = event.actualKwh ?? event.energyKwh;
+      const totalMinutes = durationMinutes(event.startTime, event.endTime);
+      const start = differenceInMinutes(parseISO(`${event.date}T${event.startTime}`), monthStart);
+      const maxKw = direction === "charge" ? asset.maxChargeKw : asset.maxDischargeKw;
+      let feasibleKwh = 0;
+      let hitSocLimit = false;
+      points.push({ minute: start, socKwh: soc });
+
+      for (let elapsed = 0; elapsed < totalMinutes; elapsed += stepMinutes) {
+        const minutes = Math.min(stepMinutes, totalMinutes - elapsed);
+        const wanted = Math.min((requestedKwh * minutes) / totalMinutes, (maxKw * minutes) / 60);
+        if (direction === "charge") {
+          const stored = Math.min(wanted * oneWayEfficiency, asset.capacityKwh - soc);
+          hitSocLimit ||= stored < wanted * oneWayEfficiency;
+          soc += stored;
+          feasibleKwh += stored / oneWayEfficiency;
+        } else {
+          const drawn = Math.min(wanted / oneWayEfficiency, Math.max(0, soc - minSoc));
+          hitSocLimit ||= drawn < wanted / oneWayEfficiency;
+          soc -= drawn;
+          feasibleKwh += drawn * oneWayEfficiency;
+        }
+        points.push({ minute: start + elapsed + minutes, socKwh: soc });
+      }
+
+      results.push({
+        event,
+        direction,
+        requestedKwh,
+        feasibleKwh,
+        issue:
+          requestedKwh - feasibleKwh > toleranceKwh
+            ? describeShortfall(asset, direction, requestedKwh, feasibleKwh, hitSocLimit)
+            : null
+      });
+    }
+
+    points.push({ minute: monthMinutes, socKwh: soc });
+    return { asset, points, results, monthMinutes };
+  });
+};
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+
+export const parseStorageSpec = (payload: unknown, label: string): ParseResult<StorageSpec> => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: `${label} must be an object.` };
+  }
+  const spec = payload as Record<string, unknown>;
+  for (const key of ["capacityKwh", "maxChargeKw", "maxDischargeKw"] as const) {
+    if (!isPositive(spec[key])) {
+      return { ok: false, error: `${label}.${key} must be a positive number.` };
+    }
+  }
+  const efficiency = spec.roundTripEfficiency;
+  if (!isPositive(efficiency) || efficiency > 1) {
+    return { ok: false, error: `${label}.roundTripEfficiency must be between 0 and 1.` };
+  }
+  if (!isPercent(spec.minSocPercent) || !isPercent(spec.initialSocPercent)) {
+    return { ok: false, error: `${label} state-of-charge percentages must be between 0 and 100.` };
+  }
+  if (spec.initialSocPercent < spec.minSocPercent) {
+    return { ok: false, error: `${label}.initialSocPercent cannot be below minSocPercent.` };
+  }
+  return {
+    ok: true,
+    value: {
+      capacityKwh: spec.capacityKwh as number,
+      maxChargeKw: spec.maxChargeKw as number,
+      maxDischargeKw: spec.maxDischargeKw as number,
+      roundTripEfficiency: efficiency,
+      minSocPercent: spec.minSocPercent,
+      initialSocPercent: spec.initialSocPercent
+    }
+  };
+};
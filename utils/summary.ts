@@ -0,0 +1,123 @@
+import { format } from "date-fns";
+import { suggestLowCarbonShifts } from "./carbon";
+import type { CarbonProfile } from "./carbon";
+import { translatorFor } from "./i18n";
+import { defaultPreferences } from "./preferences";
+import type { Preferences } from "./preferences";
+import { balanceOf, balanceSign, countsTowardTotals, defaultTaxonomy, lifecycleOf } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent, EnergyType } from "./types";
+
+export type MonthSummary = {
+  /** kWh per category in the taxonomy, zero for categories with no events this month. */
+  totalsByType: Record<EnergyType, number>;
+  /** kWh across the categories that draw from the balance, and across those that add to it. */
+  totalConsumption: number;
+  totalProduction: number;
+  /** Storage energy discharged minus energy charged; negative when the month mostly fills storage. */
+  storageBuffer: number;
+  netBalance: number;
+  completedCount: number;
+  /** Events that count toward the totals; void (cancelled or failed) events are reported separately. */
+  totalEvents: number;
+  voidCount: number;
+  averageEfficiency: number;
+};
+
+export type Recommendation = {
+  title: string;
+  detail: string;
+};
+
+/** Totals follow each category's balance in the taxonomy, so custom categories add to or draw from the net balance. */
+export const summarizeMonth = (
+  events: EnergyEvent[],
+  month: Date,
+  taxonomy: Taxonomy = defaultTaxonomy
+): MonthSummary => {
+  const monthKey = format(month, "yyyy-MM");
+  const inMonth = events.filter((event) => event.date.startsWith(monthKey));
+  const monthEvents = inMonth.filter((event) => countsTowardTotals(taxonomy, event));
+  const totalsByType = monthEvents.reduce<Record<EnergyType, number>>(
+    (acc, event) => ({ ...acc, [event.type]: (acc[event.type] ?? 0) + event.energyKwh }),
+    Object.fromEntries(taxonomy.categories.map((category) => [category.name, 0]))
+  );
+  const totalFor = (balance: "supply" | "consumption") =>
+    monthEvents
+      .filter((event) => balanceOf(taxonomy, event.type) === balance)
+      .reduce((acc, event) => acc + event.energyKwh, 0);
+  const totalConsumption = totalFor("consumption");
+  const totalProduction = totalFor("supply");
+  const storageBuffer = monthEvents
+    .filter((event) => balanceOf(taxonomy, event.type) === "storage")
+    .reduce((acc, event) => acc + balanceSign(taxonomy, event) * event.energyKwh, 0);
+  const netBalance = totalProduction + storageBuffer - totalConsumption;
+
+  const completedCount = monthEvents.filter((event) => lifecycleOf(taxonomy, event.status) === "completed").length;
+  const averageEfficiency =
+    monthEvents.length > 0
+      ? Math.round(monthEvents.reduce((acc, event) => acc + event.efficiencyScore, 0) / monthEvents.length)
+      : 0;
+
+  return {
+    totalsByType,
+    totalConsumption,
+    totalProduction,
+    storageBuffer,
+    netBalance,
+    completedCount,
+    totalEvents: monthEvents.length,
+    voidCount: inMonth.length - monthEvents.length,
+    averageEfficiency
+  };
+};
+
+/** Recommendations in the `preferences` locale; API clients get English. */
+export const buildRecommendations = (
+  summary: MonthSummary,
+  events: EnergyEvent[],
+  carbon: CarbonProfile,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  preferences: Preferences = defaultPreferences
+): Recommendation[] => {
+  const { t } = translatorFor(preferences.locale);
+  const recs: Recommendation[] = [];
+  if (summary.netBalance < 0) {
+    recs.push({ title: t("netLoadImbalance"), detail: t("netLoadImbalanceDetail") });
+  } else {
+    recs.push({ title: t("positiveNetBalance"), detail: t("positiveNetBalanceDetail") });
+  }
+
+  if (summary.totalConsumption > summary.totalProduction * 1.2) {
+    recs.push({ title: t("demandPeaksForecasted"), detail: t("demandPeaksForecastedDetail") });
+  }
+
+  const counted = events.filter((event) => countsTowardTotals(taxonomy, event));
+  const lowEfficiencyEvents = Array.from(
+    new Set(counted.filter((event) => event.efficiencyScore < 70).map((event) => event.title))
+  ).slice(0, 2);
+  if (lowEfficiencyEvents.length > 0) {
+    recs.push({
+      title: t("improveEfficiencyScores"),
+      detail: t("improveEfficiencyScoresDetail", { titles: lowEfficiencyEvents.join(" & ") })
+    });
+  }
+
+  const lowCarbonShifts = suggestLowCarbonShifts(events, carbon, taxonomy)
+    .filter((shift, index, shifts) => shifts.findIndex((other) => other.event.title === shift.event.title) === index)
+    .slice(0, 3);
+  if (lowCarbonShifts.length > 0) {
+    const [top, ...others] = lowCarbonShifts;
+    const detail = t("moveToLowCarbonDetail", {
+      title: top.event.title,
+      time: top.window.startTime,
+      intensity: Math.round(top.window.averageIntensity),
+      current: Math.round(top.currentIntensity),
+      saved: Math.round(top.savedKg)
+    });
+    const more = t("moveToLowCarbonMore", { titles: others.map((shift) => shift.event.title).join(" & ") });
+    recs.push({ title: t("moveToLowCarbon"), detail: others.length > 0 ? `${detail} ${more}` : detail });
+  }
+
+  return recs;
+};
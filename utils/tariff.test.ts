@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultTariff, eventCost, parseTariff, rateAt, summarizeBill } from "./tariff";
+import type { Tariff } from "./tariff";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "event-1",
+  title: "Chiller",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "15:00",
+  endTime: "17:00",
+  energyKwh: 120,
+  status: "Scheduled",
+  efficiencyScore: 60,
+  ...overrides
+});
+
+/** The reference the span walk must agree with: every minute priced on its own. */
+const perMinute = (priced: EnergyEvent, tariff: Tariff) => {
+  const start = Number(priced.startTime.slice(0, 2)) * 60 + Number(priced.startTime.slice(3));
+  const endClock = Number(priced.endTime.slice(0, 2)) * 60 + Number(priced.endTime.slice(3));
+  const end = endClock > start ? endClock : endClock + 1440;
+  let amount = 0;
+  for (let minute = start; minute < end; minute += 1) {
+    const date = minute < 1440 ? priced.date : "2024-06-04";
+    amount += (priced.energyKwh / (end - start)) * rateAt(tariff, date, minute % 1440).importRate;
+  }
+  return Math.round(amount * 100) / 100;
+};
+
+describe("rateAt", () => {
+  it("takes the first matching band, so seasonal bands win over all-year ones", () => {
+    assert.equal(rateAt(defaultTariff, "2024-06-03", 17 * 60).band?.id, "summer-peak");
+    assert.equal(rateAt(defaultTariff, "2024-01-08", 17 * 60).band?.id, "peak");
+  });
+
+  it("skips weekday bands at weekends and falls back to the default rates", () => {
+    const rates = rateAt(defaultTariff, "2024-06-08", 17 * 60);
+    assert.equal(rates.band, null);
+    assert.equal(rates.importRate, defaultTariff.defaultImportRate);
+  });
+
+  it("wraps bands that end before they start across midnight", () => {
+    const tariff: Tariff = {
+      ...defaultTariff,
+      bands: [{ ...defaultTariff.bands[2], id: "night", startTime: "22:00", endTime: "06:00" }]
+    };
+    assert.equal(rateAt(tariff, "2024-06-03", 23 * 60).band?.id, "night");
+    assert.equal(rateAt(tariff, "2024-06-03", 5 * 60).band?.id, "night");
+    assert.equal(rateAt(tariff, "2024-06-03", 6 * 60).band, null);
+  });
+});
+
+describe("eventCost", () => {
+  it("prices each part of an event at its own band", () => {
+    // One hour at the default 0.22 and one in summer peak at 0.45, 60 kWh each.
+    assert.deepEqual(eventCost(event(), defaultTariff), { importCost: 40.2, exportRevenue: 0, net: 40.2 });
+  });
+
+  it("agrees with minute-by-minute pricing, overnight events included", () => {
+    for (const [startTime, endTime] of [
+      ["15:07", "16:53"],
+      ["20:30", "07:15"],
+      ["00:00", "23:59"]
+    ]) {
+      const priced = event({ startTime, endTime });
+      assert.equal(eventCost(priced, defaultTariff).importCost, perMinute(priced, defaultTariff));
+    }
+  });
+
+  it("earns the export rate for supply", () => {
+    const cost = eventCost(event({ type: "Production", startTime: "10:00", endTime: "12:00" }), defaultTariff);
+    assert.deepEqual(cost, { importCost: 0, exportRevenue: 9.6, net: -9.6 });
+  });
+});
+
+describe("summarizeBill", () => {
+  it("adds a demand charge on the month's hourly consumption peak and leaves void events out", () => {
+    const bill = summarizeBill(
+      [
+        event({ startTime: "10:00", endTime: "12:00", energyKwh: 200 }),
+        event({ id: "event-2", startTime: "11:00", endTime: "12:00", energyKwh: 50 }),
+        event({ id: "event-3", startTime: "11:00", endTime: "12:00", energyKwh: 999, status: "Cancelled" })
+      ],
+      new Date(2024, 5, 1),
+      defaultTariff
+    );
+    assert.equal(bill.peakDemandKw, 150);
+    assert.equal(bill.energyCost, 55);
+    assert.equal(bill.demandCharge, 1875);
+    assert.equal(bill.netBill, 1930);
+  });
+});
+
+describe("parseTariff", () => {
+  it("accepts the default tariff and rejects malformed bands", () => {
+    assert.ok(parseTariff(defaultTariff).ok);
+    const result = parseTariff({ ...defaultTariff, bands: [{ ...defaultTariff.bands[0], startTime: "4pm" }] });
+    assert.deepEqual(result, { ok: false, error: "bands[0].startTime must use the HH:mm format." });
+  });
+});
@@ -0,0 +1,276 @@
+import { eachDayOfInterval, endOfMonth, format, getDay, parseISO, startOfMonth } from "date-fns";
+import { hourlyProfile, eventSegments, totalKw } from "./profile";
+import { durationMinutes, toMinutes } from "./schedule";
+import type { ParseResult } from "./events";
+import { storageDirectionOf } from "./storage";
+import { balanceOf, countsTowardTotals, defaultTaxonomy, typesWithBalance } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+export type TariffDays = "all" | "weekday" | "weekend";
+
+/** A priced time window. Bands are checked in order and the first match wins; `endTime` before `startTime` wraps midnight. */
+export type TariffBand = {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  days: TariffDays;
+  /** Calendar months (1–12) the band applies in; omitted means all year. */
+  months?: number[];
+  importRate: number;
+  exportRate: number;
+};
+
+export type Tariff = {
+  currency: string;
+  defaultImportRate: number;
+  defaultExportRate: number;
+  /** Charged per kW of the month's highest hourly Demand. */
+  demandChargePerKw: number;
+  bands: TariffBand[];
+};
+
+export type EventCost = {
+  importCost: number;
+  exportRevenue: number;
+  net: number;
+};
+
+export type MonthlyBill = {
+  energyCost: number;
+  demandCharge: number;
+  peakDemandKw: number;
+  exportRevenue: number;
+  netBill: number;
+};
+
+/**
+ * How each type meets the tariff, following its balance in the taxonomy: consumption imports,
+ * supply earns the export rate, and Storage imports while charging and exports while discharging.
+ */
+export const tariffSide = (event: EnergyEvent, taxonomy: Taxonomy = defaultTaxonomy): "import" | "export" => {
+  const balance = balanceOf(taxonomy, event.type);
+  if (balance === "storage") {
+    return storageDirectionOf(event) === "charge" ? "import" : "export";
+  }
+  return balance === "consumption" ? "import" : "export";
+};
+
+export const defaultTariff: Tariff = {
+  currency: "USD",
+  defaultImportRate: 0.22,
+  defaultExportRate: 0.08,
+  demandChargePerKw: 12.5,
+  bands: [
+    {
+      id: "summer-peak",
+      name: "Summer peak",
+      startTime: "16:00",
+      endTime: "21:00",
+      days: "weekday",
+      months: [6, 7, 8, 9],
+      importRate: 0.45,
+      exportRate: 0.18
+    },
+    {
+      id: "peak",
+      name: "Peak",
+      startTime: "16:00",
+      endTime: "21:00",
+      days: "weekday",
+      importRate: 0.38,
+      exportRate: 0.15
+    },
+    {
+      id: "off-peak",
+      name: "Off-peak",
+      startTime: "00:00",
+      endTime: "07:00",
+      days: "all",
+      importRate: 0.12,
+      exportRate: 0.05
+    }
+  ]
+};
+
+const appliesOnDay = (band: TariffBand, date: Date) => {
+  const weekday = getDay(date);
+  const isWeekend = weekday === 0 || weekday === 6;
+  if ((band.days === "weekday" && isWeekend) || (band.days === "weekend" && !isWeekend)) {
+    return false;
+  }
+  return !band.months || band.months.length === 0 || band.months.includes(date.getMonth() + 1);
+};
+
+const coversMinute = (band: TariffBand, minute: number) => {
+  const start = toMinutes(band.startTime);
+  const end = toMinutes(band.endTime);
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+const ratesOf = (tariff: Tariff, band: TariffBand | undefined) => ({
+  band: band ?? null,
+  importRate: band?.importRate ?? tariff.defaultImportRate,
+  exportRate: band?.exportRate ?? tariff.defaultExportRate
+});
+
+export const rateAt = (tariff: Tariff, date: string, minute: number) => {
+  const day = parseISO(date);
+  return ratesOf(
+    tariff,
+    tariff.bands.find((candidate) => appliesOnDay(candidate, day) && coversMinute(candidate, minute))
+  );
+};
+
+/**
+ * Splits minutes `startMinute`–`endMinute` of a day into spans with a single rate each. The rate
+ * can only change where one of the day's bands starts or ends, so those are the only cut points.
+ */
+const rateSpans = (tariff: Tariff, date: string, startMinute: number, endMinute: number) => {
+  const day = parseISO(date);
+  const bands = tariff.bands.filter((band) => appliesOnDay(band, day));
+  const cuts = bands
+    .flatMap((band) => [toMinutes(band.startTime), toMinutes(band.endTime)])
+    .filter((minute) => minute > startMinute && minute < endMinute);
+  const bounds = Array.from(new Set([startMinute, ...cuts, endMinute])).sort((a, b) => a - b);
+  return bounds.slice(0, -1).map((from, index) => ({
+    minutes: bounds[index + 1] - from,
+    ...ratesOf(
+      tariff,
+      bands.find((band) => coversMinute(band, from))
+    )
+  }));
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/** Prices an event across its window, spreading its energy evenly, at each band it passes through. */
+export const eventCost = (event: EnergyEvent, tariff: Tariff, taxonomy: Taxonomy = defaultTaxonomy): EventCost => {
+  const side = tariffSide(event, taxonomy);
+  const totalMinutes = durationMinutes(event.startTime, event.endTime);
+  if (totalMinutes === 0) {
+    return { importCost: 0, exportRevenue: 0, net: 0 };
+  }
+  const kwhPerMinute = event.energyKwh / totalMinutes;
+  let amount = 0;
+  for (const segment of eventSegments(event)) {
+    for (const span of rateSpans(tariff, segment.date, segment.startMinute, segment.endMinute)) {
+      amount += kwhPerMinute * span.minutes * (side === "import" ? span.importRate : span.exportRate);
+    }
+  }
+  const importCost = side === "import" ? roundMoney(amount) : 0;
+  const exportRevenue = side === "export" ? roundMoney(amount) : 0;
+  return { importCost, exportRevenue, net: roundMoney(importCost - exportRevenue) };
+};
+
+/** Void events (cancelled, failed) are left out; the demand charge covers every consumption category. */
+export const summarizeBill = (
+  events: EnergyEvent[],
+  month: Date,
+  tariff: Tariff,
+  taxonomy: Taxonomy = defaultTaxonomy
+): MonthlyBill => {
+  const monthKey = format(month, "yyyy-MM");
+  const counted = events.filter((event) => countsTowardTotals(taxonomy, event));
+  const monthEvents = counted.filter((event) => event.date.startsWith(monthKey));
+  const costs = monthEvents.map((event) => eventCost(event, tariff, taxonomy));
+  const energyCost = costs.reduce((acc, cost) => acc + cost.importCost, 0);
+  const exportRevenue = costs.reduce((acc, cost) => acc + cost.exportRevenue, 0);
+  const demandTypes = typesWithBalance(taxonomy, "consumption");
+  const demandEvents = counted.filter((event) => demandTypes.includes(event.type));
+  const peakDemandKw = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).reduce(
+    (peak, day) =>
+      Math.max(
+        peak,
+        ...hourlyProfile(demandEvents, format(day, "yyyy-MM-dd")).map((load) => totalKw(load, demandTypes))
+      ),
+    0
+  );
+  const demandCharge = peakDemandKw * tariff.demandChargePerKw;
+  return {
+    energyCost: roundMoney(energyCost),
+    demandCharge: roundMoney(demandCharge),
+    peakDemandKw,
+    exportRevenue: roundMoney(exportRevenue),
+    netBill: roundMoney(energyCost + demandCharge - exportRevenue)
+  };
+};
+
+/** `locale` defaults to the runtime's. */
+export const formatMoney = (value: number, currency: string, fractionDigits = 0, locale?: string) =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value);
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isRate = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+export const parseTariff = (payload: unknown): ParseResult<Tariff> => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Tariff must be a JSON object." };
+  }
+  const source = payload as Record<string, unknown>;
+  if (typeof source.currency !== "string" || !/^[A-Z]{3}$/.test(source.currency)) {
+    return { ok: false, error: "currency must be a three-letter ISO code." };
+  }
+  for (const key of ["defaultImportRate", "defaultExportRate", "demandChargePerKw"] as const) {
+    if (!isRate(source[key])) {
+      return { ok: false, error: `${key} must be zero or a positive number.` };
+    }
+  }
+  if (!Array.isArray(source.bands)) {
+    return { ok: false, error: "bands must be an array." };
+  }
+  const bands: TariffBand[] = [];
+  for (const [index, raw] of (source.bands as unknown[]).entries()) {
+    const band = (raw ?? {}) as Record<string, unknown>;
+    const label = `bands[${index}]`;
+    if (typeof band.name !== "string" || !band.name.trim()) {
+      return { ok: false, error: `${label}.name is required.` };
+    }
+    if (typeof band.startTime !== "string" || !timePattern.test(band.startTime)) {
+      return { ok: false, error: `${label}.startTime must use the HH:mm format.` };
+    }
+    if (typeof band.endTime !== "string" || !timePattern.test(band.endTime)) {
+      return { ok: false, error: `${label}.endTime must use the HH:mm format.` };
+    }
+    if (!["all", "weekday", "weekend"].includes(band.days as string)) {
+      return { ok: false, error: `${label}.days must be all, weekday or weekend.` };
+    }
+    if (!isRate(band.importRate) || !isRate(band.exportRate)) {
+      return { ok: false, error: `${label} rates must be zero or positive numbers.` };
+    }
+    const months = band.months;
+    if (
+      months !== undefined &&
+      (!Array.isArray(months) || months.some((month) => !Number.isInteger(month) || month < 1 || month > 12))
+    ) {
+      return { ok: false, error: `${label}.months must list months from 1 to 12.` };
+    }
+    bands.push({
+      id: typeof band.id === "string" && band.id ? band.id : `band-${index + 1}`,
+      name: band.name.trim(),
+      startTime: band.startTime,
+      endTime: band.endTime,
+      days: band.days as TariffDays,
+      months: months && (months as number[]).length > 0 ? (months as number[]) : undefined,
+      importRate: band.importRate,
+      exportRate: band.exportRate
+    });
+  }
+  return {
+    ok: true,
+    value: {
+      currency: source.currency,
+      defaultImportRate: source.defaultImportRate as number,
+      defaultExportRate: source.defaultExportRate as number,
+      demandChargePerKw: source.demandChargePerKw as number,
+      bands
+    }
+  };
+};
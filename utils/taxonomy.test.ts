@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultCarbonProfile } from "./carbon";
+import { forecastProduction, isReplaceableForecast } from "./forecast";
+import { suggestLoadShifts } from "./optimizer";
+import { defaultSiteRegistry } from "./sites";
+import { buildRecommendations, summarizeMonth } from "./summary";
+import { defaultTariff } from "./tariff";
+import {
+  balanceSign,
+  defaultTaxonomy,
+  isCommitted,
+  parseTaxonomy,
+  statusWithLifecycle,
+  typesWithBalance
+} from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "event-1",
+  title: "Heat pump",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "12:00",
+  endTime: "14:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 50,
+  ...overrides
+});
+
+/** A site that books its own supply category and finishes events as "Verified" before "Completed". */
+const custom: Taxonomy = {
+  categories: [...defaultTaxonomy.categories, { name: "Biogas", color: "#7a5cff", balance: "supply" }],
+  statuses: [
+    { name: "Verified", lifecycle: "completed" },
+    { name: "Idea", lifecycle: "tentative" },
+    ...defaultTaxonomy.statuses
+  ]
+};
+
+describe("taxonomy helpers", () => {
+  it("groups categories by balance and signs storage by direction", () => {
+    assert.deepEqual(typesWithBalance(custom, "supply"), ["Production", "Provision", "Biogas"]);
+    assert.equal(balanceSign(custom, event({ type: "Storage", storageDirection: "discharge" })), 1);
+    assert.equal(balanceSign(custom, event({ type: "Storage", storageDirection: "charge" })), -1);
+  });
+
+  it("picks the first status of a lifecycle and treats tentative and void events as uncommitted", () => {
+    assert.equal(statusWithLifecycle(custom, "completed"), "Verified");
+    assert.equal(statusWithLifecycle(custom, "tentative"), "Idea");
+    assert.ok(!isCommitted(custom, event({ status: "Idea" })));
+    assert.ok(!isCommitted(custom, event({ status: "Cancelled" })));
+    assert.ok(isCommitted(custom, event({ status: "Verified" })));
+  });
+
+  it("keeps built-in categories and statuses", () => {
+    const result = parseTaxonomy({ ...defaultTaxonomy, statuses: defaultTaxonomy.statuses.slice(1) });
+    assert.deepEqual(result, { ok: false, error: "Scheduled is built in and cannot be removed." });
+  });
+});
+
+describe("features follow the taxonomy rather than built-in names", () => {
+  it("lets the optimizer chase surplus from any supply category", () => {
+    const biogas = event({ id: "biogas", type: "Biogas", startTime: "10:00", endTime: "14:00", energyKwh: 400 });
+    const load = event({
+      id: "load",
+      startTime: "18:00",
+      endTime: "20:00",
+      flexibility: { earliestStart: "00:00", latestEnd: "23:59", dayRange: 0 }
+    });
+    const [suggestion] = suggestLoadShifts(
+      [biogas, load],
+      new Date(2024, 5, 1),
+      defaultTariff,
+      "selfConsumption",
+      undefined,
+      custom
+    );
+    assert.equal(suggestion.proposedSelfConsumedKwh, 100);
+  });
+
+  it("forecasts supply from events with any completed status, in that category", () => {
+    const history = event({ type: "Biogas", status: "Verified", date: "2024-05-20", assetId: "digester" });
+    const [forecast] = forecastProduction(
+      [history],
+      defaultSiteRegistry,
+      { month: "2024-06", from: "2024-06-01", weather: [] },
+      custom
+    );
+    assert.equal(forecast.type, "Biogas");
+    assert.equal(forecast.status, "Idea");
+    assert.ok(isReplaceableForecast(event(forecast), custom));
+  });
+
+  it("weighs demand against all supply in the recommendations", () => {
+    const events = [event({ energyKwh: 110 }), event({ id: "biogas", type: "Biogas", energyKwh: 100 })];
+    const titles = buildRecommendations(
+      summarizeMonth(events, new Date(2024, 5, 1), custom),
+      events,
+      defaultCarbonProfile,
+      custom
+    ).map((recommendation) => recommendation.title);
+    assert.ok(!titles.includes("Demand Peaks Forecasted"), titles.join(", "));
+  });
+});
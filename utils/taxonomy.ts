@@ -0,0 +1,215 @@
+import type { ParseResult } from "./events";
+import { storageDirectionOf } from "./storage";
+import type { EnergyEvent, EnergyType, EventStatus } from "./types";
+
+/**
+ * How a category counts toward the net balance: supply adds to it, consumption draws from it,
+ * and storage adds while discharging and draws while charging. Only the built-in Storage category
+ * uses "storage", since battery simulation is tied to Storage assets.
+ */
+export type BalanceRole = "supply" | "consumption" | "storage";
+
+export type EnergyCategory = {
+  name: EnergyType;
+  /** A #rrggbb colour; calendar chips, the legend and charts are tinted from it. */
+  color: string;
+  balance: BalanceRole;
+};
+
+/**
+ * Where a status sits in an event's life. Planned, active and completed events are committed
+ * and hold their asset; tentative ones are proposals; void ones (cancelled or failed) are left
+ * out of every total.
+ */
+export type StatusLifecycle = "tentative" | "planned" | "active" | "completed" | "void";
+
+export type StatusDefinition = {
+  name: EventStatus;
+  lifecycle: StatusLifecycle;
+};
+
+export type Taxonomy = {
+  categories: EnergyCategory[];
+  statuses: StatusDefinition[];
+};
+
+export const balanceRoles: BalanceRole[] = ["supply", "consumption", "storage"];
+
+export const statusLifecycles: StatusLifecycle[] = ["tentative", "planned", "active", "completed", "void"];
+
+/** Categories and statuses the app itself creates events with: they can be recoloured but not removed or redefined. */
+const builtInCategories: EnergyCategory[] = [
+  { name: "Demand", color: "#ff5757", balance: "consumption" },
+  { name: "Production", color: "#0eb677", balance: "supply" },
+  { name: "Storage", color: "#f6ad55", balance: "storage" },
+  { name: "Provision", color: "#2e80ff", balance: "supply" }
+];
+
+const builtInStatuses: StatusDefinition[] = [
+  { name: "Scheduled", lifecycle: "planned" },
+  { name: "Completed", lifecycle: "completed" },
+  { name: "Opportunity", lifecycle: "tentative" }
+];
+
+export const defaultTaxonomy: Taxonomy = {
+  categories: builtInCategories,
+  statuses: [
+    builtInStatuses[0],
+    { name: "In Progress", lifecycle: "active" },
+    builtInStatuses[1],
+    builtInStatuses[2],
+    { name: "Cancelled", lifecycle: "void" },
+    { name: "Failed", lifecycle: "void" }
+  ]
+};
+
+export const isBuiltInCategory = (name: string) => builtInCategories.some((category) => category.name === name);
+
+export const isBuiltInStatus = (name: string) => builtInStatuses.some((status) => status.name === name);
+
+export const categoryOf = (taxonomy: Taxonomy, type: EnergyType) =>
+  taxonomy.categories.find((category) => category.name === type);
+
+export const isEnergyType = (taxonomy: Taxonomy, value: unknown): value is EnergyType =>
+  typeof value === "string" && categoryOf(taxonomy, value) !== undefined;
+
+export const isEventStatus = (taxonomy: Taxonomy, value: unknown): value is EventStatus =>
+  typeof value === "string" && taxonomy.statuses.some((status) => status.name === value);
+
+/** Types missing from the taxonomy, e.g. in hand-edited data, count as consumption so they never inflate supply. */
+export const balanceOf = (taxonomy: Taxonomy, type: EnergyType): BalanceRole =>
+  categoryOf(taxonomy, type)?.balance ?? "consumption";
+
+export const lifecycleOf = (taxonomy: Taxonomy, status: EventStatus): StatusLifecycle =>
+  taxonomy.statuses.find((definition) => definition.name === status)?.lifecycle ?? "planned";
+
+/** +1 when the event adds to the net balance, -1 when it draws from it. */
+export const balanceSign = (taxonomy: Taxonomy, event: EnergyEvent) => {
+  const balance = balanceOf(taxonomy, event.type);
+  if (balance === "storage") {
+    return storageDirectionOf(event) === "discharge" ? 1 : -1;
+  }
+  return balance === "supply" ? 1 : -1;
+};
+
+export const typesWithBalance = (taxonomy: Taxonomy, balance: BalanceRole) =>
+  taxonomy.categories.filter((category) => category.balance === balance).map((category) => category.name);
+
+/** Loads the optimizer may reschedule; for storage only charging events count as a load. */
+export const isFlexibleType = (taxonomy: Taxonomy, type: EnergyType) => balanceOf(taxonomy, type) !== "supply";
+
+/** Void events (cancelled, failed) stay on the calendar but drop out of energy, cost and carbon totals. */
+export const countsTowardTotals = (taxonomy: Taxonomy, event: EnergyEvent) =>
+  lifecycleOf(taxonomy, event.status) !== "void";
+
+/** Whether the event holds its asset and grid capacity; tentative and void events do not. */
+export const isCommitted = (taxonomy: Taxonomy, event: EnergyEvent) => {
+  const lifecycle = lifecycleOf(taxonomy, event.status);
+  return lifecycle !== "tentative" && lifecycle !== "void";
+};
+
+/** The first status with the given lifecycle, e.g. to pick what "Mark completed" sets. */
+export const statusWithLifecycle = (taxonomy: Taxonomy, lifecycle: StatusLifecycle) =>
+  taxonomy.statuses.find((status) => status.lifecycle === lifecycle)?.name;
+
+/** Category and status names present in `previous` but gone from `next`. */
+export const removedFromTaxonomy = (previous: Taxonomy, next: Taxonomy) => ({
+  categories: previous.categories
+    .map((category) => category.name)
+    .filter((name) => categoryOf(next, name) === undefined),
+  statuses: previous.statuses
+    .map((status) => status.name)
+    .filter((name) => !next.statuses.some((status) => status.name === name))
+});
+
+const colorPattern = /^#[0-9a-f]{6}$/i;
+
+/** "All" is what the calendar's type filter uses for no filter. */
+const reservedNames = ["all"];
+
+const requireName = (value: unknown, label: string, seen: string[]): ParseResult<string> => {
+  if (typeof value !== "string" || !value.trim()) {
+    return { ok: false, error: `${label}.name is required.` };
+  }
+  const name = value.trim();
+  if (reservedNames.includes(name.toLowerCase())) {
+    return { ok: false, error: `${label}.name "${name}" is reserved.` };
+  }
+  if (seen.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+    return { ok: false, error: `${label}.name "${name}" is used twice.` };
+  }
+  return { ok: true, value: name };
+};
+
+export const parseTaxonomy = (payload: unknown): ParseResult<Taxonomy> => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Taxonomy must be a JSON object." };
+  }
+  const source = payload as Record<string, unknown>;
+  if (!Array.isArray(source.categories) || !Array.isArray(source.statuses)) {
+    return { ok: false, error: "categories and statuses must be arrays." };
+  }
+  const categories: EnergyCategory[] = [];
+  for (const [index, raw] of (source.categories as unknown[]).entries()) {
+    const category = (raw ?? {}) as Record<string, unknown>;
+    const label = `categories[${index}]`;
+    const name = requireName(
+      category.name,
+      label,
+      categories.map((existing) => existing.name)
+    );
+    if (!name.ok) {
+      return name;
+    }
+    if (typeof category.color !== "string" || !colorPattern.test(category.color)) {
+      return { ok: false, error: `${label}.color must be a #rrggbb colour.` };
+    }
+    if (!balanceRoles.includes(category.balance as BalanceRole)) {
+      return { ok: false, error: `${label}.balance must be one of ${balanceRoles.join(", ")}.` };
+    }
+    const builtIn = builtInCategories.find((entry) => entry.name === name.value);
+    if (builtIn && builtIn.balance !== category.balance) {
+      return { ok: false, error: `${name.value} is built in; its balance must stay ${builtIn.balance}.` };
+    }
+    if (!builtIn && category.balance === "storage") {
+      return {
+        ok: false,
+        error: `${label}.balance cannot be storage; only the built-in Storage category simulates a battery.`
+      };
+    }
+    categories.push({
+      name: name.value,
+      color: category.color.toLowerCase(),
+      balance: category.balance as BalanceRole
+    });
+  }
+  const statuses: StatusDefinition[] = [];
+  for (const [index, raw] of (source.statuses as unknown[]).entries()) {
+    const status = (raw ?? {}) as Record<string, unknown>;
+    const label = `statuses[${index}]`;
+    const name = requireName(
+      status.name,
+      label,
+      statuses.map((existing) => existing.name)
+    );
+    if (!name.ok) {
+      return name;
+    }
+    if (!statusLifecycles.includes(status.lifecycle as StatusLifecycle)) {
+      return { ok: false, error: `${label}.lifecycle must be one of ${statusLifecycles.join(", ")}.` };
+    }
+    const builtIn = builtInStatuses.find((entry) => entry.name === name.value);
+    if (builtIn && builtIn.lifecycle !== status.lifecycle) {
+      return { ok: false, error: `${name.value} is built in; its lifecycle must stay ${builtIn.lifecycle}.` };
+    }
+    statuses.push({ name: name.value, lifecycle: status.lifecycle as StatusLifecycle });
+  }
+  const missing = [
+    ...builtInCategories.filter((builtIn) => !categories.some((category) => category.name === builtIn.name)),
+    ...builtInStatuses.filter((builtIn) => !statuses.some((status) => status.name === builtIn.name))
+  ];
+  if (missing.length > 0) {
+    return { ok: false, error: `${missing[0].name} is built in and cannot be removed.` };
+  }
+  return { ok: true, value: { categories, statuses } };
+};
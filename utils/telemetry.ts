@@ -0,0 +1,228 @@
+import { isValid, parseISO } from "date-fns";
+import type { ParseResult } from "./events";
+import { findAsset, timeZoneOf } from "./sites";
+import type { SiteRegistry } from "./sites";
+import { storageDirectionOf } from "./storage";
+import { balanceOf, countsTowardTotals, defaultTaxonomy } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import { instantsOf } from "./timeZones";
+import type { EnergyEvent } from "./types";
+
+/**
+ * One power sample from an asset's meter or inverter: `kw` is the power at the instant `at` (ISO
+ * timestamp). Storage assets report discharging as positive and charging as negative.
+ */
+export type TelemetryReading = {
+  assetId: string;
+  at: string;
+  kw: number;
+};
+
+/** How far an in-flight event has got, measured against its asset's telemetry. */
+export type LiveProgress = {
+  deliveredKwh: number;
+  plannedKwh: number;
+  /** What the plan expects by now, assuming an even delivery across the window. */
+  expectedKwh: number;
+  /** Share of the event window already elapsed, from 0 to 1. */
+  elapsed: number;
+  /** The asset's latest reading, or null once it has gone quiet. */
+  currentKw: number | null;
+};
+
+export type LiveBalance = {
+  /** Net power right now: supply and discharging storage minus consumption and charging. */
+  netKw: number;
+  reportingAssets: number;
+  /** ISO timestamp of the newest reading counted, or null when no asset is reporting. */
+  updatedAt: string | null;
+};
+
+/** Readings older than this no longer describe what an asset is doing now. */
+export const staleAfterMs = 5 * 60_000;
+
+/** A reading holds until the next one, but never longer than this, so a dropped feed stops counting. */
+export const maxHoldMs = 15 * 60_000;
+
+/** The server keeps a day of readings, enough to cover any event still in flight. */
+export const retentionMs = 24 * 60 * 60_000;
+
+const maxReadingsPerRequest = 1000;
+
+/** Clocks on field devices drift; readings further ahead than this are refused. */
+const maxClockSkewMs = 60_000;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const isStorageAsset = (registry: SiteRegistry, assetId: string, taxonomy: Taxonomy) => {
+  const asset = findAsset(registry, assetId);
+  return asset !== null && balanceOf(taxonomy, asset.type) === "storage";
+};
+
+/** True while `now` lies between the event's start and end, its times read in `timeZone`. */
+export const isInFlight = (event: EnergyEvent, now: Date, timeZone: string) => {
+  const { start, end } = instantsOf(event, timeZone);
+  return start <= now.getTime() && now.getTime() < end;
+};
+
+/** +1 for everything except charging storage, whose readings are negative while it does what was planned. */
+const deliverySign = (event: EnergyEvent, taxonomy: Taxonomy) =>
+  balanceOf(taxonomy, event.type) === "storage" && storageDirectionOf(event) === "charge" ? -1 : 1;
+
+/**
+ * kWh delivered between `start` and `end` (epoch ms), holding each reading until the next one.
+ * Power flowing the wrong way for the event, e.g. a charging event's battery discharging, counts as zero.
+ */
+const integrate = (readings: TelemetryReading[], start: number, end: number, sign: number) => {
+  const points = readings
+    .map((reading) => ({ at: Date.parse(reading.at), kw: reading.kw * sign }))
+    .sort((a, b) => a.at - b.at);
+  return points.reduce((kwh, point, index) => {
+    const from = Math.max(point.at, start);
+    const until = Math.min(points[index + 1]?.at ?? end, point.at + maxHoldMs, end);
+    return until > from ? kwh + (Math.max(0, point.kw) * (until - from)) / 3_600_000 : kwh;
+  }, 0);
+};
+
+/** The latest reading per asset that is still fresh at `now`. */
+export const latestReadings = (readings: TelemetryReading[], now: Date) => {
+  const latest = new Map<string, TelemetryReading>();
+  readings.forEach((reading) => {
+    const at = Date.parse(reading.at);
+    if (at > now.getTime() || now.getTime() - at > staleAfterMs) {
+      return;
+    }
+    const known = latest.get(reading.assetId);
+    if (!known || reading.at > known.at) {
+      latest.set(reading.assetId, reading);
+    }
+  });
+  return latest;
+};
+
+/** Progress of an event on its asset's telemetry; null unless it is in flight and linked to an asset. */
+export const liveProgress = (
+  event: EnergyEvent,
+  readings: TelemetryReading[],
+  now: Date,
+  timeZone: string,
+  taxonomy: Taxonomy = defaultTaxonomy
+): LiveProgress | null => {
+  if (!event.assetId || !isInFlight(event, now, timeZone)) {
+    return null;
+  }
+  const { start, end } = instantsOf(event, timeZone);
+  const sign = deliverySign(event, taxonomy);
+  const assetReadings = readings.filter((reading) => reading.assetId === event.assetId);
+  const elapsed = (now.getTime() - start) / (end - start);
+  const current = latestReadings(assetReadings, now).get(event.assetId);
+  return {
+    deliveredKwh: round(integrate(assetReadings, start, now.getTime(), sign)),
+    plannedKwh: event.energyKwh,
+    expectedKwh: round(event.energyKwh * elapsed),
+    elapsed,
+    currentKw: current ? round(Math.max(0, current.kw * sign)) : null
+  };
+};
+
+/**
+ * The net power of the assets reporting right now, optionally for one site. Supply and
+ * consumption assets report positive kW; storage readings already carry their direction.
+ */
+export const liveNetBalance = (
+  readings: TelemetryReading[],
+  registry: SiteRegistry,
+  siteId: string | null,
+  now: Date,
+  taxonomy: Taxonomy = defaultTaxonomy
+): LiveBalance => {
+  let netKw = 0;
+  let reportingAssets = 0;
+  let updatedAt: string | null = null;
+  latestReadings(readings, now).forEach((reading) => {
+    const asset = findAsset(registry, reading.assetId);
+    if (!asset || (siteId !== null && asset.siteId !== siteId)) {
+      return;
+    }
+    netKw += balanceOf(taxonomy, asset.type) === "consumption" ? -reading.kw : reading.kw;
+    reportingAssets += 1;
+    updatedAt = updatedAt === null || reading.at > updatedAt ? reading.at : updatedAt;
+  });
+  return { netKw: round(netKw), reportingAssets, updatedAt };
+};
+
+/**
+ * Made-up readings for every registered asset at `now`, for demos and for testing the live view
+ * without field devices: assets running an in-flight event report its average power with some
+ * noise, idle assets report zero.
+ */
+export const simulateReadings = (
+  events: EnergyEvent[],
+  registry: SiteRegistry,
+  now: Date,
+  taxonomy: Taxonomy = defaultTaxonomy
+): TelemetryReading[] =>
+  registry.assets.map((asset) => {
+    const kw = events
+      .filter(
+        (event) =>
+          event.assetId === asset.id &&
+          countsTowardTotals(taxonomy, event) &&
+          isInFlight(event, now, timeZoneOf(event, registry))
+      )
+      .reduce((total, event) => {
+        const { start, end } = instantsOf(event, timeZoneOf(event, registry));
+        const hours = Math.max(end - start, 60_000) / 3_600_000;
+        return total + deliverySign(event, taxonomy) * (event.energyKwh / hours) * (0.85 + Math.random() * 0.25);
+      }, 0);
+    return { assetId: asset.id, at: now.toISOString(), kw: round(kw) };
+  });
+
+/**
+ * Validates pushed readings: a single reading or an array of them. `at` defaults to `now`; every
+ * asset must be in the registry, and only storage assets may report negative power.
+ */
+export const parseTelemetryReadings = (
+  payload: unknown,
+  registry: SiteRegistry,
+  now: Date,
+  taxonomy: Taxonomy = defaultTaxonomy
+): ParseResult<TelemetryReading[]> => {
+  const list = Array.isArray(payload) ? payload : [payload];
+  if (list.length === 0) {
+    return { ok: false, error: "readings must not be empty." };
+  }
+  if (list.length > maxReadingsPerRequest) {
+    return { ok: false, error: `Send at most ${maxReadingsPerRequest} readings per request.` };
+  }
+  const readings: TelemetryReading[] = [];
+  for (const [index, raw] of list.entries()) {
+    const source = (raw ?? {}) as Record<string, unknown>;
+    const label = `readings[${index}]`;
+    if (typeof source.assetId !== "string" || !findAsset(registry, source.assetId)) {
+      return { ok: false, error: `${label}.assetId must be a registered asset.` };
+    }
+    const kw = Number(source.kw);
+    if (source.kw === null || source.kw === "" || !Number.isFinite(kw)) {
+      return { ok: false, error: `${label}.kw must be a number.` };
+    }
+    if (kw < 0 && !isStorageAsset(registry, source.assetId, taxonomy)) {
+      return { ok: false, error: `${label}.kw can only be negative for storage assets.` };
+    }
+    let at = now;
+    if (source.at !== undefined) {
+      at = typeof source.at === "string" ? parseISO(source.at) : new Date(NaN);
+      if (!isValid(at)) {
+        return { ok: false, error: `${label}.at must be an ISO timestamp.` };
+      }
+      if (at.getTime() - now.getTime() > maxClockSkewMs) {
+        return { ok: false, error: `${label}.at is in the future.` };
+      }
+      if (now.getTime() - at.getTime() > retentionMs) {
+        return { ok: false, error: `${label}.at is more than a day old; import meter data instead.` };
+      }
+    }
+    readings.push({ assetId: source.assetId, at: at.toISOString(), kw });
+  }
+  return { ok: true, value: readings };
+};
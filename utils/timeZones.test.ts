@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  fromStoredEvent,
+  isSkippedTime,
+  pinInstants,
+  toStoredEvent,
+  utcToZoned,
+  withInstants,
+  zonedToUtc
+} from "./timeZones";
+import type { EnergyEvent } from "./types";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "event-1",
+  title: "Night charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "22:00",
+  endTime: "02:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 50,
+  ...overrides
+});
+
+const iso = (instant: number) => new Date(instant).toISOString();
+
+describe("zonedToUtc", () => {
+  it("reads wall-clock times in the given zone", () => {
+    assert.equal(iso(zonedToUtc("2024-06-03", "09:00", "Europe/Berlin")), "2024-06-03T07:00:00.000Z");
+    assert.equal(iso(zonedToUtc("2024-01-03", "09:00", "Europe/Berlin")), "2024-01-03T08:00:00.000Z");
+    assert.deepEqual(utcToZoned("2024-06-03T07:00:00.000Z", "America/New_York"), {
+      date: "2024-06-03",
+      time: "03:00"
+    });
+  });
+
+  it("moves skipped times forward and picks the first of repeated ones", () => {
+    assert.ok(isSkippedTime("2024-03-31", "02:30", "Europe/Berlin"));
+    assert.equal(iso(zonedToUtc("2024-03-31", "02:30", "Europe/Berlin")), "2024-03-31T01:30:00.000Z");
+    assert.ok(!isSkippedTime("2024-10-27", "02:30", "Europe/Berlin"));
+    assert.equal(iso(zonedToUtc("2024-10-27", "02:30", "Europe/Berlin")), "2024-10-27T00:30:00.000Z");
+  });
+});
+
+describe("stored events", () => {
+  it("keeps one-off events as UTC instants, across midnight", () => {
+    const stored = toStoredEvent(withInstants(event(), "Europe/Berlin"));
+    assert.equal(stored.startsAt, "2024-06-03T20:00:00.000Z");
+    assert.equal(stored.endsAt, "2024-06-04T00:00:00.000Z");
+    assert.equal(stored.date, undefined);
+    assert.deepEqual(fromStoredEvent(stored, "Europe/Berlin"), withInstants(event(), "Europe/Berlin"));
+  });
+
+  it("shows the same instants at the wall-clock times of a site's new zone", () => {
+    const stored = toStoredEvent(withInstants(event(), "Europe/Berlin"));
+    const moved = fromStoredEvent(stored, "Europe/London");
+    assert.deepEqual([moved.date, moved.startTime, moved.endTime], ["2024-06-03", "21:00", "01:00"]);
+    assert.equal(moved.startsAt, stored.startsAt);
+  });
+
+  it("keeps series as wall-clock rules without instants", () => {
+    const series = event({ recurrence: { frequency: "daily", interval: 1 }, startsAt: "x", endsAt: "y" });
+    const stored = toStoredEvent(withInstants(series, "Europe/Berlin"));
+    assert.equal(stored.startTime, "22:00");
+    assert.equal(stored.startsAt, undefined);
+    assert.deepEqual(fromStoredEvent(stored, "Europe/London"), stored);
+  });
+
+  it("gives events stored before they had instants their wall-clock times' instants", () => {
+    const legacy = fromStoredEvent(event(), "Europe/Berlin");
+    assert.equal(legacy.startTime, "22:00");
+    assert.equal(legacy.startsAt, "2024-06-03T20:00:00.000Z");
+  });
+
+  it("moves edited and untouched events alike when a site changes zone after pinning", () => {
+    const series = event({ id: "series", recurrence: { frequency: "daily", interval: 1 } });
+    const store = pinInstants(
+      [event(), event({ id: "event-2", startTime: "08:00", endTime: "09:00" }), series],
+      () => "Europe/Berlin"
+    );
+    assert.deepEqual(store[2], series);
+    // An edit rewrites one event's instants, in the zone the site still has.
+    const edited = { ...fromStoredEvent(store[0], "Europe/Berlin"), startTime: "21:00" };
+    const written = [toStoredEvent(withInstants(edited, "Europe/Berlin")), store[1]];
+    const [moved, untouched] = written.map((stored) => fromStoredEvent(stored, "Europe/London"));
+    assert.deepEqual([moved.startTime, moved.endTime], ["20:00", "01:00"]);
+    assert.deepEqual([untouched.startTime, untouched.endTime], ["07:00", "08:00"]);
+  });
+});
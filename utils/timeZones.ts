@@ -0,0 +1,181 @@
+import { endDateOf } from "./schedule";
+import type { EnergyEvent, StoredEvent } from "./types";
+
+/**
+ * The zone of whatever runtime does the maths; events at sites without a configured zone use it,
+ * which is how every event was read before sites had zones.
+ */
+export const runtimeTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The wall-clock date ("yyyy-MM-dd") and time ("HH:mm") in `timeZone` at an instant. */
+export const utcToZoned = (instant: number | string, timeZone: string) => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+/** Minutes `timeZone` is ahead of UTC at an instant. */
+export const offsetMinutes = (instant: number, timeZone: string) => {
+  const { date, time } = utcToZoned(instant, timeZone);
+  return Math.round((Date.parse(`${date}T${time}:00Z`) - Math.floor(instant / 60_000) * 60_000) / 60_000);
+};
+
+/**
+ * The instant (epoch milliseconds) of a wall-clock time in `timeZone`. A time skipped when the
+ * clocks go forward resolves to the instant it would have had with the old offset, i.e. it moves
+ * forward by the size of the jump; a repeated time when they go back resolves to its first occurrence.
+ */
+export const zonedToUtc = (date: string, time: string, timeZone: string) => {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const guess = wall - offsetMinutes(wall, timeZone) * 60_000;
+  const before = wall - offsetMinutes(guess - 60 * 60_000, timeZone) * 60_000;
+  const after = wall - offsetMinutes(guess, timeZone) * 60_000;
+  const matches = (instant: number) => {
+    const zoned = utcToZoned(instant, timeZone);
+    return zoned.date === date && zoned.time === time;
+  };
+  if (matches(before)) {
+    return before;
+  }
+  return matches(after) ? after : before;
+};
+
+export type OffsetTransition = { instant: number; offsetFrom: number; offsetTo: number };
+
+/** Each change of `timeZone`'s UTC offset between two instants, found to the minute. */
+export const offsetTransitions = (timeZone: string, from: number, to: number) => {
+  const day = 24 * 60 * 60_000;
+  const transitions: OffsetTransition[] = [];
+  let previous = offsetMinutes(from, timeZone);
+  for (let start = from; start < to; start += day) {
+    const end = Math.min(start + day, to);
+    const offset = offsetMinutes(end, timeZone);
+    if (offset === previous) {
+      continue;
+    }
+    let low = start;
+    let high = end;
+    while (high - low > 60_000) {
+      const middle = low + Math.floor((high - low) / 120_000) * 60_000;
+      if (offsetMinutes(middle, timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ instant: high, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+  return transitions;
+};
+
+/** True when the clocks skip over this wall-clock time, e.g. 02:30 on the day summer time starts. */
+export const isSkippedTime = (date: string, time: string, timeZone: string) => {
+  const zoned = utcToZoned(zonedToUtc(date, time, timeZone), timeZone);
+  return zoned.date !== date || zoned.time !== time;
+};
+
+/**
+ * The event's real start and end as epoch milliseconds, reading its wall-clock times in
+ * `timeZone`. Unlike `spanOf`, this is exact across daylight saving changes.
+ */
+export const instantsOf = (event: Pick<EnergyEvent, "date" | "startTime" | "endTime">, timeZone: string) => ({
+  start: zonedToUtc(event.date, event.startTime, timeZone),
+  end: zonedToUtc(endDateOf(event), event.endTime, timeZone)
+});
+
+/** An event's wall-clock start and end in `timeZone` as UTC `startsAt` and `endsAt`. */
+export const utcInstantsOf = (
+  event: Pick<EnergyEvent, "date" | "startTime" | "endTime">,
+  timeZone: string
+): Pick<EnergyEvent, "startsAt" | "endsAt"> => {
+  const { start, end } = instantsOf(event, timeZone);
+  return { startsAt: new Date(start).toISOString(), endsAt: new Date(end).toISOString() };
+};
+
+/** The wall-clock fields of UTC instants in `timeZone`. */
+export const wallClockOf = (startsAt: string, endsAt: string, timeZone: string) => {
+  const start = utcToZoned(startsAt, timeZone);
+  return { date: start.date, startTime: start.time, endTime: utcToZoned(endsAt, timeZone).time };
+};
+
+/**
+ * Gives an edited event the UTC instants it is stored as. Series keep only their wall-clock
+ * rules, which hold in the site's zone across daylight saving changes like an iCalendar RRULE.
+ */
+export const withInstants = (event: EnergyEvent, timeZone: string): EnergyEvent => {
+  if (!event.recurrence) {
+    return { ...event, ...utcInstantsOf(event, timeZone) };
+  }
+  const { startsAt: _startsAt, endsAt: _endsAt, ...series } = event;
+  return series;
+};
+
+/** One-off events are stored as their UTC instants alone, so no stale wall-clock copy is kept. */
+export const toStoredEvent = (event: EnergyEvent): StoredEvent => {
+  if (event.recurrence || !event.startsAt || !event.endsAt) {
+    return event;
+  }
+  const { date: _date, startTime: _startTime, endTime: _endTime, ...stored } = event;
+  return stored;
+};
+
+/**
+ * Reads a stored event in its site's `timeZone`: a one-off event's wall-clock fields follow from its
+ * UTC instants, so a site changing zone moves them without rewriting anything. Events stored
+ * before they had instants get them from their wall-clock fields; see `pinInstants`.
+ */
+export const fromStoredEvent = (stored: StoredEvent, timeZone: string): EnergyEvent => {
+  if (!stored.recurrence && stored.startsAt && stored.endsAt) {
+    return { ...stored, ...wallClockOf(stored.startsAt, stored.endsAt, timeZone) };
+  }
+  return withInstants(stored as EnergyEvent, timeZone);
+};
+
+/** A one-off event stored before events had UTC instants, such as the demo seed or a store from before sites had zones. */
+export const isUnpinned = (stored: StoredEvent) => !stored.recurrence && !(stored.startsAt && stored.endsAt);
+
+/**
+ * Stores every one-off event as its UTC instants, reading unpinned ones in their site's zone.
+ * Done once over a whole store, it means a site changing zone later moves all of its one-off
+ * events alike, rather than only those written since events had instants.
+ */
+export const pinInstants = (stored: StoredEvent[], timeZoneOf: (event: StoredEvent) => string) =>
+  stored.map((event) => (isUnpinned(event) ? toStoredEvent(fromStoredEvent(event, timeZoneOf(event))) : event));
+
+/** Short zone labels such as "GMT+2" or "EST" for showing next to times. */
+export const zoneAbbreviation = (timeZone: string, at: Date, locale?: string) =>
+  new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find((part) => part.type === "timeZoneName")?.value ?? timeZone;
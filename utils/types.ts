@@ -0,0 +1,134 @@
+import type { EventFilter } from "./filters";
+
+/** The categories every taxonomy keeps; admins can add their own alongside them (see utils/taxonomy.ts). */
+export type BuiltInEnergyType = "Demand" | "Production" | "Storage" | "Provision";
+
+/** A category name from the taxonomy, built in or admin-defined such as "Curtailment". */
+export type EnergyType = string;
+
+export type BuiltInEventStatus = "Scheduled" | "Completed" | "Opportunity";
+
+/** A status name from the taxonomy; what it means for totals and scheduling comes from its lifecycle. */
+export type EventStatus = string;
+
+export type StorageDirection = "charge" | "discharge";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * An RRULE-style schedule anchored on the event's `date`. `byWeekday` uses 0 = Sunday and
+ * restricts daily or weekly rules to those days; `exceptions` lists skipped occurrence dates.
+ */
+export type Recurrence = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  until?: string;
+  count?: number;
+  exceptions?: string[];
+};
+
+/**
+ * Where the optimizer may move a flexible load: any start between `earliestStart` and the
+ * latest start that still ends by `latestEnd` (an earlier `latestEnd` means an overnight window),
+ * on the event's own date or up to `dayRange` days either side.
+ */
+export type Flexibility = {
+  earliestStart: string;
+  latestEnd: string;
+  dayRange: number;
+};
+
+/** A flexible load or storage dispatch signed up to cut `committedKw` of grid load during a demand response window. */
+export type DemandResponseEnrollment = {
+  windowId: string;
+  committedKw: number;
+};
+
+/** The spread around a forecast event's `energyKwh`: an 80% band learned from past output. */
+export type ForecastBand = {
+  lowKwh: number;
+  highKwh: number;
+  /** How many completed events the forecast was learned from. */
+  samples: number;
+  /** Weather adjustment applied to the historical average; 1 when no weather data covered the day. */
+  weatherFactor: number;
+};
+
+export type EnergyEvent = {
+  id: string;
+  title: string;
+  type: EnergyType;
+  /** Wall-clock date and times in the zone of the event's site. */
+  date: string;
+  startTime: string;
+  endTime: string;
+  /**
+   * The same start and end as UTC instants (ISO 8601). For one-off events these are what the
+   * server stores, and the wall-clock fields above are derived from them in the site's current
+   * zone. Series have none, as their rules are wall-clock times in the site's zone.
+   */
+  startsAt?: string;
+  endsAt?: string;
+  energyKwh: number;
+  /** Metered energy once the event has been reconciled against interval data; `energyKwh` stays the plan. */
+  actualKwh?: number;
+  status: EventStatus;
+  efficiencyScore: number;
+  notes?: string;
+  recurrence?: Recurrence;
+  flexibility?: Flexibility;
+  /** Storage events only: whether energy flows into the asset or out of it. */
+  storageDirection?: StorageDirection;
+  /** The registry asset the event runs on, which also places it at a site. */
+  assetId?: string;
+  demandResponse?: DemandResponseEnrollment;
+  /** Set on Opportunity events generated by the production forecast. */
+  forecast?: ForecastBand;
+  /** Set on events an automation rule created, so the rule never creates the same one twice. */
+  automationRuleId?: string;
+  /**
+   * Usernames of whoever created the event and last changed it ("automation" for rule effects).
+   * The server sets both; events stored before accounts existed have neither.
+   */
+  createdBy?: string;
+  updatedBy?: string;
+  /** Set on occurrences of a recurring event: the series id they were expanded or detached from. */
+  seriesId?: string;
+  /** Only set on occurrences expanded on the fly; such events are not stored themselves. */
+  occurrenceDate?: string;
+};
+
+/** An event as the server persists it: one-off events without their wall-clock fields. */
+export type StoredEvent = Omit<EnergyEvent, "date" | "startTime" | "endTime"> &
+  Partial<Pick<EnergyEvent, "date" | "startTime" | "endTime">>;
+
+export type EnergyEventInput = Omit<
+  EnergyEvent,
+  "id" | "efficiencyScore" | "occurrenceDate" | "createdBy" | "updatedBy" | "startsAt" | "endsAt"
+> & {
+  efficiencyScore?: number;
+};
+
+/** A partial update; `null` clears an optional rule, e.g. `recurrence: null` turns a series back into a one-off event. */
+export type EnergyEventChanges = Partial<Omit<EnergyEventInput, "recurrence" | "flexibility" | "demandResponse">> & {
+  recurrence?: Recurrence | null;
+  flexibility?: Flexibility | null;
+  demandResponse?: DemandResponseEnrollment | null;
+};
+
+export type EventQuery = {
+  month?: string;
+  /** Only events matching every criterion; see utils/filters.ts. */
+  filter?: EventFilter;
+  /** With a month set, return recurring events as their individual occurrences in that month. */
+  expand?: boolean;
+};
+
+export const builtInEnergyTypes: BuiltInEnergyType[] = ["Demand", "Production", "Storage", "Provision"];
+
+export const builtInEventStatuses: BuiltInEventStatus[] = ["Scheduled", "Completed", "Opportunity"];
+
+export const storageDirections: StorageDirection[] = ["charge", "discharge"];
+
+export const recurrenceFrequencies: RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultSiteRegistry } from "./sites";
+import type { EnergyEvent } from "./types";
+import { findScheduleConflicts, hasBlockingIssues, validateEvent } from "./validation";
+
+const event = (overrides: Partial<EnergyEvent> = {}): EnergyEvent => ({
+  id: "charging",
+  title: "Fleet charging",
+  type: "Demand",
+  date: "2024-06-03",
+  startTime: "18:00",
+  endTime: "19:00",
+  energyKwh: 100,
+  status: "Scheduled",
+  efficiencyScore: 50,
+  assetId: "ev-fleet",
+  ...overrides
+});
+
+const messages = (candidate: EnergyEvent, events: EnergyEvent[] = []) =>
+  validateEvent(candidate, events, defaultSiteRegistry).map((issue) => `${issue.severity}: ${issue.message}`);
+
+describe("validateEvent", () => {
+  it("rejects events that end when they start and warns about overnight ones", () => {
+    assert.deepEqual(messages(event({ endTime: "18:00" })), ["error: End time must differ from the start time."]);
+    assert.deepEqual(messages(event({ startTime: "23:00", endTime: "01:00" })), [
+      "warning: Runs overnight and ends at 01:00 the next day."
+    ]);
+  });
+
+  it("blocks loads above the asset rating unless they are already completed", () => {
+    const heavy = event({ energyKwh: 200 });
+    assert.ok(hasBlockingIssues(validateEvent(heavy, [], defaultSiteRegistry)));
+    assert.ok(!hasBlockingIssues(validateEvent({ ...heavy, status: "Completed" }, [], defaultSiteRegistry)));
+  });
+
+  it("blocks double-booking an asset but not the event's own saved copy or series", () => {
+    const booked = event({ id: "booked", title: "Depot top-up", startTime: "18:30", endTime: "20:00" });
+    assert.deepEqual(messages(event(), [booked]), [
+      "error: EV Fleet Chargers is already booked for Depot top-up (18:30–20:00)."
+    ]);
+    assert.deepEqual(messages(event({ id: "booked" }), [booked]), []);
+    const series = { ...booked, recurrence: { frequency: "daily" as const, interval: 1 } };
+    assert.deepEqual(messages(event({ id: "booked", date: "2024-06-05" }), [series]), []);
+  });
+
+  it("lets tentative events overlap, as they book nothing", () => {
+    const booked = event({ id: "booked" });
+    assert.deepEqual(messages(event({ status: "Opportunity" }), [booked]), []);
+  });
+
+  it("checks a site's import limit against its net flow", () => {
+    const dataCenter = event({ id: "data-center", title: "Servers", assetId: "data-center", energyKwh: 200 });
+    const charge = event({ id: "charge", type: "Storage", storageDirection: "charge", assetId: "battery-1" });
+    assert.deepEqual(messages(charge, [dataCenter, event()]), []);
+    const boost = { ...charge, energyKwh: 120 };
+    assert.deepEqual(messages(boost, [dataCenter, event()]), [
+      "error: North Campus import would reach 420 kW at 18:00 on 3 Jun, over its 400 kW limit."
+    ]);
+    const solar = event({ id: "solar", type: "Production", assetId: "solar-array", energyKwh: 200 });
+    assert.deepEqual(messages(boost, [dataCenter, event(), solar]), []);
+  });
+
+  it("warns about wall-clock times the clocks skip", () => {
+    assert.deepEqual(messages(event({ date: "2024-03-10", startTime: "02:30", endTime: "04:00" })), [
+      "warning: 02:30 does not exist on 2024-03-10 in America/New_York as the clocks go forward; " +
+        "it falls at 03:30 instead."
+    ]);
+  });
+});
+
+describe("findScheduleConflicts", () => {
+  it("reports double bookings on the date of the later event", () => {
+    const conflicts = findScheduleConflicts(
+      [event(), event({ id: "late", title: "Late top-up", startTime: "18:45", endTime: "19:30" })],
+      defaultSiteRegistry
+    );
+    assert.deepEqual(Array.from(conflicts.entries()), [
+      ["2024-06-03", ["Fleet charging and Late top-up both use EV Fleet Chargers"]]
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { addDays, format, parseISO } from "date-fns";
+import { dateLocales, translate, translatorFor } from "./i18n";
+import { defaultPreferences, formatPower } from "./preferences";
+import type { Preferences } from "./preferences";
+import { hourlySlices } from "./profile";
+import { expandRecurrences } from "./recurrence";
+import { durationMinutes, endDateOf, spanOf, toMinutes } from "./schedule";
+import { findAsset, siteIdOf, timeZoneOf } from "./sites";
+import type { Site, SiteRegistry } from "./sites";
+import { tariffSide } from "./tariff";
+import { defaultTaxonomy, isCommitted, lifecycleOf } from "./taxonomy";
+import type { Taxonomy } from "./taxonomy";
+import { isSkippedTime, utcToZoned, zonedToUtc } from "./timeZones";
+import type { EnergyEvent } from "./types";
+
+export type ScheduleIssueSeverity = "error" | "warning";
+
+/** Errors block saving; warnings are shown but the event can still be scheduled. */
+export type ScheduleIssue = {
+  severity: ScheduleIssueSeverity;
+  /** The form field the issue is shown under. */
+  field: "endTime" | "energyKwh" | "assetId" | "flexLatest";
+  message: string;
+};
+
+const overlaps = (a: EnergyEvent, b: EnergyEvent) => {
+  const first = spanOf(a);
+  const second = spanOf(b);
+  return first.start < second.end && second.start < first.end;
+};
+
+/**
+ * Net grid flow (kW) for each hour a site's events touch, keyed `yyyy-MM-ddTHH`. Imports are
+ * positive and exports negative, so Production on site offsets Demand in the same hour.
+ */
+const siteFlows = (events: EnergyEvent[], registry: SiteRegistry, siteId: string, taxonomy: Taxonomy) => {
+  const flows = new Map<string, number>();
+  for (const event of events) {
+    if (!isCommitted(taxonomy, event) || siteIdOf(event, registry) !== siteId) {
+      continue;
+    }
+    const sign = tariffSide(event, taxonomy) === "import" ? 1 : -1;
+    for (const slice of hourlySlices(event)) {
+      const key = `${slice.date}T${String(slice.hour).padStart(2, "0")}`;
+      flows.set(key, (flows.get(key) ?? 0) + sign * slice.kwh);
+    }
+  }
+  return flows;
+};
+
+type LimitBreach = { key: string; direction: "import" | "export"; kw: number; limitKw: number };
+
+/** The worst hour over each of the site's limits among `keys`, if any. */
+const limitBreaches = (flows: Map<string, number>, site: Site, keys: string[]): LimitBreach[] => {
+  const breaches: LimitBreach[] = [];
+  const worst = (pick: (flow: number) => number) =>
+    keys.reduce<{ key: string; kw: number } | null>((best, key) => {
+      const kw = pick(flows.get(key) ?? 0);
+      return kw > (best?.kw ?? 0) ? { key, kw } : best;
+    }, null);
+  const peakImport = worst((flow) => flow);
+  if (site.importLimitKw !== undefined && peakImport && peakImport.kw > site.importLimitKw + 1e-6) {
+    breaches.push({ ...peakImport, direction: "import", limitKw: site.importLimitKw });
+  }
+  const peakExport = worst((flow) => -flow);
+  if (site.exportLimitKw !== undefined && peakExport && peakExport.kw > site.exportLimitKw + 1e-6) {
+    breaches.push({ ...peakExport, direction: "export", limitKw: site.exportLimitKw });
+  }
+  return breaches;
+};
+
+const describeBreach = (site: Site, breach: LimitBreach, preferences: Preferences) => {
+  const [date, hour] = breach.key.split("T");
+  return translate(preferences.locale, breach.direction === "import" ? "importWouldReach" : "exportWouldReach", {
+    site: site.name,
+    power: formatPower(breach.kw, preferences),
+    hour,
+    date: format(parseISO(date), "d MMM", { locale: dateLocales[preferences.locale] }),
+    limit: formatPower(breach.limitKw, preferences)
+  });
+};
+
+/**
+ * Checks an event about to be saved against the rest of the schedule. `events` are the stored
+ * events, recurring series included; `candidate.id` (or its series) is skipped so an edited event
+ * is not compared with its own saved copy. A new recurring event is checked on its first date.
+ * Tentative and void events (see the taxonomy) book nothing, so only their own limits are checked.
+ * Messages are in the `preferences` locale and units, English by default as the API reports them.
+ */
+export const validateEvent = (
+  candidate: EnergyEvent,
+  events: EnergyEvent[],
+  registry: SiteRegistry,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  preferences: Preferences = defaultPreferences
+) => {
+  const { t } = translatorFor(preferences.locale);
+  const power = (kw: number) => formatPower(kw, preferences);
+  const issues: ScheduleIssue[] = [];
+  const minutes = durationMinutes(candidate.startTime, candidate.endTime);
+  if (minutes === 0) {
+    issues.push({ severity: "error", field: "endTime", message: t("endEqualsStart") });
+    return issues;
+  }
+  if (toMinutes(candidate.endTime) < toMinutes(candidate.startTime)) {
+    issues.push({ severity: "warning", field: "endTime", message: t("runsOvernight", { time: candidate.endTime }) });
+  }
+  const timeZone = timeZoneOf(candidate, registry);
+  const skipped = [
+    { date: candidate.date, time: candidate.startTime },
+    { date: endDateOf(candidate), time: candidate.endTime }
+  ].find(({ date, time }) => isSkippedTime(date, time, timeZone));
+  if (skipped) {
+    issues.push({
+      severity: "warning",
+      field: "endTime",
+      message: t("skippedTime", {
+        time: skipped.time,
+        date: skipped.date,
+        zone: timeZone,
+        actual: utcToZoned(zonedToUtc(skipped.date, skipped.time, timeZone), timeZone).time
+      })
+    });
+  }
+  const flexibility = candidate.flexibility;
+  if (flexibility && durationMinutes(flexibility.earliestStart, flexibility.latestEnd) < minutes) {
+    issues.push({
+      severity: "error",
+      field: "flexLatest",
+      message: t("flexWindowTooShort")
+    });
+  }
+
+  // Completed events are history: conflicts are still reported but should not stop notes or actuals being saved.
+  const severity: ScheduleIssueSeverity = lifecycleOf(taxonomy, candidate.status) === "completed" ? "warning" : "error";
+  const asset = findAsset(registry, candidate.assetId);
+  const averageKw = candidate.energyKwh / (minutes / 60);
+  if (asset && averageKw > asset.ratedKw + 1e-6) {
+    issues.push({
+      severity,
+      field: "energyKwh",
+      message: t("aboveRating", { power: power(averageKw), rating: power(asset.ratedKw), asset: asset.name })
+    });
+  }
+  if (!isCommitted(taxonomy, candidate)) {
+    return issues;
+  }
+
+  const nextDay = format(addDays(parseISO(candidate.date), 1), "yyyy-MM-dd");
+  const previousDay = format(addDays(parseISO(candidate.date), -1), "yyyy-MM-dd");
+  const others = expandRecurrences(events, previousDay, nextDay).filter(
+    (event) => event.id !== candidate.id && event.seriesId !== candidate.id && isCommitted(taxonomy, event)
+  );
+  if (asset) {
+    for (const other of others) {
+      if (other.assetId === asset.id && overlaps(candidate, other)) {
+        issues.push({
+          severity,
+          field: "assetId",
+          message: t("alreadyBooked", {
+            asset: asset.name,
+            title: other.title,
+            start: other.startTime,
+            end: other.endTime
+          })
+        });
+      }
+    }
+  }
+
+  const siteId = siteIdOf(candidate, registry);
+  const site = registry.sites.find((entry) => entry.id === siteId);
+  if (site) {
+    const flows = siteFlows([...others, candidate], registry, site.id, taxonomy);
+    const keys = hourlySlices(candidate).map((slice) => `${slice.date}T${String(slice.hour).padStart(2, "0")}`);
+    for (const breach of limitBreaches(flows, site, keys)) {
+      issues.push({ severity, field: "energyKwh", message: describeBreach(site, breach, preferences) });
+    }
+  }
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ScheduleIssue[]) => issues.some((issue) => issue.severity === "error");
+
+/**
+ * Conflicts already in a schedule, keyed by the date they start on: events double-booking an
+ * asset and hours where a site exceeds its grid limits. Pass expanded occurrences.
+ */
+export const findScheduleConflicts = (
+  events: EnergyEvent[],
+  registry: SiteRegistry,
+  taxonomy: Taxonomy = defaultTaxonomy,
+  preferences: Preferences = defaultPreferences
+) => {
+  const { t } = translatorFor(preferences.locale);
+  const power = (kw: number) => formatPower(kw, preferences);
+  const conflicts = new Map<string, string[]>();
+  const add = (date: string, message: string) => conflicts.set(date, [...(conflicts.get(date) ?? []), message]);
+
+  const committed = events.filter((event) => isCommitted(taxonomy, event));
+  for (const asset of registry.assets) {
+    const booked = committed
+      .filter((event) => event.assetId === asset.id)
+      .sort((a, b) => spanOf(a).start - spanOf(b).start);
+    booked.forEach((event, index) => {
+      for (const later of booked.slice(index + 1)) {
+        if (overlaps(event, later)) {
+          add(later.date, t("bothUse", { first: event.title, second: later.title, asset: asset.name }));
+        }
+      }
+    });
+  }
+
+  for (const site of registry.sites) {
+    if (site.importLimitKw === undefined && site.exportLimitKw === undefined) {
+      continue;
+    }
+    const flows = siteFlows(committed, registry, site.id, taxonomy);
+    const byDate = new Map<string, string[]>();
+    for (const key of Array.from(flows.keys())) {
+      const date = key.slice(0, 10);
+      byDate.set(date, [...(byDate.get(date) ?? []), key]);
+    }
+    byDate.forEach((keys, date) => {
+      for (const breach of limitBreaches(flows, site, keys)) {
+        add(
+          date,
+          t(breach.direction === "import" ? "importPeaksAt" : "exportPeaksAt", {
+            site: site.name,
+            power: power(breach.kw),
+            limit: power(breach.limitKw)
+          })
+        );
+      }
+    });
+  }
+  return conflicts;
+};